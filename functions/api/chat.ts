@@ -2,12 +2,14 @@
 // 处理聊天对话请求
 import { chatAgent } from '../../src/mastra/agents/chat-agent';
 import { MESSAGES } from '../../src/constants/messages';
+import { localeInfo, resolveLocale, type LocaleCode } from '../../src/constants/locales';
+import { createLocaleContext } from '../../src/utils/language';
 
 type ChatInput = {
   message: string;
   threadId?: string;
   model?: string;
-  language?: 'zh-CN' | 'en-US';
+  language?: LocaleCode;
 };
 
 // CORS headers
@@ -21,16 +23,8 @@ async function handleChat(input: ChatInput) {
   try {
     const threadId = input.threadId || `thread-${Date.now()}`;
 
-    // Prepare language instruction based on input.language
-    let languageInstruction = '';
-    if (input.language === 'en-US') {
-      languageInstruction = '\n\n**Language preference: English (en-US). You MUST respond entirely in English.**';
-    } else if (input.language === 'zh-CN') {
-      languageInstruction = '\n\n**语言偏好：简体中文 (zh-CN)。你必须完全用中文回答。**';
-    } else {
-      // Default to Chinese if no language specified
-      languageInstruction = '\n\n**语言偏好：简体中文 (zh-CN)。你必须完全用中文回答。**';
-    }
+    // Prepare language instruction based on input.language (defaults to Chinese, see constants/locales.ts)
+    const languageInstruction = `\n\n**${localeInfo(input.language).instruction}**`;
 
     // Combine user message with language instruction
     const messageWithLanguage = input.message + languageInstruction;
@@ -39,10 +33,11 @@ async function handleChat(input: ChatInput) {
     const modelToUse = input.model || 'gpt-4o-mini';
     const modelId = modelToUse.startsWith('openai/') ? modelToUse : `openai/${modelToUse}`;
 
-    // 调用 chat agent
+    // 调用 chat agent（请求语言通过 RuntimeContext 传给动态指令与 recipeTool）
     const response = await chatAgent.generate(messageWithLanguage, {
       threadId,
       resourceId: modelId,
+      runtimeContext: createLocaleContext(input.language),
     });
 
     return {
@@ -73,7 +68,7 @@ export const onRequest = async ({ request }: { request: Request }) => {
   try {
     if (request.method !== 'POST') {
       return new Response(
-        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED }),
+        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED() }),
         {
           status: 405,
           headers: {
@@ -85,19 +80,16 @@ export const onRequest = async ({ request }: { request: Request }) => {
     }
 
     const body = await request.json().catch(() => ({}));
-    const language = body.language as 'zh-CN' | 'en-US' | undefined;
     const chatInput: ChatInput = {
       message: body.message || '',
       threadId: body.threadId,
       model: body.model,
-      language: language === 'zh-CN' || language === 'en-US' ? language : undefined,
+      language: resolveLocale(body.language),
     };
 
     if (!chatInput.message) {
-      const isChinese = !chatInput.language || chatInput.language === 'zh-CN';
-      const errorMsg = isChinese ? '消息不能为空' : 'Message cannot be empty';
       return new Response(
-        JSON.stringify({ error: errorMsg }),
+        JSON.stringify({ error: MESSAGES.VALIDATION_ERROR.EMPTY_MESSAGE(chatInput.language) }),
         {
           status: 400,
           headers: {
@@ -122,7 +114,7 @@ export const onRequest = async ({ request }: { request: Request }) => {
   } catch (err: any) {
     console.error('Chat API error:', err);
     return new Response(
-      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL }),
+      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL() }),
       {
         status: 500,
         headers: {
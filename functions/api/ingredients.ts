@@ -0,0 +1,60 @@
+// Cloudflare Pages Function：提供 /api/ingredients 接口（仅 GET）
+// 说明：
+// - 返回当前数据源的全部食材（TheMealDB list.php?i=list 或当前启用的数据源，含缩略图与说明），按 language 本地化显示名称（食材名优先查内置词表），说明只保留首句并翻译
+// - 每个条目的 name 可直接作为 /api/recipes 的 ingredients 参数，label 为显示名称
+// - 结果按天缓存（绑定 KV 时跨实例共享），见 src/utils/reference.ts
+import { MESSAGES } from '../../src/constants/messages';
+import { DEFAULT_LOCALE, resolveLocale } from '../../src/constants/locales';
+import { getReferenceData } from '../../src/utils/reference';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from '../../src/utils/translation-cache';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequest = async ({ request, env }: { request: Request; env?: { TRANSLATION_CACHE?: KVNamespaceLike } }) => {
+  // 绑定了 KV 时，翻译结果与参考数据跨请求共享
+  if (env?.TRANSLATION_CACHE) {
+    setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+  }
+
+  // 处理 OPTIONS 请求 (CORS preflight)
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const language = resolveLocale(new URL(request.url).searchParams.get('language')) ?? DEFAULT_LOCALE;
+
+  try {
+    if (request.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+        { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    const ingredients = await getReferenceData('ingredient', language);
+    return new Response(
+      JSON.stringify({ ingredients, language }),
+      {
+        status: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8', 'cache-control': 'public, max-age=3600', ...corsHeaders },
+      },
+    );
+  } catch (err: any) {
+    console.error('Ingredients API error:', err);
+    return new Response(
+      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL(language) }),
+      {
+        status: 500,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  }
+};
@@ -0,0 +1,82 @@
+// Cloudflare Pages Function：提供 /api/meal-plan 接口（仅 POST）
+// 说明：
+// - 请求体：{ dietary, excludeAllergens, exclude, timeBudget: 30 | { mon: 30, sat: 90 }, servings, cuisines: ["Chinese", "Italian"], leftovers, pantry, units, language }
+// - 运行 meal-plan 工作流：按偏好排出周一至周日的早餐 / 午餐 / 晚餐，不重复菜品、相邻两天不重复主要蛋白质、工作日午餐沿用炖菜剩菜，见 src/utils/meal-plan.ts
+// - 返回每天每餐的菜谱（菜谱 ID 可用于 /api/recipes/:id）与整周的合并购物清单（结构同 /api/shopping-list）
+// - 不调用 LLM；非中英文请求的菜名与购物清单经 Translator 翻译
+import { MESSAGES } from '../../src/constants/messages';
+import { DEFAULT_LOCALE, resolveLocale } from '../../src/constants/locales';
+import { createLocaleContext } from '../../src/utils/language';
+import { mealPlanWorkflow } from '../../src/mastra/workflows/meal-plan';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from '../../src/utils/translation-cache';
+import { parseServings, parseTimeBudget, parseList, parseUnits, parseWeekBudget } from '../../src/utils/params';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequest = async ({ request, env }: { request: Request; env?: { TRANSLATION_CACHE?: KVNamespaceLike } }) => {
+  // 绑定了 KV 时，翻译结果跨请求共享
+  if (env?.TRANSLATION_CACHE) {
+    setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+  }
+
+  // 处理 OPTIONS 请求 (CORS preflight)
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const body = request.method === 'POST' ? await request.json().catch(() => ({})) : {};
+  const language = resolveLocale(body.language) ?? DEFAULT_LOCALE;
+
+  try {
+    if (request.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+        { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    const run = await mealPlanWorkflow.createRunAsync();
+    const result: any = await run.start({
+      inputData: {
+        dietary: parseList(body.dietary),
+        excludeAllergens: parseList(body.excludeAllergens),
+        exclude: parseList(body.exclude),
+        timeBudget: parseWeekBudget(body.timeBudget),
+        servings: parseServings(body.servings),
+        cuisines: parseList(body.cuisines)?.slice(0, 7),
+        leftovers: typeof body.leftovers === 'boolean' ? body.leftovers : undefined,
+        pantry: parseList(body.pantry),
+        units: parseUnits(body.units),
+        language,
+      },
+      runtimeContext: createLocaleContext(language),
+    });
+    if (result?.status !== 'success') {
+      throw new Error(result?.error?.message || MESSAGES.ERROR.INTERNAL(language));
+    }
+    return new Response(
+      JSON.stringify(result.result),
+      {
+        status: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  } catch (err: any) {
+    console.error('Meal plan API error:', err);
+    return new Response(
+      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL(language) }),
+      {
+        status: 500,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  }
+};
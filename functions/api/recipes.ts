@@ -6,28 +6,52 @@
 // - 支持中文输入自动翻译和 CORS
 import { recipeTool } from '../../src/mastra/tools/recipe-tool';
 import { MESSAGES } from '../../src/constants/messages';
-import type { Recipe } from '../../src/types';
+import type { Recipe, UnitSystem } from '../../src/types';
+import { DEFAULT_LOCALE, localeInfo, resolveLocale, type LocaleCode } from '../../src/constants/locales';
+import { createLocaleContext } from '../../src/utils/language';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from '../../src/utils/translation-cache';
+import { parseServings, parseTimeBudget, parseSpice, parseList, parseUnits } from '../../src/utils/params';
 
 type RecipeInput = {
   ingredients?: string;
   category?: string;
   cuisine?: string;
+  match?: 'all' | 'any';
   limit?: number;
   model?: string;
-  language?: 'zh-CN' | 'en-US';
+  language?: LocaleCode;
+  servings?: number;
+  units?: UnitSystem;
+  timeBudget?: number;
+  equipment?: string[];
+  taste?: string;
+  minSpice?: number;
+  maxSpice?: number;
+  dietary?: string[];
+  excludeAllergens?: string[];
+  exclude?: string[];
+  query?: string;
 };
 
 type FrontendInput = {
   ingredients?: string;
   category?: string;
   cuisine?: string;
+  match?: 'all' | 'any';
   taste?: string;
+  minSpice?: number;
+  maxSpice?: number;
+  dietary?: string[];
+  excludeAllergens?: string[];
+  exclude?: string[];
+  query?: string; // 菜名（允许拼写错误与拼音）
   timeBudget?: number;
   servings?: number;
   equipment?: string[];
   limit?: number;
   model?: string;
-  language?: 'zh-CN' | 'en-US';
+  language?: LocaleCode;
+  units?: UnitSystem; // 用量单位制：metric（克/毫升）/ imperial（盎司/磅/杯），默认按语言选择
 };
 
 function normalizeChinese(input: FrontendInput): { normalized: RecipeInput; meta: Record<string, any> } {
@@ -59,9 +83,21 @@ function normalizeChinese(input: FrontendInput): { normalized: RecipeInput; meta
     ingredients: normalizedIngredients,
     category: normalizedCategory,
     cuisine: normalizedCuisine,
+    match: input.match,
     limit,
     model: input.model,
     language: input.language,
+    servings: input.servings,
+    units: input.units,
+    timeBudget: input.timeBudget,
+    equipment: input.equipment,
+    taste: input.taste,
+    minSpice: input.minSpice,
+    maxSpice: input.maxSpice,
+    dietary: input.dietary,
+    excludeAllergens: input.excludeAllergens,
+    exclude: input.exclude,
+    query: input.query?.trim() || undefined,
   };
 
   const meta = {
@@ -80,16 +116,16 @@ function normalizeChinese(input: FrontendInput): { normalized: RecipeInput; meta
 
 async function getRecipes(input: RecipeInput) {
   const limitNum = typeof input.limit === 'number' ? input.limit : 5;
-  const { ingredients, category, cuisine, language } = input;
+  const { ingredients, category, cuisine, match, language, servings, units, timeBudget, equipment, taste, minSpice, maxSpice, dietary, excludeAllergens, exclude, query } = input;
 
   const result = await recipeTool.execute({
-    context: { ingredients, category, cuisine, limit: limitNum },
-    runtimeContext: {},
+    context: { ingredients, category, cuisine, match, query, limit: limitNum, language: language ?? DEFAULT_LOCALE, servings, units, timeBudget, equipment, taste, minSpice, maxSpice, dietary, excludeAllergens, exclude },
+    runtimeContext: createLocaleContext(language),
   } as any);
 
   let recipes = result.recipes || [];
 
-  const unknownDish = language === 'zh-CN' ? '未知菜品' : 'Unknown Dish';
+  const unknownDish = localeInfo(language).messages.unknownDish;
   const names = recipes.map((r: Recipe) => (
     'strMeal' in r
       ? (r.strMeal || unknownDish)
@@ -97,13 +133,21 @@ async function getRecipes(input: RecipeInput) {
   ));
 
   const head = recipes.length > 0
-    ? MESSAGES.RECIPES_FOUND(names.length, names)
-    : MESSAGES.NO_RECIPES_FOUND();
+    ? MESSAGES.RECIPES_FOUND(names.length, names, language)
+    : MESSAGES.NO_RECIPES_FOUND(language);
 
   // Determine video platform based on language
-  const videoPlatform = language === 'zh-CN' ? 'bilibili' : 'youtube';
+  const videoPlatform = localeInfo(language).videoPlatform;
 
-  return { suggestions: head, recipes, source: result.source, videoPlatform };
+  return {
+    suggestions: head,
+    recipes,
+    source: result.source,
+    relaxedConstraints: result.relaxedConstraints,
+    resolved: result.resolved,
+    corrections: result.corrections,
+    videoPlatform,
+  };
 }
 
 function parseQuery(search: URLSearchParams): FrontendInput {
@@ -111,18 +155,26 @@ function parseQuery(search: URLSearchParams): FrontendInput {
   const limit = limitStr ? Number(limitStr) : undefined;
   const equipmentStr = search.get('equipment');
   const equipment = equipmentStr ? equipmentStr.split(/[，,、\s]+/).map((s) => s.trim()).filter(Boolean) : undefined;
-  const language = search.get('language') as 'zh-CN' | 'en-US' | null;
+  const match = search.get('match');
   return {
     ingredients: search.get('ingredients') ?? undefined,
     category: search.get('category') ?? undefined,
     cuisine: search.get('cuisine') ?? undefined,
+    match: match === 'all' || match === 'any' ? match : undefined,
     taste: search.get('taste') ?? undefined,
-    timeBudget: search.get('timeBudget') ? Number(search.get('timeBudget')) : undefined,
-    servings: search.get('servings') ? Number(search.get('servings')) : undefined,
+    minSpice: parseSpice(search.get('minSpice')),
+    maxSpice: parseSpice(search.get('maxSpice')),
+    dietary: parseList(search.get('dietary')),
+    excludeAllergens: parseList(search.get('excludeAllergens')),
+    exclude: parseList(search.get('exclude')),
+    query: search.get('query') ?? undefined,
+    timeBudget: parseTimeBudget(search.get('timeBudget')),
+    servings: parseServings(search.get('servings')),
     equipment,
     limit: Number.isFinite(limit as number) ? (limit as number) : undefined,
     model: search.get('model') ?? undefined,
-    language: language === 'zh-CN' || language === 'en-US' ? language : undefined,
+    language: resolveLocale(search.get('language')),
+    units: parseUnits(search.get('units')),
   };
 }
 
@@ -133,7 +185,12 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type',
 };
 
-export const onRequest = async ({ request }: { request: Request }) => {
+export const onRequest = async ({ request, env }: { request: Request; env?: { TRANSLATION_CACHE?: KVNamespaceLike } }) => {
+  // 绑定了 KV 时，翻译结果跨请求共享
+  if (env?.TRANSLATION_CACHE) {
+    setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+  }
+
   // 处理 OPTIONS 请求 (CORS preflight)
   if (request.method === 'OPTIONS') {
     return new Response(null, {
@@ -150,18 +207,25 @@ export const onRequest = async ({ request }: { request: Request }) => {
       frontInput = parseQuery(url.searchParams);
     } else if (request.method === 'POST') {
       const body = await request.json().catch(() => ({}));
-      const language = body.language as 'zh-CN' | 'en-US' | undefined;
       frontInput = {
-        ingredients: body.ingredients,
+        ingredients: parseList(body.ingredients)?.join(','), // 接受数组或逗号分隔的字符串
         category: body.category,
         cuisine: body.cuisine,
-        taste: body.taste,
-        timeBudget: typeof body.timeBudget === 'number' ? body.timeBudget : undefined,
-        servings: typeof body.servings === 'number' ? body.servings : undefined,
-        equipment: Array.isArray(body.equipment) ? body.equipment : undefined,
+        match: body.match === 'all' || body.match === 'any' ? body.match : undefined,
+        taste: typeof body.taste === 'string' ? body.taste : undefined,
+        minSpice: parseSpice(body.minSpice),
+        maxSpice: parseSpice(body.maxSpice),
+        dietary: parseList(body.dietary),
+        excludeAllergens: parseList(body.excludeAllergens),
+        exclude: parseList(body.exclude),
+        query: typeof body.query === 'string' ? body.query : undefined,
+        timeBudget: parseTimeBudget(body.timeBudget),
+        servings: parseServings(body.servings),
+        equipment: Array.isArray(body.equipment) ? body.equipment.filter((e: unknown) => typeof e === 'string') : undefined,
         limit: typeof body.limit === 'number' ? body.limit : undefined,
         model: body.model,
-        language: language === 'zh-CN' || language === 'en-US' ? language : undefined,
+        language: resolveLocale(body.language),
+        units: parseUnits(body.units),
       };
     } else {
       return new Response(
@@ -170,11 +234,12 @@ export const onRequest = async ({ request }: { request: Request }) => {
       );
     }
 
-    // Validate: require at least one search parameter besides limit
-    const { ingredients, category, cuisine, limit } = frontInput;
-    if (!ingredients && !category && !cuisine && limit !== undefined) {
+    // Validate: require at least one search parameter besides limit (dish name, ingredients, category, cuisine or another filter)
+    const { ingredients, category, cuisine, query, taste, timeBudget, minSpice, maxSpice, dietary, excludeAllergens, exclude, equipment, limit } = frontInput;
+    const filters = [ingredients, category, cuisine, query, taste, timeBudget, minSpice, maxSpice, dietary, excludeAllergens, exclude, equipment];
+    if (!filters.some((value) => (Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '')) && limit !== undefined) {
       return new Response(
-        JSON.stringify({ error: MESSAGES.VALIDATION_ERROR.LIMIT_ONLY() }),
+        JSON.stringify({ error: MESSAGES.VALIDATION_ERROR.LIMIT_ONLY(frontInput.language) }),
         { status: 400, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
       );
     }
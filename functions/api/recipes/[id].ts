@@ -0,0 +1,93 @@
+// Cloudflare Pages Function：提供 /api/recipes/:id 接口（仅 GET）
+// 说明：
+// - 按菜谱 ID（搜索结果中的 id，如 TheMealDB 的 "52772"、中式家常菜的 "cn-001"）返回单个菜谱详情
+// - 委托 recipeTool 按 ID 查询（与搜索结果补全详情相同的 lookup 路径），翻译为请求语言，支持 servings / units 换算用量
+// - ID 不存在时返回 404 与本地化的错误提示
+import { recipeTool } from '../../../src/mastra/tools/recipe-tool';
+import { MESSAGES } from '../../../src/constants/messages';
+import { DEFAULT_LOCALE, localeInfo, resolveLocale } from '../../../src/constants/locales';
+import { createLocaleContext } from '../../../src/utils/language';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from '../../../src/utils/translation-cache';
+import { parseServings, parseUnits, decodeRecipeId } from '../../../src/utils/params';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequest = async ({ request, env, params }: {
+  request: Request;
+  env?: { TRANSLATION_CACHE?: KVNamespaceLike };
+  params: { id?: string | string[] };
+}) => {
+  // 绑定了 KV 时，翻译结果跨请求共享
+  if (env?.TRANSLATION_CACHE) {
+    setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+  }
+
+  // 处理 OPTIONS 请求 (CORS preflight)
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const url = new URL(request.url);
+  const language = resolveLocale(url.searchParams.get('language')) ?? DEFAULT_LOCALE;
+
+  try {
+    if (request.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+        { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    const id = decodeRecipeId(String(Array.isArray(params.id) ? params.id[0] : params.id ?? ''));
+    if (id === null) {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.INVALID_REQUEST(language) }),
+        { status: 400, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+    const result = id
+      ? await recipeTool.execute({
+        context: {
+          id,
+          language,
+          servings: parseServings(url.searchParams.get('servings')),
+          units: parseUnits(url.searchParams.get('units')),
+        },
+        runtimeContext: createLocaleContext(language),
+      } as any)
+      : null;
+
+    const recipe = result?.recipes?.[0];
+    if (!recipe) {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.RECIPE_NOT_FOUND(id, language) }),
+        { status: 404, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ recipe, source: result.source, videoPlatform: localeInfo(language).videoPlatform }),
+      {
+        status: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  } catch (err: any) {
+    console.error('Recipe detail API error:', err);
+    return new Response(
+      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL(language) }),
+      {
+        status: 500,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  }
+};
@@ -0,0 +1,67 @@
+// Cloudflare Pages Function：提供 /api/recipes/suggest 接口（仅 GET，供搜索框输入联想）
+// 说明：
+// - 按 q 在已知菜名上做容错与前缀匹配（"spagetti"、"宫保鸡"），中文菜名同时接受全拼与首字母（"gongbao"、"gbjd"）
+// - 返回菜谱 ID、按 language 的显示名称、命中的写法与得分；ID 可直接用于 /api/recipes/:id
+// - 不调用 LLM；菜名列表按天缓存（绑定 KV 时跨实例共享），见 src/utils/name-search.ts
+// - 静态路径优先于 [id].ts 匹配，suggest 不会被当作菜谱 ID
+import { MESSAGES } from '../../../src/constants/messages';
+import { DEFAULT_LOCALE, resolveLocale } from '../../../src/constants/locales';
+import { createRecipeSources } from '../../../src/sources';
+import { searchRecipeNames } from '../../../src/utils/name-search';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from '../../../src/utils/translation-cache';
+import { parseSuggestLimit } from '../../../src/utils/params';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequest = async ({ request, env }: { request: Request; env?: { TRANSLATION_CACHE?: KVNamespaceLike } }) => {
+  // 绑定了 KV 时，菜名列表跨请求共享
+  if (env?.TRANSLATION_CACHE) {
+    setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+  }
+
+  // 处理 OPTIONS 请求 (CORS preflight)
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const url = new URL(request.url);
+  const language = resolveLocale(url.searchParams.get('language')) ?? DEFAULT_LOCALE;
+
+  try {
+    if (request.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+        { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    const query = (url.searchParams.get('q') ?? '').trim();
+    const suggestions = query
+      ? await searchRecipeNames(query, createRecipeSources(), { language, limit: parseSuggestLimit(url.searchParams.get('limit')) })
+      : [];
+    return new Response(
+      JSON.stringify({ query, suggestions, language }),
+      {
+        status: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  } catch (err: any) {
+    console.error('Recipe suggest API error:', err);
+    return new Response(
+      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL(language) }),
+      {
+        status: 500,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  }
+};
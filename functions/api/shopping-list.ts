@@ -0,0 +1,71 @@
+// Cloudflare Pages Function：提供 /api/shopping-list 接口（仅 POST）
+// 说明：
+// - 请求体：{ recipes: ["52772", { "id": "cn-001", "servings": 4 }], pantry: ["鸡蛋 4个", "盐"], units, language }
+// - 菜谱按 ID 依次向各数据源查询（与 /api/recipes/:id 相同的 lookup 路径），按份数缩放后合并相同食材并换算为同一单位
+// - 扣除 pantry 中家中已有的食材（只写名称时整项去掉，写了用量时扣除），按超市分区分组，见 src/utils/shopping-list.ts
+// - 返回本地化的分组清单以及纯文本（text）与 Markdown（markdown）写法；找不到的 ID 列在 notFound 中
+import { MESSAGES } from '../../src/constants/messages';
+import { DEFAULT_LOCALE, resolveLocale } from '../../src/constants/locales';
+import { createShoppingList } from '../../src/utils/shopping-list';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from '../../src/utils/translation-cache';
+import { parseServings, parseList, parseUnits, parseShoppingRecipes } from '../../src/utils/params';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequest = async ({ request, env }: { request: Request; env?: { TRANSLATION_CACHE?: KVNamespaceLike } }) => {
+  // 绑定了 KV 时，翻译结果跨请求共享
+  if (env?.TRANSLATION_CACHE) {
+    setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+  }
+
+  // 处理 OPTIONS 请求 (CORS preflight)
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    });
+  }
+
+  const body = request.method === 'POST' ? await request.json().catch(() => ({})) : {};
+  const language = resolveLocale(body.language) ?? DEFAULT_LOCALE;
+
+  try {
+    if (request.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+        { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    const recipes = parseShoppingRecipes(body.recipes);
+    if (!recipes.length) {
+      return new Response(
+        JSON.stringify({ error: MESSAGES.ERROR.INVALID_REQUEST(language) }),
+        { status: 400, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+      );
+    }
+
+    const list = await createShoppingList({ recipes, pantry: parseList(body.pantry), units: parseUnits(body.units) }, language);
+    return new Response(
+      JSON.stringify({ ...list, language }),
+      {
+        status: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  } catch (err: any) {
+    console.error('Shopping list API error:', err);
+    return new Response(
+      JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL(language) }),
+      {
+        status: 500,
+        headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+      },
+    );
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_CODES, isLocaleCode, localeInfo, resolveLocale } from './locales';
+
+describe('resolveLocale', () => {
+  it('精确代码直接返回', () => {
+    assert.equal(resolveLocale('ja-JP'), 'ja-JP');
+    assert.equal(resolveLocale('zh-HK'), 'zh-HK');
+  });
+
+  it('忽略大小写、下划线与别名', () => {
+    assert.equal(resolveLocale('EN-us'), 'en-US');
+    assert.equal(resolveLocale('zh_tw'), 'zh-TW');
+    assert.equal(resolveLocale('zh-Hant'), 'zh-TW');
+    assert.equal(resolveLocale('ja'), 'ja-JP');
+    assert.equal(resolveLocale('ko'), 'ko-KR');
+    assert.equal(resolveLocale('zh'), 'zh-CN');
+  });
+
+  it('无法识别的取值返回 undefined', () => {
+    assert.equal(resolveLocale('fr-FR'), undefined);
+    assert.equal(resolveLocale(''), undefined);
+    assert.equal(resolveLocale(42), undefined);
+  });
+});
+
+describe('isLocaleCode / localeInfo', () => {
+  it('只接受已注册代码的精确写法', () => {
+    assert.equal(isLocaleCode('ko-KR'), true);
+    assert.equal(isLocaleCode('ko-kr'), false);
+    assert.equal(isLocaleCode('toString'), false);
+  });
+
+  it('未注册的语言回退到默认语言', () => {
+    assert.equal(localeInfo('fr-FR'), LOCALES[DEFAULT_LOCALE]);
+    assert.equal(localeInfo('ja'), LOCALES['ja-JP']);
+  });
+
+  it('每种语言都有完整的单位写法与消息', () => {
+    const units = Object.keys(LOCALES[DEFAULT_LOCALE].unitLabels).sort();
+    for (const code of LOCALE_CODES) {
+      const info = localeInfo(code);
+      assert.deepEqual(Object.keys(info.unitLabels).sort(), units, code);
+      assert.ok(info.messages.recipesFound(2, ['A', 'B']), code);
+      assert.ok(info.instruction, code);
+    }
+  });
+});
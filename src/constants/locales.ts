@@ -0,0 +1,355 @@
+/**
+ * 语言（Locale）注册表
+ * 所有支持的输出语言集中定义于此：语言代码、名称、LLM 提示中的语言名、回答语言要求与界面消息
+ * 新增语言只需在 LOCALES 中增加一个条目，API 参数校验、recipeTool、翻译与 Agent 语言要求会自动支持
+ */
+
+import type { Difficulty, EquipmentId, MealSlot, MeasureUnit, StoreSection, UnitSystem, Weekday } from '../types';
+
+/**
+ * 单位显示模板：{n} 为数量占位符；提供 [单数, 复数] 两种写法时按数量选择
+ */
+export type UnitLabels = Record<MeasureUnit, string | [string, string]>;
+
+/**
+ * 界面消息（API 响应与错误提示）
+ */
+export interface LocaleMessages {
+  recipesFound: (count: number, names: string[]) => string;
+  randomRecipes: (count: number) => string;
+  noRecipesFound: string;
+  limitOnly: string;
+  internalError: string;
+  invalidRequest: string;
+  methodNotAllowed: string;
+  emptyMessage: string;
+  noApiKey: string;
+  unknownDish: string;
+  missingEquipment: (names: string[]) => string; // 菜谱缺少设备的原因说明
+  recipeNotFound: (id: string) => string; // 菜谱 ID 不存在（详情接口 404）
+  shoppingListTitle: string; // 购物清单标题
+  shoppingListRecipes: (names: string[]) => string; // 购物清单对应的菜谱
+  shoppingListPantry: string; // 家中已有、无需购买的食材
+}
+
+/**
+ * 语言条目
+ */
+export interface LocaleInfo {
+  name: string; // 本地名称，如"繁體中文（台灣）"
+  englishName: string; // 英文名称，用于 LLM 翻译提示，如 "Traditional Chinese (Taiwan)"
+  aliases: string[]; // 可接受的其他写法（忽略大小写），如 "zh"、"zh-Hans"
+  promptLanguage: 'zh' | 'en'; // Agent / 评分器内部提示使用的语言
+  instruction: string; // 要求模型使用该语言回答的说明（附加在 Agent 指令与聊天消息中）
+  videoPlatform: 'bilibili' | 'youtube'; // 前端优先展示的视频平台
+  unitSystem: UnitSystem; // 默认单位制（请求可通过 units 参数覆盖）
+  unitLabels: UnitLabels; // 用量单位的显示写法
+  difficultyLabels: Record<Difficulty, string>; // 难度等级的显示文字
+  equipmentLabels: Record<EquipmentId, string>; // 厨房设备的显示名称（也用于识别用户输入的设备）
+  spiceLabels: [string, string, string, string]; // 辣度 0-3 的显示文字
+  sectionLabels: Record<StoreSection, string>; // 购物清单超市分区的显示名称
+  weekdayLabels: Record<Weekday, string>; // 一周菜单的星期显示名称
+  mealLabels: Record<MealSlot, string>; // 一周菜单的餐次显示名称
+  messages: LocaleMessages;
+}
+
+const ZH_HANS_UNITS: UnitLabels = {
+  g: '{n}克', kg: '{n}千克', ml: '{n}毫升', l: '{n}升', tsp: '{n}茶匙', tbsp: '{n}汤匙',
+  cup: '{n}杯', floz: '{n}液量盎司', oz: '{n}盎司', lb: '{n}磅', pinch: '{n}撮',
+};
+
+const ZH_HANT_UNITS: UnitLabels = {
+  g: '{n}克', kg: '{n}公斤', ml: '{n}毫升', l: '{n}公升', tsp: '{n}茶匙', tbsp: '{n}湯匙',
+  cup: '{n}杯', floz: '{n}液量盎司', oz: '{n}盎司', lb: '{n}磅', pinch: '{n}撮',
+};
+
+const ZH_HANS_EQUIPMENT: Record<EquipmentId, string> = {
+  oven: '烤箱', wok: '炒锅', 'frying-pan': '平底锅', pot: '汤锅', steamer: '蒸锅', blender: '搅拌机',
+  'food-processor': '食物处理器', mixer: '电动打蛋器', 'pressure-cooker': '高压锅', 'slow-cooker': '慢炖锅',
+  'rice-cooker': '电饭锅', 'air-fryer': '空气炸锅', 'deep-fryer': '油炸锅', grill: '烤架', microwave: '微波炉',
+};
+
+const ZH_HANT_EQUIPMENT: Record<EquipmentId, string> = {
+  oven: '烤箱', wok: '炒鍋', 'frying-pan': '平底鍋', pot: '湯鍋', steamer: '蒸鍋', blender: '攪拌機',
+  'food-processor': '食物處理器', mixer: '電動打蛋器', 'pressure-cooker': '壓力鍋', 'slow-cooker': '慢燉鍋',
+  'rice-cooker': '電鍋', 'air-fryer': '氣炸鍋', 'deep-fryer': '油炸鍋', grill: '烤架', microwave: '微波爐',
+};
+
+const ZH_HANS_SECTIONS: Record<StoreSection, string> = {
+  produce: '蔬菜水果', meat: '肉禽', seafood: '水产海鲜', dairy: '蛋奶豆制品', staples: '米面粮油与干货', condiments: '调味品与香料', other: '其他',
+};
+
+const ZH_HANT_SECTIONS: Record<StoreSection, string> = {
+  produce: '蔬菜水果', meat: '肉品', seafood: '水產海鮮', dairy: '蛋奶豆製品', staples: '米麵糧油與乾貨', condiments: '調味料與香料', other: '其他',
+};
+
+const ZH_HANS_WEEKDAYS: Record<Weekday, string> = {
+  mon: '周一', tue: '周二', wed: '周三', thu: '周四', fri: '周五', sat: '周六', sun: '周日',
+};
+
+const ZH_HANT_WEEKDAYS: Record<Weekday, string> = {
+  mon: '週一', tue: '週二', wed: '週三', thu: '週四', fri: '週五', sat: '週六', sun: '週日',
+};
+
+const ZH_MEALS: Record<MealSlot, string> = { breakfast: '早餐', lunch: '午餐', dinner: '晚餐' };
+
+const ZH_HANS_MESSAGES: LocaleMessages = {
+  recipesFound: (count, names) => `找到 ${count} 道候选菜：${names.slice(0, 5).join('、')}${count > 5 ? '等' : ''}`,
+  randomRecipes: (count) => `已为您随机推荐 ${count} 道菜品`,
+  noRecipesFound: '抱歉，没有找到符合条件的食谱',
+  limitOnly: '请至少填写一个食材 / 分类 / 菜系',
+  internalError: '服务器内部错误，请稍后重试',
+  invalidRequest: '请求参数格式错误',
+  methodNotAllowed: '不支持的请求方法',
+  emptyMessage: '消息不能为空',
+  noApiKey: 'OpenAI API密钥未配置，请联系管理员。',
+  unknownDish: '未知菜品',
+  missingEquipment: (names) => `需要${names.join('、')}，不在你的可用设备中`,
+  recipeNotFound: (id) => `未找到 ID 为 ${id} 的食谱`,
+  shoppingListTitle: '购物清单',
+  shoppingListRecipes: (names) => `菜谱：${names.join('、')}`,
+  shoppingListPantry: '家中已有（无需购买）',
+};
+
+const ZH_HANT_MESSAGES: LocaleMessages = {
+  recipesFound: (count, names) => `找到 ${count} 道候選菜：${names.slice(0, 5).join('、')}${count > 5 ? '等' : ''}`,
+  randomRecipes: (count) => `已為您隨機推薦 ${count} 道菜品`,
+  noRecipesFound: '抱歉，沒有找到符合條件的食譜',
+  limitOnly: '請至少填寫一個食材 / 分類 / 菜系',
+  internalError: '伺服器內部錯誤，請稍後重試',
+  invalidRequest: '請求參數格式錯誤',
+  methodNotAllowed: '不支援的請求方法',
+  emptyMessage: '訊息不能為空',
+  noApiKey: 'OpenAI API 金鑰未設定，請聯絡管理員。',
+  unknownDish: '未知菜品',
+  missingEquipment: (names) => `需要${names.join('、')}，不在你的可用設備中`,
+  recipeNotFound: (id) => `找不到 ID 為 ${id} 的食譜`,
+  shoppingListTitle: '購物清單',
+  shoppingListRecipes: (names) => `食譜：${names.join('、')}`,
+  shoppingListPantry: '家中已有（無需購買）',
+};
+
+export const LOCALES = {
+  'zh-CN': {
+    name: '简体中文',
+    englishName: 'Simplified Chinese',
+    aliases: ['zh', 'zh-hans', 'zh-sg', 'cn'],
+    promptLanguage: 'zh',
+    instruction: '重要：语言偏好是简体中文 (zh-CN)。你必须完全用简体中文回答，不要使用英文。',
+    videoPlatform: 'bilibili',
+    unitSystem: 'metric',
+    unitLabels: ZH_HANS_UNITS,
+    difficultyLabels: { easy: '简单', medium: '中等', hard: '略难' },
+    equipmentLabels: ZH_HANS_EQUIPMENT,
+    spiceLabels: ['不辣', '微辣', '中辣', '特辣'],
+    sectionLabels: ZH_HANS_SECTIONS,
+    weekdayLabels: ZH_HANS_WEEKDAYS,
+    mealLabels: ZH_MEALS,
+    messages: ZH_HANS_MESSAGES,
+  },
+  'en-US': {
+    name: 'English',
+    englishName: 'English',
+    aliases: ['en', 'en-gb', 'en-au'],
+    promptLanguage: 'en',
+    instruction: 'IMPORTANT: Language preference is English (en-US). You MUST respond ENTIRELY in English. Do not use any Chinese characters.',
+    videoPlatform: 'youtube',
+    unitSystem: 'imperial',
+    unitLabels: {
+      g: '{n}g', kg: '{n}kg', ml: '{n}ml', l: '{n}l', tsp: '{n} tsp', tbsp: '{n} tbsp',
+      cup: ['{n} cup', '{n} cups'], floz: '{n} fl oz', oz: '{n} oz', lb: '{n} lb', pinch: ['{n} pinch', '{n} pinches'],
+    },
+    difficultyLabels: { easy: 'Easy', medium: 'Medium', hard: 'Challenging' },
+    equipmentLabels: {
+      oven: 'oven', wok: 'wok', 'frying-pan': 'frying pan', pot: 'pot', steamer: 'steamer', blender: 'blender',
+      'food-processor': 'food processor', mixer: 'electric mixer', 'pressure-cooker': 'pressure cooker', 'slow-cooker': 'slow cooker',
+      'rice-cooker': 'rice cooker', 'air-fryer': 'air fryer', 'deep-fryer': 'deep fryer', grill: 'grill', microwave: 'microwave',
+    },
+    spiceLabels: ['Not spicy', 'Mild', 'Medium', 'Hot'],
+    sectionLabels: {
+      produce: 'Produce', meat: 'Meat & Poultry', seafood: 'Seafood', dairy: 'Dairy, Eggs & Tofu',
+      staples: 'Grains, Baking & Dry Goods', condiments: 'Condiments & Spices', other: 'Other',
+    },
+    weekdayLabels: { mon: 'Monday', tue: 'Tuesday', wed: 'Wednesday', thu: 'Thursday', fri: 'Friday', sat: 'Saturday', sun: 'Sunday' },
+    mealLabels: { breakfast: 'Breakfast', lunch: 'Lunch', dinner: 'Dinner' },
+    messages: {
+      recipesFound: (count, names) =>
+        `Found ${count} recipe${count > 1 ? 's' : ''}: ${names.slice(0, 5).join(', ')}${count > 5 ? ', etc.' : ''}`,
+      randomRecipes: (count) => `Randomly recommended ${count} recipe${count > 1 ? 's' : ''} for you`,
+      noRecipesFound: 'Sorry, no recipes found matching your criteria',
+      limitOnly: 'Please provide at least one ingredient, category, or cuisine',
+      internalError: 'Internal server error, please try again later',
+      invalidRequest: 'Invalid request parameters',
+      methodNotAllowed: 'Method not allowed',
+      emptyMessage: 'Message cannot be empty',
+      noApiKey: 'OpenAI API key is not configured. Please contact the administrator.',
+      unknownDish: 'Unknown Dish',
+      missingEquipment: (names) => `Needs ${names.join(', ')}, which ${names.length > 1 ? 'are' : 'is'} not in your equipment`,
+      recipeNotFound: (id) => `Recipe not found: ${id}`,
+      shoppingListTitle: 'Shopping List',
+      shoppingListRecipes: (names) => `Recipes: ${names.join(', ')}`,
+      shoppingListPantry: 'Already at home (no need to buy)',
+    },
+  },
+  'zh-TW': {
+    name: '繁體中文（台灣）',
+    englishName: 'Traditional Chinese (Taiwan)',
+    aliases: ['zh-hant', 'zh-hant-tw', 'tw'],
+    promptLanguage: 'zh',
+    instruction: '重要：語言偏好是繁體中文 (zh-TW)。你必須完全使用台灣慣用的繁體中文回答，不要使用簡體字或英文。',
+    videoPlatform: 'youtube',
+    unitSystem: 'metric',
+    unitLabels: ZH_HANT_UNITS,
+    difficultyLabels: { easy: '簡單', medium: '中等', hard: '略難' },
+    equipmentLabels: ZH_HANT_EQUIPMENT,
+    spiceLabels: ['不辣', '小辣', '中辣', '大辣'],
+    sectionLabels: ZH_HANT_SECTIONS,
+    weekdayLabels: ZH_HANT_WEEKDAYS,
+    mealLabels: ZH_MEALS,
+    messages: ZH_HANT_MESSAGES,
+  },
+  'zh-HK': {
+    name: '繁體中文（香港）',
+    englishName: 'Traditional Chinese (Hong Kong)',
+    aliases: ['zh-hant-hk', 'zh-mo', 'hk'],
+    promptLanguage: 'zh',
+    instruction: '重要：語言偏好是繁體中文 (zh-HK)。你必須完全使用香港慣用的繁體中文回答，不要使用簡體字或英文。',
+    videoPlatform: 'youtube',
+    unitSystem: 'metric',
+    unitLabels: ZH_HANT_UNITS,
+    difficultyLabels: { easy: '簡單', medium: '中等', hard: '略難' },
+    equipmentLabels: { ...ZH_HANT_EQUIPMENT, 'rice-cooker': '電飯煲', 'air-fryer': '空氣炸鍋' },
+    spiceLabels: ['走辣', '小辣', '中辣', '大辣'],
+    sectionLabels: ZH_HANT_SECTIONS,
+    weekdayLabels: ZH_HANT_WEEKDAYS,
+    mealLabels: ZH_MEALS,
+    messages: ZH_HANT_MESSAGES,
+  },
+  'ja-JP': {
+    name: '日本語',
+    englishName: 'Japanese',
+    aliases: ['ja', 'jp'],
+    promptLanguage: 'en',
+    instruction: '重要：言語設定は日本語 (ja-JP) です。必ずすべて日本語で回答してください。中国語や英語は使用しないでください。',
+    videoPlatform: 'youtube',
+    unitSystem: 'metric',
+    unitLabels: {
+      g: '{n}g', kg: '{n}kg', ml: '{n}ml', l: '{n}L', tsp: '小さじ{n}', tbsp: '大さじ{n}',
+      cup: '{n}カップ', floz: '{n}液量オンス', oz: '{n}オンス', lb: '{n}ポンド', pinch: '{n}つまみ',
+    },
+    difficultyLabels: { easy: 'かんたん', medium: 'ふつう', hard: 'やや難しい' },
+    equipmentLabels: {
+      oven: 'オーブン', wok: '中華鍋', 'frying-pan': 'フライパン', pot: '鍋', steamer: '蒸し器', blender: 'ミキサー',
+      'food-processor': 'フードプロセッサー', mixer: 'ハンドミキサー', 'pressure-cooker': '圧力鍋', 'slow-cooker': 'スロークッカー',
+      'rice-cooker': '炊飯器', 'air-fryer': 'ノンフライヤー', 'deep-fryer': 'フライヤー', grill: 'グリル', microwave: '電子レンジ',
+    },
+    spiceLabels: ['辛くない', 'ピリ辛', '中辛', '激辛'],
+    sectionLabels: {
+      produce: '青果', meat: '精肉', seafood: '鮮魚', dairy: '卵・乳製品・豆腐', staples: '米・粉・乾物', condiments: '調味料・スパイス', other: 'その他',
+    },
+    weekdayLabels: { mon: '月曜日', tue: '火曜日', wed: '水曜日', thu: '木曜日', fri: '金曜日', sat: '土曜日', sun: '日曜日' },
+    mealLabels: { breakfast: '朝食', lunch: '昼食', dinner: '夕食' },
+    messages: {
+      recipesFound: (count, names) => `${count} 件のレシピが見つかりました：${names.slice(0, 5).join('、')}${count > 5 ? 'など' : ''}`,
+      randomRecipes: (count) => `ランダムに ${count} 品のレシピをおすすめしました`,
+      noRecipesFound: '申し訳ありません。条件に合うレシピが見つかりませんでした',
+      limitOnly: '食材・カテゴリー・料理ジャンルのいずれかを入力してください',
+      internalError: 'サーバー内部エラーが発生しました。しばらくしてから再度お試しください',
+      invalidRequest: 'リクエストパラメータの形式が正しくありません',
+      methodNotAllowed: '許可されていないリクエストメソッドです',
+      emptyMessage: 'メッセージを入力してください',
+      noApiKey: 'OpenAI API キーが設定されていません。管理者にお問い合わせください。',
+      unknownDish: '不明な料理',
+      missingEquipment: (names) => `${names.join('、')}が必要です（お手持ちの調理器具にありません）`,
+      recipeNotFound: (id) => `ID が ${id} のレシピは見つかりませんでした`,
+      shoppingListTitle: '買い物リスト',
+      shoppingListRecipes: (names) => `レシピ：${names.join('、')}`,
+      shoppingListPantry: '家にあるもの（購入不要）',
+    },
+  },
+  'ko-KR': {
+    name: '한국어',
+    englishName: 'Korean',
+    aliases: ['ko', 'kr'],
+    promptLanguage: 'en',
+    instruction: '중요: 언어 설정은 한국어(ko-KR)입니다. 반드시 모든 내용을 한국어로 답변하고 중국어나 영어를 사용하지 마세요.',
+    videoPlatform: 'youtube',
+    unitSystem: 'metric',
+    unitLabels: {
+      g: '{n}g', kg: '{n}kg', ml: '{n}ml', l: '{n}L', tsp: '{n}작은술', tbsp: '{n}큰술',
+      cup: '{n}컵', floz: '{n}액량 온스', oz: '{n}온스', lb: '{n}파운드', pinch: '{n}꼬집',
+    },
+    difficultyLabels: { easy: '쉬움', medium: '보통', hard: '조금 어려움' },
+    equipmentLabels: {
+      oven: '오븐', wok: '웍', 'frying-pan': '프라이팬', pot: '냄비', steamer: '찜기', blender: '블렌더',
+      'food-processor': '푸드 프로세서', mixer: '핸드 믹서', 'pressure-cooker': '압력솥', 'slow-cooker': '슬로우 쿠커',
+      'rice-cooker': '전기밥솥', 'air-fryer': '에어프라이어', 'deep-fryer': '튀김기', grill: '그릴', microwave: '전자레인지',
+    },
+    spiceLabels: ['안 매움', '약간 매움', '보통 매움', '아주 매움'],
+    sectionLabels: {
+      produce: '채소·과일', meat: '정육', seafood: '수산', dairy: '달걀·유제품·두부', staples: '곡물·가루·건식품', condiments: '양념·향신료', other: '기타',
+    },
+    weekdayLabels: { mon: '월요일', tue: '화요일', wed: '수요일', thu: '목요일', fri: '금요일', sat: '토요일', sun: '일요일' },
+    mealLabels: { breakfast: '아침', lunch: '점심', dinner: '저녁' },
+    messages: {
+      recipesFound: (count, names) => `레시피 ${count}개를 찾았습니다: ${names.slice(0, 5).join(', ')}${count > 5 ? ' 등' : ''}`,
+      randomRecipes: (count) => `무작위로 ${count}개의 레시피를 추천했습니다`,
+      noRecipesFound: '죄송합니다. 조건에 맞는 레시피를 찾지 못했습니다',
+      limitOnly: '재료, 카테고리, 요리 종류 중 하나 이상을 입력해 주세요',
+      internalError: '서버 내부 오류입니다. 잠시 후 다시 시도해 주세요',
+      invalidRequest: '요청 매개변수 형식이 올바르지 않습니다',
+      methodNotAllowed: '지원하지 않는 요청 메서드입니다',
+      emptyMessage: '메시지를 입력해 주세요',
+      noApiKey: 'OpenAI API 키가 설정되지 않았습니다. 관리자에게 문의해 주세요.',
+      unknownDish: '알 수 없는 요리',
+      missingEquipment: (names) => `${names.join(', ')}이(가) 필요합니다 (보유한 조리도구에 없음)`,
+      recipeNotFound: (id) => `ID가 ${id}인 레시피를 찾을 수 없습니다`,
+      shoppingListTitle: '장보기 목록',
+      shoppingListRecipes: (names) => `레시피: ${names.join(', ')}`,
+      shoppingListPantry: '집에 있는 재료 (구매 불필요)',
+    },
+  },
+} satisfies Record<string, LocaleInfo>;
+
+/**
+ * 已注册的语言代码
+ */
+export type LocaleCode = keyof typeof LOCALES;
+
+/**
+ * 默认语言
+ */
+export const DEFAULT_LOCALE: LocaleCode = 'zh-CN';
+
+/**
+ * 全部语言代码（供 zod 枚举使用）
+ */
+export const LOCALE_CODES = Object.keys(LOCALES) as [LocaleCode, ...LocaleCode[]];
+
+/**
+ * 判断是否为已注册的语言代码（区分大小写的精确匹配）
+ */
+export function isLocaleCode(value: unknown): value is LocaleCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+}
+
+/**
+ * 解析请求中的语言参数：支持精确代码、忽略大小写与别名（如 "ja"、"zh-Hant"）
+ * @param value - 请求中的 language 参数
+ * @returns 语言代码，无法识别时返回 undefined
+ */
+export function resolveLocale(value: unknown): LocaleCode | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  if (isLocaleCode(value)) return value;
+  const lower = value.trim().toLowerCase().replace(/_/g, '-');
+  return LOCALE_CODES.find(
+    (code) => code.toLowerCase() === lower || (LOCALES[code] as LocaleInfo).aliases.includes(lower),
+  );
+}
+
+/**
+ * 获取语言条目（未注册时回退到默认语言）
+ */
+export function localeInfo(code?: LocaleCode | string): LocaleInfo {
+  return LOCALES[resolveLocale(code) ?? DEFAULT_LOCALE];
+}
@@ -1,41 +1,25 @@
 /**
- * 双语消息常量
- * 集中管理所有 API 响应和错误消息（中文/英文）
+ * 多语言消息常量
+ * 集中管理所有 API 响应和错误消息，文案来自语言注册表（constants/locales.ts）
+ * 多语言条目均接收当前请求的语言参数（未传时使用默认语言），不依赖全局状态
  */
-import LANGUAGE from '../utils/language';
-const isChinese = LANGUAGE.val === 'zh-CN';
+import { localeInfo, type LocaleCode } from './locales';
+
+const messagesOf = (locale?: LocaleCode) => localeInfo(locale).messages;
 
 export const MESSAGES = {
   // API 响应消息
-  RECIPES_FOUND: (count: number, names: string[]) => {
-    if (isChinese) {
-      const displayNames = names.slice(0, 5).join('、');
-      return `找到 ${count} 道候选菜：${displayNames}${count > 5 ? '等' : ''}`;
-    } else {
-      const displayNames = names.slice(0, 5).join(', ');
-      return `Found ${count} recipe${count > 1 ? 's' : ''}: ${displayNames}${count > 5 ? ', etc.' : ''}`;
-    }
-  },
+  RECIPES_FOUND: (count: number, names: string[], locale?: LocaleCode) => messagesOf(locale).recipesFound(count, names),
 
-  RANDOM_RECIPES: (count: number) => {
-    return isChinese
-      ? `已为您随机推荐 ${count} 道菜品`
-      : `Randomly recommended ${count} recipe${count > 1 ? 's' : ''} for you`;
-  },
+  RANDOM_RECIPES: (count: number, locale?: LocaleCode) => messagesOf(locale).randomRecipes(count),
 
-  NO_RECIPES_FOUND: () => {
-    return isChinese
-      ? '抱歉，没有找到符合条件的食谱'
-      : 'Sorry, no recipes found matching your criteria';
-  },
+  NO_RECIPES_FOUND: (locale?: LocaleCode) => messagesOf(locale).noRecipesFound,
 
-  VALIDATION_ERROR: {
-    LIMIT_ONLY: () => {
+  UNKNOWN_DISH: (locale?: LocaleCode) => messagesOf(locale).unknownDish,
 
-      return isChinese
-        ? '请至少填写一个食材 / 分类 / 菜系'
-        : 'Please provide at least one ingredient, category, or cuisine';
-    },
+  VALIDATION_ERROR: {
+    LIMIT_ONLY: (locale?: LocaleCode) => messagesOf(locale).limitOnly,
+    EMPTY_MESSAGE: (locale?: LocaleCode) => messagesOf(locale).emptyMessage,
   },
 
   // API 欢迎消息
@@ -44,6 +28,11 @@ export const MESSAGES = {
   使用方法：
   - GET /api/recipes - 获取随机食谱推荐
   - POST /api/recipes - 根据条件获取个性化推荐
+  - GET /api/recipes/suggest?q= - 菜名联想（容错拼写与拼音）
+  - GET /api/recipes/:id - 获取单个食谱详情
+  - GET /api/categories、/api/cuisines、/api/ingredients - 获取类别 / 菜系 / 食材的可选取值
+  - POST /api/shopping-list - 按选定的菜谱生成购物清单（{ "recipes": ["菜谱 ID"], "pantry": ["家中已有的食材"] }）
+  - POST /api/meal-plan - 生成一周早中晚餐菜单与购物清单（{ "timeBudget": 30, "servings": 2, "cuisines": ["菜系"] }）
   - POST /api/chat - 聊天对话
   - GET /api/models - 获取可用模型列表
 
@@ -52,32 +41,27 @@ export const MESSAGES = {
     "ingredients": ["食材1", "食材2"],  // 可选
     "category": "分类",                // 可选：素食、海鲜、甜点等
     "cuisine": "菜系",                 // 可选：中国、意大利、日本等
+    "query": "菜名",                   // 可选：如 宫保鸡丁、spaghetti，允许拼写错误与拼音
     "taste": "口味偏好",              // 可选
     "timeBudget": 30,                  // 可选：制作时间（分钟）
     "servings": 2,                     // 可选：份数
-    "equipment": ["设备"]              // 可选：厨房设备
+    "equipment": ["设备"],             // 可选：厨房设备
+    "units": "metric"                  // 可选：用量单位制 metric（克/毫升）/ imperial（盎司/磅/杯）
   }`,
 
   // 错误消息
   ERROR: {
-    INTERNAL: () => {
-
-      return isChinese ? '服务器内部错误，请稍后重试' : 'Internal server error, please try again later';
-    },
-    INVALID_REQUEST: () => {
-
-      return isChinese ? '请求参数格式错误' : 'Invalid request parameters';
-    },
+    INTERNAL: (locale?: LocaleCode) => messagesOf(locale).internalError,
+    INVALID_REQUEST: (locale?: LocaleCode) => messagesOf(locale).invalidRequest,
     NO_API_KEY: '未配置 OpenAI API 密钥',
     TRANSLATION_FAILED: '翻译失败，返回原始内容',
     FETCH_FAILED: '获取食谱失败',
     UNKNOWN: '未知错误',
     WORKFLOW_FAILED: '工作流执行失败',
     TOOL_EXECUTION_FAILED: '工具执行失败',
-    METHOD_NOT_ALLOWED: () => {
-
-      return isChinese ? '不支持的请求方法' : 'Method not allowed';
-    },
+    METHOD_NOT_ALLOWED: (locale?: LocaleCode) => messagesOf(locale).methodNotAllowed,
+    CHAT_UNAVAILABLE: (locale?: LocaleCode) => messagesOf(locale).noApiKey,
+    RECIPE_NOT_FOUND: (id: string, locale?: LocaleCode) => messagesOf(locale).recipeNotFound(id),
   },
 
   // 成功消息
@@ -0,0 +1,672 @@
+// 中式家常菜精选数据集（ChineseRecipeSource 数据）
+// - 菜名、用量、做法均为中文原文，无需翻译即可直接返回给中文用户
+// - 每道菜标注所属菜系（八大菜系及常见地方菜），并记录英文名 / 英文食材名用于英文关键词检索
+// - category 使用 TheMealDB 的类别取值，便于与 TheMealDB 结果统一筛选
+
+/**
+ * 地方菜系定义：中文名、英文名与常见别称
+ */
+export interface ChineseRegion {
+  name: string; // 规范中文名，如"川菜"
+  nameEn: string; // 英文名，如"Sichuan"
+  aliases: string[]; // 别称（中英文），如"四川菜"、"Szechuan"；不收录 Lu / Su 这类过短的拼音，避免误命中
+}
+
+// 八大菜系 + 常见地方菜
+export const CHINESE_REGIONS: ChineseRegion[] = [
+  { name: '川菜', nameEn: 'Sichuan', aliases: ['四川菜', '川味', 'Szechuan', 'Szechwan'] },
+  { name: '鲁菜', nameEn: 'Shandong', aliases: ['山东菜'] },
+  { name: '粤菜', nameEn: 'Cantonese', aliases: ['广东菜', '广府菜', 'Guangdong'] },
+  { name: '苏菜', nameEn: 'Jiangsu', aliases: ['江苏菜', '淮扬菜', 'Huaiyang'] },
+  { name: '闽菜', nameEn: 'Fujian', aliases: ['福建菜', 'Fukien'] },
+  { name: '浙菜', nameEn: 'Zhejiang', aliases: ['浙江菜', '杭帮菜', 'Hangzhou'] },
+  { name: '湘菜', nameEn: 'Hunan', aliases: ['湖南菜'] },
+  { name: '徽菜', nameEn: 'Anhui', aliases: ['安徽菜'] },
+  { name: '京菜', nameEn: 'Beijing', aliases: ['北京菜', 'Peking'] },
+  { name: '东北菜', nameEn: 'Northeastern', aliases: ['Dongbei', 'Manchurian'] },
+  { name: '山西菜', nameEn: 'Shanxi', aliases: ['晋菜'] },
+  { name: '家常菜', nameEn: 'Home-style', aliases: ['家常', 'Homestyle'] },
+];
+
+/**
+ * 精选中式菜谱（紧凑结构，由 ChineseRecipeSource 转换为 NormalizedRecipe）
+ */
+export interface ChineseDish {
+  id: string;
+  name: string; // 中文菜名
+  nameEn: string; // 英文菜名
+  region: string; // 所属菜系（CHINESE_REGIONS 中的 name）
+  category: string; // TheMealDB 类别，如 Chicken、Seafood、Vegetarian
+  tags: string[]; // 中文标签
+  ingredients: [string, string, string][]; // [中文食材名, 用量, 英文食材名]
+  steps: string[]; // 中文做法步骤
+}
+
+export const CHINESE_DISHES: ChineseDish[] = [
+  {
+    id: 'cn-001',
+    name: '宫保鸡丁',
+    nameEn: 'Kung Pao Chicken',
+    region: '川菜',
+    category: 'Chicken',
+    tags: ['川菜', '麻辣', '下饭'],
+    ingredients: [
+      ['鸡胸肉', '300克', 'Chicken Breast'],
+      ['花生米', '50克', 'Peanuts'],
+      ['干辣椒', '8个', 'Dried Chillies'],
+      ['花椒', '1茶匙', 'Sichuan Pepper'],
+      ['葱', '2根', 'Spring Onions'],
+      ['姜', '1小块', 'Ginger'],
+      ['蒜', '3瓣', 'Garlic'],
+      ['生抽', '2汤匙', 'Soy Sauce'],
+      ['香醋', '1汤匙', 'Vinegar'],
+      ['白糖', '1汤匙', 'Sugar'],
+      ['淀粉', '1汤匙', 'Cornstarch'],
+    ],
+    steps: [
+      '鸡胸肉切丁，加生抽、淀粉抓匀腌制15分钟。',
+      '生抽、香醋、白糖、淀粉加少许清水调成碗汁。',
+      '热锅凉油，小火炒香干辣椒和花椒约30秒。',
+      '转大火下鸡丁炒至变色，约3分钟，加入葱姜蒜炒香。',
+      '倒入碗汁翻炒至收汁，最后加入花生米拌匀出锅。',
+    ],
+  },
+  {
+    id: 'cn-002',
+    name: '麻婆豆腐',
+    nameEn: 'Mapo Tofu',
+    region: '川菜',
+    category: 'Pork',
+    tags: ['川菜', '麻辣', '下饭'],
+    ingredients: [
+      ['嫩豆腐', '1盒', 'Tofu'],
+      ['猪肉末', '100克', 'Minced Pork'],
+      ['郫县豆瓣酱', '2汤匙', 'Chilli Bean Paste'],
+      ['花椒粉', '1/2茶匙', 'Sichuan Pepper'],
+      ['蒜', '2瓣', 'Garlic'],
+      ['葱', '1根', 'Spring Onions'],
+      ['淀粉', '1汤匙', 'Cornstarch'],
+    ],
+    steps: [
+      '豆腐切块，放入加盐的开水中焯2分钟后捞出。',
+      '锅中少油，下肉末炒散至微焦。',
+      '加入豆瓣酱和蒜末小火炒出红油，约1分钟。',
+      '加一碗清水煮开，放入豆腐小火煮5分钟。',
+      '分两次淋入水淀粉勾芡，撒花椒粉和葱花即可。',
+    ],
+  },
+  {
+    id: 'cn-003',
+    name: '鱼香肉丝',
+    nameEn: 'Yu Xiang Shredded Pork',
+    region: '川菜',
+    category: 'Pork',
+    tags: ['川菜', '酸甜', '微辣'],
+    ingredients: [
+      ['猪里脊', '250克', 'Pork Tenderloin'],
+      ['木耳', '30克', 'Wood Ear Mushrooms'],
+      ['胡萝卜', '1根', 'Carrots'],
+      ['青椒', '1个', 'Green Pepper'],
+      ['泡辣椒', '2汤匙', 'Pickled Chillies'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+      ['香醋', '1汤匙', 'Vinegar'],
+      ['白糖', '1汤匙', 'Sugar'],
+      ['淀粉', '1汤匙', 'Cornstarch'],
+    ],
+    steps: [
+      '里脊切丝，加淀粉和少许生抽抓匀腌10分钟。',
+      '木耳泡发切丝，胡萝卜、青椒切丝。',
+      '调鱼香汁：生抽、香醋、白糖、淀粉加清水拌匀。',
+      '热油滑炒肉丝至变色盛出，再下泡辣椒炒出红油。',
+      '放入配菜炒1分钟，倒回肉丝和鱼香汁翻炒均匀出锅。',
+    ],
+  },
+  {
+    id: 'cn-004',
+    name: '回锅肉',
+    nameEn: 'Twice-cooked Pork',
+    region: '川菜',
+    category: 'Pork',
+    tags: ['川菜', '香辣'],
+    ingredients: [
+      ['五花肉', '300克', 'Pork Belly'],
+      ['青蒜', '3根', 'Leek'],
+      ['郫县豆瓣酱', '1汤匙', 'Chilli Bean Paste'],
+      ['甜面酱', '1茶匙', 'Sweet Bean Sauce'],
+      ['姜', '3片', 'Ginger'],
+      ['料酒', '1汤匙', 'Rice Wine'],
+    ],
+    steps: [
+      '五花肉冷水下锅，加姜片和料酒煮20分钟至筷子能插透。',
+      '捞出放凉后切薄片，青蒜切段。',
+      '锅中不放油，下肉片煸炒至出油卷曲。',
+      '加入豆瓣酱和甜面酱炒出红油，再放青蒜炒1分钟即可。',
+    ],
+  },
+  {
+    id: 'cn-005',
+    name: '糖醋里脊',
+    nameEn: 'Sweet and Sour Pork Tenderloin',
+    region: '鲁菜',
+    category: 'Pork',
+    tags: ['鲁菜', '酸甜', '油炸'],
+    ingredients: [
+      ['猪里脊', '300克', 'Pork Tenderloin'],
+      ['鸡蛋', '1个', 'Egg'],
+      ['淀粉', '60克', 'Cornstarch'],
+      ['番茄酱', '3汤匙', 'Tomato Ketchup'],
+      ['白糖', '2汤匙', 'Sugar'],
+      ['白醋', '2汤匙', 'White Vinegar'],
+      ['食用油', '500毫升', 'Vegetable Oil'],
+    ],
+    steps: [
+      '里脊切条，加盐腌10分钟，再裹上鸡蛋和淀粉调成的糊。',
+      '油温六成热下锅炸3分钟至定型捞出，升高油温复炸1分钟。',
+      '锅留底油，加番茄酱、白糖、白醋和少许水熬至浓稠。',
+      '倒入里脊快速翻炒，使每条都裹上酱汁即可。',
+    ],
+  },
+  {
+    id: 'cn-006',
+    name: '葱烧海参',
+    nameEn: 'Braised Sea Cucumber with Scallion',
+    region: '鲁菜',
+    category: 'Seafood',
+    tags: ['鲁菜', '宴客', '咸鲜'],
+    ingredients: [
+      ['水发海参', '4只', 'Sea Cucumber'],
+      ['大葱', '2根', 'Leek'],
+      ['蚝油', '1汤匙', 'Oyster Sauce'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+      ['老抽', '1茶匙', 'Dark Soy Sauce'],
+      ['白糖', '1茶匙', 'Sugar'],
+      ['高汤', '200毫升', 'Chicken Stock'],
+    ],
+    steps: [
+      '海参切条，开水焯1分钟去腥。',
+      '大葱切段，小火用油炸至金黄，制成葱油。',
+      '加入高汤、生抽、老抽、蚝油和白糖烧开。',
+      '放入海参小火煨10分钟，勾薄芡淋葱油出锅。',
+    ],
+  },
+  {
+    id: 'cn-007',
+    name: '白切鸡',
+    nameEn: 'Cantonese White Cut Chicken',
+    region: '粤菜',
+    category: 'Chicken',
+    tags: ['粤菜', '清淡', '原味'],
+    ingredients: [
+      ['三黄鸡', '1只', 'Chicken'],
+      ['姜', '1大块', 'Ginger'],
+      ['葱', '3根', 'Spring Onions'],
+      ['盐', '1茶匙', 'Salt'],
+      ['食用油', '2汤匙', 'Vegetable Oil'],
+    ],
+    steps: [
+      '锅中水烧开，加姜片和葱段，提鸡浸入再提起，重复3次。',
+      '整鸡放入锅中，保持微沸小火浸煮20分钟，关火焖10分钟。',
+      '捞出立即放入冰水中浸泡10分钟，使鸡皮爽脆。',
+      '姜葱剁末加盐，淋上热油做成蘸料，鸡斩件装盘即可。',
+    ],
+  },
+  {
+    id: 'cn-008',
+    name: '清蒸鲈鱼',
+    nameEn: 'Steamed Sea Bass',
+    region: '粤菜',
+    category: 'Seafood',
+    tags: ['粤菜', '清淡', '蒸'],
+    ingredients: [
+      ['鲈鱼', '1条', 'Sea Bass'],
+      ['姜', '1块', 'Ginger'],
+      ['葱', '3根', 'Spring Onions'],
+      ['蒸鱼豉油', '3汤匙', 'Soy Sauce'],
+      ['食用油', '2汤匙', 'Vegetable Oil'],
+    ],
+    steps: [
+      '鲈鱼处理干净，两面划刀，鱼身和鱼肚塞入姜片。',
+      '水开后上锅大火蒸8分钟，关火焖2分钟。',
+      '倒掉盘中蒸出的汤汁，铺上葱丝和姜丝。',
+      '淋上蒸鱼豉油，再浇一勺热油激出香味即可。',
+    ],
+  },
+  {
+    id: 'cn-009',
+    name: '蚝油生菜',
+    nameEn: 'Lettuce with Oyster Sauce',
+    region: '粤菜',
+    category: 'Vegetarian',
+    tags: ['粤菜', '快手', '清淡'],
+    ingredients: [
+      ['生菜', '1颗', 'Lettuce'],
+      ['蚝油', '2汤匙', 'Oyster Sauce'],
+      ['蒜', '3瓣', 'Garlic'],
+      ['白糖', '1/2茶匙', 'Sugar'],
+      ['淀粉', '1茶匙', 'Cornstarch'],
+    ],
+    steps: [
+      '生菜洗净，放入加了少许油和盐的开水中烫30秒捞出装盘。',
+      '锅中少油炒香蒜末，加入蚝油、白糖和少许清水。',
+      '水淀粉勾芡，把酱汁淋在生菜上即可。',
+    ],
+  },
+  {
+    id: 'cn-010',
+    name: '叉烧',
+    nameEn: 'Char Siu',
+    region: '粤菜',
+    category: 'Pork',
+    tags: ['粤菜', '烧腊', '甜'],
+    ingredients: [
+      ['梅花肉', '500克', 'Pork Shoulder'],
+      ['叉烧酱', '4汤匙', 'Char Siu Sauce'],
+      ['蜂蜜', '2汤匙', 'Honey'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+      ['料酒', '1汤匙', 'Rice Wine'],
+    ],
+    steps: [
+      '梅花肉切成长条，加叉烧酱、生抽和料酒冷藏腌制过夜。',
+      '烤箱预热200度，肉条放在烤架上烤20分钟。',
+      '取出刷上蜂蜜和剩余腌料，翻面再烤15分钟。',
+      '稍微放凉后切片即可。',
+    ],
+  },
+  {
+    id: 'cn-011',
+    name: '松鼠鳜鱼',
+    nameEn: 'Squirrel-shaped Mandarin Fish',
+    region: '苏菜',
+    category: 'Seafood',
+    tags: ['苏菜', '酸甜', '宴客'],
+    ingredients: [
+      ['鳜鱼', '1条', 'Mandarin Fish'],
+      ['淀粉', '100克', 'Cornstarch'],
+      ['番茄酱', '4汤匙', 'Tomato Ketchup'],
+      ['白糖', '3汤匙', 'Sugar'],
+      ['白醋', '2汤匙', 'White Vinegar'],
+      ['松子', '20克', 'Pine Nuts'],
+      ['食用油', '800毫升', 'Vegetable Oil'],
+    ],
+    steps: [
+      '鳜鱼去骨，鱼肉打十字花刀，拍上一层干淀粉。',
+      '油温七成热，提鱼尾淋油定型后整条下锅炸4分钟至金黄。',
+      '锅留底油，加番茄酱、白糖、白醋和清水熬成糖醋汁。',
+      '将糖醋汁浇在鱼身上，撒松子即可。',
+    ],
+  },
+  {
+    id: 'cn-012',
+    name: '红烧狮子头',
+    nameEn: 'Braised Lion\'s Head Meatballs',
+    region: '苏菜',
+    category: 'Pork',
+    tags: ['苏菜', '红烧', '宴客'],
+    ingredients: [
+      ['猪肉末', '500克', 'Minced Pork'],
+      ['荸荠', '6个', 'Water Chestnuts'],
+      ['鸡蛋', '1个', 'Egg'],
+      ['青菜', '4棵', 'Bok Choy'],
+      ['生抽', '2汤匙', 'Soy Sauce'],
+      ['老抽', '1汤匙', 'Dark Soy Sauce'],
+      ['姜', '1块', 'Ginger'],
+    ],
+    steps: [
+      '荸荠拍碎，和肉末、鸡蛋、姜末、生抽顺一个方向搅打上劲。',
+      '团成4个大肉丸，入油锅煎至表面金黄定型。',
+      '加入清水、老抽和生抽，小火炖1小时。',
+      '青菜焯水垫底，放上狮子头，淋上汤汁即可。',
+    ],
+  },
+  {
+    id: 'cn-013',
+    name: '荔枝肉',
+    nameEn: 'Lychee Pork',
+    region: '闽菜',
+    category: 'Pork',
+    tags: ['闽菜', '酸甜'],
+    ingredients: [
+      ['猪里脊', '300克', 'Pork Tenderloin'],
+      ['荸荠', '6个', 'Water Chestnuts'],
+      ['番茄酱', '3汤匙', 'Tomato Ketchup'],
+      ['白醋', '1汤匙', 'White Vinegar'],
+      ['白糖', '2汤匙', 'Sugar'],
+      ['淀粉', '50克', 'Cornstarch'],
+    ],
+    steps: [
+      '里脊切厚片，打十字花刀后切块，加盐腌制10分钟。',
+      '肉块裹淀粉，入油锅炸至卷曲成荔枝状捞出。',
+      '荸荠切块略炸。',
+      '锅中加番茄酱、白糖、白醋熬汁，倒入肉块和荸荠翻匀。',
+    ],
+  },
+  {
+    id: 'cn-014',
+    name: '海蛎煎',
+    nameEn: 'Oyster Omelette',
+    region: '闽菜',
+    category: 'Seafood',
+    tags: ['闽菜', '小吃'],
+    ingredients: [
+      ['海蛎', '250克', 'Oysters'],
+      ['鸡蛋', '3个', 'Eggs'],
+      ['红薯淀粉', '50克', 'Sweet Potato Starch'],
+      ['葱', '2根', 'Spring Onions'],
+      ['食用油', '3汤匙', 'Vegetable Oil'],
+    ],
+    steps: [
+      '海蛎用淀粉抓洗干净，沥干水分。',
+      '红薯淀粉加水调成糊，放入海蛎和葱花拌匀。',
+      '平底锅多放油，倒入海蛎糊摊平，中火煎2分钟。',
+      '淋入打散的鸡蛋，两面煎至金黄即可。',
+    ],
+  },
+  {
+    id: 'cn-015',
+    name: '西湖醋鱼',
+    nameEn: 'West Lake Fish in Vinegar Gravy',
+    region: '浙菜',
+    category: 'Seafood',
+    tags: ['浙菜', '酸甜'],
+    ingredients: [
+      ['草鱼', '1条', 'Grass Carp'],
+      ['姜', '1块', 'Ginger'],
+      ['香醋', '3汤匙', 'Vinegar'],
+      ['白糖', '2汤匙', 'Sugar'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+      ['淀粉', '1汤匙', 'Cornstarch'],
+    ],
+    steps: [
+      '草鱼从背部剖成两片，放入微沸的水中加姜片煮3分钟。',
+      '捞出装盘，取一勺煮鱼的汤汁。',
+      '汤汁中加香醋、白糖、生抽煮开，勾芡成醋汁。',
+      '将醋汁均匀浇在鱼身上即可。',
+    ],
+  },
+  {
+    id: 'cn-016',
+    name: '东坡肉',
+    nameEn: 'Dongpo Pork',
+    region: '浙菜',
+    category: 'Pork',
+    tags: ['浙菜', '红烧', '软糯'],
+    ingredients: [
+      ['五花肉', '600克', 'Pork Belly'],
+      ['绍兴黄酒', '300毫升', 'Shaoxing Wine'],
+      ['冰糖', '40克', 'Rock Sugar'],
+      ['生抽', '3汤匙', 'Soy Sauce'],
+      ['老抽', '1汤匙', 'Dark Soy Sauce'],
+      ['葱', '4根', 'Spring Onions'],
+      ['姜', '1块', 'Ginger'],
+    ],
+    steps: [
+      '五花肉切成大方块，冷水下锅焯5分钟，捞出洗净。',
+      '砂锅底铺葱段和姜片，肉块皮朝下码好。',
+      '加入黄酒、冰糖、生抽、老抽，小火慢炖2小时。',
+      '翻面使皮朝上，再炖30分钟至汤汁浓稠即可。',
+    ],
+  },
+  {
+    id: 'cn-017',
+    name: '剁椒鱼头',
+    nameEn: 'Steamed Fish Head with Chopped Chillies',
+    region: '湘菜',
+    category: 'Seafood',
+    tags: ['湘菜', '香辣', '蒸'],
+    ingredients: [
+      ['鱼头', '1个', 'Fish Head'],
+      ['剁椒', '4汤匙', 'Chopped Chillies'],
+      ['蒜', '5瓣', 'Garlic'],
+      ['姜', '1块', 'Ginger'],
+      ['葱', '2根', 'Spring Onions'],
+      ['料酒', '1汤匙', 'Rice Wine'],
+    ],
+    steps: [
+      '鱼头对半劈开，用料酒和盐抹匀腌制10分钟。',
+      '剁椒与蒜末、姜末拌匀，铺满鱼头表面。',
+      '水开后大火蒸12分钟。',
+      '撒葱花，浇一勺热油即可。',
+    ],
+  },
+  {
+    id: 'cn-018',
+    name: '农家小炒肉',
+    nameEn: 'Hunan Stir-fried Pork with Chillies',
+    region: '湘菜',
+    category: 'Pork',
+    tags: ['湘菜', '香辣', '下饭', '快手'],
+    ingredients: [
+      ['五花肉', '200克', 'Pork Belly'],
+      ['青椒', '4个', 'Green Chillies'],
+      ['蒜', '3瓣', 'Garlic'],
+      ['豆豉', '1汤匙', 'Fermented Black Beans'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+    ],
+    steps: [
+      '五花肉切薄片，青椒斜切成圈。',
+      '锅中不放油，下青椒干煸至起虎皮后盛出。',
+      '少许油煸炒五花肉至出油微焦，加蒜片和豆豉炒香。',
+      '倒回青椒，加生抽大火翻炒1分钟出锅。',
+    ],
+  },
+  {
+    id: 'cn-019',
+    name: '臭鳜鱼',
+    nameEn: 'Stinky Mandarin Fish',
+    region: '徽菜',
+    category: 'Seafood',
+    tags: ['徽菜', '红烧', '发酵'],
+    ingredients: [
+      ['腌鳜鱼', '1条', 'Mandarin Fish'],
+      ['五花肉', '50克', 'Pork Belly'],
+      ['冬笋', '50克', 'Bamboo Shoots'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+      ['姜', '1块', 'Ginger'],
+      ['干辣椒', '3个', 'Dried Chillies'],
+    ],
+    steps: [
+      '腌好的鳜鱼洗净，两面各煎2分钟。',
+      '加入五花肉丁、笋片、姜片和干辣椒炒香。',
+      '加生抽和没过鱼身的清水，小火烧20分钟。',
+      '大火收汁即可。',
+    ],
+  },
+  {
+    id: 'cn-020',
+    name: '京酱肉丝',
+    nameEn: 'Shredded Pork in Beijing Sauce',
+    region: '京菜',
+    category: 'Pork',
+    tags: ['京菜', '酱香'],
+    ingredients: [
+      ['猪里脊', '300克', 'Pork Tenderloin'],
+      ['甜面酱', '3汤匙', 'Sweet Bean Sauce'],
+      ['大葱', '2根', 'Leek'],
+      ['豆腐皮', '2张', 'Tofu Skin'],
+      ['白糖', '1茶匙', 'Sugar'],
+      ['淀粉', '1汤匙', 'Cornstarch'],
+    ],
+    steps: [
+      '里脊切丝，用淀粉抓匀腌10分钟。',
+      '大葱切丝铺在盘底，豆腐皮切块蒸3分钟。',
+      '热油滑炒肉丝至变色，加入甜面酱和白糖翻炒均匀。',
+      '将肉丝倒在葱丝上，用豆腐皮卷着吃。',
+    ],
+  },
+  {
+    id: 'cn-021',
+    name: '锅包肉',
+    nameEn: 'Guo Bao Rou',
+    region: '东北菜',
+    category: 'Pork',
+    tags: ['东北菜', '酸甜', '油炸'],
+    ingredients: [
+      ['猪里脊', '300克', 'Pork Tenderloin'],
+      ['土豆淀粉', '100克', 'Potato Starch'],
+      ['白醋', '3汤匙', 'White Vinegar'],
+      ['白糖', '3汤匙', 'Sugar'],
+      ['胡萝卜', '1/2根', 'Carrots'],
+      ['姜', '1块', 'Ginger'],
+      ['食用油', '500毫升', 'Vegetable Oil'],
+    ],
+    steps: [
+      '里脊切大薄片，淀粉加水调成厚糊，肉片均匀挂糊。',
+      '油温六成热逐片下锅炸2分钟，捞出后升高油温复炸至酥脆。',
+      '锅留底油，炒香姜丝和胡萝卜丝，加白糖和白醋熬成糖醋汁。',
+      '倒入肉片快速翻匀出锅。',
+    ],
+  },
+  {
+    id: 'cn-022',
+    name: '地三鲜',
+    nameEn: 'Di San Xian',
+    region: '东北菜',
+    category: 'Vegetarian',
+    tags: ['东北菜', '下饭', '素菜'],
+    ingredients: [
+      ['茄子', '1根', 'Aubergine'],
+      ['土豆', '1个', 'Potatoes'],
+      ['青椒', '1个', 'Green Pepper'],
+      ['蒜', '3瓣', 'Garlic'],
+      ['生抽', '2汤匙', 'Soy Sauce'],
+      ['白糖', '1茶匙', 'Sugar'],
+      ['淀粉', '1汤匙', 'Cornstarch'],
+    ],
+    steps: [
+      '茄子、土豆切滚刀块，青椒切块。',
+      '土豆和茄子分别下油锅炸至金黄捞出。',
+      '锅留底油炒香蒜末，倒入所有蔬菜。',
+      '加生抽、白糖和水淀粉翻炒均匀即可。',
+    ],
+  },
+  {
+    id: 'cn-023',
+    name: '过油肉',
+    nameEn: 'Shanxi Guo You Rou',
+    region: '山西菜',
+    category: 'Pork',
+    tags: ['山西菜', '醋香'],
+    ingredients: [
+      ['猪里脊', '250克', 'Pork Tenderloin'],
+      ['木耳', '20克', 'Wood Ear Mushrooms'],
+      ['青蒜', '2根', 'Leek'],
+      ['老陈醋', '1汤匙', 'Vinegar'],
+      ['鸡蛋', '1个', 'Egg'],
+      ['淀粉', '2汤匙', 'Cornstarch'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+    ],
+    steps: [
+      '里脊切薄片，用蛋液和淀粉上浆。',
+      '油温四成热滑散肉片至变白捞出。',
+      '锅中炒香葱姜，下木耳和青蒜翻炒1分钟。',
+      '倒回肉片，沿锅边烹入老陈醋，加生抽炒匀出锅。',
+    ],
+  },
+  {
+    id: 'cn-024',
+    name: '刀削面',
+    nameEn: 'Knife-cut Noodles',
+    region: '山西菜',
+    category: 'Pasta',
+    tags: ['山西菜', '面食'],
+    ingredients: [
+      ['面粉', '500克', 'Flour'],
+      ['清水', '200毫升', 'Water'],
+      ['番茄', '2个', 'Tomatoes'],
+      ['鸡蛋', '2个', 'Eggs'],
+      ['老陈醋', '1汤匙', 'Vinegar'],
+      ['盐', '1茶匙', 'Salt'],
+    ],
+    steps: [
+      '面粉加清水和成硬面团，盖上湿布醒30分钟。',
+      '番茄炒鸡蛋做成浇头，加少许盐调味。',
+      '水开后左手托面团，右手持刀将面片削入锅中，煮3分钟。',
+      '捞出浇上番茄鸡蛋卤，淋老陈醋即可。',
+    ],
+  },
+  {
+    id: 'cn-025',
+    name: '番茄炒蛋',
+    nameEn: 'Tomato and Egg Stir-fry',
+    region: '家常菜',
+    category: 'Vegetarian',
+    tags: ['家常菜', '快手', '下饭'],
+    ingredients: [
+      ['鸡蛋', '3个', 'Eggs'],
+      ['番茄', '2个', 'Tomatoes'],
+      ['葱', '1根', 'Spring Onions'],
+      ['白糖', '1茶匙', 'Sugar'],
+      ['盐', '1/2茶匙', 'Salt'],
+      ['食用油', '2汤匙', 'Vegetable Oil'],
+    ],
+    steps: [
+      '鸡蛋加少许盐打散，番茄切块。',
+      '热油下蛋液，炒至凝固后盛出。',
+      '锅中补少许油，下番茄炒2分钟出汁，加白糖和盐。',
+      '倒回鸡蛋翻炒30秒，撒葱花出锅。',
+    ],
+  },
+  {
+    id: 'cn-026',
+    name: '可乐鸡翅',
+    nameEn: 'Coca-Cola Chicken Wings',
+    region: '家常菜',
+    category: 'Chicken',
+    tags: ['家常菜', '甜', '儿童喜爱'],
+    ingredients: [
+      ['鸡翅中', '10个', 'Chicken Wings'],
+      ['可乐', '330毫升', 'Cola'],
+      ['生抽', '2汤匙', 'Soy Sauce'],
+      ['老抽', '1茶匙', 'Dark Soy Sauce'],
+      ['姜', '3片', 'Ginger'],
+      ['料酒', '1汤匙', 'Rice Wine'],
+    ],
+    steps: [
+      '鸡翅两面划刀，冷水下锅加料酒焯3分钟，捞出沥干。',
+      '锅中少油，将鸡翅两面煎至金黄。',
+      '加入姜片、生抽、老抽和可乐，大火烧开后转小火炖15分钟。',
+      '大火收汁至浓稠即可。',
+    ],
+  },
+  {
+    id: 'cn-027',
+    name: '蒜蓉西兰花',
+    nameEn: 'Garlic Broccoli',
+    region: '家常菜',
+    category: 'Vegan',
+    tags: ['家常菜', '清淡', '快手', '素菜'],
+    ingredients: [
+      ['西兰花', '1颗', 'Broccoli'],
+      ['蒜', '5瓣', 'Garlic'],
+      ['盐', '1/2茶匙', 'Salt'],
+      ['食用油', '1汤匙', 'Vegetable Oil'],
+    ],
+    steps: [
+      '西兰花切小朵，放入加盐的开水中焯1分钟捞出。',
+      '热油炒香蒜末。',
+      '倒入西兰花大火翻炒1分钟，加盐调味即可。',
+    ],
+  },
+  {
+    id: 'cn-028',
+    name: '西兰花炒鸡胸肉',
+    nameEn: 'Chicken Breast with Broccoli',
+    region: '家常菜',
+    category: 'Chicken',
+    tags: ['家常菜', '清淡', '低脂', '快手'],
+    ingredients: [
+      ['鸡胸肉', '250克', 'Chicken Breast'],
+      ['西兰花', '1颗', 'Broccoli'],
+      ['胡萝卜', '1/2根', 'Carrots'],
+      ['蒜', '2瓣', 'Garlic'],
+      ['生抽', '1汤匙', 'Soy Sauce'],
+      ['淀粉', '1茶匙', 'Cornstarch'],
+    ],
+    steps: [
+      '鸡胸肉切片，加生抽和淀粉腌10分钟。',
+      '西兰花切小朵焯水1分钟，胡萝卜切片。',
+      '热油滑炒鸡胸肉至变白盛出。',
+      '炒香蒜末，下西兰花和胡萝卜炒1分钟，倒回鸡肉翻匀出锅。',
+    ],
+  },
+];
@@ -0,0 +1,211 @@
+// 中英双语食材词表（Translator 离线翻译数据）
+// - en 使用 TheMealDB 的食材写法（首字母大写、常用单复数），可直接用于 filter.php?i=
+// - zh 为默认中文名，翻译英文菜谱时使用
+// - synonyms 收录中英文同义词 / 别称 / 单复数，如"西红柿"、"番茄"都指 Tomato
+// - 未收录的食材由 Translator 回退到 LLM，并记录为缺失词（getGlossaryMisses），据此补充本表
+
+/**
+ * 词表条目
+ */
+export interface GlossaryEntry {
+  en: string; // 英文名（TheMealDB 写法）
+  zh: string; // 默认中文名
+  synonyms: string[]; // 中英文同义词
+}
+
+export const INGREDIENT_GLOSSARY: GlossaryEntry[] = [
+  // 禽肉 / 蛋
+  { en: 'Chicken', zh: '鸡肉', synonyms: ['鸡', '整鸡', '三黄鸡', '土鸡', 'whole chicken'] },
+  { en: 'Chicken Breast', zh: '鸡胸肉', synonyms: ['鸡胸', '鸡脯肉', 'chicken breasts'] },
+  { en: 'Chicken Thighs', zh: '鸡腿肉', synonyms: ['鸡腿', '琵琶腿', '去骨鸡腿', 'chicken thigh', 'chicken legs'] },
+  { en: 'Chicken Wings', zh: '鸡翅', synonyms: ['鸡翅中', '鸡中翅', '翅中', 'chicken wing'] },
+  { en: 'Duck', zh: '鸭肉', synonyms: ['鸭', '鸭子'] },
+  { en: 'Egg', zh: '鸡蛋', synonyms: ['蛋', '鸡子', 'eggs'] },
+  { en: 'Egg Yolks', zh: '蛋黄', synonyms: ['egg yolk'] },
+  { en: 'Egg White', zh: '蛋清', synonyms: ['蛋白', 'egg whites'] },
+  // 猪牛羊
+  { en: 'Pork', zh: '猪肉', synonyms: ['猪', '瘦肉', '猪瘦肉'] },
+  { en: 'Pork Belly', zh: '五花肉', synonyms: ['猪五花', '三层肉'] },
+  { en: 'Pork Tenderloin', zh: '猪里脊', synonyms: ['里脊', '里脊肉', '猪柳'] },
+  { en: 'Pork Shoulder', zh: '梅花肉', synonyms: ['猪梅肉', '猪肩肉', '前腿肉'] },
+  { en: 'Pork Chops', zh: '猪排', synonyms: ['猪扒', 'pork chop'] },
+  { en: 'Minced Pork', zh: '猪肉末', synonyms: ['猪肉馅', '肉末', '肉馅', '猪绞肉', 'ground pork', 'pork mince'] },
+  { en: 'Ribs', zh: '排骨', synonyms: ['猪排骨', '肋排', '小排', 'pork ribs', 'spare ribs'] },
+  { en: 'Bacon', zh: '培根', synonyms: ['烟肉', 'bacon rashers'] },
+  { en: 'Ham', zh: '火腿', synonyms: ['火腿肠'] },
+  { en: 'Sausages', zh: '香肠', synonyms: ['腊肠', 'sausage'] },
+  { en: 'Beef', zh: '牛肉', synonyms: ['牛', '牛腱', '牛腱子'] },
+  { en: 'Beef Brisket', zh: '牛腩', synonyms: ['牛胸肉', 'brisket'] },
+  { en: 'Minced Beef', zh: '牛肉末', synonyms: ['牛肉馅', '牛绞肉', 'ground beef', 'beef mince'] },
+  { en: 'Steak', zh: '牛排', synonyms: ['牛扒', 'beef steak', 'sirloin steak'] },
+  { en: 'Lamb', zh: '羊肉', synonyms: ['羊', '羔羊肉', 'mutton'] },
+  { en: 'Lamb Shoulder', zh: '羊肩肉', synonyms: ['羊肩'] },
+  { en: 'Lamb Mince', zh: '羊肉末', synonyms: ['羊肉馅', 'minced lamb', 'ground lamb'] },
+  // 水产
+  { en: 'White Fish', zh: '白身鱼', synonyms: ['鱼肉', '鱼', '鱼片', 'fish', 'white fish fillets'] },
+  { en: 'Salmon', zh: '三文鱼', synonyms: ['鲑鱼', 'salmon fillets'] },
+  { en: 'Cod', zh: '鳕鱼', synonyms: ['鳕鱼块'] },
+  { en: 'Tuna', zh: '金枪鱼', synonyms: ['吞拿鱼'] },
+  { en: 'Sea Bass', zh: '鲈鱼', synonyms: ['海鲈鱼'] },
+  { en: 'Grass Carp', zh: '草鱼', synonyms: ['鲩鱼'] },
+  { en: 'Mandarin Fish', zh: '鳜鱼', synonyms: ['桂鱼', '腌鳜鱼'] },
+  { en: 'Prawns', zh: '虾', synonyms: ['大虾', '虾仁', '明虾', '基围虾', 'prawn', 'shrimp', 'shrimps', 'king prawns'] },
+  { en: 'Squid', zh: '鱿鱼', synonyms: ['墨鱼', 'calamari'] },
+  { en: 'Oysters', zh: '生蚝', synonyms: ['牡蛎', '海蛎', '蚝', 'oyster'] },
+  { en: 'Mussels', zh: '青口', synonyms: ['贻贝', 'mussel'] },
+  { en: 'Clams', zh: '蛤蜊', synonyms: ['花甲', 'clam'] },
+  { en: 'Crab', zh: '螃蟹', synonyms: ['蟹', '大闸蟹'] },
+  { en: 'Lobster', zh: '龙虾', synonyms: ['小龙虾', 'crayfish'] },
+  { en: 'Sea Cucumber', zh: '海参', synonyms: ['水发海参'] },
+  // 豆制品
+  { en: 'Tofu', zh: '豆腐', synonyms: ['嫩豆腐', '老豆腐', '北豆腐', '南豆腐', 'bean curd', 'firm tofu', 'silken tofu'] },
+  { en: 'Tofu Skin', zh: '豆腐皮', synonyms: ['千张', '豆皮', '腐竹'] },
+  { en: 'Fermented Black Beans', zh: '豆豉', synonyms: ['黑豆豉'] },
+  { en: 'Black Beans', zh: '黑豆', synonyms: ['black bean'] },
+  { en: 'Kidney Beans', zh: '红腰豆', synonyms: ['芸豆', 'red kidney beans'] },
+  { en: 'Chickpeas', zh: '鹰嘴豆', synonyms: ['chickpea'] },
+  { en: 'Green Beans', zh: '四季豆', synonyms: ['豆角', '芸豆角', '扁豆', 'string beans'] },
+  { en: 'Peas', zh: '豌豆', synonyms: ['青豆', 'green peas'] },
+  { en: 'Bean Sprouts', zh: '豆芽', synonyms: ['绿豆芽', '黄豆芽', 'beansprouts'] },
+  // 蔬菜
+  { en: 'Tomatoes', zh: '番茄', synonyms: ['西红柿', '蕃茄', 'tomato', 'cherry tomatoes'] },
+  { en: 'Chopped Tomatoes', zh: '番茄丁', synonyms: ['罐头番茄', '番茄碎', 'tinned tomatoes', 'canned tomatoes'] },
+  { en: 'Potatoes', zh: '土豆', synonyms: ['马铃薯', '洋芋', 'potato'] },
+  { en: 'Sweet Potatoes', zh: '红薯', synonyms: ['地瓜', '番薯', '甘薯', 'sweet potato'] },
+  { en: 'Carrots', zh: '胡萝卜', synonyms: ['红萝卜', 'carrot'] },
+  { en: 'Onion', zh: '洋葱', synonyms: ['圆葱', 'onions', 'red onion', 'white onion'] },
+  { en: 'Spring Onions', zh: '葱', synonyms: ['小葱', '香葱', '葱花', '青葱', 'scallions', 'spring onion', 'green onions'] },
+  { en: 'Leek', zh: '大葱', synonyms: ['青蒜', '蒜苗', '韭葱', 'leeks'] },
+  { en: 'Garlic', zh: '大蒜', synonyms: ['蒜', '蒜头', '蒜瓣', '蒜末', '蒜蓉', 'garlic clove', 'garlic cloves'] },
+  { en: 'Ginger', zh: '姜', synonyms: ['生姜', '老姜', '姜片', '姜末', 'fresh ginger'] },
+  { en: 'Broccoli', zh: '西兰花', synonyms: ['西蓝花', '绿花菜', '青花菜'] },
+  { en: 'Cauliflower', zh: '花菜', synonyms: ['菜花', '花椰菜'] },
+  { en: 'Cabbage', zh: '卷心菜', synonyms: ['包菜', '圆白菜', '洋白菜', '甘蓝'] },
+  { en: 'Chinese Cabbage', zh: '大白菜', synonyms: ['白菜', '黄芽白', 'napa cabbage'] },
+  { en: 'Bok Choy', zh: '青菜', synonyms: ['小白菜', '上海青', '油菜', '小油菜', 'pak choi', 'pak choy'] },
+  { en: 'Spinach', zh: '菠菜', synonyms: ['菠薐菜'] },
+  { en: 'Lettuce', zh: '生菜', synonyms: ['莴苣叶', '球生菜'] },
+  { en: 'Celery', zh: '芹菜', synonyms: ['西芹', '香芹'] },
+  { en: 'Cucumber', zh: '黄瓜', synonyms: ['青瓜'] },
+  { en: 'Aubergine', zh: '茄子', synonyms: ['eggplant', 'eggplants'] },
+  { en: 'Courgettes', zh: '西葫芦', synonyms: ['zucchini', 'courgette'] },
+  { en: 'Pumpkin', zh: '南瓜', synonyms: ['倭瓜', 'squash', 'butternut squash'] },
+  { en: 'Green Pepper', zh: '青椒', synonyms: ['柿子椒', '菜椒', 'green peppers', 'green bell pepper'] },
+  { en: 'Red Pepper', zh: '红椒', synonyms: ['红甜椒', '红彩椒', 'red peppers', 'red bell pepper'] },
+  { en: 'Green Chillies', zh: '青辣椒', synonyms: ['尖椒', '青尖椒', 'green chilli', 'green chili'] },
+  { en: 'Red Chilli', zh: '红辣椒', synonyms: ['小米辣', '小米椒', '朝天椒', 'red chillies', 'chili', 'chilli'] },
+  { en: 'Dried Chillies', zh: '干辣椒', synonyms: ['干红辣椒', '辣椒干', 'dried chilli', 'dried chilies'] },
+  { en: 'Mushrooms', zh: '蘑菇', synonyms: ['口蘑', '白蘑菇', '菇', 'mushroom', 'button mushrooms'] },
+  { en: 'Shiitake Mushrooms', zh: '香菇', synonyms: ['冬菇', '花菇', 'shiitake'] },
+  { en: 'Wood Ear Mushrooms', zh: '木耳', synonyms: ['黑木耳', '云耳', 'wood ear'] },
+  { en: 'Enoki Mushrooms', zh: '金针菇', synonyms: ['enoki'] },
+  { en: 'Bamboo Shoots', zh: '竹笋', synonyms: ['笋', '冬笋', '春笋', 'bamboo shoot'] },
+  { en: 'Water Chestnuts', zh: '荸荠', synonyms: ['马蹄', 'water chestnut'] },
+  { en: 'Lotus Root', zh: '莲藕', synonyms: ['藕'] },
+  { en: 'Asparagus', zh: '芦笋', synonyms: ['龙须菜'] },
+  { en: 'Sweetcorn', zh: '玉米', synonyms: ['玉米粒', '甜玉米', 'corn', 'sweet corn'] },
+  { en: 'Okra', zh: '秋葵', synonyms: [] },
+  { en: 'Radish', zh: '萝卜', synonyms: ['白萝卜', '青萝卜', 'daikon', 'mooli'] },
+  { en: 'Yam', zh: '山药', synonyms: ['淮山', 'chinese yam'] },
+  { en: 'Stir-fry Vegetables', zh: '什锦蔬菜', synonyms: ['杂菜', '混合蔬菜', 'mixed vegetables'] },
+  // 香草 / 香料
+  { en: 'Coriander', zh: '香菜', synonyms: ['芫荽', 'cilantro', 'coriander leaves'] },
+  { en: 'Parsley', zh: '欧芹', synonyms: ['法香', '巴西里'] },
+  { en: 'Basil', zh: '罗勒', synonyms: ['九层塔', '金不换', 'basil leaves'] },
+  { en: 'Thyme', zh: '百里香', synonyms: [] },
+  { en: 'Oregano', zh: '牛至', synonyms: ['披萨草'] },
+  { en: 'Rosemary', zh: '迷迭香', synonyms: [] },
+  { en: 'Bay Leaf', zh: '香叶', synonyms: ['月桂叶', 'bay leaves'] },
+  { en: 'Star Anise', zh: '八角', synonyms: ['大料', '大茴香'] },
+  { en: 'Cinnamon', zh: '肉桂', synonyms: ['桂皮', 'cinnamon stick'] },
+  { en: 'Cumin', zh: '孜然', synonyms: ['孜然粉', 'ground cumin', 'cumin seeds'] },
+  { en: 'Sichuan Pepper', zh: '花椒', synonyms: ['花椒粒', '花椒粉', '麻椒', 'szechuan pepper', 'sichuan peppercorns'] },
+  { en: 'Black Pepper', zh: '黑胡椒', synonyms: ['黑胡椒粉', '胡椒', 'pepper', 'ground black pepper'] },
+  { en: 'White Pepper', zh: '白胡椒', synonyms: ['白胡椒粉', '胡椒粉'] },
+  { en: 'Chilli Powder', zh: '辣椒粉', synonyms: ['辣椒面', 'chili powder'] },
+  { en: 'Red Chilli Flakes', zh: '辣椒碎', synonyms: ['chilli flakes', 'chili flakes'] },
+  { en: 'Paprika', zh: '红椒粉', synonyms: ['甜椒粉', 'smoked paprika'] },
+  { en: 'Turmeric', zh: '姜黄', synonyms: ['姜黄粉', 'ground turmeric'] },
+  { en: 'Curry Powder', zh: '咖喱粉', synonyms: ['咖喱'] },
+  { en: 'Garam Masala', zh: '印度综合香料', synonyms: ['马萨拉'] },
+  { en: 'Five Spice', zh: '五香粉', synonyms: ['chinese five spice', 'five spice powder'] },
+  { en: 'Ground Ginger', zh: '姜粉', synonyms: ['ginger powder'] },
+  { en: 'Ginger Paste', zh: '姜蓉', synonyms: ['姜泥'] },
+  { en: 'Garlic Paste', zh: '蒜泥', synonyms: ['garlic puree'] },
+  // 调味品
+  { en: 'Salt', zh: '盐', synonyms: ['食盐', '精盐', 'sea salt'] },
+  { en: 'Sugar', zh: '白糖', synonyms: ['糖', '白砂糖', '砂糖', 'caster sugar', 'granulated sugar'] },
+  { en: 'Brown Sugar', zh: '红糖', synonyms: ['黄糖', 'dark brown sugar'] },
+  { en: 'Rock Sugar', zh: '冰糖', synonyms: [] },
+  { en: 'Honey', zh: '蜂蜜', synonyms: ['蜜'] },
+  { en: 'Maple Syrup', zh: '枫糖浆', synonyms: [] },
+  { en: 'Soy Sauce', zh: '生抽', synonyms: ['酱油', '淡口酱油', '蒸鱼豉油', 'light soy sauce'] },
+  { en: 'Dark Soy Sauce', zh: '老抽', synonyms: ['深色酱油'] },
+  { en: 'Oyster Sauce', zh: '蚝油', synonyms: [] },
+  { en: 'Fish Sauce', zh: '鱼露', synonyms: [] },
+  { en: 'Vinegar', zh: '醋', synonyms: ['香醋', '陈醋', '老陈醋', '镇江香醋', 'black vinegar'] },
+  { en: 'White Vinegar', zh: '白醋', synonyms: ['white wine vinegar'] },
+  { en: 'Rice Vinegar', zh: '米醋', synonyms: [] },
+  { en: 'Rice Wine', zh: '料酒', synonyms: ['米酒', '黄酒', 'cooking wine'] },
+  { en: 'Shaoxing Wine', zh: '绍兴黄酒', synonyms: ['花雕酒', '绍酒', 'shaoxing rice wine'] },
+  { en: 'Chilli Bean Paste', zh: '郫县豆瓣酱', synonyms: ['豆瓣酱', '辣豆瓣酱', 'doubanjiang', 'chili bean paste'] },
+  { en: 'Sweet Bean Sauce', zh: '甜面酱', synonyms: ['面酱'] },
+  { en: 'Hoisin Sauce', zh: '海鲜酱', synonyms: [] },
+  { en: 'Char Siu Sauce', zh: '叉烧酱', synonyms: [] },
+  { en: 'Tomato Ketchup', zh: '番茄酱', synonyms: ['茄汁', 'ketchup'] },
+  { en: 'Tomato Puree', zh: '番茄泥', synonyms: ['番茄膏', 'tomato paste'] },
+  { en: 'Chopped Chillies', zh: '剁椒', synonyms: ['剁辣椒'] },
+  { en: 'Pickled Chillies', zh: '泡辣椒', synonyms: ['泡椒', '野山椒'] },
+  { en: 'Sesame Seed Oil', zh: '香油', synonyms: ['芝麻油', '麻油', 'sesame oil'] },
+  { en: 'Vegetable Oil', zh: '食用油', synonyms: ['植物油', '油', '花生油', '菜籽油', 'cooking oil', 'sunflower oil'] },
+  { en: 'Olive Oil', zh: '橄榄油', synonyms: ['extra virgin olive oil'] },
+  { en: 'Cornstarch', zh: '玉米淀粉', synonyms: ['淀粉', '生粉', '水淀粉', 'cornflour', 'corn starch'] },
+  { en: 'Potato Starch', zh: '土豆淀粉', synonyms: ['马铃薯淀粉'] },
+  { en: 'Sweet Potato Starch', zh: '红薯淀粉', synonyms: ['地瓜粉'] },
+  { en: 'Dijon Mustard', zh: '第戎芥末酱', synonyms: ['芥末酱', 'mustard'] },
+  { en: 'Tamarind Paste', zh: '罗望子酱', synonyms: ['酸角酱'] },
+  { en: 'Chicken Stock', zh: '鸡汤', synonyms: ['高汤', '鸡高汤', 'chicken broth'] },
+  { en: 'Beef Stock', zh: '牛肉高汤', synonyms: ['牛骨汤', 'beef broth'] },
+  { en: 'Lamb Stock', zh: '羊肉高汤', synonyms: ['羊汤'] },
+  { en: 'Vegetable Stock', zh: '蔬菜高汤', synonyms: ['素高汤', 'vegetable broth'] },
+  { en: 'Water', zh: '清水', synonyms: ['水', '温水', '开水', 'cold water', 'boiling water'] },
+  // 主食 / 面粉
+  { en: 'Rice', zh: '大米', synonyms: ['米', '米饭', '白米饭', '白米', 'white rice', 'cooked rice'] },
+  { en: 'Brown Rice', zh: '糙米', synonyms: [] },
+  { en: 'Jasmine Rice', zh: '香米', synonyms: ['泰国香米'] },
+  { en: 'Glutinous Rice', zh: '糯米', synonyms: ['江米', 'sticky rice'] },
+  { en: 'Plain Flour', zh: '面粉', synonyms: ['中筋面粉', '普通面粉', 'flour', 'all-purpose flour'] },
+  { en: 'Bread', zh: '面包', synonyms: ['吐司', '土司'] },
+  { en: 'Noodles', zh: '面条', synonyms: ['挂面', '鸡蛋面', '拉面', 'egg noodles'] },
+  { en: 'Rice Noodles', zh: '米粉', synonyms: ['河粉', '米线', 'rice vermicelli'] },
+  { en: 'Spaghetti', zh: '意大利面', synonyms: ['意面', 'pasta'] },
+  { en: 'Penne Rigate', zh: '通心粉', synonyms: ['笔管面', 'penne'] },
+  { en: 'Puff Pastry', zh: '酥皮', synonyms: ['千层酥皮'] },
+  { en: 'Baking Powder', zh: '泡打粉', synonyms: ['发粉'] },
+  { en: 'Yeast', zh: '酵母', synonyms: ['干酵母', 'dried yeast'] },
+  // 乳制品
+  { en: 'Milk', zh: '牛奶', synonyms: ['鲜奶', '纯牛奶', 'whole milk'] },
+  { en: 'Butter', zh: '黄油', synonyms: ['牛油', 'unsalted butter'] },
+  { en: 'Double Cream', zh: '淡奶油', synonyms: ['鲜奶油', '奶油', 'heavy cream', 'whipping cream', 'cream'] },
+  { en: 'Yogurt', zh: '酸奶', synonyms: ['酸奶酪', 'yoghurt', 'greek yogurt'] },
+  { en: 'Cheese', zh: '奶酪', synonyms: ['芝士', '干酪', 'cheddar cheese'] },
+  { en: 'Parmesan', zh: '帕尔马干酪', synonyms: ['帕玛森芝士', 'parmesan cheese'] },
+  { en: 'Mozzarella', zh: '马苏里拉芝士', synonyms: ['马苏里拉奶酪', 'mozzarella cheese'] },
+  // 坚果 / 水果
+  { en: 'Peanuts', zh: '花生', synonyms: ['花生米', 'peanut', 'roasted peanuts'] },
+  { en: 'Cashew Nuts', zh: '腰果', synonyms: ['cashews'] },
+  { en: 'Pine Nuts', zh: '松子', synonyms: ['松仁'] },
+  { en: 'Walnuts', zh: '核桃', synonyms: ['核桃仁', 'walnut'] },
+  { en: 'Almonds', zh: '杏仁', synonyms: ['扁桃仁', 'almond'] },
+  { en: 'Sesame Seeds', zh: '芝麻', synonyms: ['白芝麻', '黑芝麻', 'sesame seed'] },
+  { en: 'Lemon', zh: '柠檬', synonyms: ['lemons', 'lemon juice'] },
+  { en: 'Lime', zh: '青柠', synonyms: ['limes', 'lime juice'] },
+  { en: 'Apple', zh: '苹果', synonyms: ['apples'] },
+  { en: 'Banana', zh: '香蕉', synonyms: ['bananas'] },
+  { en: 'Pineapple', zh: '菠萝', synonyms: ['凤梨'] },
+  { en: 'Mango', zh: '芒果', synonyms: ['mangoes'] },
+  { en: 'Strawberries', zh: '草莓', synonyms: ['strawberry'] },
+  { en: 'Dried Apricots', zh: '杏干', synonyms: ['apricots'] },
+  { en: 'Coconut Milk', zh: '椰浆', synonyms: ['椰奶'] },
+  { en: 'Cola', zh: '可乐', synonyms: ['coca-cola', 'coke'] },
+];
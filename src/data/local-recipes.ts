@@ -0,0 +1,413 @@
+// 内置离线菜谱数据集（LocalRecipeSource 默认数据）
+// - 结构与 TheMealDB 规范化后的 NormalizedRecipe 一致：英文内容、TheMealDB 的类别/菜系取值
+// - 覆盖常见食材（鸡肉、牛肉、猪肉、海鲜、鸡蛋、番茄、豆腐等），保证离线时各类查询都有结果
+import type { NormalizedRecipe } from '../types';
+
+export const LOCAL_RECIPES: NormalizedRecipe[] = [
+  {
+    id: 'local-001',
+    name: 'Tomato and Egg Stir-fry',
+    category: 'Vegetarian',
+    area: 'Chinese',
+    tags: ['Quick', 'HomeStyle'],
+    instructions:
+      'Beat the eggs with a pinch of salt.\n' +
+      'Cut the tomatoes into wedges and slice the spring onions.\n' +
+      'Heat 2 tbsp oil in a wok over high heat, pour in the eggs and scramble until just set, then remove.\n' +
+      'Add the remaining oil, stir-fry the tomatoes for 2 minutes until softened, then add sugar and salt.\n' +
+      'Return the eggs to the wok, toss for 30 seconds, sprinkle with spring onions and serve.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Eggs', measure: '4' },
+      { ingredient: 'Tomatoes', measure: '3' },
+      { ingredient: 'Spring Onions', measure: '2' },
+      { ingredient: 'Vegetable Oil', measure: '3 tbs' },
+      { ingredient: 'Sugar', measure: '1 tsp' },
+      { ingredient: 'Salt', measure: 'Pinch' },
+    ],
+  },
+  {
+    id: 'local-002',
+    name: 'Kung Pao Chicken',
+    category: 'Chicken',
+    area: 'Chinese',
+    tags: ['Spicy', 'Nutty'],
+    instructions:
+      'Cut the chicken into small cubes and marinate with soy sauce, cornstarch and rice wine for 15 minutes.\n' +
+      'Mix the sauce: soy sauce, vinegar, sugar and a splash of water.\n' +
+      'Heat oil in a wok, fry the dried chillies and Sichuan peppercorns for 30 seconds until fragrant.\n' +
+      'Add the chicken and stir-fry for 4 minutes until cooked through.\n' +
+      'Add garlic, ginger and spring onions, pour in the sauce and cook for 1 minute until glossy.\n' +
+      'Toss in the peanuts and serve with rice.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Chicken Breast', measure: '400g' },
+      { ingredient: 'Peanuts', measure: '50g' },
+      { ingredient: 'Dried Chillies', measure: '8' },
+      { ingredient: 'Sichuan Pepper', measure: '1 tsp' },
+      { ingredient: 'Soy Sauce', measure: '3 tbs' },
+      { ingredient: 'Rice Vinegar', measure: '1 tbs' },
+      { ingredient: 'Sugar', measure: '1 tbs' },
+      { ingredient: 'Cornstarch', measure: '1 tbs' },
+      { ingredient: 'Rice Wine', measure: '1 tbs' },
+      { ingredient: 'Garlic', measure: '3 cloves' },
+      { ingredient: 'Ginger', measure: '1 inch' },
+      { ingredient: 'Spring Onions', measure: '3' },
+    ],
+  },
+  {
+    id: 'local-003',
+    name: 'Chicken Fried Rice',
+    category: 'Chicken',
+    area: 'Chinese',
+    tags: ['Quick', 'Leftovers'],
+    instructions:
+      'Dice the chicken and cook in a hot wok with 1 tbsp oil for 5 minutes, then set aside.\n' +
+      'Scramble the eggs in the wok and break into small pieces.\n' +
+      'Add the remaining oil, the cold cooked rice, peas and carrots and stir-fry for 3 minutes.\n' +
+      'Return the chicken, season with soy sauce and sesame oil, and finish with spring onions.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Chicken Thighs', measure: '300g' },
+      { ingredient: 'Rice', measure: '3 cups cooked' },
+      { ingredient: 'Eggs', measure: '2' },
+      { ingredient: 'Peas', measure: '1/2 cup' },
+      { ingredient: 'Carrots', measure: '1' },
+      { ingredient: 'Soy Sauce', measure: '2 tbs' },
+      { ingredient: 'Sesame Seed Oil', measure: '1 tsp' },
+      { ingredient: 'Spring Onions', measure: '2' },
+      { ingredient: 'Vegetable Oil', measure: '2 tbs' },
+    ],
+  },
+  {
+    id: 'local-004',
+    name: 'Mapo Tofu',
+    category: 'Pork',
+    area: 'Chinese',
+    tags: ['Spicy'],
+    instructions:
+      'Cut the tofu into cubes and blanch in salted simmering water for 2 minutes, then drain.\n' +
+      'Heat oil in a wok and fry the minced pork until browned.\n' +
+      'Add the chilli bean paste, garlic and ginger and fry for 1 minute until the oil turns red.\n' +
+      'Pour in the stock, add the tofu and simmer gently for 5 minutes.\n' +
+      'Thicken with cornstarch slurry, sprinkle with ground Sichuan pepper and spring onions.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Tofu', measure: '400g' },
+      { ingredient: 'Minced Pork', measure: '150g' },
+      { ingredient: 'Chilli Bean Paste', measure: '2 tbs' },
+      { ingredient: 'Garlic', measure: '2 cloves' },
+      { ingredient: 'Ginger', measure: '1 tsp' },
+      { ingredient: 'Chicken Stock', measure: '200ml' },
+      { ingredient: 'Cornstarch', measure: '1 tbs' },
+      { ingredient: 'Sichuan Pepper', measure: '1/2 tsp' },
+      { ingredient: 'Spring Onions', measure: '2' },
+    ],
+  },
+  {
+    id: 'local-005',
+    name: 'Beef and Broccoli',
+    category: 'Beef',
+    area: 'Chinese',
+    tags: ['Quick'],
+    instructions:
+      'Slice the beef thinly against the grain and marinate with soy sauce and cornstarch for 10 minutes.\n' +
+      'Blanch the broccoli florets in boiling water for 1 minute and drain.\n' +
+      'Sear the beef in a very hot wok for 2 minutes, then remove.\n' +
+      'Fry garlic briefly, add the broccoli and oyster sauce, return the beef and toss for 1 minute.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Beef', measure: '350g' },
+      { ingredient: 'Broccoli', measure: '1 head' },
+      { ingredient: 'Oyster Sauce', measure: '3 tbs' },
+      { ingredient: 'Soy Sauce', measure: '1 tbs' },
+      { ingredient: 'Cornstarch', measure: '1 tsp' },
+      { ingredient: 'Garlic', measure: '2 cloves' },
+      { ingredient: 'Vegetable Oil', measure: '2 tbs' },
+    ],
+  },
+  {
+    id: 'local-006',
+    name: 'Spaghetti Bolognese',
+    category: 'Beef',
+    area: 'Italian',
+    tags: ['Pasta', 'Family'],
+    instructions:
+      'Fry the onion, carrot and celery in olive oil for 10 minutes until soft.\n' +
+      'Add the minced beef and brown for 5 minutes, breaking it up with a spoon.\n' +
+      'Stir in the tomato puree and chopped tomatoes, add oregano and simmer for 40 minutes.\n' +
+      'Cook the spaghetti in salted boiling water for 10 minutes, drain and serve topped with the sauce and parmesan.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Spaghetti', measure: '400g' },
+      { ingredient: 'Minced Beef', measure: '500g' },
+      { ingredient: 'Onion', measure: '1' },
+      { ingredient: 'Carrots', measure: '1' },
+      { ingredient: 'Celery', measure: '1 stick' },
+      { ingredient: 'Chopped Tomatoes', measure: '2 tins' },
+      { ingredient: 'Tomato Puree', measure: '2 tbs' },
+      { ingredient: 'Oregano', measure: '1 tsp' },
+      { ingredient: 'Olive Oil', measure: '2 tbs' },
+      { ingredient: 'Parmesan', measure: '50g' },
+    ],
+  },
+  {
+    id: 'local-007',
+    name: 'Spicy Arrabiata Penne',
+    category: 'Vegetarian',
+    area: 'Italian',
+    tags: ['Pasta', 'Spicy'],
+    instructions:
+      'Bring a large pot of salted water to the boil and cook the penne for 10 minutes.\n' +
+      'Meanwhile, fry the garlic and red chilli flakes in olive oil for 1 minute.\n' +
+      'Add the chopped tomatoes and simmer for 10 minutes, season with salt.\n' +
+      'Drain the pasta, toss with the sauce and scatter with basil and parmesan.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Penne Rigate', measure: '1 pound' },
+      { ingredient: 'Olive Oil', measure: '1/4 cup' },
+      { ingredient: 'Garlic', measure: '3 cloves' },
+      { ingredient: 'Chopped Tomatoes', measure: '1 tin' },
+      { ingredient: 'Red Chilli Flakes', measure: '1/2 tsp' },
+      { ingredient: 'Basil', measure: '6 leaves' },
+      { ingredient: 'Parmesan', measure: 'sprinkling' },
+    ],
+  },
+  {
+    id: 'local-008',
+    name: 'Beef and Mustard Pie',
+    category: 'Beef',
+    area: 'British',
+    tags: ['Meat', 'Pie'],
+    instructions:
+      'Preheat the oven to 200C.\n' +
+      'Toss the beef in flour and brown in batches in a hot pan with oil.\n' +
+      'Add onions and mushrooms, then stir in the stock, mustard and thyme and simmer for 1 hour 30 minutes until tender.\n' +
+      'Transfer to a pie dish, cover with puff pastry and brush with beaten egg.\n' +
+      'Bake for 30 minutes until golden.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Beef', measure: '1kg' },
+      { ingredient: 'Plain Flour', measure: '2 tbs' },
+      { ingredient: 'Onion', measure: '2' },
+      { ingredient: 'Mushrooms', measure: '250g' },
+      { ingredient: 'Beef Stock', measure: '500ml' },
+      { ingredient: 'Dijon Mustard', measure: '2 tbs' },
+      { ingredient: 'Thyme', measure: '4 sprigs' },
+      { ingredient: 'Puff Pastry', measure: '400g' },
+      { ingredient: 'Egg', measure: '1' },
+      { ingredient: 'Vegetable Oil', measure: '2 tbs' },
+    ],
+  },
+  {
+    id: 'local-009',
+    name: 'Fish Pie',
+    category: 'Seafood',
+    area: 'British',
+    tags: ['Fish', 'Pie'],
+    instructions:
+      'Preheat the oven to 190C.\n' +
+      'Boil the potatoes for 15 minutes, drain and mash with butter and milk.\n' +
+      'Poach the fish and prawns in milk for 5 minutes, then lay in a baking dish.\n' +
+      'Make a white sauce with butter, flour and the poaching milk, stir in parsley and pour over the fish.\n' +
+      'Top with the mash and bake for 30 minutes until golden.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Potatoes', measure: '1kg' },
+      { ingredient: 'White Fish', measure: '400g' },
+      { ingredient: 'Prawns', measure: '200g' },
+      { ingredient: 'Milk', measure: '600ml' },
+      { ingredient: 'Butter', measure: '60g' },
+      { ingredient: 'Plain Flour', measure: '40g' },
+      { ingredient: 'Parsley', measure: '2 tbs chopped' },
+    ],
+  },
+  {
+    id: 'local-010',
+    name: 'Teriyaki Chicken Casserole',
+    category: 'Chicken',
+    area: 'Japanese',
+    tags: ['Meat', 'Casserole'],
+    instructions:
+      'Preheat the oven to 180C.\n' +
+      'Simmer soy sauce, water, brown sugar, ginger and garlic, then thicken with cornstarch.\n' +
+      'Place the chicken in a baking dish and pour the sauce over it.\n' +
+      'Bake for 35 minutes, add the stir-fry vegetables and bake for another 10 minutes.\n' +
+      'Serve over rice.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Soy Sauce', measure: '3/4 cup' },
+      { ingredient: 'Water', measure: '1/2 cup' },
+      { ingredient: 'Brown Sugar', measure: '1/4 cup' },
+      { ingredient: 'Ground Ginger', measure: '1/2 tsp' },
+      { ingredient: 'Garlic', measure: '1/2 tsp minced' },
+      { ingredient: 'Cornstarch', measure: '4 tbs' },
+      { ingredient: 'Chicken Breasts', measure: '2' },
+      { ingredient: 'Stir-fry Vegetables', measure: '1 (12 oz.)' },
+      { ingredient: 'Brown Rice', measure: '3 cups' },
+    ],
+  },
+  {
+    id: 'local-011',
+    name: 'Chicken Handi',
+    category: 'Chicken',
+    area: 'Indian',
+    tags: ['Curry', 'Spicy'],
+    instructions:
+      'Fry the onions in oil for 10 minutes until golden.\n' +
+      'Add garlic, ginger and tomatoes and cook for 5 minutes.\n' +
+      'Add the chicken and spices and cook for 15 minutes.\n' +
+      'Stir in yogurt and cream and simmer for 5 minutes, garnish with coriander.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Chicken', measure: '1.2 kg' },
+      { ingredient: 'Onion', measure: '5 thinly sliced' },
+      { ingredient: 'Tomatoes', measure: '2 finely chopped' },
+      { ingredient: 'Garlic', measure: '8 cloves chopped' },
+      { ingredient: 'Ginger Paste', measure: '1 tbsp' },
+      { ingredient: 'Vegetable Oil', measure: '1/4 cup' },
+      { ingredient: 'Garam Masala', measure: '1 tsp' },
+      { ingredient: 'Yogurt', measure: '1 cup' },
+      { ingredient: 'Double Cream', measure: '3/4 cup' },
+      { ingredient: 'Coriander', measure: '1/2 cup' },
+    ],
+  },
+  {
+    id: 'local-012',
+    name: 'Vegan Chilli',
+    category: 'Vegan',
+    area: 'Mexican',
+    tags: ['Vegan', 'Spicy'],
+    instructions:
+      'Fry the onion, pepper and garlic in olive oil for 8 minutes.\n' +
+      'Add cumin and chilli powder and cook for 1 minute.\n' +
+      'Stir in the kidney beans, black beans and chopped tomatoes and simmer for 25 minutes.\n' +
+      'Season and serve with rice.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Onion', measure: '1' },
+      { ingredient: 'Red Pepper', measure: '1' },
+      { ingredient: 'Garlic', measure: '2 cloves' },
+      { ingredient: 'Olive Oil', measure: '2 tbs' },
+      { ingredient: 'Cumin', measure: '1 tsp' },
+      { ingredient: 'Chilli Powder', measure: '1 tsp' },
+      { ingredient: 'Kidney Beans', measure: '1 tin' },
+      { ingredient: 'Black Beans', measure: '1 tin' },
+      { ingredient: 'Chopped Tomatoes', measure: '1 tin' },
+      { ingredient: 'Rice', measure: 'to serve' },
+    ],
+  },
+  {
+    id: 'local-013',
+    name: 'Pad Thai',
+    category: 'Seafood',
+    area: 'Thai',
+    tags: ['Noodles'],
+    instructions:
+      'Soak the rice noodles in warm water for 20 minutes and drain.\n' +
+      'Stir-fry the prawns in a wok for 2 minutes and push to the side.\n' +
+      'Scramble the egg, add the noodles, fish sauce, tamarind paste and sugar and toss for 3 minutes.\n' +
+      'Add bean sprouts and peanuts, serve with lime wedges.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Rice Noodles', measure: '200g' },
+      { ingredient: 'Prawns', measure: '200g' },
+      { ingredient: 'Egg', measure: '2' },
+      { ingredient: 'Fish Sauce', measure: '2 tbs' },
+      { ingredient: 'Tamarind Paste', measure: '2 tbs' },
+      { ingredient: 'Sugar', measure: '1 tbs' },
+      { ingredient: 'Bean Sprouts', measure: '100g' },
+      { ingredient: 'Peanuts', measure: '30g' },
+      { ingredient: 'Lime', measure: '1' },
+      { ingredient: 'Vegetable Oil', measure: '2 tbs' },
+    ],
+  },
+  {
+    id: 'local-014',
+    name: 'Pancakes',
+    category: 'Dessert',
+    area: 'American',
+    tags: ['Breakfast', 'Sweet'],
+    instructions:
+      'Whisk the flour, baking powder, sugar and salt together.\n' +
+      'Beat in the milk, egg and melted butter to make a smooth batter.\n' +
+      'Cook ladlefuls in a hot buttered pan for 2 minutes per side.\n' +
+      'Serve with maple syrup.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Plain Flour', measure: '1 cup' },
+      { ingredient: 'Baking Powder', measure: '2 tsp' },
+      { ingredient: 'Sugar', measure: '1 tbs' },
+      { ingredient: 'Salt', measure: 'Pinch' },
+      { ingredient: 'Milk', measure: '1 cup' },
+      { ingredient: 'Egg', measure: '1' },
+      { ingredient: 'Butter', measure: '2 tbs' },
+      { ingredient: 'Maple Syrup', measure: 'to serve' },
+    ],
+  },
+  {
+    id: 'local-015',
+    name: 'Garlic Butter Salmon',
+    category: 'Seafood',
+    area: 'French',
+    tags: ['Fish', 'Quick'],
+    instructions:
+      'Season the salmon with salt and pepper.\n' +
+      'Sear skin-side down in a hot pan with oil for 4 minutes, flip and cook for 2 minutes.\n' +
+      'Add butter, garlic and lemon juice, baste the fish for 1 minute.\n' +
+      'Serve with steamed asparagus.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Salmon', measure: '2 fillets' },
+      { ingredient: 'Butter', measure: '30g' },
+      { ingredient: 'Garlic', measure: '2 cloves' },
+      { ingredient: 'Lemon', measure: '1/2' },
+      { ingredient: 'Asparagus', measure: '200g' },
+      { ingredient: 'Olive Oil', measure: '1 tbs' },
+      { ingredient: 'Salt', measure: 'Pinch' },
+      { ingredient: 'Black Pepper', measure: 'Pinch' },
+    ],
+  },
+  {
+    id: 'local-016',
+    name: 'Lamb Tagine',
+    category: 'Lamb',
+    area: 'Moroccan',
+    tags: ['Stew'],
+    instructions:
+      'Brown the lamb in oil in a heavy pot.\n' +
+      'Add onion, garlic, cinnamon, cumin and ginger and cook for 3 minutes.\n' +
+      'Pour in the stock and chopped tomatoes, add the apricots and simmer covered for 2 hours.\n' +
+      'Stir in the chickpeas, cook for 10 minutes and scatter with coriander.',
+    thumbnail: null,
+    youtube: null,
+    ingredients: [
+      { ingredient: 'Lamb Shoulder', measure: '800g' },
+      { ingredient: 'Onion', measure: '2' },
+      { ingredient: 'Garlic', measure: '3 cloves' },
+      { ingredient: 'Cinnamon', measure: '1 tsp' },
+      { ingredient: 'Cumin', measure: '1 tsp' },
+      { ingredient: 'Ground Ginger', measure: '1 tsp' },
+      { ingredient: 'Lamb Stock', measure: '500ml' },
+      { ingredient: 'Chopped Tomatoes', measure: '1 tin' },
+      { ingredient: 'Dried Apricots', measure: '100g' },
+      { ingredient: 'Chickpeas', measure: '1 tin' },
+      { ingredient: 'Coriander', measure: 'Handful' },
+    ],
+  },
+];
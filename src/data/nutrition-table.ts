@@ -0,0 +1,218 @@
+// 食材营养成分表（每 100 克可食部分，数值参考 USDA FoodData Central 与《中国食物成分表》取整）
+// - 键为食材词表（ingredient-glossary.ts）的英文规范名，中英文食材名经词表归一后查询
+// - piece：一个 / 一根 / 一瓣等个数类用量对应的克数（未填写时个数类用量不计入）
+// - density：每毫升的克数，用于把体积用量（杯、汤匙、毫升）换算为克数（未填写时按 1 计）
+// - typical：用量为"适量"、"to taste"等没有数量时按多少克计（未填写时按 0 计）
+// - cookedYield：米、面等煮熟后的重量倍数；用量注明已煮熟（"cooked"、"米饭"）时按此折算回生重
+
+/**
+ * 营养成分条目（每 100 克）
+ */
+export interface NutritionFacts {
+  kcal: number; // 热量（千卡）
+  protein: number; // 蛋白质（克）
+  carbs: number; // 碳水化合物（克）
+  fat: number; // 脂肪（克）
+  piece?: number; // 每个的克数
+  density?: number; // 每毫升的克数
+  typical?: number; // 未写明用量时的克数
+  cookedYield?: number; // 煮熟后的重量倍数
+}
+
+export const NUTRITION_TABLE: Record<string, NutritionFacts> = {
+  // 禽肉 / 蛋
+  Chicken: { kcal: 215, protein: 18.6, carbs: 0, fat: 15.1, piece: 1200 },
+  'Chicken Breast': { kcal: 120, protein: 22.5, carbs: 0, fat: 2.6, piece: 200 },
+  'Chicken Thighs': { kcal: 177, protein: 19.7, carbs: 0, fat: 10.9, piece: 120 },
+  'Chicken Wings': { kcal: 203, protein: 18.3, carbs: 0, fat: 14, piece: 40 },
+  Duck: { kcal: 337, protein: 11.5, carbs: 0, fat: 28.4, piece: 1500 },
+  Egg: { kcal: 143, protein: 12.6, carbs: 0.7, fat: 9.5, piece: 50 },
+  'Egg Yolks': { kcal: 322, protein: 15.9, carbs: 3.6, fat: 26.5, piece: 17 },
+  'Egg White': { kcal: 52, protein: 10.9, carbs: 0.7, fat: 0.2, piece: 33 },
+  // 猪牛羊
+  Pork: { kcal: 200, protein: 19, carbs: 0, fat: 14 },
+  'Pork Belly': { kcal: 518, protein: 9.3, carbs: 0, fat: 53 },
+  'Pork Tenderloin': { kcal: 120, protein: 21, carbs: 0, fat: 3.5 },
+  'Pork Shoulder': { kcal: 236, protein: 17, carbs: 0, fat: 18 },
+  'Pork Chops': { kcal: 197, protein: 20, carbs: 0, fat: 12.6, piece: 200 },
+  'Minced Pork': { kcal: 263, protein: 16.9, carbs: 0, fat: 21.2 },
+  Ribs: { kcal: 277, protein: 15.5, carbs: 0, fat: 23.4 },
+  Bacon: { kcal: 417, protein: 13, carbs: 1.4, fat: 40, piece: 25 },
+  Ham: { kcal: 145, protein: 21, carbs: 1.5, fat: 5.5, piece: 30 },
+  Sausages: { kcal: 301, protein: 12, carbs: 2, fat: 27, piece: 60 },
+  Beef: { kcal: 198, protein: 19, carbs: 0, fat: 13 },
+  'Beef Brisket': { kcal: 251, protein: 17.4, carbs: 0, fat: 19.6 },
+  'Minced Beef': { kcal: 254, protein: 17.2, carbs: 0, fat: 20 },
+  Steak: { kcal: 201, protein: 20, carbs: 0, fat: 13, piece: 250 },
+  Lamb: { kcal: 282, protein: 16.6, carbs: 0, fat: 23.4 },
+  'Lamb Shoulder': { kcal: 264, protein: 16.6, carbs: 0, fat: 21.5 },
+  'Lamb Mince': { kcal: 282, protein: 16.6, carbs: 0, fat: 23.4 },
+  // 水产
+  'White Fish': { kcal: 82, protein: 18, carbs: 0, fat: 0.7, piece: 150 },
+  Salmon: { kcal: 208, protein: 20, carbs: 0, fat: 13.4, piece: 150 },
+  Cod: { kcal: 82, protein: 17.8, carbs: 0, fat: 0.7, piece: 150 },
+  Tuna: { kcal: 116, protein: 25.5, carbs: 0, fat: 0.8 },
+  'Sea Bass': { kcal: 97, protein: 18.4, carbs: 0, fat: 2, piece: 500 },
+  'Grass Carp': { kcal: 113, protein: 17.9, carbs: 0, fat: 4.3, piece: 1000 },
+  'Mandarin Fish': { kcal: 117, protein: 19.9, carbs: 0, fat: 4.2, piece: 600 },
+  Prawns: { kcal: 85, protein: 20, carbs: 0.2, fat: 0.5, piece: 15 },
+  Squid: { kcal: 92, protein: 15.6, carbs: 3.1, fat: 1.4, piece: 200 },
+  Oysters: { kcal: 81, protein: 9.5, carbs: 4.7, fat: 2.3, piece: 15 },
+  Mussels: { kcal: 86, protein: 12, carbs: 3.7, fat: 2.2, piece: 10 },
+  Clams: { kcal: 74, protein: 12.8, carbs: 2.6, fat: 1, piece: 10 },
+  Crab: { kcal: 87, protein: 18, carbs: 0, fat: 1.1, piece: 300 },
+  Lobster: { kcal: 89, protein: 19, carbs: 0, fat: 0.9, piece: 500 },
+  'Sea Cucumber': { kcal: 24, protein: 6, carbs: 0.2, fat: 0.1, piece: 100 },
+  // 豆制品 / 豆类
+  Tofu: { kcal: 76, protein: 8, carbs: 1.9, fat: 4.8, piece: 350 },
+  'Tofu Skin': { kcal: 459, protein: 44.6, carbs: 18.8, fat: 21.7, piece: 50 },
+  'Fermented Black Beans': { kcal: 250, protein: 18, carbs: 25, fat: 9, density: 0.6 },
+  'Black Beans': { kcal: 91, protein: 6, carbs: 16.6, fat: 0.3, density: 0.7 },
+  'Kidney Beans': { kcal: 84, protein: 5.2, carbs: 15, fat: 0.4, density: 0.7 },
+  Chickpeas: { kcal: 139, protein: 7, carbs: 22.5, fat: 2.6, density: 0.7 },
+  'Green Beans': { kcal: 31, protein: 1.8, carbs: 7, fat: 0.2 },
+  Peas: { kcal: 81, protein: 5.4, carbs: 14.5, fat: 0.4, density: 0.6 },
+  'Bean Sprouts': { kcal: 30, protein: 3, carbs: 5.9, fat: 0.2, density: 0.4 },
+  // 蔬菜
+  Tomatoes: { kcal: 18, protein: 0.9, carbs: 3.9, fat: 0.2, piece: 120 },
+  'Chopped Tomatoes': { kcal: 21, protein: 1, carbs: 4, fat: 0.2 },
+  Potatoes: { kcal: 77, protein: 2, carbs: 17, fat: 0.1, piece: 200 },
+  'Sweet Potatoes': { kcal: 86, protein: 1.6, carbs: 20, fat: 0.1, piece: 250 },
+  Carrots: { kcal: 41, protein: 0.9, carbs: 9.6, fat: 0.2, piece: 100 },
+  Onion: { kcal: 40, protein: 1.1, carbs: 9.3, fat: 0.1, piece: 150 },
+  'Spring Onions': { kcal: 32, protein: 1.8, carbs: 7.3, fat: 0.2, piece: 15 },
+  Leek: { kcal: 61, protein: 1.5, carbs: 14, fat: 0.3, piece: 150 },
+  Garlic: { kcal: 149, protein: 6.4, carbs: 33, fat: 0.5, piece: 5 },
+  Ginger: { kcal: 80, protein: 1.8, carbs: 18, fat: 0.8, piece: 15 },
+  Broccoli: { kcal: 34, protein: 2.8, carbs: 6.6, fat: 0.4, piece: 300 },
+  Cauliflower: { kcal: 25, protein: 1.9, carbs: 5, fat: 0.3, piece: 600 },
+  Cabbage: { kcal: 25, protein: 1.3, carbs: 5.8, fat: 0.1, piece: 900 },
+  'Chinese Cabbage': { kcal: 16, protein: 1.2, carbs: 3.2, fat: 0.2, piece: 1000 },
+  'Bok Choy': { kcal: 13, protein: 1.5, carbs: 2.2, fat: 0.2, piece: 100 },
+  Spinach: { kcal: 23, protein: 2.9, carbs: 3.6, fat: 0.4 },
+  Lettuce: { kcal: 15, protein: 1.4, carbs: 2.9, fat: 0.2, piece: 300 },
+  Celery: { kcal: 16, protein: 0.7, carbs: 3, fat: 0.2, piece: 40 },
+  Cucumber: { kcal: 15, protein: 0.7, carbs: 3.6, fat: 0.1, piece: 300 },
+  Aubergine: { kcal: 25, protein: 1, carbs: 5.9, fat: 0.2, piece: 300 },
+  Courgettes: { kcal: 17, protein: 1.2, carbs: 3.1, fat: 0.3, piece: 200 },
+  Pumpkin: { kcal: 26, protein: 1, carbs: 6.5, fat: 0.1 },
+  'Green Pepper': { kcal: 20, protein: 0.9, carbs: 4.6, fat: 0.2, piece: 150 },
+  'Red Pepper': { kcal: 31, protein: 1, carbs: 6, fat: 0.3, piece: 150 },
+  'Green Chillies': { kcal: 40, protein: 2, carbs: 9.5, fat: 0.2, piece: 10 },
+  'Red Chilli': { kcal: 40, protein: 1.9, carbs: 8.8, fat: 0.4, piece: 10 },
+  'Dried Chillies': { kcal: 324, protein: 12, carbs: 70, fat: 6, piece: 0.5 },
+  Mushrooms: { kcal: 22, protein: 3.1, carbs: 3.3, fat: 0.3, piece: 20 },
+  'Shiitake Mushrooms': { kcal: 34, protein: 2.2, carbs: 6.8, fat: 0.5, piece: 20 },
+  'Wood Ear Mushrooms': { kcal: 205, protein: 12, carbs: 35.7, fat: 1.5 },
+  'Enoki Mushrooms': { kcal: 37, protein: 2.7, carbs: 7.8, fat: 0.3, piece: 100 },
+  'Bamboo Shoots': { kcal: 27, protein: 2.6, carbs: 5.2, fat: 0.3 },
+  'Water Chestnuts': { kcal: 97, protein: 1.4, carbs: 23.9, fat: 0.1, piece: 15 },
+  'Lotus Root': { kcal: 74, protein: 2.6, carbs: 17.2, fat: 0.1, piece: 300 },
+  Asparagus: { kcal: 20, protein: 2.2, carbs: 3.9, fat: 0.1, piece: 20 },
+  Sweetcorn: { kcal: 86, protein: 3.3, carbs: 19, fat: 1.4, piece: 200, density: 0.7 },
+  Okra: { kcal: 33, protein: 1.9, carbs: 7.5, fat: 0.2, piece: 12 },
+  Radish: { kcal: 16, protein: 0.7, carbs: 3.4, fat: 0.1, piece: 300 },
+  Yam: { kcal: 118, protein: 1.5, carbs: 28, fat: 0.2 },
+  'Stir-fry Vegetables': { kcal: 30, protein: 1.5, carbs: 6, fat: 0.2 },
+  // 香草 / 香料
+  Coriander: { kcal: 23, protein: 2.1, carbs: 3.7, fat: 0.5, piece: 5, density: 0.2, typical: 5 },
+  Parsley: { kcal: 36, protein: 3, carbs: 6.3, fat: 0.8, piece: 5, density: 0.2, typical: 5 },
+  Basil: { kcal: 23, protein: 3.2, carbs: 2.7, fat: 0.6, piece: 1, density: 0.2 },
+  Thyme: { kcal: 101, protein: 5.6, carbs: 24, fat: 1.7, piece: 1, density: 0.3 },
+  Oregano: { kcal: 265, protein: 9, carbs: 69, fat: 4.3, density: 0.3 },
+  Rosemary: { kcal: 131, protein: 3.3, carbs: 21, fat: 5.9, piece: 1, density: 0.3 },
+  'Bay Leaf': { kcal: 313, protein: 7.6, carbs: 75, fat: 8.4, piece: 0.2 },
+  'Star Anise': { kcal: 337, protein: 17.6, carbs: 50, fat: 15.9, piece: 1 },
+  Cinnamon: { kcal: 247, protein: 4, carbs: 81, fat: 1.2, piece: 3, density: 0.5 },
+  Cumin: { kcal: 375, protein: 17.8, carbs: 44, fat: 22, density: 0.5 },
+  'Sichuan Pepper': { kcal: 300, protein: 10, carbs: 65, fat: 9, density: 0.4 },
+  'Black Pepper': { kcal: 251, protein: 10.4, carbs: 64, fat: 3.3, density: 0.5 },
+  'White Pepper': { kcal: 296, protein: 10.4, carbs: 69, fat: 2.1, density: 0.5 },
+  'Chilli Powder': { kcal: 282, protein: 13.5, carbs: 50, fat: 14, density: 0.5 },
+  'Red Chilli Flakes': { kcal: 318, protein: 12, carbs: 57, fat: 17, density: 0.4 },
+  Paprika: { kcal: 282, protein: 14, carbs: 54, fat: 13, density: 0.5 },
+  Turmeric: { kcal: 312, protein: 9.7, carbs: 67, fat: 3.3, density: 0.5 },
+  'Curry Powder': { kcal: 325, protein: 14, carbs: 58, fat: 14, density: 0.5 },
+  'Garam Masala': { kcal: 379, protein: 15, carbs: 45, fat: 15, density: 0.5 },
+  'Five Spice': { kcal: 350, protein: 10, carbs: 60, fat: 10, density: 0.5 },
+  'Ground Ginger': { kcal: 335, protein: 9, carbs: 72, fat: 4.2, density: 0.5 },
+  'Ginger Paste': { kcal: 80, protein: 1.8, carbs: 18, fat: 0.8 },
+  'Garlic Paste': { kcal: 149, protein: 6.4, carbs: 33, fat: 0.5 },
+  // 调味料
+  Salt: { kcal: 0, protein: 0, carbs: 0, fat: 0, density: 1.2 },
+  Sugar: { kcal: 387, protein: 0, carbs: 100, fat: 0, density: 0.85, typical: 5 },
+  'Brown Sugar': { kcal: 380, protein: 0.1, carbs: 98, fat: 0, density: 0.9, typical: 5 },
+  'Rock Sugar': { kcal: 397, protein: 0, carbs: 99, fat: 0, density: 0.9, typical: 10 },
+  Honey: { kcal: 304, protein: 0.3, carbs: 82, fat: 0, density: 1.42, typical: 10 },
+  'Maple Syrup': { kcal: 260, protein: 0, carbs: 67, fat: 0.1, density: 1.32, typical: 15 },
+  'Soy Sauce': { kcal: 53, protein: 8.1, carbs: 4.9, fat: 0.6, density: 1.2 },
+  'Dark Soy Sauce': { kcal: 100, protein: 5, carbs: 18, fat: 0, density: 1.2 },
+  'Oyster Sauce': { kcal: 51, protein: 1.4, carbs: 11, fat: 0.3, density: 1.2 },
+  'Fish Sauce': { kcal: 35, protein: 5, carbs: 3.6, fat: 0, density: 1.2 },
+  Vinegar: { kcal: 21, protein: 0, carbs: 0.9, fat: 0 },
+  'White Vinegar': { kcal: 18, protein: 0, carbs: 0, fat: 0 },
+  'Rice Vinegar': { kcal: 18, protein: 0.3, carbs: 0, fat: 0 },
+  'Rice Wine': { kcal: 134, protein: 0.5, carbs: 5, fat: 0 },
+  'Shaoxing Wine': { kcal: 66, protein: 1.6, carbs: 0.8, fat: 0 },
+  'Chilli Bean Paste': { kcal: 180, protein: 8, carbs: 20, fat: 7, density: 1.1 },
+  'Sweet Bean Sauce': { kcal: 180, protein: 5.5, carbs: 27, fat: 2, density: 1.2 },
+  'Hoisin Sauce': { kcal: 220, protein: 3.3, carbs: 44, fat: 3.4, density: 1.2 },
+  'Char Siu Sauce': { kcal: 220, protein: 2, carbs: 48, fat: 2, density: 1.2 },
+  'Tomato Ketchup': { kcal: 101, protein: 1, carbs: 27, fat: 0.1, density: 1.15 },
+  'Tomato Puree': { kcal: 82, protein: 4.3, carbs: 19, fat: 0.5, density: 1.1 },
+  'Chopped Chillies': { kcal: 40, protein: 1.9, carbs: 8.8, fat: 0.4 },
+  'Pickled Chillies': { kcal: 29, protein: 1, carbs: 6, fat: 0.4, piece: 5 },
+  'Sesame Seed Oil': { kcal: 884, protein: 0, carbs: 0, fat: 100, density: 0.92, typical: 3 },
+  'Vegetable Oil': { kcal: 884, protein: 0, carbs: 0, fat: 100, density: 0.92, typical: 10 },
+  'Olive Oil': { kcal: 884, protein: 0, carbs: 0, fat: 100, density: 0.92, typical: 10 },
+  Cornstarch: { kcal: 381, protein: 0.3, carbs: 91, fat: 0.1, density: 0.55, typical: 5 },
+  'Potato Starch': { kcal: 357, protein: 0.1, carbs: 88, fat: 0.1, density: 0.6, typical: 5 },
+  'Sweet Potato Starch': { kcal: 340, protein: 0.1, carbs: 85, fat: 0.1, density: 0.6, typical: 5 },
+  'Dijon Mustard': { kcal: 66, protein: 4, carbs: 5.8, fat: 3.3, density: 1.05 },
+  'Tamarind Paste': { kcal: 239, protein: 2.8, carbs: 62.5, fat: 0.6, density: 1.2 },
+  'Chicken Stock': { kcal: 6, protein: 0.6, carbs: 0.4, fat: 0.2 },
+  'Beef Stock': { kcal: 7, protein: 1.1, carbs: 0.1, fat: 0.2 },
+  'Lamb Stock': { kcal: 7, protein: 1.1, carbs: 0.1, fat: 0.2 },
+  'Vegetable Stock': { kcal: 6, protein: 0.2, carbs: 1.3, fat: 0 },
+  Water: { kcal: 0, protein: 0, carbs: 0, fat: 0 },
+  // 主食 / 烘焙
+  Rice: { kcal: 360, protein: 6.6, carbs: 79, fat: 0.6, density: 0.85, cookedYield: 2.8 },
+  'Brown Rice': { kcal: 367, protein: 7.5, carbs: 76, fat: 2.7, density: 0.85, cookedYield: 2.8 },
+  'Jasmine Rice': { kcal: 360, protein: 6.6, carbs: 79, fat: 0.6, density: 0.85, cookedYield: 2.8 },
+  'Glutinous Rice': { kcal: 370, protein: 6.8, carbs: 81, fat: 0.6, density: 0.85, cookedYield: 2.2 },
+  'Plain Flour': { kcal: 364, protein: 10, carbs: 76, fat: 1, density: 0.53 },
+  Bread: { kcal: 265, protein: 9, carbs: 49, fat: 3.2, piece: 30 },
+  Noodles: { kcal: 350, protein: 11.5, carbs: 72, fat: 1.7, cookedYield: 2.5 },
+  'Rice Noodles': { kcal: 364, protein: 6, carbs: 80, fat: 0.6, cookedYield: 2.5 },
+  Spaghetti: { kcal: 371, protein: 13, carbs: 75, fat: 1.5, cookedYield: 2.25 },
+  'Penne Rigate': { kcal: 371, protein: 13, carbs: 75, fat: 1.5, cookedYield: 2.25 },
+  'Puff Pastry': { kcal: 558, protein: 7.4, carbs: 45.7, fat: 38.5 },
+  'Baking Powder': { kcal: 53, protein: 0, carbs: 28, fat: 0, density: 0.9 },
+  Yeast: { kcal: 325, protein: 40, carbs: 41, fat: 7.6, density: 0.6 },
+  // 乳制品
+  Milk: { kcal: 61, protein: 3.2, carbs: 4.8, fat: 3.3, density: 1.03 },
+  Butter: { kcal: 717, protein: 0.9, carbs: 0.1, fat: 81, density: 0.96, typical: 10 },
+  'Double Cream': { kcal: 449, protein: 1.7, carbs: 2.7, fat: 48 },
+  Yogurt: { kcal: 61, protein: 3.5, carbs: 4.7, fat: 3.3, density: 1.03 },
+  Cheese: { kcal: 403, protein: 25, carbs: 1.3, fat: 33, density: 0.45, typical: 10 },
+  Parmesan: { kcal: 431, protein: 38, carbs: 4.1, fat: 29, density: 0.4, typical: 10 },
+  Mozzarella: { kcal: 280, protein: 28, carbs: 3.1, fat: 17, piece: 125, density: 0.45 },
+  // 坚果 / 种子
+  Peanuts: { kcal: 567, protein: 25.8, carbs: 16, fat: 49, density: 0.6 },
+  'Cashew Nuts': { kcal: 553, protein: 18, carbs: 30, fat: 44, density: 0.6 },
+  'Pine Nuts': { kcal: 673, protein: 13.7, carbs: 13, fat: 68, density: 0.6 },
+  Walnuts: { kcal: 654, protein: 15, carbs: 14, fat: 65, density: 0.5 },
+  Almonds: { kcal: 579, protein: 21, carbs: 22, fat: 50, density: 0.6 },
+  'Sesame Seeds': { kcal: 573, protein: 17.7, carbs: 23, fat: 50, density: 0.6, typical: 3 },
+  // 水果 / 其他
+  Lemon: { kcal: 29, protein: 1.1, carbs: 9.3, fat: 0.3, piece: 100 },
+  Lime: { kcal: 30, protein: 0.7, carbs: 10.5, fat: 0.2, piece: 60 },
+  Apple: { kcal: 52, protein: 0.3, carbs: 13.8, fat: 0.2, piece: 180 },
+  Banana: { kcal: 89, protein: 1.1, carbs: 22.8, fat: 0.3, piece: 120 },
+  Pineapple: { kcal: 50, protein: 0.5, carbs: 13, fat: 0.1, piece: 900 },
+  Mango: { kcal: 60, protein: 0.8, carbs: 15, fat: 0.4, piece: 300 },
+  Strawberries: { kcal: 32, protein: 0.7, carbs: 7.7, fat: 0.3, piece: 12, density: 0.6 },
+  'Dried Apricots': { kcal: 241, protein: 3.4, carbs: 63, fat: 0.5, piece: 8 },
+  'Coconut Milk': { kcal: 230, protein: 2.3, carbs: 6, fat: 24 },
+  Cola: { kcal: 42, protein: 0, carbs: 10.6, fat: 0, density: 1.04 },
+};
@@ -0,0 +1,48 @@
+// 常用菜名 / 食材用字的拼音表（不带声调，供菜名的拼音检索使用）
+// - 覆盖中式家常菜数据集、食材词表与常见菜名译名中的汉字
+// - 多音字取菜名中的读音：参 → shen（海参）、卜 → bo（萝卜）、乐 → le（可乐）、削 → xiao（刀削面）、蛤 → ge（蛤蜊）
+// - 含未收录汉字的名称不生成拼音（见 utils/fuzzy.ts），补充本表即可
+export const PINYIN_TABLE: Record<string, string> = {
+  // 中式家常菜菜名
+  丁: 'ding', 三: 'san', 东: 'dong', 丝: 'si', 乐: 'le', 京: 'jing', 保: 'bao', 兰: 'lan', 农: 'nong', 刀: 'dao',
+  切: 'qie', 剁: 'duo', 削: 'xiao', 包: 'bao', 参: 'shen', 叉: 'cha', 可: 'ke', 回: 'hui', 地: 'di', 坡: 'po',
+  头: 'tou', 婆: 'po', 子: 'zi', 宫: 'gong', 家: 'jia', 小: 'xiao', 松: 'song', 枝: 'zhi', 椒: 'jiao', 油: 'you',
+  海: 'hai', 清: 'qing', 湖: 'hu', 炒: 'chao', 烧: 'shao', 煎: 'jian', 狮: 'shi', 生: 'sheng', 番: 'fan', 白: 'bai',
+  糖: 'tang', 红: 'hong', 翅: 'chi', 肉: 'rou', 胸: 'xiong', 脊: 'ji', 腐: 'fu', 臭: 'chou', 花: 'hua', 茄: 'qie',
+  荔: 'li', 菜: 'cai', 葱: 'cong', 蒜: 'suan', 蒸: 'zheng', 蓉: 'rong', 蚝: 'hao', 蛋: 'dan', 蛎: 'li', 西: 'xi',
+  豆: 'dou', 过: 'guo', 酱: 'jiang', 醋: 'cu', 里: 'li', 锅: 'guo', 面: 'mian', 香: 'xiang', 鱼: 'yu', 鲈: 'lu',
+  鲜: 'xian', 鳜: 'gui', 鸡: 'ji', 麻: 'ma', 鼠: 'shu',
+  // 食材词表
+  五: 'wu', 什: 'shi', 仁: 'ren', 八: 'ba', 兴: 'xing', 冰: 'bing', 利: 'li', 勒: 'le', 南: 'nan', 卜: 'bo',
+  印: 'yin', 卷: 'juan', 县: 'xian', 口: 'kou', 叶: 'ye', 合: 'he', 咖: 'ka', 喱: 'li', 嘴: 'zui', 四: 'si',
+  土: 'tu', 培: 'pei', 士: 'shi', 大: 'da', 奶: 'nai', 姜: 'jiang', 孜: 'zi', 季: 'ji', 尔: 'er', 山: 'shan',
+  帕: 'pa', 干: 'gan', 度: 'du', 心: 'xin', 意: 'yi', 戎: 'rong', 打: 'da', 抽: 'chou', 拉: 'la', 排: 'pai',
+  文: 'wen', 料: 'liao', 望: 'wang', 木: 'mu', 末: 'mo', 杏: 'xing', 条: 'tiao', 果: 'guo', 枪: 'qiang', 枫: 'feng',
+  柠: 'ning', 核: 'he', 根: 'gen', 桂: 'gui', 桃: 'tao', 梅: 'mei', 椰: 'ye', 榄: 'lan', 橄: 'gan', 檬: 'meng',
+  欧: 'ou', 母: 'mu', 水: 'shui', 汤: 'tang', 泡: 'pao', 泥: 'ni', 洋: 'yang', 浆: 'jiang', 淀: 'dian', 淡: 'dan',
+  火: 'huo', 然: 'ran', 牛: 'niu', 猪: 'zhu', 玉: 'yu', 瓜: 'gua', 瓣: 'ban', 甜: 'tian', 用: 'yong', 百: 'bai',
+  皮: 'pi', 盐: 'yan', 碎: 'sui', 秋: 'qiu', 竹: 'zhu', 笋: 'sun', 第: 'di', 米: 'mi', 粉: 'fen', 糙: 'cao',
+  糯: 'nuo', 绍: 'shao', 综: 'zong', 罗: 'luo', 羊: 'yang', 老: 'lao', 耳: 'er', 肠: 'chang', 肩: 'jian', 胡: 'hu',
+  腩: 'nan', 腰: 'yao', 腿: 'tui', 至: 'zhi', 芒: 'mang', 芝: 'zhi', 芥: 'jie', 芦: 'lu', 芹: 'qin', 芽: 'ya',
+  苏: 'su', 苹: 'ping', 草: 'cao', 荠: 'qi', 药: 'yao', 荸: 'bi', 莓: 'mei', 莲: 'lian', 菇: 'gu', 菠: 'bo',
+  萝: 'luo', 葫: 'hu', 葵: 'kui', 蔬: 'shu', 蕉: 'jiao', 薯: 'shu', 藕: 'ou', 蘑: 'mo', 虾: 'xia', 蛤: 'ge',
+  蜂: 'feng', 蜊: 'li', 蜜: 'mi', 螃: 'pang', 蟹: 'xie', 角: 'jiao', 豉: 'chi', 豌: 'wan', 身: 'shen', 辣: 'la',
+  迭: 'die', 迷: 'mi', 通: 'tong', 郫: 'pi', 酒: 'jiu', 酥: 'su', 酪: 'lao', 酵: 'jiao', 酸: 'suan', 金: 'jin',
+  针: 'zhen', 锦: 'jin', 露: 'lu', 青: 'qing', 食: 'shi', 马: 'ma', 骨: 'gu', 高: 'gao', 鱿: 'you', 鳕: 'xue',
+  鸭: 'ya', 鹰: 'ying', 黄: 'huang', 黑: 'hei', 龙: 'long',
+  // 常见菜名译名（烹饪方式、菜式与地名）
+  饭: 'fan', 饼: 'bing', 汁: 'zhi', 焗: 'ju', 烤: 'kao', 炖: 'dun', 派: 'pai', 塔: 'ta', 沙: 'sha', 串: 'chuan',
+  煲: 'bao', 焖: 'men', 炸: 'zha', 煮: 'zhu', 拌: 'ban', 凉: 'liang', 热: 're', 脆: 'cui', 嫩: 'nen', 咸: 'xian',
+  烩: 'hui', 丸: 'wan', 片: 'pian', 块: 'kuai', 粥: 'zhou', 汉: 'han', 堡: 'bao', 薄: 'bo', 饺: 'jiao', 馄: 'hun',
+  饨: 'tun', 馅: 'xian', 糕: 'gao', 披: 'pi', 萨: 'sa', 式: 'shi', 风: 'feng', 味: 'wei', 法: 'fa', 英: 'ying',
+  美: 'mei', 日: 'ri', 韩: 'han', 泰: 'tai', 墨: 'mo', 哥: 'ge', 希: 'xi', 腊: 'la', 国: 'guo', 烘: 'hong',
+  焙: 'bei', 绿: 'lv', 羹: 'geng', 盒: 'he', 炝: 'qiang', 卤: 'lu', 熏: 'xun', 酿: 'niang', 扒: 'pa', 溜: 'liu',
+  爆: 'bao', 滑: 'hua', 全: 'quan', 福: 'fu', 麦: 'mai', 芋: 'yu', 榴: 'liu',
+  蓝: 'lan', 橙: 'cheng', 柚: 'you', 梨: 'li', 枣: 'zao', 栗: 'li', 瓦: 'wa', 罐: 'guan', 盅: 'zhong',
+  煨: 'wei', 醉: 'zui', 糟: 'zao', 毛: 'mao', 血: 'xue', 旺: 'wang', 鹅: 'e', 鸽: 'ge', 鲍: 'bao', 贝: 'bei',
+  鳗: 'man', 鲫: 'ji', 鲤: 'li', 鲢: 'lian', 鳝: 'shan', 蛙: 'wa', 螺: 'luo',
+  蚬: 'xian', 扇: 'shan', 蒲: 'pu', 瑞: 'rui', 典: 'dian', 肘: 'zhou', 蹄: 'ti', 膀: 'bang', 猫: 'mao',
+  蘸: 'zhan', 汆: 'cuan', 涮: 'shuan', 铁: 'tie', 板: 'ban', 石: 'shi', 千: 'qian', 层: 'ceng', 夹: 'jia',
+  馍: 'mo', 凤: 'feng', 爪: 'zhua', 虎: 'hu', 蚂: 'ma', 蚁: 'yi', 树: 'shu', 上: 'shang',
+  夫: 'fu', 妻: 'qi', 肺: 'fei', 双: 'shuang', 鸳: 'yuan', 鸯: 'yang',
+};
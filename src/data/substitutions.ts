@@ -0,0 +1,398 @@
+// 食材替代知识库：家里缺少某种食材、或因饮食限制不能用时的替代做法
+// - ingredient 为被替代的食材，优先使用食材词表（ingredient-glossary.ts）的英文规范名，中英文写法经词表归一后查询；
+//   词表未收录的食材（buttermilk、shallot 等）在 aliases 中列出其他写法
+// - 每个替代品带中英文名称与用法（用量比例、注意事项）；ingredients 为组成替代品的食材（英文），
+//   用于按饮食标签 / 过敏原筛选（见 utils/dietary.ts）以及判断用户手头是否已有
+// - contexts 为适用的烹饪场景，未填写表示通用；同一食材的替代品按推荐程度排列
+import type { CookingContext } from '../types';
+
+/**
+ * 单个替代品
+ */
+export interface SubstituteOption {
+  en: string; // 英文名称，如 "Milk + lemon juice"
+  zh: string; // 中文名称，如 "牛奶 + 柠檬汁"
+  ingredients: string[]; // 组成替代品的食材（英文）
+  how: [en: string, zh: string]; // 用法：用量比例与注意事项
+  contexts?: CookingContext[]; // 适用场景，未填写表示通用
+}
+
+/**
+ * 知识库条目：一种食材的全部替代品
+ */
+export interface SubstitutionEntry {
+  ingredient: string; // 被替代的食材（词表英文名或英文写法）
+  aliases?: string[]; // 词表未收录的其他写法（中英文）
+  options: SubstituteOption[];
+}
+
+export const SUBSTITUTIONS: SubstitutionEntry[] = [
+  // 乳制品 / 蛋
+  {
+    ingredient: 'Buttermilk', aliases: ['酪乳', '白脱牛奶'], options: [
+      { en: 'Milk + lemon juice', zh: '牛奶 + 柠檬汁', ingredients: ['Milk', 'Lemon'], how: ['1 cup milk + 1 tbsp lemon juice, rest 5 minutes', '每 240 毫升牛奶加 1 汤匙柠檬汁，静置 5 分钟至微微结块'] },
+      { en: 'Milk + white vinegar', zh: '牛奶 + 白醋', ingredients: ['Milk', 'White Vinegar'], how: ['1 cup milk + 1 tbsp white vinegar, rest 5 minutes', '每 240 毫升牛奶加 1 汤匙白醋，静置 5 分钟'] },
+      { en: 'Yogurt thinned with milk', zh: '酸奶兑牛奶', ingredients: ['Yogurt', 'Milk'], how: ['3 parts yogurt to 1 part milk', '酸奶与牛奶按 3:1 调匀'], contexts: ['baking', 'frying'] },
+      { en: 'Soy milk + lemon juice', zh: '豆浆 + 柠檬汁', ingredients: ['Soy milk', 'Lemon'], how: ['1 cup soy milk + 1 tbsp lemon juice, rest 5 minutes', '每 240 毫升无糖豆浆加 1 汤匙柠檬汁，静置 5 分钟'], contexts: ['baking'] },
+    ],
+  },
+  {
+    ingredient: 'Milk', options: [
+      { en: 'Oat milk', zh: '燕麦奶', ingredients: ['Oat milk'], how: ['1:1; choose unsweetened for savoury dishes', '等量替换；做咸味菜时选无糖款'] },
+      { en: 'Soy milk', zh: '豆浆', ingredients: ['Soy milk'], how: ['1:1, unsweetened', '等量替换，选无糖豆浆'] },
+      { en: 'Water + butter', zh: '清水 + 黄油', ingredients: ['Water', 'Butter'], how: ['1 cup water + 1 tbsp melted butter', '每 240 毫升清水加 1 汤匙黄油，适合烘焙'], contexts: ['baking'] },
+    ],
+  },
+  {
+    ingredient: 'Butter', options: [
+      { en: 'Vegetable oil', zh: '食用油', ingredients: ['Vegetable Oil'], how: ['Use 3/4 of the amount', '用量减为 3/4'], contexts: ['stir-fry', 'frying', 'braising'] },
+      { en: 'Coconut oil', zh: '椰子油', ingredients: ['Coconut oil'], how: ['1:1, use solid for pastry and melted for cakes', '等量替换；起酥用凝固的，蛋糕用融化的'], contexts: ['baking', 'frying'] },
+      { en: 'Olive oil', zh: '橄榄油', ingredients: ['Olive Oil'], how: ['Use 3/4 of the amount; best for savoury dishes', '用量减为 3/4，适合咸味菜'], contexts: ['stir-fry', 'braising', 'frying'] },
+    ],
+  },
+  {
+    ingredient: 'Double Cream', options: [
+      { en: 'Milk + butter', zh: '牛奶 + 黄油', ingredients: ['Milk', 'Butter'], how: ['3/4 cup milk + 1/4 cup melted butter per cup (will not whip)', '3 份牛奶加 1 份融化黄油（不能打发）'], contexts: ['braising', 'baking'] },
+      { en: 'Coconut milk', zh: '椰浆', ingredients: ['Coconut Milk'], how: ['1:1, adds a light coconut flavour', '等量替换，带淡淡椰香'], contexts: ['braising', 'baking'] },
+      { en: 'Greek yogurt', zh: '希腊酸奶', ingredients: ['Yogurt'], how: ['1:1, stir in off the heat so it does not split', '等量替换，离火后拌入以免油水分离'], contexts: ['braising', 'raw'] },
+    ],
+  },
+  {
+    ingredient: 'Yogurt', options: [
+      { en: 'Sour cream', zh: '酸奶油', ingredients: ['Sour cream'], how: ['1:1', '等量替换'] },
+      { en: 'Coconut yogurt', zh: '椰子酸奶', ingredients: ['Coconut yogurt'], how: ['1:1', '等量替换'] },
+    ],
+  },
+  {
+    ingredient: 'Cheese', options: [
+      { en: 'Nutritional yeast', zh: '营养酵母', ingredients: ['Nutritional yeast'], how: ['2 tbsp per 30 g cheese for a savoury, cheesy flavour', '每 30 克奶酪用 2 汤匙，提供咸鲜的芝士风味'], contexts: ['baking', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Parmesan', options: [
+      { en: 'Pecorino', zh: '佩科里诺羊奶酪', ingredients: ['Pecorino cheese'], how: ['1:1, slightly saltier', '等量替换，略咸'] },
+      { en: 'Nutritional yeast', zh: '营养酵母', ingredients: ['Nutritional yeast'], how: ['Use half the amount', '用量减半'] },
+    ],
+  },
+  {
+    ingredient: 'Egg', options: [
+      { en: 'Flax egg', zh: '亚麻籽蛋', ingredients: ['Ground flaxseed', 'Water'], how: ['1 tbsp ground flaxseed + 3 tbsp water per egg, rest 10 minutes', '每个鸡蛋用 1 汤匙亚麻籽粉加 3 汤匙水，静置 10 分钟'], contexts: ['baking'] },
+      { en: 'Mashed banana', zh: '香蕉泥', ingredients: ['Banana'], how: ['1/4 cup per egg; for sweet bakes only', '每个鸡蛋用 60 克香蕉泥，只适合甜点'], contexts: ['baking'] },
+      { en: 'Silken tofu', zh: '嫩豆腐', ingredients: ['Tofu'], how: ['1/4 cup blended silken tofu per egg', '每个鸡蛋用 60 克嫩豆腐打成泥'], contexts: ['baking', 'braising'] },
+      { en: 'Scrambled firm tofu', zh: '老豆腐碎', ingredients: ['Tofu'], how: ['Crumble and season with turmeric and salt', '捏碎后加少许姜黄与盐炒成"炒蛋"'], contexts: ['stir-fry'] },
+    ],
+  },
+  // 酒类
+  {
+    ingredient: 'Rice Wine', options: [
+      { en: 'Shaoxing wine', zh: '绍兴黄酒', ingredients: ['Shaoxing Wine'], how: ['1:1', '等量替换'] },
+      { en: 'Dry sherry', zh: '干雪莉酒', ingredients: ['Dry sherry'], how: ['1:1', '等量替换'] },
+      { en: 'Stock + rice vinegar', zh: '高汤 + 米醋', ingredients: ['Chicken Stock', 'Rice Vinegar'], how: ['1 tbsp stock + a few drops of rice vinegar per tbsp; alcohol-free', '每汤匙料酒用 1 汤匙高汤加几滴米醋，不含酒精'] },
+      { en: 'Ginger water', zh: '姜水', ingredients: ['Ginger', 'Water'], how: ['Soak sliced ginger in water; removes fishy smell, alcohol-free', '姜片泡水代替，用于去腥，不含酒精'], contexts: ['stir-fry', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Shaoxing Wine', options: [
+      { en: 'Chinese cooking wine', zh: '料酒', ingredients: ['Rice Wine'], how: ['1:1', '等量替换'] },
+      { en: 'Dry sherry', zh: '干雪莉酒', ingredients: ['Dry sherry'], how: ['1:1', '等量替换'] },
+      { en: 'Mirin', zh: '味醂', ingredients: ['Mirin'], how: ['1:1 and reduce the sugar in the recipe', '等量替换，并减少菜谱中的糖'] },
+    ],
+  },
+  {
+    ingredient: 'Mirin', aliases: ['味醂', '味淋'], options: [
+      { en: 'Rice wine + sugar', zh: '料酒 + 白糖', ingredients: ['Rice Wine', 'Sugar'], how: ['1 tbsp rice wine + 1 tsp sugar per tbsp', '每汤匙味醂用 1 汤匙料酒加 1 茶匙糖'] },
+      { en: 'Rice vinegar + sugar', zh: '米醋 + 白糖', ingredients: ['Rice Vinegar', 'Sugar'], how: ['1 tbsp rice vinegar + 1/2 tsp sugar per tbsp; alcohol-free', '每汤匙味醂用 1 汤匙米醋加半茶匙糖，不含酒精'] },
+    ],
+  },
+  {
+    ingredient: 'Red Wine', aliases: ['红酒', '红葡萄酒'], options: [
+      { en: 'Beef stock + red wine vinegar', zh: '牛肉高汤 + 红酒醋', ingredients: ['Beef Stock', 'Red wine vinegar'], how: ['1 cup stock + 1 tbsp vinegar per cup', '每 240 毫升红酒用等量高汤加 1 汤匙红酒醋'], contexts: ['braising'] },
+      { en: 'Grape juice + vinegar', zh: '葡萄汁 + 醋', ingredients: ['Grape juice', 'Vinegar'], how: ['1 cup unsweetened grape juice + 1 tbsp vinegar', '每 240 毫升红酒用无糖葡萄汁加 1 汤匙醋'] },
+    ],
+  },
+  {
+    ingredient: 'White Wine', aliases: ['白葡萄酒', 'dry white wine'], options: [
+      { en: 'Chicken stock + white wine vinegar', zh: '鸡汤 + 白酒醋', ingredients: ['Chicken Stock', 'White wine vinegar'], how: ['1 cup stock + 1 tbsp vinegar per cup', '每 240 毫升白葡萄酒用等量鸡汤加 1 汤匙白酒醋'], contexts: ['braising'] },
+      { en: 'Vegetable stock + lemon juice', zh: '蔬菜高汤 + 柠檬汁', ingredients: ['Vegetable Stock', 'Lemon'], how: ['1 cup stock + 1 tbsp lemon juice per cup', '每 240 毫升白葡萄酒用等量蔬菜高汤加 1 汤匙柠檬汁'] },
+    ],
+  },
+  // 酱料 / 调味
+  {
+    ingredient: 'Soy Sauce', options: [
+      { en: 'Tamari', zh: '溜酱油（无麸质）', ingredients: ['Tamari gluten-free soy sauce'], how: ['1:1; gluten-free', '等量替换，无麸质'] },
+      { en: 'Coconut aminos', zh: '椰子氨基酱', ingredients: ['Coconut aminos'], how: ['1:1 and add a pinch of salt; soy-free and gluten-free', '等量替换再加少许盐，不含大豆与麸质'] },
+      { en: 'Fish sauce', zh: '鱼露', ingredients: ['Fish Sauce'], how: ['Use half the amount', '用量减半'], contexts: ['stir-fry', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Dark Soy Sauce', options: [
+      { en: 'Soy sauce + brown sugar', zh: '生抽 + 红糖', ingredients: ['Soy Sauce', 'Brown Sugar'], how: ['1 tbsp soy sauce + 1/2 tsp brown sugar per tbsp, mainly for colour', '每汤匙老抽用 1 汤匙生抽加半茶匙红糖，主要用于上色'], contexts: ['braising', 'stir-fry'] },
+      { en: 'Caramelised sugar', zh: '糖色', ingredients: ['Sugar'], how: ['Melt sugar to amber for colour, then season with salt', '白糖炒成糖色上色，咸味用盐补足'], contexts: ['braising'] },
+    ],
+  },
+  {
+    ingredient: 'Oyster Sauce', options: [
+      { en: 'Mushroom "oyster" sauce', zh: '素蚝油', ingredients: ['Vegetarian mushroom sauce'], how: ['1:1; vegetarian', '等量替换，素食可用'] },
+      { en: 'Soy sauce + sugar', zh: '生抽 + 白糖', ingredients: ['Soy Sauce', 'Sugar'], how: ['1 tbsp soy sauce + 1/2 tsp sugar per tbsp', '每汤匙蚝油用 1 汤匙生抽加半茶匙糖'] },
+      { en: 'Hoisin sauce', zh: '海鲜酱', ingredients: ['Hoisin Sauce'], how: ['Use half the amount, sweeter', '用量减半，味道偏甜'], contexts: ['stir-fry', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Fish Sauce', options: [
+      { en: 'Soy sauce + salt', zh: '生抽 + 盐', ingredients: ['Soy Sauce', 'Salt'], how: ['1 tbsp soy sauce + a pinch of salt per tbsp', '每汤匙鱼露用 1 汤匙生抽加一小撮盐'] },
+      { en: 'Soy sauce + lime juice', zh: '生抽 + 青柠汁', ingredients: ['Soy Sauce', 'Lime'], how: ['1 tbsp soy sauce + a squeeze of lime, for dressings', '1 汤匙生抽加少许青柠汁，适合凉拌蘸汁'], contexts: ['raw'] },
+    ],
+  },
+  {
+    ingredient: 'Chilli Bean Paste', options: [
+      { en: 'Gochujang', zh: '韩式辣酱', ingredients: ['Gochujang chilli paste'], how: ['1:1, sweeter and less salty', '等量替换，更甜、咸度较低'] },
+      { en: 'Fermented black beans + chilli oil', zh: '豆豉 + 红油', ingredients: ['Fermented Black Beans', 'Chilli oil'], how: ['1 tsp mashed black beans + 1 tbsp chilli oil per tbsp', '每汤匙豆瓣酱用 1 茶匙豆豉碎加 1 汤匙红油'], contexts: ['stir-fry', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Sweet Bean Sauce', options: [
+      { en: 'Hoisin sauce', zh: '海鲜酱', ingredients: ['Hoisin Sauce'], how: ['1:1', '等量替换'] },
+      { en: 'Miso + sugar', zh: '味噌 + 白糖', ingredients: ['Miso', 'Sugar'], how: ['1 tbsp miso + 1 tsp sugar per tbsp', '每汤匙甜面酱用 1 汤匙味噌加 1 茶匙糖'] },
+    ],
+  },
+  {
+    ingredient: 'Hoisin Sauce', options: [
+      { en: 'Sweet bean sauce + sugar', zh: '甜面酱 + 白糖', ingredients: ['Sweet Bean Sauce', 'Sugar'], how: ['1 tbsp sweet bean sauce + 1/2 tsp sugar per tbsp', '每汤匙海鲜酱用 1 汤匙甜面酱加半茶匙糖'] },
+      { en: 'Soy sauce + honey + garlic', zh: '生抽 + 蜂蜜 + 蒜泥', ingredients: ['Soy Sauce', 'Honey', 'Garlic'], how: ['2 tbsp soy sauce + 1 tbsp honey + a little garlic', '2 汤匙生抽、1 汤匙蜂蜜加少许蒜泥调匀'] },
+    ],
+  },
+  {
+    ingredient: 'Tamarind Paste', options: [
+      { en: 'Lime juice + brown sugar', zh: '青柠汁 + 红糖', ingredients: ['Lime', 'Brown Sugar'], how: ['1 tbsp lime juice + 1 tsp brown sugar per tbsp', '每汤匙罗望子酱用 1 汤匙青柠汁加 1 茶匙红糖'] },
+    ],
+  },
+  {
+    ingredient: 'Dijon Mustard', options: [
+      { en: 'Mustard powder + water', zh: '芥末粉 + 清水', ingredients: ['Mustard powder', 'Water'], how: ['1 tsp powder + 1 tsp water + a drop of vinegar per tbsp', '每汤匙用 1 茶匙芥末粉、1 茶匙水加一滴醋调匀'] },
+    ],
+  },
+  // 醋 / 酸味
+  {
+    ingredient: 'Rice Vinegar', options: [
+      { en: 'Apple cider vinegar', zh: '苹果醋', ingredients: ['Apple cider vinegar'], how: ['1:1', '等量替换'] },
+      { en: 'White vinegar + water', zh: '白醋兑水', ingredients: ['White Vinegar', 'Water'], how: ['3 parts vinegar to 1 part water, plus a pinch of sugar', '白醋与水按 3:1 调匀，再加一小撮糖'] },
+    ],
+  },
+  {
+    ingredient: 'Vinegar', aliases: ['陈醋', '香醋', '镇江香醋', 'black vinegar', 'chinkiang vinegar'], options: [
+      { en: 'Balsamic vinegar', zh: '意大利黑醋', ingredients: ['Balsamic vinegar'], how: ['1:1, slightly sweeter', '等量替换，略甜'] },
+      { en: 'Rice vinegar + soy sauce', zh: '米醋 + 生抽', ingredients: ['Rice Vinegar', 'Soy Sauce'], how: ['1 tbsp rice vinegar + 1/2 tsp soy sauce per tbsp', '每汤匙用 1 汤匙米醋加半茶匙生抽'] },
+    ],
+  },
+  {
+    ingredient: 'Lemon', options: [
+      { en: 'Lime', zh: '青柠', ingredients: ['Lime'], how: ['1:1', '等量替换'] },
+      { en: 'White vinegar', zh: '白醋', ingredients: ['White Vinegar'], how: ['Use half the amount, for acidity only', '用量减半，只补酸味'], contexts: ['stir-fry', 'braising', 'baking'] },
+    ],
+  },
+  {
+    ingredient: 'Lime', options: [
+      { en: 'Lemon', zh: '柠檬', ingredients: ['Lemon'], how: ['1:1', '等量替换'] },
+    ],
+  },
+  // 糖 / 甜味
+  {
+    ingredient: 'Brown Sugar', options: [
+      { en: 'Sugar + honey', zh: '白糖 + 蜂蜜', ingredients: ['Sugar', 'Honey'], how: ['1 cup sugar + 1 tbsp honey per cup', '每 200 克红糖用 200 克白糖加 1 汤匙蜂蜜'] },
+      { en: 'Sugar', zh: '白糖', ingredients: ['Sugar'], how: ['1:1, less caramel flavour', '等量替换，焦糖风味较淡'] },
+    ],
+  },
+  {
+    ingredient: 'Rock Sugar', options: [
+      { en: 'Sugar', zh: '白糖', ingredients: ['Sugar'], how: ['Use about 3/4 of the amount; glaze will be less glossy', '用量约为 3/4，成菜光泽略差'] },
+    ],
+  },
+  {
+    ingredient: 'Honey', options: [
+      { en: 'Maple syrup', zh: '枫糖浆', ingredients: ['Maple Syrup'], how: ['1:1; vegan', '等量替换，纯素可用'] },
+      { en: 'Sugar + water', zh: '白糖 + 清水', ingredients: ['Sugar', 'Water'], how: ['1 1/4 cups sugar + 1/4 cup water per cup', '每 240 毫升蜂蜜用 250 克白糖加 60 毫升水'], contexts: ['baking', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Maple Syrup', options: [
+      { en: 'Honey', zh: '蜂蜜', ingredients: ['Honey'], how: ['Use 3/4 of the amount', '用量减为 3/4'] },
+      { en: 'Brown sugar syrup', zh: '红糖水', ingredients: ['Brown Sugar', 'Water'], how: ['Dissolve 1 cup brown sugar in 1/4 cup hot water', '200 克红糖溶于 60 毫升热水'] },
+    ],
+  },
+  // 淀粉 / 面粉
+  {
+    ingredient: 'Cornstarch', options: [
+      { en: 'Potato starch', zh: '土豆淀粉', ingredients: ['Potato Starch'], how: ['1:1', '等量替换'] },
+      { en: 'Sweet potato starch', zh: '红薯淀粉', ingredients: ['Sweet Potato Starch'], how: ['1:1, crispier when frying', '等量替换，油炸更酥脆'], contexts: ['frying', 'stir-fry'] },
+      { en: 'Plain flour', zh: '面粉', ingredients: ['Plain Flour'], how: ['Use twice the amount and cook a little longer', '用量加倍，多煮一会儿去除生粉味'], contexts: ['braising'] },
+    ],
+  },
+  {
+    ingredient: 'Potato Starch', options: [
+      { en: 'Cornstarch', zh: '玉米淀粉', ingredients: ['Cornstarch'], how: ['1:1', '等量替换'] },
+      { en: 'Sweet potato starch', zh: '红薯淀粉', ingredients: ['Sweet Potato Starch'], how: ['1:1', '等量替换'] },
+    ],
+  },
+  {
+    ingredient: 'Plain Flour', options: [
+      { en: 'Gluten-free flour blend', zh: '无麸质混合粉', ingredients: ['Gluten-free flour'], how: ['1:1, add 1/4 tsp xanthan gum per cup for cakes', '等量替换，做蛋糕时每 120 克加 1/4 茶匙黄原胶'], contexts: ['baking', 'frying'] },
+      { en: 'Cornstarch', zh: '玉米淀粉', ingredients: ['Cornstarch'], how: ['Use half the amount for thickening sauces', '勾芡时用量减半'], contexts: ['braising', 'stir-fry'] },
+    ],
+  },
+  {
+    ingredient: 'Breadcrumbs', aliases: ['面包糠', '面包屑', 'panko'], options: [
+      { en: 'Crushed crackers', zh: '饼干碎', ingredients: ['Crackers'], how: ['1:1', '等量替换'], contexts: ['frying', 'baking'] },
+      { en: 'Crushed cornflakes', zh: '玉米片碎', ingredients: ['Cornflakes'], how: ['1:1, extra crunchy', '等量替换，更酥脆'], contexts: ['frying', 'baking'] },
+      { en: 'Rolled oats', zh: '燕麦片', ingredients: ['Oats'], how: ['1:1, pulse briefly', '等量替换，稍微打碎'], contexts: ['baking'] },
+    ],
+  },
+  // 高汤
+  {
+    ingredient: 'Chicken Stock', options: [
+      { en: 'Vegetable stock', zh: '蔬菜高汤', ingredients: ['Vegetable Stock'], how: ['1:1; vegetarian', '等量替换，素食可用'] },
+      { en: 'Mushroom soaking water', zh: '香菇泡发水', ingredients: ['Shiitake Mushrooms', 'Water'], how: ['Use the strained soaking water of dried shiitake', '干香菇泡发后的水过滤使用，鲜味足'], contexts: ['braising', 'stir-fry'] },
+      { en: 'Water + salt', zh: '清水 + 盐', ingredients: ['Water', 'Salt'], how: ['1:1 and season to taste', '等量清水，按口味补盐'] },
+    ],
+  },
+  {
+    ingredient: 'Beef Stock', options: [
+      { en: 'Mushroom stock', zh: '菌菇高汤', ingredients: ['Mushrooms', 'Water'], how: ['1:1, add a dash of soy sauce for depth', '等量替换，加少许生抽提鲜'] },
+      { en: 'Vegetable stock', zh: '蔬菜高汤', ingredients: ['Vegetable Stock'], how: ['1:1', '等量替换'] },
+    ],
+  },
+  // 香料 / 香草
+  {
+    ingredient: 'Sichuan Pepper', options: [
+      { en: 'Black pepper + lemon zest', zh: '黑胡椒 + 柠檬皮屑', ingredients: ['Black Pepper', 'Lemon'], how: ['Same amount of black pepper plus a little zest; no numbing effect', '等量黑胡椒加少许柠檬皮屑，缺少麻味'] },
+    ],
+  },
+  {
+    ingredient: 'Star Anise', options: [
+      { en: 'Five spice', zh: '五香粉', ingredients: ['Five Spice'], how: ['1/2 tsp per star anise', '每颗八角用半茶匙五香粉'], contexts: ['braising'] },
+      { en: 'Fennel seeds', zh: '小茴香', ingredients: ['Fennel seeds'], how: ['1/2 tsp per star anise', '每颗八角用半茶匙小茴香'] },
+    ],
+  },
+  {
+    ingredient: 'Five Spice', options: [
+      { en: 'Cinnamon + star anise + Sichuan pepper', zh: '肉桂 + 八角 + 花椒', ingredients: ['Cinnamon', 'Star Anise', 'Sichuan Pepper'], how: ['Grind equal parts', '等量研磨成粉'] },
+    ],
+  },
+  {
+    ingredient: 'Coriander', options: [
+      { en: 'Parsley', zh: '欧芹', ingredients: ['Parsley'], how: ['1:1, milder', '等量替换，味道更温和'], contexts: ['raw', 'braising'] },
+      { en: 'Spring onion greens', zh: '葱叶', ingredients: ['Spring Onions'], how: ['1:1 as a garnish', '等量替换，用作点缀'] },
+    ],
+  },
+  {
+    ingredient: 'Basil', options: [
+      { en: 'Oregano', zh: '牛至', ingredients: ['Oregano'], how: ['Use dried oregano at 1/3 of the amount', '用干牛至，用量为 1/3'], contexts: ['braising', 'baking'] },
+      { en: 'Spinach + mint', zh: '菠菜 + 薄荷', ingredients: ['Spinach', 'Mint'], how: ['Mostly spinach with a few mint leaves, for pesto', '以菠菜为主加几片薄荷，适合做青酱'], contexts: ['raw'] },
+    ],
+  },
+  // 葱姜蒜 / 蔬菜
+  {
+    ingredient: 'Shallots', aliases: ['shallot', '红葱头', '干葱', '小洋葱', '葱头'], options: [
+      { en: 'Onion', zh: '洋葱', ingredients: ['Onion'], how: ['1 small onion per 3 shallots', '3 颗红葱头用 1 个小洋葱'] },
+      { en: 'White part of spring onions', zh: '葱白', ingredients: ['Spring Onions'], how: ['1:1 by volume, milder', '等量替换，味道更清淡'], contexts: ['raw', 'stir-fry'] },
+    ],
+  },
+  {
+    ingredient: 'Spring Onions', options: [
+      { en: 'Leek', zh: '大葱', ingredients: ['Leek'], how: ['Use half the amount, sliced thinly', '用量减半，切细丝'], contexts: ['stir-fry', 'braising'] },
+      { en: 'Chives', zh: '韭菜 / 细香葱', ingredients: ['Chives'], how: ['1:1 as a garnish', '等量替换，用作点缀'], contexts: ['raw'] },
+      { en: 'Onion', zh: '洋葱', ingredients: ['Onion'], how: ['Use half the amount, finely chopped', '用量减半，切碎'], contexts: ['stir-fry', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Leek', options: [
+      { en: 'Spring onions', zh: '葱', ingredients: ['Spring Onions'], how: ['Use twice the amount', '用量加倍'] },
+      { en: 'Onion', zh: '洋葱', ingredients: ['Onion'], how: ['1:1', '等量替换'], contexts: ['braising'] },
+    ],
+  },
+  {
+    ingredient: 'Onion', options: [
+      { en: 'Shallots', zh: '红葱头', ingredients: ['Shallots'], how: ['3 shallots per small onion', '1 个小洋葱用 3 颗红葱头'] },
+      { en: 'Leek', zh: '大葱', ingredients: ['Leek'], how: ['1:1', '等量替换'], contexts: ['braising', 'stir-fry'] },
+    ],
+  },
+  {
+    ingredient: 'Ginger', options: [
+      { en: 'Ginger paste', zh: '姜蓉', ingredients: ['Ginger Paste'], how: ['1 tsp per 2 cm of fresh ginger', '每 2 厘米鲜姜用 1 茶匙姜蓉'] },
+      { en: 'Ground ginger', zh: '姜粉', ingredients: ['Ground Ginger'], how: ['1/4 tsp per tbsp of fresh ginger', '每汤匙鲜姜末用 1/4 茶匙姜粉'], contexts: ['braising', 'baking'] },
+    ],
+  },
+  {
+    ingredient: 'Garlic', options: [
+      { en: 'Garlic paste', zh: '蒜泥', ingredients: ['Garlic Paste'], how: ['1/2 tsp per clove', '每瓣蒜用半茶匙蒜泥'] },
+      { en: 'Garlic powder', zh: '蒜粉', ingredients: ['Garlic powder'], how: ['1/8 tsp per clove', '每瓣蒜用 1/8 茶匙蒜粉'], contexts: ['braising', 'baking', 'frying'] },
+    ],
+  },
+  {
+    ingredient: 'Bok Choy', options: [
+      { en: 'Spinach', zh: '菠菜', ingredients: ['Spinach'], how: ['1:1, cooks faster', '等量替换，熟得更快'], contexts: ['stir-fry', 'braising'] },
+      { en: 'Chinese cabbage', zh: '大白菜', ingredients: ['Chinese Cabbage'], how: ['1:1, cut into strips', '等量替换，切条'] },
+    ],
+  },
+  {
+    ingredient: 'Chinese Cabbage', options: [
+      { en: 'Cabbage', zh: '卷心菜', ingredients: ['Cabbage'], how: ['1:1, cook a little longer', '等量替换，多炒一会儿'] },
+      { en: 'Bok choy', zh: '青菜', ingredients: ['Bok Choy'], how: ['1:1', '等量替换'] },
+    ],
+  },
+  {
+    ingredient: 'Shiitake Mushrooms', options: [
+      { en: 'Button mushrooms', zh: '口蘑', ingredients: ['Mushrooms'], how: ['1:1, less savoury', '等量替换，鲜味较淡'] },
+    ],
+  },
+  // 蛋白质
+  {
+    ingredient: 'Tofu', options: [
+      { en: 'Egg', zh: '鸡蛋', ingredients: ['Egg'], how: ['2 eggs per 150 g tofu, cooked as omelette strips', '每 150 克豆腐用 2 个鸡蛋，煎成蛋饼切块'], contexts: ['stir-fry'] },
+      { en: 'Chickpeas', zh: '鹰嘴豆', ingredients: ['Chickpeas'], how: ['1:1 by weight', '按重量等量替换'], contexts: ['braising'] },
+    ],
+  },
+  {
+    ingredient: 'Chicken Breast', options: [
+      { en: 'Chicken thighs', zh: '鸡腿肉', ingredients: ['Chicken Thighs'], how: ['1:1, juicier; cook 2-3 minutes longer', '等量替换，更多汁，多煮 2-3 分钟'] },
+      { en: 'Firm tofu', zh: '老豆腐', ingredients: ['Tofu'], how: ['1:1 by weight; press dry first', '按重量等量替换，先压干水分'], contexts: ['stir-fry', 'braising', 'frying'] },
+    ],
+  },
+  {
+    ingredient: 'Minced Pork', options: [
+      { en: 'Minced chicken', zh: '鸡肉末', ingredients: ['Minced chicken'], how: ['1:1, add a little oil', '等量替换，加少许油'] },
+      { en: 'Minced beef', zh: '牛肉末', ingredients: ['Minced Beef'], how: ['1:1', '等量替换'] },
+      { en: 'Chopped shiitake + tofu', zh: '香菇碎 + 豆腐', ingredients: ['Shiitake Mushrooms', 'Tofu'], how: ['Equal parts, by weight', '两者各半，按重量等量替换'], contexts: ['stir-fry', 'braising'] },
+    ],
+  },
+  {
+    ingredient: 'Prawns', options: [
+      { en: 'White fish', zh: '白身鱼', ingredients: ['White Fish'], how: ['1:1, cut into chunks', '等量替换，切块'], contexts: ['stir-fry', 'braising', 'frying'] },
+      { en: 'Chicken breast', zh: '鸡胸肉', ingredients: ['Chicken Breast'], how: ['1:1, cut small and cook through', '等量替换，切小块并煮熟透'], contexts: ['stir-fry', 'frying'] },
+    ],
+  },
+  // 坚果 / 油
+  {
+    ingredient: 'Peanuts', options: [
+      { en: 'Cashew nuts', zh: '腰果', ingredients: ['Cashew Nuts'], how: ['1:1', '等量替换'] },
+      { en: 'Sunflower seeds', zh: '葵花籽仁', ingredients: ['Sunflower seeds'], how: ['1:1; nut-free', '等量替换，不含坚果'] },
+    ],
+  },
+  {
+    ingredient: 'Pine Nuts', options: [
+      { en: 'Sunflower seeds', zh: '葵花籽仁', ingredients: ['Sunflower seeds'], how: ['1:1; nut-free', '等量替换，不含坚果'] },
+      { en: 'Walnuts', zh: '核桃', ingredients: ['Walnuts'], how: ['1:1, chopped', '等量替换，切碎'] },
+    ],
+  },
+  {
+    ingredient: 'Sesame Seed Oil', options: [
+      { en: 'Toasted peanut oil', zh: '花生油', ingredients: ['Peanut oil'], how: ['1:1, less aromatic', '等量替换，香气较弱'] },
+      { en: 'Perilla oil', zh: '紫苏油', ingredients: ['Perilla oil'], how: ['1:1', '等量替换'], contexts: ['raw'] },
+    ],
+  },
+  {
+    ingredient: 'Coconut Milk', options: [
+      { en: 'Milk + double cream', zh: '牛奶 + 淡奶油', ingredients: ['Milk', 'Double Cream'], how: ['Equal parts', '两者各半'], contexts: ['braising', 'baking'] },
+      { en: 'Cashew cream', zh: '腰果奶油', ingredients: ['Cashew Nuts', 'Water'], how: ['Blend 1 part soaked cashews with 2 parts water', '泡软的腰果与水按 1:2 打匀'], contexts: ['braising'] },
+    ],
+  },
+];
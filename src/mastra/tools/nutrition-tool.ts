@@ -0,0 +1,30 @@
+/*
+文件说明：营养估算工具（Mastra Tool）
+- 按内置营养成分表与食材用量计算一道菜每份的热量与蛋白质 / 碳水化合物 / 脂肪，供 Agent 给出营养信息时使用（避免凭空编造数值）
+- recipeTool 返回的菜谱已带 nutrition 字段；本工具用于 Agent 自行组合或调整食材后的菜品
+- 食材名需为中文或英文（经食材词表归一后查表，见 utils/nutrition.ts）；未收录的食材不计入，coverage 给出计入占比
+- 份数未知时按做法与食材估算（见 utils/servings.ts）
+*/
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutritionSchema } from './recipe-tool';
+import { estimateNutrition } from '../../utils/nutrition';
+import { estimateServings } from '../../utils/servings';
+
+export const nutritionTool = createTool({
+  id: 'estimate-nutrition',
+  description: '估算一道菜每份的热量与蛋白质/碳水化合物/脂肪（输入食材与用量，如 recipeTool 返回的 ingredients）',
+  inputSchema: z.object({
+    ingredients: z
+      .array(z.object({ ingredient: z.string(), measure: z.string() }))
+      .min(1)
+      .describe('食材与用量原文（中文或英文），如 [{ "ingredient": "鸡胸肉", "measure": "300克" }]'),
+    servings: z.number().int().min(1).max(50).optional().describe('这些用量对应的份数（recipeTool 返回的 servings），未知时自动估算'),
+    instructions: z.string().optional().describe('做法原文，用于识别原菜谱写明的份数'),
+  }),
+  outputSchema: nutritionSchema,
+  execute: async ({ context }) => {
+    const { ingredients, servings, instructions } = context;
+    return estimateNutrition(ingredients, servings ?? estimateServings({ instructions, ingredients }).servings);
+  },
+});
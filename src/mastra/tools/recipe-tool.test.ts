@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { recipeTool } from './recipe-tool';
+
+// 离线运行：主数据源为本地数据集（RECIPE_SOURCE=local），合并中式家常菜数据源；不配置 API Key，翻译返回原文
+const saved = { source: process.env.RECIPE_SOURCE, key: process.env.OPENAI_API_KEY };
+before(() => {
+  process.env.RECIPE_SOURCE = 'local';
+  delete process.env.OPENAI_API_KEY;
+});
+after(() => {
+  if (saved.source === undefined) delete process.env.RECIPE_SOURCE;
+  else process.env.RECIPE_SOURCE = saved.source;
+  if (saved.key !== undefined) process.env.OPENAI_API_KEY = saved.key;
+});
+
+const search = (context: { ingredients?: string; category?: string; cuisine?: string; match?: 'all' | 'any'; limit?: number }) =>
+  recipeTool.execute!({ context: { match: 'all', limit: 5, language: 'en-US', ...context }, runtimeContext: new RuntimeContext() });
+
+describe('recipeTool：按冰箱覆盖度排序', () => {
+  it('用到的用户食材越多越靠前，并标注用到与未用到的食材', async () => {
+    const { recipes, relaxedConstraints } = await search({ ingredients: 'chicken, rice, peas' });
+    assert.deepEqual(relaxedConstraints, []);
+    assert.equal(recipes[0].id, 'local-003');
+    assert.deepEqual(recipes[0].matchedIngredients, ['chicken', 'rice', 'peas']);
+    assert.deepEqual(recipes[0].missingIngredients, []);
+    const counts = recipes.map((r) => r.matchedIngredients?.length ?? 0);
+    assert.deepEqual(counts, [...counts].sort((a, b) => b - a));
+    assert.ok(recipes.slice(1).every((r) => r.missingIngredients?.includes('peas')));
+  });
+
+  it('中文菜谱的食材经检索词命中（英文食材 → 中文数据源）', async () => {
+    const { recipes } = await search({ ingredients: 'milk, flour, egg', limit: 10 });
+    assert.equal(recipes[0].id, 'local-014');
+    assert.deepEqual(recipes[0].matchedIngredients, ['milk', 'flour', 'egg']);
+    assert.deepEqual(recipes.find((r) => r.id === 'cn-024')?.matchedIngredients, ['flour', 'egg']);
+  });
+});
+
+describe('recipeTool：多条件组合与放宽', () => {
+  it('无精确结果时先放宽菜系', async () => {
+    const { recipes, relaxedConstraints } = await search({ category: 'Seafood', cuisine: 'Italian' });
+    assert.deepEqual(relaxedConstraints, ['cuisine']);
+    assert.ok(recipes.length > 0);
+    assert.ok(recipes.every((r) => /seafood|海鲜/i.test(r.category ?? '')));
+  });
+
+  it('没有菜系条件时放宽类别，保留食材', async () => {
+    const { recipes, relaxedConstraints } = await search({ ingredients: 'beef', category: 'Dessert' });
+    assert.deepEqual(relaxedConstraints, ['category']);
+    assert.ok(recipes.every((r) => r.matchedIngredients?.includes('beef')));
+  });
+
+  it('只放宽菜系或类别仍无结果时放宽食材', async () => {
+    const { recipes, relaxedConstraints } = await search({ ingredients: 'salmon', category: 'Pork', cuisine: 'Chinese' });
+    assert.deepEqual(relaxedConstraints, ['ingredients']);
+    assert.ok(recipes.length > 0);
+    assert.ok(recipes.every((r) => r.missingIngredients?.includes('salmon')));
+  });
+
+  it('所有条件都没有筛选结果时回退到主数据源的随机推荐', async () => {
+    const { recipes, relaxedConstraints, source } = await search({ ingredients: 'zzqx' });
+    assert.deepEqual(relaxedConstraints, ['ingredients']);
+    assert.equal(source, 'Local');
+    assert.equal(recipes.length, 5);
+  });
+});
+
+describe('recipeTool：合并数据源', () => {
+  it('同级候选按数据源轮流排列，中文数据源也能进入结果', async () => {
+    const { recipes, source } = await search({ cuisine: 'Chinese', limit: 2 });
+    assert.deepEqual(recipes.map((r) => r.source).sort(), ['ChineseHome', 'Local']);
+    assert.equal(source.split(' + ').length, 2);
+  });
+
+  it('地方菜系只取中文数据源的精确命中，排在通用取值命中之前', async () => {
+    const { recipes } = await search({ cuisine: '川菜', limit: 4 });
+    assert.equal(recipes.length, 4);
+    assert.ok(recipes.every((r) => r.source === 'ChineseHome' && r.area === '川菜'));
+  });
+});
+
+describe('recipeTool：缺少食材的替代品', () => {
+  it('中文菜谱按词表判断用户已有的英文食材，不为其给出替代品', async () => {
+    const { recipes } = await search({ ingredients: 'milk, flour, egg', limit: 10 });
+    const noodles = recipes.find((r) => r.id === 'cn-024');
+    const lacking = noodles?.substitutions?.map((s) => s.ingredient) ?? [];
+    assert.ok(lacking.length > 0);
+    assert.ok(!lacking.includes('面粉'));
+    assert.ok(!lacking.includes('鸡蛋'));
+  });
+
+  it('只为用户没有的食材给出替代品', async () => {
+    const { recipes } = await search({ ingredients: 'milk, flour', limit: 10 });
+    const pancakes = recipes.find((r) => r.id === 'local-014');
+    assert.ok(pancakes?.substitutions?.some((s) => s.ingredient === 'Butter'));
+    assert.ok(!pancakes?.substitutions?.some((s) => s.ingredient === 'Milk' || s.ingredient === 'Plain Flour'));
+  });
+});
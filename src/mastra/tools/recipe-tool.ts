@@ -1,148 +1,471 @@
 /*
 文件说明：菜谱工具（Mastra Tool）
-- 依赖 TheMealDB 开放 API，支持按食材、类别、菜系筛选与随机推荐
+- 通过 RecipeSource 数据源（默认 TheMealDB 开放 API，可切换为本地离线数据集）按食材、类别、菜系筛选与随机推荐
+- 同时检索中式家常菜数据源（八大菜系），与主数据源结果合并；中文菜谱直接返回中文原文
+- 多食材输入时逐个查询并按「冰箱覆盖度」排序（返回 matchedIngredients / missingIngredients）
+- 食材、类别、菜系可同时生效（默认全部满足，无结果时逐步放宽并在 relaxedConstraints 中说明）
+- 类别/菜系先经内置分类体系解析为 TheMealDB 规范取值（"素食" → Vegetarian + Vegan、"川菜" → Chinese），结果见 resolved
+- 食材、类别、菜系的检索词再按主数据源的取值列表校验（见 utils/reference.ts），拼写或单复数不一致时自动纠正，结果见 corrections
 - 返回结构化菜谱数据，供 Agent 进一步生成菜单、烹饪步骤等
 - 设计要点：
-  1) 以「优雅降级」为原则：筛选失败时回退到 searchByName，再失败则随机推荐
-  2) 使用 fetch 原生接口，适配 Cloudflare Workers / 浏览器环境
+  1) 以「优雅降级」为原则：筛选失败时回退到按名称检索，再失败则随机推荐
+  2) 不直接发起请求：所有数据访问经由 RecipeSource（见 src/sources），由环境变量 RECIPE_SOURCE 选择实现
   3) TheMealDB 的 instructions 为英文，如需中文可在上层 Agent 中做翻译
-- 输入参数包含 language（zh-CN / en-US），当前用于可扩展的多语言支持（非强制）
+- 输入参数包含 language（语言注册表 constants/locales.ts 中的任一语言，未指定时取请求语言，默认 zh-CN），菜谱会翻译为该语言
+- 食材用量解析为结构化 quantity，并按 units（metric / imperial，默认随语言）换算为 displayMeasure，见 utils/measure.ts
+- 返回原菜谱份数 baseServings（未标注时估算，见 utils/servings.ts）；指定 servings 时按比例缩放用量
+- 做法拆分为结构化 steps（时长、温度、涉及食材、是否为等待类步骤），见 utils/steps.ts
+- 估算总时长 / 动手时长与难度（见 utils/timing.ts）；指定 timeBudget 时只保留预算内的菜谱，都超出时按时长排序并标记放宽
+- 由做法推断所需设备（见 utils/equipment.ts）；指定 equipment 时缺少设备的菜谱排在后面，并在 equipmentNote 中说明原因
+- 估算口味画像（辣度 / 甜度 / 油润度 / 酸度，见 utils/taste.ts）；指定 taste 时按匹配度排序，minSpice / maxSpice 按辣度筛选
+- 按食材识别饮食标签与过敏原（见 utils/dietary.ts）；dietary / excludeAllergens 为硬性条件，不满足的菜谱直接剔除、不做放宽
+- exclude 指定忌口食材（含同义词与衍生食材，见 utils/exclusion.ts），同样为硬性条件
+- 按内置营养成分表估算每份热量与蛋白质 / 碳水化合物 / 脂肪（见 utils/nutrition.ts），供 Agent 引用而非自行编造
+- 按食材搜索时，菜谱需要而用户没有的食材附带替代品（substitutions，见 utils/substitution.ts），按烹饪场景与饮食限制筛选，用户已有的替代品在前
+- 指定 id 时按 ID 查询单个菜谱详情（详情接口 GET /api/recipes/:id），忽略其他筛选条件；未找到时 recipes 为空
+- 指定 query 时按菜名检索：先查本地菜名索引（容错、前缀、拼音，见 utils/name-search.ts），再查数据源的 searchByName，远程无结果时取本地近似命中；
+  都没有时按其余条件继续并在 relaxedConstraints 中加入 query。筛选全部落空时的按名称回退也走同一路径
 - 所有函数尽量保持纯函数 / 无副作用，便于测试与复用
 */
 import { createTool } from '@mastra/core/tools'; // 从 Mastra 核心库导入创建工具的函数
 import { z } from 'zod'; // 导入 Zod 库用于运行时类型验证和 schema 定义
-import { Translator, type NormalizedRecipe } from '../../utils/translator'; // 导入翻译器类和类型定义
+import { Translator, type AssociatedTerms, type NormalizedRecipe } from '../../utils/translator'; // 导入翻译器类和类型定义
+import { createRecipeSources, lookupRecipe, type RecipeSource, type RecipeSummary } from '../../sources'; // 导入菜谱数据源
+import { LOCALE_CODES, localeInfo, type LocaleCode } from '../../constants/locales'; // 导入语言注册表
+import type { Allergen, DietaryLabel, EquipmentId, IngredientSubstitution, Substitute, TasteProfile, UnitSystem } from '../../types'; // 导入单位制、设备、口味、饮食与食材替代类型
+import { localeFromContext } from '../../utils/language'; // 导入请求级语言上下文
+import { findIngredient } from '../../utils/glossary'; // 导入食材词表
+import { annotateMeasures } from '../../utils/measure'; // 导入用量解析与单位换算
+import { estimateServings } from '../../utils/servings'; // 导入份数估算
+import { parseSteps } from '../../utils/steps'; // 导入做法步骤解析
+import { estimateTiming, fitTimeBudget, type TimingEstimate } from '../../utils/timing'; // 导入时间与难度估算
+import { inferEquipment, missingEquipment, rankByEquipment, resolveEquipment } from '../../utils/equipment'; // 导入设备识别与匹配
+import { fitSpiceRange, parseTaste, profileTaste, rankByTaste, tasteMatch } from '../../utils/taste'; // 导入口味画像与匹配
+import { classifyDiet, detectAllergens, parseAllergens, parseDietary } from '../../utils/dietary'; // 导入饮食标签与过敏原识别
+import { excludedIn, expandExclusion, termPattern } from '../../utils/exclusion'; // 导入忌口食材展开与整词匹配
+import { estimateNutrition } from '../../utils/nutrition'; // 导入营养估算
+import { listReference, matchReference, type ReferenceKind } from '../../utils/reference'; // 导入参考数据（筛选取值校验）
+import { rememberRecipeNames, searchRecipeNames, type NameMatch } from '../../utils/name-search'; // 导入菜名检索
+import { COOKING_CONTEXTS, cookingContexts, hasIngredient, localizeSubstitutes, substitutesFor, type SubstitutionContext } from '../../utils/substitution'; // 导入食材替代
 
-// 简要菜谱摘要结构（用于筛选列表返回）
-interface MealSummary { // 定义菜谱摘要的 TypeScript 接口
-  idMeal: string; // 菜谱的唯一标识符 ID
-  strMeal: string; // 菜品名称
-  strMealThumb: string; // 菜品缩略图 URL
+// 用户的单个食材及其检索关键词（翻译词 + 联想词）
+interface PantryTerm {
+  original: string; // 用户原始输入，如"鸡肉"
+  keywords: string[]; // 用于 filterByIngredient 的英文关键词
 }
 
-// 完整菜谱详情结构（包含做法、标签、食材等）
-interface MealDetail extends MealSummary { // 继承 MealSummary 接口，添加更多详细字段
-  strCategory: string | null; // 菜品类别（如素食、海鲜等）
-  strArea: string | null; // 菜系/地区（如中国菜、意大利菜等）
-  strTags: string | null; // 菜品标签，逗号分隔的字符串
-  strInstructions: string | null; // 详细做法步骤（英文）
-  strYoutube: string | null; // 教学视频链接（YouTube URL）
-  [key: string]: string | null; // 索引签名：用于访问 strIngredient1-20 / strMeasure1-20 等动态字段
+// 拆分食材列表：支持中英文逗号、顿号、分号；保留 "chicken breast" 这类带空格的食材名
+// 调用方未经 schema 校验直接传入数组时按数组处理，忽略非字符串项
+function splitIngredients(ingredients: unknown): string[] {
+  const text = Array.isArray(ingredients)
+    ? ingredients.filter((t): t is string => typeof t === 'string').join(',')
+    : typeof ingredients === 'string' ? ingredients : '';
+  if (!text) return [];
+  const items = text
+    .split(/[，,、;；]+/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return Array.from(new Set(items));
 }
 
-// 工具函数：从详情中抽取食材与用量（TheMealDB 使用最多 20 个食材位）
-function extractIngredients(meal: MealDetail) { // 函数定义：接收菜谱详情对象作为参数
-  const items: { ingredient: string; measure: string }[] = []; // 初始化空数组，用于存储食材和用量的对象
-  for (let i = 1; i <= 20; i++) { // 循环遍历 1 到 20（TheMealDB API 最多支持 20 个食材）
-    const ingredient = (meal[`strIngredient${i}`] || '')?.trim(); // 动态访问 strIngredient1-20 字段，去除空白字符
-    const measure = (meal[`strMeasure${i}`] || '')?.trim(); // 动态访问 strMeasure1-20 字段，去除空白字符
-    if (ingredient) { // 如果食材字段不为空（用量可以为空）
-      // 收集存在的食材与对应用量
-      items.push({ ingredient, measure }); // 将食材和用量对象添加到数组中
+// 逐个翻译食材，生成每个食材的检索关键词
+async function translatePantry(translator: Translator, items: string[]): Promise<PantryTerm[]> {
+  return Promise.all(
+    items.map(async (original) => {
+      const enhanced = await translator.translateRecipeInputEnhanced({ ingredients: original });
+      const { translated, relatedTerms } = enhanced.ingredients || { translated: original, relatedTerms: [] };
+      const keywords = Array.from(new Set([translated, ...relatedTerms].map((k) => k.trim()).filter(Boolean)));
+      return { original, keywords };
+    }),
+  );
+}
+
+// 数据源使用的检索关键词：中文数据源额外使用用户的中文原始输入，无需翻译即可命中
+function keywordsFor(source: RecipeSource, original: string, keywords: string[]): string[] {
+  if (source.language !== 'zh-CN' || !original) return keywords;
+  return Array.from(new Set([original, ...keywords]));
+}
+
+// 名称是否命中关键词：名称连同其词表规范中英文名，按关键词的整词规则匹配（见 utils/exclusion.ts 的 termPattern）
+// "chicken" 命中 "Chicken Breast" 与 "鸡胸肉"；"egg" 不命中 "Eggplant"，关键词 "olive oil" 不命中名称 "Oil"
+function termMatches(name: string, keyword: string): boolean {
+  if (!keyword.trim()) return false;
+  const pattern = termPattern(keyword);
+  const entry = findIngredient(name);
+  return [name, ...(entry ? [entry.en, entry.zh] : [])].some((n) => pattern.test(n));
+}
+
+// 按食材逐个查询并合并：记录每道菜命中了哪些用户食材（下标），命中越多排名越前
+async function searchByIngredients(
+  source: RecipeSource,
+  terms: PantryTerm[],
+): Promise<{ summary: RecipeSummary; hits: Set<number> }[]> {
+  const byId = new Map<string, { summary: RecipeSummary; hits: Set<number> }>();
+  for (let i = 0; i < terms.length; i++) {
+    for (const keyword of keywordsFor(source, terms[i].original, terms[i].keywords)) {
+      const summaries = await source.filterByIngredient(keyword);
+      for (const summary of summaries) {
+        const entry = byId.get(summary.id) || { summary, hits: new Set<number>() };
+        entry.hits.add(i);
+        byId.set(summary.id, entry);
+      }
     }
   }
-  return items; // 返回包含所有食材和用量的数组
+  // 交集（命中全部食材）自然排在并集（命中部分食材）之前
+  return Array.from(byId.values()).sort((a, b) => b.hits.size - a.hits.size);
 }
 
-// 根据菜谱 ID 批量查询详情（lookup.php）
-async function fetchDetailsFor(ids: string[]): Promise<MealDetail[]> { // 异步函数：接收 ID 数组，返回菜谱详情数组的 Promise
-  const details: MealDetail[] = []; // 初始化空数组，用于存储获取到的菜谱详情
-  for (const id of ids) { // 遍历每个菜谱 ID
-    const resp = await fetch(`https://www.themealdb.com/api/json/v1/1/lookup.php?i=${id}`); // 调用 TheMealDB API 查询单个菜谱详情
-    const json = await resp.json(); // 将响应解析为 JSON 对象
-    const meal = (json?.meals?.[0] || null) as MealDetail | null; // 提取 meals 数组的第一个元素（单个菜谱），类型断言为 MealDetail 或 null
-    if (meal) details.push(meal); // 如果菜谱存在，添加到详情数组中
-  }
-  return details; // 返回包含所有菜谱详情的数组
+// 根据详情中的真实食材标注覆盖情况：matchedIngredients / missingIngredients
+function annotateCoverage(recipe: NormalizedRecipe, terms: PantryTerm[], hits: Set<number>): NormalizedRecipe {
+  const matchedIngredients: string[] = [];
+  const missingIngredients: string[] = [];
+  terms.forEach((term, i) => {
+    const used = hits.has(i) || recipe.ingredients.some((item) =>
+      [term.original, ...term.keywords].some((keyword) => termMatches(item.ingredient, keyword)),
+    );
+    (used ? matchedIngredients : missingIngredients).push(term.original);
+  });
+  return { ...recipe, matchedIngredients, missingIngredients };
 }
 
-// 按食材筛选（filter.php?i=）——API 仅支持单一食材筛选
-async function filterByIngredient(ingredient: string): Promise<MealSummary[]> { // 异步函数：根据单个食材筛选菜谱
-  const resp = await fetch(`https://www.themealdb.com/api/json/v1/1/filter.php?i=${encodeURIComponent(ingredient)}`); // 调用 TheMealDB API 按食材筛选，encodeURIComponent 编码特殊字符
-  const json = await resp.json(); // 将响应解析为 JSON 对象
-  // 若无结果，返回空数组，避免后续流程报错
-  return Array.isArray(json?.meals) ? (json.meals as MealSummary[]) : [];
+// 菜谱需要而用户没有的食材（按在 ingredients 中的位置，经词表比较，见 utils/substitution.ts 的 hasIngredient）及其替代品；知识库中没有替代品的食材不列出
+function lackingSubstitutes(
+  recipe: NormalizedRecipe,
+  terms: PantryTerm[],
+  context: SubstitutionContext,
+  locale: LocaleCode,
+): Array<{ index: number; substitutes: Substitute[] }> {
+  const available = terms.flatMap((term) => [term.original, ...term.keywords]);
+  const cooking = cookingContexts(recipe);
+  return recipe.ingredients.flatMap((item, index) => {
+    if (hasIngredient(available, item.ingredient)) return [];
+    const substitutes = substitutesFor(item.ingredient, { ...context, cooking, available }, locale);
+    return substitutes.length ? [{ index, substitutes }] : [];
+  });
 }
 
-// 按类别筛选（filter.php?c=），如 Vegetarian、Seafood
-async function filterByCategory(category: string): Promise<MealSummary[]> { // 异步函数：根据菜品类别筛选菜谱
-  const resp = await fetch(`https://www.themealdb.com/api/json/v1/1/filter.php?c=${encodeURIComponent(category)}`); // 调用 TheMealDB API 按类别筛选
-  const json = await resp.json(); // 将响应解析为 JSON 对象
-  return Array.isArray(json?.meals) ? (json.meals as MealSummary[]) : [];
+// 覆盖度排序：用到的用户食材越多越靠前；相同时额外所需食材越少越靠前
+function rankByCoverage(recipes: NormalizedRecipe[]): NormalizedRecipe[] {
+  return [...recipes].sort((a, b) => {
+    const diff = (b.matchedIngredients?.length ?? 0) - (a.matchedIngredients?.length ?? 0);
+    return diff !== 0 ? diff : a.ingredients.length - b.ingredients.length;
+  });
 }
 
-// 按菜系/地区筛选（filter.php?a=），如 Chinese、Italian
-async function filterByArea(area: string): Promise<MealSummary[]> { // 异步函数：根据菜系/地区筛选菜谱
-  const resp = await fetch(`https://www.themealdb.com/api/json/v1/1/filter.php?a=${encodeURIComponent(area)}`); // 调用 TheMealDB API 按地区筛选
-  const json = await resp.json(); // 将响应解析为 JSON 对象
-  return Array.isArray(json?.meals) ? (json.meals as MealSummary[]) : [];
+// 筛选条件维度：食材 / 类别 / 菜系
+type Constraint = 'ingredients' | 'category' | 'cuisine';
+
+// 对外报告的被放宽条件：筛选条件之外还包括时间预算、辣度与设备（在统一出口处按估算结果筛选 / 排序）
+type RelaxedConstraint = Constraint | 'query' | 'timeBudget' | 'spice' | 'equipment';
+
+// 统一出口中每道候选菜谱的估算结果
+interface RecipeAnalysis {
+  timing: TimingEstimate;
+  equipment: EquipmentId[]; // 所需设备
+  missing: EquipmentId[]; // 用户缺少的设备（未指定 equipment 时为空）
+  taste: TasteProfile;
+  dietary: DietaryLabel[];
+  allergens: Allergen[];
 }
 
-// 随机选取多道菜（改为调用随机单菜 random.php 多次，避免 randomselection.php 可能返回空）
-async function randomSelection(): Promise<MealDetail[]> { // 异步函数：随机获取多个菜谱详情
-  const results: MealDetail[] = []; // 初始化结果数组，用于存储随机获取的菜谱
-  const maxCount = 10; // 设置最多获取 10 道菜谱
-  const maxTries = 20; // 设置最多尝试次数为 20，防止无限循环
-  let tries = 0; // 初始化尝试计数器
-  while (results.length < maxCount && tries < maxTries) { // 当结果数量少于目标且尝试次数未超限时继续循环
-    tries += 1; // 尝试次数加 1
-    try { // 使用 try-catch 处理单次请求可能的错误
-      const resp = await fetch('https://www.themealdb.com/api/json/v1/1/random.php'); // 调用 TheMealDB API 获取单个随机菜谱
-      const json = await resp.json(); // 将响应解析为 JSON 对象
-      const meal = (Array.isArray(json?.meals) ? (json.meals[0] as MealDetail) : null); // 提取 meals 数组的第一个元素，类型断言为 MealDetail
-      if (meal && meal.idMeal) { // 如果菜谱存在且有有效 ID
-        // 去重：检查结果数组中是否已存在相同 ID 的菜谱
-        if (!results.find((m) => m.idMeal === meal.idMeal)) { // 使用 find 方法查找是否有重复 ID
-          results.push(meal); // 如果不存在重复，将菜谱添加到结果数组
-        }
+// 无精确结果时的放宽优先级：先放宽菜系，再放宽类别，最后放宽食材
+const RELAXATION_ORDER: Constraint[] = ['cuisine', 'category', 'ingredients'];
+
+// 候选菜谱：记录筛选列表阶段满足了哪些条件（用于决定优先查详情的顺序）
+interface Candidate {
+  source: RecipeSource; // 候选来自哪个数据源（查详情时使用）
+  summary: RecipeSummary;
+  hits: Set<number>; // 命中的用户食材下标
+  matched: Set<Constraint>; // 筛选列表阶段满足的条件
+  specific: boolean; // 是否由数据源自身的地方菜系或类别精确命中（如中文数据源按"川菜"命中），而非经通用取值（Chinese）命中
+}
+
+// 候选排序：满足条件多的在前；同级内数据源自身的精确命中在前，其余按命中食材数排序后按数据源轮流排列，
+// 避免主数据源的通用命中占满候选池，合并进来的数据源（如中式家常菜）也能进入查详情的范围
+function orderCandidates(candidates: Candidate[]): Candidate[] {
+  const tiers = new Map<number, Candidate[]>();
+  for (const candidate of candidates) {
+    const tier = candidate.matched.size * 2 + Number(candidate.specific);
+    tiers.set(tier, [...(tiers.get(tier) ?? []), candidate]);
+  }
+  return Array.from(tiers.keys())
+    .sort((a, b) => b - a)
+    .flatMap((tier) => {
+      const bySource = new Map<string, Candidate[]>();
+      for (const candidate of [...tiers.get(tier)!].sort((a, b) => b.hits.size - a.hits.size)) {
+        bySource.set(candidate.source.name, [...(bySource.get(candidate.source.name) ?? []), candidate]);
       }
-    } catch (e) { // 捕获单次请求的异常
-      // 忽略单次错误，继续尝试（不中断整个流程）
-    }
+      const queues = Array.from(bySource.values());
+      const interleaved: Candidate[] = [];
+      for (let i = 0; queues.some((queue) => i < queue.length); i++) {
+        for (const queue of queues) if (i < queue.length) interleaved.push(queue[i]);
+      }
+      return interleaved;
+    });
+}
+
+// 查详情后的候选：以详情数据（category / area / 真实食材）为准判断满足的条件
+interface EvaluatedRecipe {
+  recipe: NormalizedRecipe;
+  satisfied: Set<Constraint>;
+}
+
+// 类别/菜系的检索词：用户原始输入 + 关键词列表（翻译词 + 联想词）
+interface FilterTerms {
+  original: string;
+  keywords: string[];
+  region: string | null; // 分类体系解析出的中国地方菜系（如"川菜"）
+}
+
+// 将增强版翻译结果展开为检索词
+function keywordsOf(terms?: AssociatedTerms): FilterTerms {
+  if (!terms) return { original: '', keywords: [], region: null };
+  const keywords = Array.from(new Set([terms.translated, ...terms.relatedTerms].map((k) => k.trim()).filter(Boolean)));
+  return { original: terms.original, keywords, region: terms.taxonomy?.region ?? null };
+}
+
+// 按数据源取值列表纠正的检索词：原始输入 -> 规范取值（如 "chiken" -> Chicken）
+interface FilterCorrection {
+  field: Constraint;
+  input: string;
+  corrected: string;
+}
+
+// 条件维度对应的参考数据类型
+const REFERENCE_KINDS: Record<Constraint, ReferenceKind> = { ingredients: 'ingredient', category: 'category', cuisine: 'cuisine' };
+
+// 用数据源的取值列表校验首个检索词（译文）：拼写或单复数不一致时替换为规范取值并返回纠正记录；取值列表不可用或无近似取值时不做处理
+async function correctTerm(
+  field: Constraint,
+  term: { original: string; keywords: string[] },
+  source: RecipeSource,
+): Promise<FilterCorrection | null> {
+  const [keyword] = term.keywords;
+  if (!keyword || /[^\x20-\x7e]/.test(keyword)) return null;
+  const corrected = matchReference(keyword, await listReference(REFERENCE_KINDS[field], source));
+  if (!corrected || corrected.toLowerCase() === keyword.toLowerCase()) return null;
+  term.keywords = Array.from(new Set([corrected, ...term.keywords.slice(1)]));
+  return { field, input: term.original, corrected };
+}
+
+// 对外报告分类体系的解析结果（未命中分类体系时为 null）
+function resolvedOf(terms?: AssociatedTerms) {
+  if (!terms?.taxonomy) return null;
+  return { input: terms.original, canonical: terms.taxonomy.canonical, region: terms.taxonomy.region };
+}
+
+// 对多个关键词调用同一筛选接口并合并结果
+async function collectSummaries(keywords: string[], filter: (keyword: string) => Promise<RecipeSummary[]>): Promise<RecipeSummary[]> {
+  const results: RecipeSummary[] = [];
+  for (const keyword of keywords) {
+    results.push(...(await filter(keyword)));
   }
-  return results; // 返回随机获取的菜谱数组（可能少于 maxCount）
+  return results;
 }
 
-// 新增：按名称搜索（search.php?s=），用于自由文本的潜在支持
-async function searchByName(query: string): Promise<MealDetail[]> { // 异步函数：根据菜品名称进行模糊搜索
-  const resp = await fetch(`https://www.themealdb.com/api/json/v1/1/search.php?s=${encodeURIComponent(query)}`); // 调用 TheMealDB API 按名称搜索，支持模糊匹配
-  const json = await resp.json(); // 将响应解析为 JSON 对象
-  const mealsRaw = json?.meals; // 提取 meals 字段（可能为 null 或数组）
-  const meals = Array.isArray(mealsRaw) ? (mealsRaw as MealDetail[]) : []; // 如果 mealsRaw 是数组则类型断言为 MealDetail 数组，否则返回空数组
-  return meals; // 返回搜索结果数组
+// 批量查询候选详情（逐个向其所属数据源 lookup，忽略不存在的 ID）
+async function fetchDetailsFor(candidates: Candidate[]): Promise<NormalizedRecipe[]> {
+  const details: NormalizedRecipe[] = [];
+  for (const { source, summary } of candidates) {
+    const recipe = await source.lookup(summary.id);
+    if (recipe) details.push(recipe);
+  }
+  return details;
 }
 
-// 辅助函数：将 MealDetail 转换为 NormalizedRecipe 格式
-function normalizeMeal(meal: MealDetail): NormalizedRecipe {
-  return {
-    id: meal.idMeal,
-    name: meal.strMeal,
-    category: meal.strCategory || null,
-    area: meal.strArea || null,
-    tags: meal.strTags ? meal.strTags.split(',').map((t) => t.trim()).filter(Boolean) : null,
-    instructions: meal.strInstructions || null,
-    thumbnail: meal.strMealThumb || null,
-    youtube: meal.strYoutube || null,
-    ingredients: extractIngredients(meal),
+// 本地菜名索引的得分达到该值（完全一致或前缀）时直接采用，不再请求数据源的 searchByName
+const STRONG_NAME_MATCH = 0.9;
+
+// 按菜名检索：本地命中足够好时直接查详情；否则各数据源按 keywordOf 给出的关键词 searchByName，远程无结果时再取本地的近似命中
+async function findByName(
+  query: string,
+  sources: RecipeSource[],
+  keywordOf: (source: RecipeSource) => Promise<string | undefined>,
+  options: { language: LocaleCode; limit: number },
+): Promise<NormalizedRecipe[]> {
+  const local = await searchRecipeNames(query, sources, options);
+  const lookupAll = async (matches: NameMatch[]) => {
+    const details: NormalizedRecipe[] = [];
+    for (const match of matches) {
+      const recipe = await sources.find((source) => source.name === match.source)?.lookup(match.id);
+      if (recipe) details.push(recipe);
+    }
+    return details;
   };
+  const strong = local.filter((match) => match.score >= STRONG_NAME_MATCH);
+  if (strong.length) return lookupAll(strong);
+
+  const remote: NormalizedRecipe[] = [];
+  for (const source of sources) {
+    const keyword = await keywordOf(source);
+    if (keyword) remote.push(...(await source.searchByName(keyword)));
+  }
+  return remote.length ? remote : lookupAll(local);
 }
 
+// 使用详情数据判断菜谱满足哪些条件；数据源筛选阶段已命中的条件直接保留（如中文数据源的"川菜"）
+function constraintsMet(
+  recipe: NormalizedRecipe,
+  categoryKeywords: string[],
+  cuisineKeywords: string[],
+  matched: Set<Constraint>,
+): Set<Constraint> {
+  const satisfied = new Set<Constraint>(matched);
+  satisfied.delete('ingredients'); // 食材以详情中的真实食材为准
+  if ((recipe.matchedIngredients?.length ?? 0) > 0) satisfied.add('ingredients');
+  if (recipe.category && categoryKeywords.some((k) => termMatches(recipe.category!, k))) satisfied.add('category');
+  if (recipe.area && cuisineKeywords.some((k) => termMatches(recipe.area!, k))) satisfied.add('cuisine');
+  return satisfied;
+}
+
+// 枚举可放宽的条件组合：放宽越少越优先，数量相同时按 RELAXATION_ORDER 优先
+function relaxationSteps(active: Constraint[]): Constraint[][] {
+  const ordered = RELAXATION_ORDER.filter((c) => active.includes(c));
+  const steps: Constraint[][] = [[]];
+  for (const c of ordered) {
+    steps.push(...steps.map((step) => [...step, c]));
+  }
+  const weight = (step: Constraint[]) => step.reduce((sum, c) => sum + ordered.indexOf(c), 0);
+  return steps.sort((a, b) => a.length - b.length || weight(a) - weight(b));
+}
+
+// 按组合方式挑选结果，并返回被放宽的条件
+// - all：要求同时满足；无结果时按 relaxationSteps 逐步放宽
+// - any：尽量满足，满足条件越多越靠前；未被全部结果满足的条件视为已放宽
+function selectByConstraints(
+  evaluated: EvaluatedRecipe[],
+  active: Constraint[],
+  match: 'all' | 'any',
+): { recipes: NormalizedRecipe[]; relaxedConstraints: Constraint[] } {
+  if (match === 'any') {
+    const sorted = [...evaluated].sort((a, b) => b.satisfied.size - a.satisfied.size);
+    const relaxedConstraints = active.filter((c) => sorted.some((e) => !e.satisfied.has(c)));
+    return { recipes: sorted.map((e) => e.recipe), relaxedConstraints };
+  }
+  for (const relaxed of relaxationSteps(active)) {
+    const required = active.filter((c) => !relaxed.includes(c));
+    const matches = evaluated.filter((e) => required.every((c) => e.satisfied.has(c)));
+    if (matches.length) {
+      return { recipes: matches.map((e) => e.recipe), relaxedConstraints: relaxed };
+    }
+  }
+  return { recipes: [], relaxedConstraints: active };
+}
+
+// 分类体系解析结果：原始输入 -> 规范取值（如 "川菜" -> ['Chinese']，region = 川菜）
+const resolvedFilterSchema = z
+  .object({
+    input: z.string(),
+    canonical: z.array(z.string()),
+    region: z.string().nullable(),
+  })
+  .nullable();
+
+// 单个食材：名称、用量原文（已翻译）、结构化用量与按单位制换算后的显示用量
+export const ingredientItemSchema = z.object({
+  ingredient: z.string(),
+  measure: z.string(),
+  quantity: z
+    .object({
+      amount: z.number().nullable(),
+      amountMax: z.number().nullable(),
+      unit: z.enum(['g', 'kg', 'ml', 'l', 'tsp', 'tbsp', 'cup', 'floz', 'oz', 'lb', 'pinch']).nullable(),
+      text: z.string(),
+    })
+    .nullable()
+    .optional(),
+  displayMeasure: z.string().optional(),
+});
+
+// 单个烹饪步骤：文字、识别出的时长（分钟）与温度、涉及的食材、是否为等待类步骤
+export const recipeStepSchema = z.object({
+  index: z.number(),
+  text: z.string(),
+  durationMinutes: z.number().nullable(),
+  temperature: z.object({ value: z.number(), unit: z.enum(['C', 'F']) }).nullable(),
+  ingredients: z.array(z.string()),
+  passive: z.boolean(),
+});
+
+// 菜谱所需设备：设备 ID 与按输出语言的显示名称
+export const equipmentSchema = z.object({
+  id: z.enum(['oven', 'wok', 'frying-pan', 'pot', 'steamer', 'blender', 'food-processor', 'mixer', 'pressure-cooker', 'slow-cooker', 'rice-cooker', 'air-fryer', 'deep-fryer', 'grill', 'microwave']),
+  name: z.string(),
+});
+
+// 口味画像：辣度 / 甜度 / 油润度 / 酸度，各 0-3
+export const tasteProfileSchema = z.object({
+  spice: z.number(),
+  sweetness: z.number(),
+  richness: z.number(),
+  sourness: z.number(),
+});
+
+// 饮食标签与主要过敏原
+export const dietaryLabelSchema = z.enum(['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'halal-friendly', 'low-carb']);
+export const allergenSchema = z.enum(['gluten', 'dairy', 'egg', 'soy', 'peanut', 'tree-nut', 'fish', 'shellfish', 'sesame']);
+
+// 食材替代品：名称与用法（按输出语言）、适用场景、饮食标签与过敏原，available 表示用户已有全部组成食材
+export const substituteSchema = z.object({
+  name: z.string(),
+  how: z.string(),
+  contexts: z.array(z.enum(COOKING_CONTEXTS)),
+  dietary: z.array(dietaryLabelSchema),
+  allergens: z.array(allergenSchema),
+  available: z.boolean(),
+});
+
+// 每份营养成分：热量（千卡）、蛋白质 / 碳水化合物 / 脂肪（克），coverage 为计入计算的食材占比
+export const nutritionSchema = z.object({
+  calories: z.number(),
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+  servings: z.number(),
+  coverage: z.number(),
+});
+
 // Mastra 工具定义：根据输入筛选菜谱并返回结构化结果
 export const recipeTool = createTool({ // 使用 createTool 创建 Mastra 工具对象
   id: 'get-recipes', // 工具的唯一标识符
-  description: '根据食材/类别/菜系推荐菜谱（TheMealDB）', // 工具描述，供 Agent 理解工具用途
+  description: '根据食材/类别/菜系推荐菜谱（默认数据源 TheMealDB）', // 工具描述，供 Agent 理解工具用途
   // 输入参数说明：
-  // - ingredients: 可用食材，逗号分隔（API仅支持单食材筛选，因此取第一个）
+  // - ingredients: 可用食材，逗号分隔（逐个食材查询后合并，按用到的食材数量排序）
   // - category: 菜品类别，如 Vegetarian
   // - cuisine: 菜系/地区，如 Chinese
+  // - match: 多条件组合方式（all 同时满足 / any 尽量满足）
   // - limit: 返回条数上限（1-10）
-  // - language: 语言选择（zh-CN 或 en-US）
+  // - language: 输出语言（见 constants/locales.ts），未指定时取 RuntimeContext 中的请求语言
+  // - servings: 目标份数，用量按 servings / baseServings 缩放
+  // - units: 用量单位制（metric 公制 / imperial 英制），未指定时按语言默认（en-US 为英制，其余为公制）
+  // - timeBudget: 时间预算（分钟），按估算总时长筛选；都超出时按时长从短到长返回
+  // - equipment: 可用厨房设备，缺少设备（且无替代）的菜谱排在后面
+  // - taste: 口味偏好（如"清淡"、"微辣"、"酸甜"），按口味匹配度排序
+  // - minSpice / maxSpice: 辣度范围（0 不辣 - 3 特辣），范围外的菜谱被筛掉；都不在范围内时按距离排序
+  // - dietary: 饮食限制（素食 / 纯素 / 无麸质 / 无乳制品 / 清真 / 低碳水），不满足的菜谱直接剔除
+  // - excludeAllergens: 需要避开的过敏原（花生、坚果、海鲜、蛋、大豆、乳制品、麸质、芝麻等），含有的菜谱直接剔除
+  // - exclude: 忌口食材（中英文均可，如"香菜"、"pork"），含有该食材或其衍生食材（猪肉 → 培根、火腿）的菜谱直接剔除
+  // - id: 菜谱 ID（如 TheMealDB 的 "52772"、中式家常菜的 "cn-001"），指定时只查询该菜谱，language / servings / units 仍然生效
+  // - query: 菜名（容错拼写与拼音，如 "spagetti"、"gongbao"、"宫保鸡"），命中时忽略食材、类别、菜系条件
   inputSchema: z.object({ // 使用 Zod 定义输入参数的验证 schema
     ingredients: z.string().describe('可用食材，逗号分隔，如"鸡肉, 西兰花"').optional(), // 食材参数：字符串类型，可选
     category: z.string().describe('菜品类别，如"海鲜"、"素食的"').optional(), // 类别参数：字符串类型，可选
     cuisine: z.string().describe('菜系/地区，如"粤菜"、"山西菜"').optional(), // 菜系参数：字符串类型，可选
-    language: z.enum(['zh-CN', 'en-US']).default('zh-CN').describe('语言选择（zh-CN 或 en-US）'), // 语言参数：枚举类型，默认中文
+    match: z.enum(['all', 'any']).default('all').describe('多条件组合方式：all=同时满足（无结果时逐步放宽），any=尽量满足'), // 组合方式：默认同时满足
+    language: z.enum(LOCALE_CODES).optional().describe(`输出语言（${LOCALE_CODES.join(' / ')}），未指定时使用当前请求的语言`), // 语言参数：枚举类型，可选
     limit: z.number().min(1).max(10).default(5).describe('返回菜谱数量上限'), // 数量限制：数字类型，1-10之间，默认5
+    servings: z.number().int().min(1).max(50).optional().describe('就餐人数（份数），用量会按原菜谱份数等比例换算'), // 份数：可选整数
+    units: z.enum(['metric', 'imperial']).optional().describe('用量单位制：metric=克/毫升，imperial=盎司/磅/杯；默认按语言选择'), // 单位制：可选枚举
+    timeBudget: z.number().int().min(1).max(1440).optional().describe('可用烹饪时间（分钟），只推荐总时长不超过该值的菜谱'), // 时间预算：可选整数
+    equipment: z.array(z.string()).optional().describe('可用厨房设备，如["炒锅", "空气炸锅"]；需要其他设备的菜谱排在后面'), // 可用设备：可选字符串数组
+    taste: z.string().optional().describe('口味偏好，如"清淡"、"微辣"、"重口"、"酸甜"，按口味匹配度排序'), // 口味：可选字符串
+    minSpice: z.number().int().min(0).max(3).optional().describe('最低辣度（0 不辣、1 微辣、2 中辣、3 特辣）'), // 最低辣度：可选整数
+    maxSpice: z.number().int().min(0).max(3).optional().describe('最高辣度（0 不辣、1 微辣、2 中辣、3 特辣），如不吃辣传 0'), // 最高辣度：可选整数
+    dietary: z.array(z.string()).optional().describe('饮食限制，如["素食", "无麸质"]、["vegan", "low-carb"]；不满足的菜谱不会返回'), // 饮食限制：可选字符串数组
+    excludeAllergens: z.array(z.string()).optional().describe('需要避开的过敏原，如["花生", "海鲜"]、["egg", "dairy"]'), // 过敏原：可选字符串数组
+    exclude: z.array(z.string()).optional().describe('不吃的食材，如["香菜", "猪肉"]、["cilantro"]；含有这些食材（及培根等衍生食材）的菜谱不会返回'), // 忌口食材：可选字符串数组
+    id: z.string().optional().describe('菜谱 ID（之前返回结果中的 id），指定时只返回该菜谱的详情'), // 菜谱 ID：可选字符串
+    query: z.string().optional().describe('菜名，如"宫保鸡丁"、"spaghetti"；允许拼写错误、不完整或使用拼音'), // 菜名：可选字符串
   }),
   // 输出结构：包含标准化后的菜谱信息与来源标记
   outputSchema: z.object({ // 使用 Zod 定义输出数据的验证 schema
@@ -154,149 +477,320 @@ export const recipeTool = createTool({ // 使用 createTool 创建 Mastra 工具
         area: z.string().nullable(), // 菜系/地区：字符串或 null
         tags: z.array(z.string()).nullable(), // 标签数组：字符串数组或 null
         instructions: z.string().nullable(), // 做法步骤：字符串或 null
+        steps: z.array(recipeStepSchema).optional(), // 结构化步骤：由 instructions 拆分
         thumbnail: z.string().nullable(), // 缩略图 URL：字符串或 null
         youtube: z.string().nullable(), // YouTube 视频链接：字符串或 null
-        ingredients: z.array(z.object({ ingredient: z.string(), measure: z.string() })), // 食材数组：包含食材名和用量的对象数组
+        ingredients: z.array(ingredientItemSchema), // 食材数组：食材名、用量原文与结构化用量
+        source: z.string().optional(), // 该菜谱来自哪个数据源
+        language: z.enum(LOCALE_CODES).optional(), // 菜谱内容的语言（中文数据源为 zh-CN）
+        matchedIngredients: z.array(z.string()).optional(), // 用到的用户食材（仅按食材搜索时返回）
+        missingIngredients: z.array(z.string()).optional(), // 未用到的用户食材（仅按食材搜索时返回）
+        baseServings: z.number().optional(), // 原菜谱份数（未标注时为估算值）
+        baseServingsEstimated: z.boolean().optional(), // 原菜谱份数是否为估算值
+        servings: z.number().optional(), // 用量对应的份数
+        totalMinutes: z.number().optional(), // 估算总时长（分钟，含等待）
+        activeMinutes: z.number().optional(), // 估算动手时长（分钟）
+        difficulty: z.enum(['easy', 'medium', 'hard']).optional(), // 估算难度
+        difficultyLabel: z.string().optional(), // 难度显示文字（按输出语言）
+        withinTimeBudget: z.boolean().optional(), // 是否在时间预算内（仅指定 timeBudget 时返回）
+        equipment: z.array(equipmentSchema).optional(), // 由做法推断的所需设备
+        missingEquipment: z.array(equipmentSchema).optional(), // 用户缺少的设备（仅指定 equipment 时返回）
+        equipmentNote: z.string().nullable().optional(), // 缺少设备的原因说明（仅指定 equipment 时返回，不缺时为 null）
+        taste: tasteProfileSchema.optional(), // 估算的口味画像
+        spiceLabel: z.string().optional(), // 辣度显示文字（按输出语言）
+        tasteMatch: z.number().optional(), // 与目标口味的匹配度 0-1（仅指定 taste 时返回）
+        dietary: z.array(dietaryLabelSchema).optional(), // 满足的饮食标签
+        allergens: z.array(allergenSchema).optional(), // 含有的主要过敏原
+        nutrition: nutritionSchema.optional(), // 每份营养成分估算
+        substitutions: z.array(z.object({ // 缺少的食材及其替代品（仅按食材搜索时返回）
+          ingredient: z.string(),
+          substitutes: z.array(substituteSchema),
+        })).optional(),
       }),
     ),
-    source: z.literal('TheMealDB'), // 数据来源标记：固定值 'TheMealDB'
+    source: z.string(), // 数据来源标记：结果涉及的数据源名称，如 'TheMealDB'、'TheMealDB + ChineseHome'
+    relaxedConstraints: z.array(z.enum(['ingredients', 'category', 'cuisine', 'query', 'timeBudget', 'spice', 'equipment'])), // 未能满足而被放宽的条件（精确匹配时为空）
+    corrections: z.array(z.object({ // 按数据源取值列表自动纠正的检索词（未纠正时为空）
+      field: z.enum(['ingredients', 'category', 'cuisine']),
+      input: z.string(), // 用户原始输入
+      corrected: z.string(), // 实际使用的规范取值
+    })),
+    resolved: z.object({ // 类别/菜系经内置分类体系解析出的 TheMealDB 规范取值（未命中时为 null）
+      category: resolvedFilterSchema,
+      cuisine: resolvedFilterSchema,
+    }),
   }),
-  // 执行逻辑：优先使用筛选条件，否则走随机推荐
-  execute: async ({ context }) => { // execute 方法：异步执行工具逻辑，接收 context 上下文对象
-    const { ingredients, category, cuisine, limit, language } = context as { // 从 context 中解构出所有输入参数，使用类型断言
+  // 执行逻辑：所有提供的条件共同生效，无条件时走随机推荐
+  execute: async ({ context, runtimeContext }) => { // execute 方法：异步执行工具逻辑，接收 context 上下文对象与运行时上下文
+    const { ingredients, category, cuisine, match, limit, language, servings, units, timeBudget, equipment, taste, minSpice, maxSpice, dietary, excludeAllergens, exclude, id, query } = context as { // 从 context 中解构出所有输入参数，使用类型断言
       ingredients?: string; // 食材参数：可选字符串
       category?: string; // 类别参数：可选字符串
       cuisine?: string; // 菜系参数：可选字符串
+      match?: 'all' | 'any'; // 组合方式：可选枚举
       limit?: number; // 数量限制：可选数字
-      language?: 'zh-CN' | 'en-US'; // 语言参数：可选枚举
+      language?: LocaleCode; // 语言参数：可选枚举
+      servings?: number; // 份数：可选整数
+      units?: UnitSystem; // 单位制：可选枚举
+      timeBudget?: number; // 时间预算：可选整数（分钟）
+      equipment?: string[]; // 可用设备：可选字符串数组
+      taste?: string; // 口味：可选字符串
+      minSpice?: number; // 最低辣度：可选整数
+      maxSpice?: number; // 最高辣度：可选整数
+      dietary?: string[]; // 饮食限制：可选字符串数组
+      excludeAllergens?: string[]; // 过敏原：可选字符串数组
+      exclude?: string[]; // 忌口食材：可选字符串数组
+      id?: string; // 菜谱 ID：可选字符串
+      query?: string; // 菜名：可选字符串
     };
+    const lim = limit ?? 5;
+    const locale = language ?? localeFromContext(runtimeContext); // Agent 调用时通常不传 language，按请求语言输出
+    const unitSystem = units ?? localeInfo(locale).unitSystem;
+    // 用户的可用设备（无法识别的设备名忽略）；未指定时不按设备排序
+    const available = equipment?.length
+      ? new Set(equipment.map(resolveEquipment).filter((id): id is EquipmentId => !!id))
+      : null;
+    // 目标口味（无法识别时不排序）与辣度范围
+    const tasteTarget = parseTaste(taste);
+    const spiceRange = minSpice !== undefined || maxSpice !== undefined ? { min: minSpice, max: maxSpice } : null;
+    // 硬性条件：饮食限制、需要避开的过敏原（无法识别的输入忽略）与忌口食材（单项内可用逗号分隔）
+    const requiredDiet = parseDietary(dietary ?? []);
+    const avoidedAllergens = parseAllergens(excludeAllergens ?? []);
+    const avoided = splitIngredients((exclude ?? []).join(','));
+    const hardFiltered = requiredDiet.length > 0 || avoidedAllergens.length > 0 || avoided.length > 0;
 
-    // 初始化翻译器（从全局环境变量获取 API Key）
+    // 初始化翻译器（从全局环境变量获取 API Key）与数据源（主数据源由环境变量 RECIPE_SOURCE 选择）
     const translator = new Translator();
+    const sources = createRecipeSources();
+    const [primary] = sources;
+
+    // 忌口食材逐个翻译为英文（词表优先，不使用联想词），再展开同义词与衍生食材
+    const excludedTerms = await Promise.all(
+      avoided.map(async (original) => {
+        const { ingredients: translated } = await translator.translateRecipeInput({ ingredients: original });
+        return expandExclusion(original, translated || original);
+      }),
+    );
 
-    // 使用增强版翻译：生成联想词并翻译所有关键词
+    // 食材逐个处理（见 translatePantry），此处只对类别/菜系做增强版翻译
+    const pantry = splitIngredients(ingredients);
     const enhancedInput = await translator.translateRecipeInputEnhanced({
-      ingredients,
       category,
       cuisine,
     });
 
-    // 用于去重的 Set（存储已查询过的菜谱 ID）
-    const foundIds = new Set<string>();
-    let allSummaries: MealSummary[] = []; // 存储所有查询结果的摘要
+    // 本次请求实际生效的条件
+    const active: Constraint[] = [];
+    if (pantry.length) active.push('ingredients');
+    if (enhancedInput.category) active.push('category');
+    if (enhancedInput.cuisine) active.push('cuisine');
+
+    // 类别/菜系的规范取值，随每次响应一并返回
+    const resolved = { category: resolvedOf(enhancedInput.category), cuisine: resolvedOf(enhancedInput.cuisine) };
+    // 按主数据源取值列表纠正的检索词（检索前填充），随每次响应一并返回
+    const corrections: FilterCorrection[] = [];
+    // 指定了菜名但没有检索到时为 true（按其余条件继续，并标记 query 已放宽）
+    let queryMissed = false;
+    // 用户的食材（检索前填充），用于判断菜谱缺少哪些食材并给出替代品
+    let pantryTerms: PantryTerm[] = [];
+
+    // 统一出口：按饮食限制、过敏原与忌口食材剔除、按时间预算与辣度筛选、按口味与设备排序并截取前 lim 条，翻译输出、按份数缩放并按单位制换算用量（解析翻译前的用量原文）、
+    // 拆分步骤、附带时间、难度、设备、口味、饮食标签、每份营养成分与缺少食材的替代品，并附带被放宽的条件
+    const respond = async (candidates: NormalizedRecipe[], relaxedConstraints: RelaxedConstraint[]) => {
+      // 估算基于翻译前的原文（识别规则支持多语言），翻译前即可完成筛选，避免翻译被丢弃的菜谱
+      const analyses = new Map<NormalizedRecipe, RecipeAnalysis>(candidates.map((recipe) => {
+        const required = inferEquipment(recipe);
+        const allergens = detectAllergens(recipe.ingredients);
+        return [recipe, {
+          timing: estimateTiming(recipe),
+          equipment: required,
+          missing: available ? missingEquipment(required, available) : [],
+          taste: profileTaste(recipe),
+          dietary: classifyDiet(recipe, allergens),
+          allergens,
+        }];
+      }));
+      const analysisOf = (recipe: NormalizedRecipe) => analyses.get(recipe)!;
+      const eligible = candidates.filter((recipe) => {
+        const { dietary: labels, allergens } = analysisOf(recipe);
+        return requiredDiet.every((label) => labels.includes(label))
+          && !avoidedAllergens.some((a) => allergens.includes(a))
+          && !excludedIn(recipe.ingredients, excludedTerms).length;
+      });
+      const budgeted = timeBudget
+        ? fitTimeBudget(eligible, timeBudget, (recipe) => analysisOf(recipe).timing)
+        : { recipes: eligible, relaxed: false };
+      const spiced = spiceRange
+        ? fitSpiceRange(budgeted.recipes, spiceRange, (recipe) => analysisOf(recipe).taste.spice)
+        : { recipes: budgeted.recipes, relaxed: false };
+      const tasted = tasteTarget ? rankByTaste(spiced.recipes, tasteTarget, (recipe) => analysisOf(recipe).taste) : spiced.recipes;
+      const ranked = available ? rankByEquipment(tasted, (recipe) => analysisOf(recipe).missing) : tasted;
+      const rawRecipes = ranked.slice(0, lim);
+
+      const { difficultyLabels, equipmentLabels, spiceLabels, messages } = localeInfo(locale);
+      const labelled = (ids: EquipmentId[]) => ids.map((id) => ({ id, name: equipmentLabels[id] }));
+
+      const translated = await translator.translateRecipeOutput(rawRecipes, locale);
+      // 记下译名，之后可用该语言的菜名检索（如翻译后的"番茄炒蛋"）
+      rememberRecipeNames(translated, locale);
+      // 缺少食材的替代品：按原文识别，名称与用法统一翻译一次
+      const lacking = rawRecipes.map((recipe) => (pantryTerms.length
+        ? lackingSubstitutes(recipe, pantryTerms, { dietary: requiredDiet, avoidAllergens: avoidedAllergens }, locale)
+        : []));
+      const localizedSubstitutes = await localizeSubstitutes(lacking.flat().map((entry) => entry.substitutes), locale, translator);
+      let substituteIndex = 0;
+      const substitutionsOf = (i: number): IngredientSubstitution[] => lacking[i].map(({ index }) => ({
+        ingredient: translated[i].ingredients[index]?.ingredient ?? rawRecipes[i].ingredients[index].ingredient,
+        substitutes: localizedSubstitutes[substituteIndex++],
+      }));
+      const recipes = translated.map((recipe, i) => {
+        const base = estimateServings(rawRecipes[i]);
+        const target = servings ?? base.servings;
+        const { timing, equipment: required, missing, taste: profile, dietary: labels, allergens } = analysisOf(rawRecipes[i]);
+        return {
+          ...recipe,
+          baseServings: base.servings,
+          baseServingsEstimated: base.estimated,
+          servings: target,
+          ingredients: annotateMeasures(recipe.ingredients, rawRecipes[i].ingredients, locale, unitSystem, target / base.servings),
+          steps: parseSteps(recipe.instructions, recipe.ingredients.map((item) => item.ingredient)),
+          ...timing,
+          difficultyLabel: difficultyLabels[timing.difficulty],
+          ...(timeBudget ? { withinTimeBudget: timing.totalMinutes <= timeBudget } : {}),
+          equipment: labelled(required),
+          ...(available
+            ? {
+                missingEquipment: labelled(missing),
+                equipmentNote: missing.length ? messages.missingEquipment(missing.map((id) => equipmentLabels[id])) : null,
+              }
+            : {}),
+          taste: profile,
+          spiceLabel: spiceLabels[profile.spice],
+          ...(tasteTarget ? { tasteMatch: tasteMatch(profile, tasteTarget) } : {}),
+          dietary: labels,
+          allergens,
+          nutrition: estimateNutrition(rawRecipes[i].ingredients, base.servings),
+          ...(pantryTerms.length ? { substitutions: substitutionsOf(i) } : {}),
+        };
+      });
+      // 来源标记：合并结果中出现过的数据源（无结果时为主数据源）
+      const names = Array.from(new Set(recipes.map((r) => r.source).filter((s): s is string => !!s)));
+      const relaxed: RelaxedConstraint[] = queryMissed ? ['query', ...relaxedConstraints] : [...relaxedConstraints];
+      if (budgeted.relaxed) relaxed.push('timeBudget');
+      if (spiced.relaxed) relaxed.push('spice');
+      if (rawRecipes.some((recipe) => analysisOf(recipe).missing.length)) relaxed.push('equipment');
+      return { recipes, source: names.length ? names.join(' + ') : primary.name, relaxedConstraints: relaxed, resolved, corrections };
+    };
+
+    // 随机推荐兜底（主数据源）：所有条件都视为已放宽；有时间预算、口味或设备限制时多取一倍候选供筛选，有硬性条件时多取三倍
+    const respondRandom = async () => {
+      const randoms = await primary.random(hardFiltered ? lim * 4 : timeBudget || available || tasteTarget || spiceRange ? lim * 2 : lim);
+      return respond(randoms, active);
+    };
+
+    // 按 ID 查询详情：依次向各数据源 lookup（与 fetchDetailsFor 相同的路径），命中即返回，不做降级
+    if (id) {
+      const recipe = await lookupRecipe(id, sources);
+      return respond(recipe ? [recipe] : [], []);
+    }
 
     try { // 使用 try-catch 包裹整体逻辑，失败时降级到随机推荐
-      if (enhancedInput.ingredients) { // 如果有食材输入
-        const { translated, relatedTerms } = enhancedInput.ingredients;
-        // 所有要查询的关键词：原始翻译 + 联想词
-        const allKeywords = [translated, ...relatedTerms].filter(Boolean);
-
-        // 对每个关键词进行查询，合并结果并去重
-        for (const keyword of allKeywords) {
-          const summaries = await filterByIngredient(keyword); // 按食材筛选
-          // 去重：只添加新发现的菜谱
-          for (const summary of summaries) {
-            if (!foundIds.has(summary.idMeal)) {
-              foundIds.add(summary.idMeal);
-              allSummaries.push(summary);
-            }
-          }
-          // 如果已经找到足够的结果，提前退出
-          if (allSummaries.length >= (limit ?? 5)) break;
-        }
+      // 按菜名检索：英文数据源收到中日韩文字的菜名时先翻译再 searchByName
+      if (query?.trim()) {
+        const name = query.trim();
+        const byName = await findByName(
+          name,
+          sources,
+          async (source) => (source.language !== 'zh-CN' && translator.needsTranslation(name) ? (await translator.translateTexts([name], source.language))[0] : name),
+          { language: locale, limit: lim * 2 },
+        );
+        if (byName.length) return respond(byName, []);
+        queryMissed = true;
+      }
 
-        // 若所有关键词都没有筛选结果，尝试按名称搜索原始关键词
-        if (!allSummaries.length) {
-          const byName = await searchByName(translated);
-          if (byName.length) {
-            const rawRecipes = byName.slice(0, limit ?? 5).map(normalizeMeal);
-            const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-            return { recipes, source: 'TheMealDB' as const };
-          }
-
-          // 如果按名称搜索也没有结果，回退到随机推荐
-          const randoms = await randomSelection();
-          const rawRecipes = randoms.slice(0, limit ?? 5).map(normalizeMeal);
-          const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-          return { recipes, source: 'TheMealDB' as const };
-        }
-      } else if (enhancedInput.category) { // 如果有类别输入
-        const { translated, relatedTerms } = enhancedInput.category;
-        const allKeywords = [translated, ...relatedTerms].filter(Boolean);
-
-        for (const keyword of allKeywords) {
-          const summaries = await filterByCategory(keyword); // 按类别筛选
-          for (const summary of summaries) {
-            if (!foundIds.has(summary.idMeal)) {
-              foundIds.add(summary.idMeal);
-              allSummaries.push(summary);
-            }
-          }
-          if (allSummaries.length >= (limit ?? 5)) break;
+      // 如果没有提供任何筛选条件（食材、类别、菜系都为空），直接随机推荐
+      if (!active.length) return respondRandom();
+
+      const terms = pantry.length ? await translatePantry(translator, pantry) : [];
+      pantryTerms = terms;
+      const categoryTerms = keywordsOf(enhancedInput.category);
+      const cuisineTerms = keywordsOf(enhancedInput.cuisine);
+
+      // 英文主数据源的检索词按其取值列表校验并纠正（"chiken" → Chicken、"Itallian" → Italian）
+      if (primary.language === 'en-US') {
+        const checks: Array<[Constraint, { original: string; keywords: string[] }]> = [
+          ...terms.map((term): [Constraint, PantryTerm] => ['ingredients', term]),
+          ['category', categoryTerms],
+          ['cuisine', cuisineTerms],
+        ];
+        for (const [field, term] of checks) {
+          const correction = await correctTerm(field, term, primary);
+          if (correction) corrections.push(correction);
         }
+      }
 
-        if (!allSummaries.length) {
-          const byName = await searchByName(translated);
-          if (byName.length) {
-            const rawRecipes = byName.slice(0, limit ?? 5).map(normalizeMeal);
-            const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-            return { recipes, source: 'TheMealDB' as const };
-          }
-
-          const randoms = await randomSelection();
-          const rawRecipes = randoms.slice(0, limit ?? 5).map(normalizeMeal);
-          const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-          return { recipes, source: 'TheMealDB' as const };
+      // 收集各数据源、各条件的筛选结果，按「数据源 + 菜谱 ID」合并
+      const candidates = new Map<string, Candidate>();
+      const mark = (source: RecipeSource, summary: RecipeSummary, constraint: Constraint, hits?: Set<number>, specific = false) => {
+        const key = `${source.name}:${summary.id}`;
+        const entry = candidates.get(key) || { source, summary, hits: new Set<number>(), matched: new Set<Constraint>(), specific: false };
+        entry.matched.add(constraint);
+        entry.specific ||= specific;
+        hits?.forEach((h) => entry.hits.add(h));
+        candidates.set(key, entry);
+      };
+      for (const source of sources) {
+        if (terms.length) {
+          for (const { summary, hits } of await searchByIngredients(source, terms)) mark(source, summary, 'ingredients', hits);
         }
-      } else if (enhancedInput.cuisine) { // 如果有菜系输入
-        const { translated, relatedTerms } = enhancedInput.cuisine;
-        const allKeywords = [translated, ...relatedTerms].filter(Boolean);
-
-        for (const keyword of allKeywords) {
-          const summaries = await filterByArea(keyword); // 按菜系筛选
-          for (const summary of summaries) {
-            if (!foundIds.has(summary.idMeal)) {
-              foundIds.add(summary.idMeal);
-              allSummaries.push(summary);
-            }
-          }
-          if (allSummaries.length >= (limit ?? 5)) break;
+        // 中文数据源先按用户的中文原始类别筛选（精确命中），再按规范取值补充
+        if (source.language === 'zh-CN' && categoryTerms.original) {
+          for (const summary of await source.filterByCategory(categoryTerms.original)) mark(source, summary, 'category', undefined, true);
         }
+        const categoryKeywords = keywordsFor(source, categoryTerms.original, categoryTerms.keywords);
+        for (const summary of await collectSummaries(categoryKeywords, (k) => source.filterByCategory(k))) mark(source, summary, 'category');
+        // 中文数据源按地方菜系精确筛选，避免"川菜"经 Chinese 命中全部中餐
+        const region = source.language === 'zh-CN' ? cuisineTerms.region : undefined;
+        const cuisineKeywords = region ? [region] : keywordsFor(source, cuisineTerms.original, cuisineTerms.keywords);
+        for (const summary of await collectSummaries(cuisineKeywords, (k) => source.filterByArea(k))) mark(source, summary, 'cuisine', undefined, !!region);
+      }
 
-        if (!allSummaries.length) {
-          const byName = await searchByName(translated);
-          if (byName.length) {
-            const rawRecipes = byName.slice(0, limit ?? 5).map(normalizeMeal);
-            const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-            return { recipes, source: 'TheMealDB' as const };
-          }
-
-          const randoms = await randomSelection();
-          const rawRecipes = randoms.slice(0, limit ?? 5).map(normalizeMeal);
-          const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-          return { recipes, source: 'TheMealDB' as const };
-        }
-      } else { // 如果没有提供任何筛选条件（食材、类别、菜系都为空）
-        // 无筛选条件时，直接使用随机选择结果（已是详情数据）
-        const randoms = await randomSelection();
-        const rawRecipes = randoms.slice(0, limit ?? 5).map(normalizeMeal);
-        const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN');
-        return { recipes, source: 'TheMealDB' as const };
+      // 所有条件都没有筛选结果：按名称检索首个关键词（各数据源使用各自的检索词），再失败则随机推荐
+      if (!candidates.size) {
+        const first = terms[0] || (categoryTerms.keywords.length ? categoryTerms : cuisineTerms);
+        const byName = await findByName(
+          first.original,
+          sources,
+          async (source) => keywordsFor(source, first.original, first.keywords)[0],
+          { language: locale, limit: lim * 2 },
+        );
+        if (byName.length) return respond(byName, active);
+        return respondRandom();
       }
 
-      // 将摘要列表截取到期望数量后，再查详情并结构化返回
-      const ids = allSummaries.slice(0, limit ?? 5).map((m: MealSummary) => m.idMeal); // 从摘要数组中提取前 limit 个菜谱的 ID
-      const details = await fetchDetailsFor(ids); // 根据 ID 列表批量查询菜谱详情
-      const rawRecipes = details.map(normalizeMeal); // 使用辅助函数规范化所有菜谱数据
-      const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN'); // 翻译输出
+      // 同时满足更多条件、精确命中、命中更多食材的候选优先查详情（同级按数据源轮流）
+      const ordered = orderCandidates(Array.from(candidates.values()));
+      const poolSize = hardFiltered
+        ? lim * 4
+        : active.length > 1 || terms.length || timeBudget || available || tasteTarget || spiceRange ? lim * 2 : lim;
+      const pool = ordered.slice(0, poolSize);
+      const details = await fetchDetailsFor(pool);
+      const byKey = new Map(pool.map((c) => [`${c.source.name}:${c.summary.id}`, c]));
+      const candidateOf = (recipe: NormalizedRecipe) => byKey.get(`${recipe.source}:${recipe.id}`);
+
+      const evaluated: EvaluatedRecipe[] = rankByCoverage(
+        details
+          .map((recipe) => (terms.length ? annotateCoverage(recipe, terms, candidateOf(recipe)?.hits || new Set<number>()) : recipe)),
+      ).map((recipe) => ({
+        recipe,
+        satisfied: constraintsMet(recipe, categoryTerms.keywords, cuisineTerms.keywords, candidateOf(recipe)?.matched || new Set<Constraint>()),
+      }));
 
-      return { recipes, source: 'TheMealDB' as const }; // 返回筛选结果对象
+      const selected = selectByConstraints(evaluated, active, match ?? 'all');
+      if (!selected.recipes.length) return respondRandom();
+      return respond(selected.recipes, selected.relaxedConstraints);
     } catch (err) { // 捕获整个 try 块中的任何异常
       // 失败时优雅降级：返回随机推荐，避免影响 Agent 流程
-      const randoms = await randomSelection(); // 调用随机选择函数作为兜底方案
-      const rawRecipes = randoms.slice(0, limit ?? 5).map(normalizeMeal); // 使用辅助函数规范化数据
-      const recipes = await translator.translateRecipeOutput(rawRecipes, language || 'zh-CN'); // 翻译输出
-      return { recipes, source: 'TheMealDB' as const }; // 返回降级的随机推荐结果
+      return respondRandom();
     }
   }, // execute 方法结束
 }); // recipeTool 定义结束
\ No newline at end of file
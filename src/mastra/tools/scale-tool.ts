@@ -0,0 +1,48 @@
+/*
+文件说明：份数换算工具（Mastra Tool）
+- 将一道菜的食材用量从原份数等比例换算到目标份数，供 Agent 给出用量时使用（避免凭空编造用量）
+- 原份数未知时按做法与食材估算（见 utils/servings.ts）
+- 用量缩放与单位换算规则见 utils/measure.ts：个数类保持整数，调料类在 撮 / 茶匙 / 汤匙 之间调整
+*/
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ingredientItemSchema } from './recipe-tool';
+import { LOCALE_CODES, localeInfo } from '../../constants/locales';
+import { localeFromContext } from '../../utils/language';
+import { annotateMeasures } from '../../utils/measure';
+import { estimateServings } from '../../utils/servings';
+
+export const scaleRecipeTool = createTool({
+  id: 'scale-recipe',
+  description: '按就餐人数换算菜谱食材用量（输入 recipeTool 返回的 ingredients 与目标份数）',
+  inputSchema: z.object({
+    ingredients: z
+      .array(z.object({ ingredient: z.string(), measure: z.string() }))
+      .min(1)
+      .describe('食材与用量原文，如 [{ "ingredient": "鸡胸肉", "measure": "300克" }]'),
+    servings: z.number().int().min(1).max(50).describe('目标份数（就餐人数）'),
+    baseServings: z.number().int().min(1).max(50).optional().describe('原菜谱份数（recipeTool 返回的 baseServings），未知时自动估算'),
+    instructions: z.string().optional().describe('做法原文，用于识别原菜谱写明的份数'),
+    language: z.enum(LOCALE_CODES).optional().describe('显示语言，未指定时使用当前请求的语言'),
+    units: z.enum(['metric', 'imperial']).optional().describe('用量单位制，默认按语言选择'),
+  }),
+  outputSchema: z.object({
+    baseServings: z.number(),
+    baseServingsEstimated: z.boolean(),
+    servings: z.number(),
+    ingredients: z.array(ingredientItemSchema),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    const { ingredients, servings, baseServings, instructions, language, units } = context;
+    const locale = language ?? localeFromContext(runtimeContext);
+    const base = baseServings
+      ? { servings: baseServings, estimated: false }
+      : estimateServings({ instructions, ingredients });
+    return {
+      baseServings: base.servings,
+      baseServingsEstimated: base.estimated,
+      servings,
+      ingredients: annotateMeasures(ingredients, ingredients, locale, units ?? localeInfo(locale).unitSystem, servings / base.servings),
+    };
+  },
+});
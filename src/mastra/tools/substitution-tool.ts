@@ -0,0 +1,56 @@
+/*
+文件说明：食材替代工具（Mastra Tool）
+- 查询缺少或因饮食限制不能用的食材有哪些替代品（用量比例与注意事项），供 Agent 给出替代建议时使用（避免凭空编造）
+- recipeTool 按食材搜索时已在 substitutions 中列出菜谱缺少的食材及其替代品；本工具用于单独询问某种食材
+- 替代品按烹饪场景（烘焙 / 炒 / 炖煮 / 煎炸 / 凉拌）与饮食目的筛选；未给出场景时可由菜名或做法识别，见 utils/substitution.ts
+- 知识库只收录中英文写法；其他语言的食材名先翻译为英文再查询，结果翻译为请求语言
+*/
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { substituteSchema } from './recipe-tool';
+import { LOCALE_CODES } from '../../constants/locales';
+import { localeFromContext } from '../../utils/language';
+import { parseAllergens, parseDietary } from '../../utils/dietary';
+import { COOKING_CONTEXTS, cookingContexts, localizeSubstitutes, substitutesFor, type SubstitutionContext } from '../../utils/substitution';
+import { Translator } from '../../utils/translator';
+
+export const substitutionTool = createTool({
+  id: 'find-substitutes',
+  description: '查询食材的替代品及用法（如 buttermilk、料酒、红葱头），可按烹饪场景与饮食限制筛选',
+  inputSchema: z.object({
+    ingredient: z.string().min(1).describe('需要替代的食材（中文或英文），如 "料酒"、"buttermilk"'),
+    cooking: z.array(z.enum(COOKING_CONTEXTS)).optional().describe('烹饪场景：baking / stir-fry / braising / frying / raw，未指定时由 dish 识别'),
+    dish: z.string().optional().describe('菜名或做法原文，用于识别烹饪场景'),
+    dietary: z.array(z.string()).optional().describe('替代品需满足的饮食限制，如 ["vegan"]、["清真"]'),
+    excludeAllergens: z.array(z.string()).optional().describe('替代品不能含有的过敏原，如 ["dairy"]、["花生"]'),
+    available: z.string().optional().describe('用户手头已有的食材（逗号分隔），已有的替代品排在前面'),
+    language: z.enum(LOCALE_CODES).optional().describe('显示语言，未指定时使用当前请求的语言'),
+  }),
+  outputSchema: z.object({
+    ingredient: z.string(),
+    found: z.boolean(), // 知识库是否收录该食材
+    substitutes: z.array(substituteSchema), // 按推荐程度排序；收录但没有满足条件的替代品时为空
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    const { ingredient, cooking, dish, dietary, excludeAllergens, available, language } = context;
+    const locale = language ?? localeFromContext(runtimeContext);
+    const translator = new Translator();
+
+    // 知识库未收录该写法时（如日文、法文食材名），翻译为英文再查一次
+    let name = ingredient.trim();
+    if (!substitutesFor(name).length) {
+      const [translated] = await translator.translateTexts([name], 'en-US', { ingredient: true });
+      if (translated && substitutesFor(translated).length) name = translated;
+    }
+    const found = substitutesFor(name).length > 0;
+
+    const conditions: SubstitutionContext = {
+      cooking: cooking ?? (dish ? cookingContexts({ name: dish, instructions: null }) : undefined),
+      dietary: parseDietary(dietary ?? []),
+      avoidAllergens: parseAllergens(excludeAllergens ?? []),
+      available: available?.split(/[，,、;；]+/).map((s) => s.trim()).filter(Boolean),
+    };
+    const [substitutes] = await localizeSubstitutes([substitutesFor(name, conditions, locale)], locale, translator);
+    return { ingredient, found, substitutes };
+  },
+});
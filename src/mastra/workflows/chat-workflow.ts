@@ -20,13 +20,13 @@ const generateReply = createStep({
   description: '调用 chatAgent 生成聊天回复',
   inputSchema,
   outputSchema,
-  execute: async ({ inputData }) => {
+  execute: async ({ inputData, runtimeContext }) => {
     const { message } = inputData || {};
     if (!message) throw new Error('缺少 message');
 
     const response = await chatAgent.stream([
       { role: 'user', content: message },
-    ]);
+    ], { runtimeContext });
 
     let reply = '';
     for await (const chunk of response.textStream) {
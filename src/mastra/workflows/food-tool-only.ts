@@ -2,16 +2,35 @@
 // 用途：当无法连接 OpenAI 或未配置 API Key 时，仍可给出候选菜谱
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
-import { recipeTool } from '../tools/recipe-tool';
-import LANGUAGE from '../../utils/language';
-const isChinese = LANGUAGE.val === 'zh-CN';
+import {
+  allergenSchema,
+  dietaryLabelSchema,
+  equipmentSchema,
+  ingredientItemSchema,
+  recipeStepSchema,
+  recipeTool,
+  tasteProfileSchema,
+} from '../tools/recipe-tool';
+import { localeFromContext } from '../../utils/language';
+import { LOCALE_CODES, localeInfo, resolveLocale } from '../../constants/locales';
 
 const inputSchema = z.object({
   ingredients: z.string().optional(),
   category: z.string().optional(),
   cuisine: z.string().optional(),
   limit: z.number().int().min(1).max(10).default(5).optional(),
-  lang: z.enum(['zh', 'en']).default('zh').optional(),
+  lang: z.string().optional(), // 语言简写（如 zh、en、ja），与 language 二选一
+  language: z.enum(LOCALE_CODES).optional(),
+  servings: z.number().int().min(1).max(50).optional(), // 就餐人数，用量按比例换算
+  units: z.enum(['metric', 'imperial']).optional(), // 用量单位制，默认按语言选择
+  timeBudget: z.number().int().min(1).max(1440).optional(), // 可用时间（分钟），按估算总时长筛选
+  equipment: z.array(z.string()).optional(), // 可用厨房设备，缺少设备的菜谱排在后面
+  taste: z.string().optional(), // 口味偏好，按匹配度排序
+  minSpice: z.number().int().min(0).max(3).optional(), // 辣度范围（0 不辣 - 3 特辣）
+  maxSpice: z.number().int().min(0).max(3).optional(),
+  dietary: z.array(z.string()).optional(), // 饮食限制（硬性条件），如 ["素食", "无麸质"]
+  excludeAllergens: z.array(z.string()).optional(), // 需要避开的过敏原（硬性条件），如 ["花生"]
+  exclude: z.array(z.string()).optional(), // 不吃的食材（硬性条件，含衍生食材），如 ["香菜", "猪肉"]
 });
 
 const outputSchema = z.object({
@@ -24,12 +43,31 @@ const outputSchema = z.object({
       area: z.string().nullable(),
       tags: z.array(z.string()).nullable(),
       instructions: z.string().nullable(),
+      steps: z.array(recipeStepSchema).optional(),
       thumbnail: z.string().nullable(),
       youtube: z.string().nullable(),
-      ingredients: z.array(z.object({ ingredient: z.string(), measure: z.string() })),
+      ingredients: z.array(ingredientItemSchema),
+      source: z.string().optional(),
+      language: z.enum(LOCALE_CODES).optional(),
+      baseServings: z.number().optional(),
+      baseServingsEstimated: z.boolean().optional(),
+      servings: z.number().optional(),
+      totalMinutes: z.number().optional(),
+      activeMinutes: z.number().optional(),
+      difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+      difficultyLabel: z.string().optional(),
+      withinTimeBudget: z.boolean().optional(),
+      equipment: z.array(equipmentSchema).optional(),
+      missingEquipment: z.array(equipmentSchema).optional(),
+      equipmentNote: z.string().nullable().optional(),
+      taste: tasteProfileSchema.optional(),
+      spiceLabel: z.string().optional(),
+      tasteMatch: z.number().optional(),
+      dietary: z.array(dietaryLabelSchema).optional(),
+      allergens: z.array(allergenSchema).optional(),
     }),
   ),
-  source: z.literal('TheMealDB'),
+  source: z.string(),
 });
 
 const fetchRecipes = createStep({
@@ -37,17 +75,16 @@ const fetchRecipes = createStep({
   description: '直接调用 recipeTool 获取菜谱数据并格式化建议',
   inputSchema,
   outputSchema,
-  execute: async ({ inputData }) => {
-    const { ingredients, category, cuisine, limit, lang } = inputData || {};
+  execute: async ({ inputData, runtimeContext }) => {
+    const { ingredients, category, cuisine, limit, lang, language, ...preferences } = inputData || {};
     const lim = typeof limit === 'number' ? limit : 5;
+    const locale = language ?? resolveLocale(lang) ?? localeFromContext(runtimeContext);
     const result = await recipeTool.execute({
-      context: { ingredients, category, cuisine, limit: lim },
-      runtimeContext: {},
+      context: { ingredients, category, cuisine, limit: lim, language: locale, ...preferences },
+      runtimeContext,
     } as any);
     const names = (result.recipes || []).map((r) => r.name);
-    const head = !isChinese
-      ? `Found ${names.length} candidate dishes: ${names.slice(0, 5).join(', ')}`
-      : `找到 ${names.length} 道候选菜：${names.slice(0, 5).join('、')}`;
+    const head = localeInfo(locale).messages.recipesFound(names.length, names);
     return { suggestions: head, recipes: result.recipes, source: result.source };
   },
 });
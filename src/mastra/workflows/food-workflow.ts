@@ -12,6 +12,7 @@ const preferencesSchema = z.object({
   taste: z.string().describe('口味偏好，如"清淡"、"微辣"、"重口"').optional(),
   timeBudget: z.number().int().describe('可用时间（分钟）').optional(),
   dietary: z.array(z.string()).describe('饮食限制，如"素食"、"无麸质"、"低碳"').optional(),
+  exclude: z.array(z.string()).describe('不吃的食材，如"香菜"、"猪肉"').optional(),
   servings: z.number().int().describe('就餐人数').optional(),
   equipment: z.array(z.string()).describe('可用设备，如"空气炸锅"、"烤箱"、"电饭锅"').optional(),
   limit: z.number().int().min(1).max(10).default(5).describe('候选菜谱数量').optional(),
@@ -40,7 +41,7 @@ const recommendMeals = createStep({
   outputSchema: z.object({
     suggestions: z.string(),
   }),
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, runtimeContext }) => {
     if (!inputData) {
       throw new Error('缺少偏好信息');
     }
@@ -54,23 +55,26 @@ const recommendMeals = createStep({
     const prompt = `请根据以下用户偏好生成“今天吃什么”的结构化建议，并尽可能调用 recipeTool 获取真实菜谱：\n\n` +
       `偏好信息：\n` +
       `${JSON.stringify(inputData, null, 2)}\n\n` +
-      `输出要求（中文）：\n` +
+      `输出要求（使用系统指令中要求的语言）：\n` +
       `- 今日建议：一句话总结（含口味/时间/难度）。\n` +
       `- 候选菜谱（${inputData.limit ?? 5} 道）：\n` +
       `  • 名称（菜系/类别）\n` +
       `  • 关键食材（含替代建议）\n` +
-      `  • 预计时长与难度（简单/中等/略难）\n` +
+      `  • 预计时长与难度（简单/中等/略难，以 recipeTool 返回的 totalMinutes / difficultyLabel 为准）\n` +
       `  • 简要做法要点（3-5 步）\n` +
       `  • 是否符合饮食偏好（如：素食/低碳/无麸质）\n` +
       `- 若无法完全满足偏好，请给出合理替代建议。\n` +
       `- 如需更多选项，提示用户可更换食材或指定菜系。\n\n` +
       `工具调用指引：\n` +
       `- 当提供了食材/类别/菜系时，请优先调用 recipeTool，并在答案中融合其返回结果。\n` +
-      `- recipeTool 参数：{ ingredients, category, cuisine, limit }。`;
+      `- recipeTool 参数：{ ingredients, category, cuisine, limit, servings, timeBudget, equipment, taste, dietary, exclude }；不吃辣时传 maxSpice: 0，\n` +
+      `  有过敏原时传 excludeAllergens（如 ["花生"]）。dietary、excludeAllergens 与 exclude 为硬性条件，recipeTool 只返回符合的菜谱。\n` +
+      `- recipeTool 返回的 equipmentNote 不为空时，说明该菜谱缺少的设备并给出替代做法。`;
 
+    // 透传运行时上下文：Agent 的动态指令按其中的请求语言生成语言要求
     const response = await agent.stream([
       { role: 'user', content: prompt },
-    ]);
+    ], { runtimeContext });
 
     let suggestionsText = '';
     for await (const chunk of response.textStream) {
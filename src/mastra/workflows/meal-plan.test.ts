@@ -0,0 +1,53 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mealPlanWorkflow } from './meal-plan';
+import { MemoryTranslationCache, getTranslationCache, setTranslationCache, type TranslationCache } from '../../utils/translation-cache';
+
+// 离线运行：本地数据源 + 中式家常菜数据源，不配置 API Key
+const saved = { source: process.env.RECIPE_SOURCE, key: process.env.OPENAI_API_KEY };
+let previous: TranslationCache;
+before(() => {
+  process.env.RECIPE_SOURCE = 'local';
+  delete process.env.OPENAI_API_KEY;
+  previous = getTranslationCache();
+  setTranslationCache(new MemoryTranslationCache());
+});
+after(() => {
+  setTranslationCache(previous);
+  if (saved.source === undefined) delete process.env.RECIPE_SOURCE;
+  else process.env.RECIPE_SOURCE = saved.source;
+  if (saved.key !== undefined) process.env.OPENAI_API_KEY = saved.key;
+});
+
+// 与 POST /api/meal-plan 相同：未传的参数为 undefined
+const plan = async (input: { servings?: number; leftovers?: boolean }) => {
+  const run = await mealPlanWorkflow.createRunAsync();
+  const result = await run.start({ inputData: { language: 'zh-CN', ...input } as Parameters<typeof run.start>[0]['inputData'] });
+  assert.equal(result.status, 'success');
+  return (result as Extract<typeof result, { status: 'success' }>).result;
+};
+
+describe('mealPlanWorkflow', () => {
+  it('未传 servings 与 leftovers 时按 2 人份排菜并沿用剩菜，购物清单按每道菜的总份数采购', async () => {
+    const { days, shoppingList } = await plan({ servings: undefined, leftovers: undefined });
+    const meals = days.flatMap((d) => d.meals);
+    assert.equal(days.length, 7);
+    assert.ok(meals.length > 0);
+    assert.ok(meals.some((m) => m.leftover));
+    for (const m of meals) assert.equal(m.servings, m.makesLeftovers ? 4 : 2);
+
+    const cooked = new Map<string, number>();
+    for (const m of meals) if (!m.leftover) cooked.set(m.id, (cooked.get(m.id) ?? 0) + m.servings);
+    assert.deepEqual(
+      new Map(shoppingList.recipes.map((r) => [r.id, r.servings])),
+      cooked,
+    );
+  });
+
+  it('按指定份数排菜；不沿用剩菜时每餐都另做', async () => {
+    const { days, shoppingList } = await plan({ servings: 3, leftovers: false });
+    const meals = days.flatMap((d) => d.meals);
+    assert.ok(meals.every((m) => m.servings === 3 && !m.leftover && !m.makesLeftovers));
+    assert.ok(shoppingList.recipes.every((r) => r.servings % 3 === 0));
+  });
+});
@@ -0,0 +1,280 @@
+// 一周菜单工作流（不依赖 LLM）：按偏好排出周一至周日的早餐 / 午餐 / 晚餐，并生成整周的合并购物清单
+// 步骤：
+// 1. 收集候选：调用 recipeTool 取早餐类菜谱，以及按菜系（未指定时按主料类别）分组的正餐菜谱；饮食限制、过敏原与忌口为硬性条件
+// 2. 排菜：按时间预算、菜系轮换、不重复菜品与主要蛋白质、共用食材与剩菜规则排出一周菜单，见 utils/meal-plan.ts
+// 3. 购物清单：本周要做的菜按份数合并（留作剩菜的晚餐按双份），菜名随清单一起翻译为请求语言
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { recipeTool } from '../tools/recipe-tool';
+import { localeFromContext } from '../../utils/language';
+import { LOCALE_CODES, localeInfo, resolveLocale, type LocaleCode } from '../../constants/locales';
+import { MAIN_PROTEINS, MEAL_PLAN_RELAXATIONS, MEAL_SLOTS, WEEKDAYS, planWeek, type MealCandidate } from '../../utils/meal-plan';
+import { createShoppingList } from '../../utils/shopping-list';
+
+// 未指定菜系时正餐的取材类别（TheMealDB 规范取值，按主料区分）
+const MAIN_CATEGORIES = ['Chicken', 'Beef', 'Pork', 'Lamb', 'Seafood', 'Vegetarian'];
+
+const minutesSchema = z.number().int().min(1).max(1440);
+
+const inputSchema = z.object({
+  dietary: z.array(z.string()).optional(), // 饮食限制（硬性条件），如 ["素食", "无麸质"]
+  excludeAllergens: z.array(z.string()).optional(), // 需要避开的过敏原（硬性条件），如 ["花生"]
+  exclude: z.array(z.string()).optional(), // 不吃的食材（硬性条件，含衍生食材），如 ["香菜", "猪肉"]
+  timeBudget: z.union([ // 每餐可用时间（分钟）：统一数值，或按星期分别指定，如 { mon: 30, sat: 90 }
+    minutesSchema,
+    z.object({
+      mon: minutesSchema.optional(),
+      tue: minutesSchema.optional(),
+      wed: minutesSchema.optional(),
+      thu: minutesSchema.optional(),
+      fri: minutesSchema.optional(),
+      sat: minutesSchema.optional(),
+      sun: minutesSchema.optional(),
+    }),
+  ]).optional(),
+  servings: z.number().int().min(1).max(50).default(2), // 就餐人数
+  cuisines: z.array(z.string()).max(7).optional(), // 轮换的菜系，如 ["川菜", "Italian"]
+  leftovers: z.boolean().default(true), // 工作日午餐是否沿用前一天的炖煮类晚餐
+  pantry: z.array(z.string()).optional(), // 家中已有的食材，购物清单中扣除，如 ["鸡蛋 4个", "盐"]
+  units: z.enum(['metric', 'imperial']).optional(), // 购物清单的用量单位制，默认按语言选择
+  lang: z.string().optional(), // 语言简写（如 zh、en、ja），与 language 二选一
+  language: z.enum(LOCALE_CODES).optional(),
+});
+
+const candidateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  source: z.string().optional(),
+  thumbnail: z.string().nullable(),
+  category: z.string().nullable(),
+  totalMinutes: z.number().optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  ingredients: z.array(z.string()),
+  instructions: z.string().nullable(),
+});
+
+// 步骤间传递的排菜条件
+const settingsSchema = z.object({
+  language: z.enum(LOCALE_CODES),
+  servings: z.number(),
+  timeBudget: inputSchema.shape.timeBudget,
+  leftovers: z.boolean(),
+  pantry: z.array(z.string()).optional(),
+  units: z.enum(['metric', 'imperial']).optional(),
+});
+
+const plannedDaySchema = z.object({
+  day: z.enum(WEEKDAYS),
+  timeBudget: z.number().nullable(),
+  meals: z.array(z.object({
+    meal: z.enum(MEAL_SLOTS),
+    recipe: candidateSchema,
+    cuisine: z.string().nullable(),
+    protein: z.enum(MAIN_PROTEINS),
+    leftover: z.boolean(),
+    leftoverFrom: z.enum(WEEKDAYS).optional(),
+    makesLeftovers: z.boolean(),
+    relaxedConstraints: z.array(z.enum(MEAL_PLAN_RELAXATIONS)),
+  })),
+});
+
+const quantitySchema = z.object({
+  amount: z.number().nullable(),
+  amountMax: z.number().nullable(),
+  unit: z.enum(['g', 'kg', 'ml', 'l', 'tsp', 'tbsp', 'cup', 'floz', 'oz', 'lb', 'pinch']).nullable(),
+  text: z.string(),
+});
+
+const outputSchema = z.object({
+  days: z.array(z.object({
+    day: z.enum(WEEKDAYS),
+    label: z.string(), // 按请求语言的星期名称
+    timeBudget: z.number().nullable(), // 当天每餐的时间预算（分钟），未指定时为 null
+    meals: z.array(z.object({
+      meal: z.enum(MEAL_SLOTS),
+      label: z.string(), // 按请求语言的餐次名称
+      id: z.string(), // 菜谱 ID，可用于 /api/recipes/:id 查看做法
+      name: z.string(), // 按请求语言的菜名
+      source: z.string().optional(),
+      thumbnail: z.string().nullable(),
+      totalMinutes: z.number().optional(),
+      difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+      difficultyLabel: z.string().optional(),
+      cuisine: z.string().nullable(), // 轮换到的菜系（早餐与未指定菜系时为 null）
+      protein: z.enum(MAIN_PROTEINS), // 主要蛋白质
+      servings: z.number(), // 这一餐要做的份数（多做一份留作剩菜时为双份，剩菜为就餐人数）
+      leftover: z.boolean(), // 是否为前一天晚餐的剩菜
+      leftoverFrom: z.enum(WEEKDAYS).optional(),
+      makesLeftovers: z.boolean(), // 是否多做一份留作第二天午餐
+      relaxedConstraints: z.array(z.enum(MEAL_PLAN_RELAXATIONS)), // 排不出时放宽的约束（未放宽时为空）
+    })),
+  })),
+  shoppingList: z.object({
+    recipes: z.array(z.object({ id: z.string(), name: z.string(), source: z.string().optional(), servings: z.number(), baseServings: z.number() })),
+    sections: z.array(z.object({
+      section: z.enum(['produce', 'meat', 'seafood', 'dairy', 'staples', 'condiments', 'other']),
+      label: z.string(),
+      items: z.array(z.object({
+        name: z.string(),
+        section: z.enum(['produce', 'meat', 'seafood', 'dairy', 'staples', 'condiments', 'other']),
+        quantities: z.array(quantitySchema),
+        amount: z.string(),
+        recipes: z.array(z.string()),
+      })),
+    })),
+    pantry: z.array(z.string()),
+    notFound: z.array(z.string()),
+    text: z.string(),
+    markdown: z.string(),
+  }),
+  language: z.enum(LOCALE_CODES),
+});
+
+// recipeTool 输出的单个菜谱
+type ToolRecipe = z.infer<typeof recipeTool.outputSchema>['recipes'][number];
+
+// recipeTool 输出的菜谱 → 候选菜谱
+function toCandidate(recipe: ToolRecipe): MealCandidate {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    source: recipe.source,
+    thumbnail: recipe.thumbnail ?? null,
+    category: recipe.category ?? null,
+    totalMinutes: recipe.totalMinutes,
+    difficulty: recipe.difficulty,
+    ingredients: (recipe.ingredients ?? []).map((item) => item.ingredient),
+    instructions: recipe.instructions ?? null,
+  };
+}
+
+const collectCandidates = createStep({
+  id: 'meal-plan-collect-candidates',
+  description: '调用 recipeTool 收集早餐与按菜系分组的正餐候选菜谱',
+  inputSchema,
+  outputSchema: z.object({
+    settings: settingsSchema,
+    pools: z.object({
+      breakfast: z.array(candidateSchema),
+      mains: z.array(z.object({ cuisine: z.string().nullable(), recipes: z.array(candidateSchema) })),
+    }),
+  }),
+  execute: async ({ inputData, runtimeContext }) => {
+    // 按输入 schema 解析一次：run.start 不填充默认值，未传 servings / leftovers 时在此取默认的 2 人份与允许剩菜
+    const { dietary, excludeAllergens, exclude, cuisines, lang, language, ...settings } = inputSchema.parse(inputData);
+    const locale = language ?? resolveLocale(lang) ?? localeFromContext(runtimeContext);
+    // 排菜规则只识别中英文食材名与做法：候选以中文或英文取得，菜名在购物清单步骤中翻译为请求语言
+    const planLanguage: LocaleCode = locale.startsWith('zh') ? 'zh-CN' : 'en-US';
+
+    // 按类别或菜系取候选；该条件被 recipeTool 放宽（没有匹配的菜谱）时视为没有候选
+    const search = async (filter: { category?: string; cuisine?: string }) => {
+      const result = await recipeTool.execute({
+        context: { ...filter, match: 'all', limit: 10, language: planLanguage, dietary, excludeAllergens, exclude },
+        runtimeContext,
+      });
+      const relaxed: string[] = result.relaxedConstraints ?? [];
+      if (relaxed.includes('category') || relaxed.includes('cuisine')) return [];
+      return (result.recipes ?? []).map(toCandidate);
+    };
+
+    const wanted = Array.from(new Set((cuisines ?? []).map((c) => c.trim()).filter(Boolean)));
+    const [breakfast, ...groups] = await Promise.all([
+      search({ category: 'Breakfast' }),
+      ...(wanted.length
+        ? wanted.map((cuisine) => search({ cuisine }))
+        : MAIN_CATEGORIES.map((category) => search({ category }))),
+    ]);
+    let mains = wanted.length
+      ? wanted.map((cuisine, i) => ({ cuisine, recipes: groups[i] }))
+      : [{ cuisine: null, recipes: groups.flat() }];
+    // 菜系与类别都没有候选时，按硬性条件随机推荐
+    if (!mains.some((group) => group.recipes.length)) {
+      mains = [{ cuisine: null, recipes: await search({}) }];
+    }
+
+    return {
+      settings: { ...settings, language: locale },
+      pools: { breakfast, mains },
+    };
+  },
+});
+
+const planMeals = createStep({
+  id: 'meal-plan-plan-week',
+  description: '按时间预算、菜系轮换、不重复与剩菜规则排出一周菜单',
+  inputSchema: collectCandidates.outputSchema,
+  outputSchema: z.object({
+    settings: settingsSchema,
+    days: z.array(plannedDaySchema),
+  }),
+  execute: async ({ inputData }) => {
+    const { settings, pools } = inputData;
+    const days = planWeek(pools, { timeBudget: settings.timeBudget, leftovers: settings.leftovers });
+    return { settings, days };
+  },
+});
+
+const buildShoppingList = createStep({
+  id: 'meal-plan-shopping-list',
+  description: '合并本周菜谱的购物清单，并将菜单翻译为请求语言',
+  inputSchema: planMeals.outputSchema,
+  outputSchema,
+  execute: async ({ inputData }) => {
+    const { settings, days } = inputData;
+    const { language, servings } = settings;
+    const info = localeInfo(language);
+
+    // 要做的菜（剩菜不另做；多做一份的晚餐按双份采购），同一道菜做了几次就累加几次的份数
+    const cooked = new Map<string, number>();
+    for (const { meals } of days) {
+      for (const m of meals) {
+        if (!m.leftover) cooked.set(m.recipe.id, (cooked.get(m.recipe.id) ?? 0) + (m.makesLeftovers ? servings * 2 : servings));
+      }
+    }
+    const shoppingList = await createShoppingList({
+      recipes: Array.from(cooked, ([id, count]) => ({ id, servings: count })),
+      pantry: settings.pantry,
+      units: settings.units,
+    }, language);
+    const names = new Map(shoppingList.recipes.map((r) => [r.id, r.name]));
+
+    return {
+      days: days.map(({ day, timeBudget, meals }) => ({
+        day,
+        label: info.weekdayLabels[day],
+        timeBudget,
+        meals: meals.map(({ meal, recipe, cuisine, protein, leftover, leftoverFrom, makesLeftovers, relaxedConstraints }) => ({
+          meal,
+          label: info.mealLabels[meal],
+          id: recipe.id,
+          name: names.get(recipe.id) ?? recipe.name,
+          source: recipe.source,
+          thumbnail: recipe.thumbnail,
+          totalMinutes: recipe.totalMinutes,
+          difficulty: recipe.difficulty,
+          difficultyLabel: recipe.difficulty ? info.difficultyLabels[recipe.difficulty] : undefined,
+          cuisine,
+          protein,
+          servings: makesLeftovers ? servings * 2 : servings,
+          leftover,
+          leftoverFrom,
+          makesLeftovers,
+          relaxedConstraints,
+        })),
+      })),
+      shoppingList,
+      language,
+    };
+  },
+});
+
+export const mealPlanWorkflow = createWorkflow({
+  id: 'meal-plan',
+  inputSchema,
+  outputSchema,
+})
+  .then(collectCandidates)
+  .then(planMeals)
+  .then(buildShoppingList);
+
+mealPlanWorkflow.commit();
@@ -2,8 +2,11 @@
 // - runViaMastra: 通过 mastra.runWorkflow / run 统一入口
 // - runViaWorkflow: 直接用 foodWorkflow.run
 // - runViaAgentFallback: 直接调用 foodAgent.stream 作为降级方案
+// - runViaToolOnly: 未配置 OPENAI_API_KEY 时走 food-tool-only（不依赖 LLM）
+// 离线运行：RECIPE_SOURCE=local npm run test:food（或 npm run test:food:offline）
 import { mastra } from '../mastra';
 import { foodWorkflow } from '../mastra/workflows/food-workflow';
+import { foodToolOnlyWorkflow } from '../mastra/workflows/food-tool-only';
 
 async function runViaMastra(input: any) {
   const anyMastra: any = mastra as any;
@@ -51,6 +54,19 @@ async function runViaAgentFallback(input: any) {
   return { suggestions: text };
 }
 
+async function runViaToolOnly(input: any) {
+  const run = await foodToolOnlyWorkflow.createRunAsync();
+  const result: any = await run.start({
+    inputData: {
+      ingredients: input.ingredients,
+      category: input.category,
+      cuisine: input.cuisine,
+      limit: input.limit,
+    },
+  });
+  return result?.status === 'success' ? result.result : result;
+}
+
 async function main() {
   console.log('Running food-workflow test...');
   const input = {
@@ -63,6 +79,15 @@ async function main() {
     limit: 4,
   };
 
+  // 无 API Key 时无法调用 Agent，直接走工具直连工作流
+  if (!process.env.OPENAI_API_KEY) {
+    console.log(`OPENAI_API_KEY 未配置，使用 food-tool-only（数据源：${process.env.RECIPE_SOURCE || 'themealdb'}）`);
+    const toolResult = await runViaToolOnly(input);
+    console.log('\n===== 建议输出 =====');
+    console.log(toolResult?.suggestions ?? toolResult);
+    return;
+  }
+
   let result = await runViaMastra(input);
   if (!result) {
     result = await runViaWorkflow(input);
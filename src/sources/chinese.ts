@@ -0,0 +1,136 @@
+// 中式家常菜数据源：基于内置精选数据集（src/data/chinese-recipes.ts）
+// - 作为补充数据源与主数据源（TheMealDB / Local）合并使用，解决 TheMealDB 中餐覆盖不足的问题
+// - 同时接受中文与英文关键词："川菜" / "Sichuan"、"鸡胸肉" / "Chicken Breast" 均可命中
+// - 返回的菜谱为中文原文（language = 'zh-CN'），中文请求无需再翻译
+import type { NormalizedRecipe } from '../types';
+import type { RecipeSource, RecipeSummary, ReferenceItem } from './recipe-source';
+import { CHINESE_DISHES, CHINESE_REGIONS, type ChineseDish } from '../data/chinese-recipes';
+import { taxonomyLabelZh } from '../utils/taxonomy';
+
+// 表示"中国菜"整体的关键词：命中时返回全部菜谱
+const CHINESE_AREA_KEYWORDS = ['chinese', '中国', '中国菜', '中餐', '中式', '中华料理'];
+
+// 双向包含匹配（忽略大小写）；中文单字不参与反向包含，避免"肉"命中所有含肉的关键词
+function looseMatch(value: string, keyword: string): boolean {
+  const a = value.toLowerCase();
+  const b = keyword.toLowerCase();
+  if (!a || !b) return false;
+  return a.includes(b) || (a.length > 1 && b.includes(a));
+}
+
+// 紧凑结构 -> NormalizedRecipe
+function toRecipe(dish: ChineseDish, source: string): NormalizedRecipe {
+  return {
+    id: dish.id,
+    name: dish.name,
+    category: taxonomyLabelZh('category', dish.category),
+    area: dish.region,
+    tags: dish.tags,
+    instructions: dish.steps.map((step, i) => `${i + 1}. ${step}`).join('\n'),
+    thumbnail: null,
+    youtube: null,
+    ingredients: dish.ingredients.map(([ingredient, measure]) => ({ ingredient, measure })),
+    source,
+    language: 'zh-CN',
+  };
+}
+
+/**
+ * 中式家常菜数据源实现
+ */
+export class ChineseRecipeSource implements RecipeSource {
+  readonly name = 'ChineseHome';
+  readonly language = 'zh-CN' as const;
+  private dishes: ChineseDish[];
+
+  /**
+   * 构造函数
+   * @param dishes - 菜谱数据（默认使用内置精选数据集）
+   */
+  constructor(dishes: ChineseDish[] = CHINESE_DISHES) {
+    this.dishes = dishes;
+  }
+
+  private summarize(dish: ChineseDish): RecipeSummary {
+    return { id: dish.id, name: dish.name, thumbnail: null, aliases: [dish.nameEn] };
+  }
+
+  // 去重后的取值列表（保持数据集中的出现顺序）
+  private distinct(names: string[]): ReferenceItem[] {
+    return Array.from(new Set(names)).map((name) => ({ name, thumbnail: null, description: null }));
+  }
+
+  async searchByName(query: string): Promise<NormalizedRecipe[]> {
+    const q = query.trim();
+    if (!q) return [];
+    return this.dishes
+      .filter((dish) => looseMatch(dish.name, q) || looseMatch(dish.nameEn, q))
+      .map((dish) => toRecipe(dish, this.name));
+  }
+
+  async filterByIngredient(ingredient: string): Promise<RecipeSummary[]> {
+    const q = ingredient.trim();
+    if (!q) return [];
+    return this.dishes
+      .filter((dish) => dish.ingredients.some(([zh, , en]) => looseMatch(zh, q) || looseMatch(en, q)))
+      .map((dish) => this.summarize(dish));
+  }
+
+  async filterByCategory(category: string): Promise<RecipeSummary[]> {
+    const q = category.trim().toLowerCase();
+    if (!q) return [];
+    return this.dishes
+      .filter((dish) => dish.category.toLowerCase() === q || taxonomyLabelZh('category', dish.category) === q)
+      .map((dish) => this.summarize(dish));
+  }
+
+  async filterByArea(area: string): Promise<RecipeSummary[]> {
+    const q = area.trim();
+    if (!q) return [];
+    if (CHINESE_AREA_KEYWORDS.some((k) => q.toLowerCase() === k || q.toLowerCase() === `${k} cuisine`)) {
+      return this.dishes.map((dish) => this.summarize(dish));
+    }
+    // 地方菜系：匹配规范名、英文名或别称，如"广东菜"、"Cantonese cuisine"
+    const regions = CHINESE_REGIONS
+      .filter((region) => [region.name, region.nameEn, ...region.aliases].some((name) => looseMatch(q, name)))
+      .map((region) => region.name);
+    return this.dishes
+      .filter((dish) => regions.includes(dish.region))
+      .map((dish) => this.summarize(dish));
+  }
+
+  async lookup(id: string): Promise<NormalizedRecipe | null> {
+    const dish = this.dishes.find((d) => d.id === id);
+    return dish ? toRecipe(dish, this.name) : null;
+  }
+
+  async random(count: number): Promise<NormalizedRecipe[]> {
+    const shuffled = [...this.dishes];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled.slice(0, count).map((dish) => toRecipe(dish, this.name));
+  }
+
+  // 类别使用中文显示名（与 lookup 返回的 category 一致，filterByCategory 同时接受中文名与规范取值）
+  async listCategories(): Promise<ReferenceItem[]> {
+    return this.distinct(this.dishes.map((dish) => taxonomyLabelZh('category', dish.category)));
+  }
+
+  // 菜系为数据集中出现过的地方菜系（按 CHINESE_REGIONS 顺序）
+  async listAreas(): Promise<ReferenceItem[]> {
+    const used = new Set(this.dishes.map((dish) => dish.region));
+    return CHINESE_REGIONS
+      .filter((region) => used.has(region.name))
+      .map((region) => ({ name: region.name, thumbnail: null, description: region.aliases.length ? `${region.nameEn}（${region.aliases.join('、')}）` : region.nameEn }));
+  }
+
+  async listIngredients(): Promise<ReferenceItem[]> {
+    return this.distinct(this.dishes.flatMap((dish) => dish.ingredients.map(([zh]) => zh)));
+  }
+
+  async listRecipes(): Promise<RecipeSummary[]> {
+    return this.dishes.map((dish) => this.summarize(dish));
+  }
+}
@@ -0,0 +1,69 @@
+// 菜谱数据源注册表：根据配置选择数据源实现
+// - themealdb：在线 TheMealDB API（默认）
+// - local：内置离线数据集，不发起网络请求
+// - chinese：内置中式家常菜精选数据集（默认作为补充数据源与主数据源合并）
+// 选择顺序：显式参数 > 环境变量 RECIPE_SOURCE（Workers 中由 worker.ts 从 Env 注入） > 默认 themealdb
+import type { NormalizedRecipe } from '../types';
+import type { RecipeSource } from './recipe-source';
+import { TheMealDBSource } from './themealdb';
+import { LocalRecipeSource } from './local';
+import { ChineseRecipeSource } from './chinese';
+
+export type { RecipeSource, RecipeSummary, ReferenceItem } from './recipe-source';
+export { TheMealDBSource } from './themealdb';
+export { LocalRecipeSource } from './local';
+export { ChineseRecipeSource } from './chinese';
+
+export type RecipeSourceKind = 'themealdb' | 'local' | 'chinese';
+
+const factories: Record<RecipeSourceKind, () => RecipeSource> = {
+  themealdb: () => new TheMealDBSource(),
+  local: () => new LocalRecipeSource(),
+  chinese: () => new ChineseRecipeSource(),
+};
+
+/**
+ * 判断字符串是否为已注册的数据源名称
+ */
+export function isRecipeSourceKind(value: unknown): value is RecipeSourceKind {
+  return typeof value === 'string' && value in factories;
+}
+
+/**
+ * 创建菜谱数据源实例
+ * @param kind - 数据源名称（可选，默认读取环境变量 RECIPE_SOURCE）
+ * @returns RecipeSource 实例
+ */
+export function createRecipeSource(kind?: string): RecipeSource {
+  const configured = kind || (typeof process !== 'undefined' && process.env?.RECIPE_SOURCE) || 'themealdb';
+  const key = configured.toLowerCase();
+  if (!isRecipeSourceKind(key)) {
+    console.warn(`Unknown recipe source "${configured}", falling back to themealdb`);
+    return factories.themealdb();
+  }
+  return factories[key]();
+}
+
+/**
+ * 创建 recipeTool 使用的数据源列表：主数据源在前，中式家常菜数据源作为补充合并
+ * @param kind - 主数据源名称（可选，默认读取环境变量 RECIPE_SOURCE）
+ * @returns RecipeSource 数组（主数据源为 chinese 时不重复添加）
+ */
+export function createRecipeSources(kind?: string): RecipeSource[] {
+  const primary = createRecipeSource(kind);
+  return primary instanceof ChineseRecipeSource ? [primary] : [primary, factories.chinese()];
+}
+
+/**
+ * 按菜谱 ID 查询详情：依次向各数据源 lookup，命中即返回
+ * @param id - 菜谱 ID（搜索结果中的 id，如 52772、cn-001）
+ * @param sources - 数据源（主数据源在前，默认 createRecipeSources()）
+ * @returns 规范化菜谱；各数据源都没有该 ID 时为 null
+ */
+export async function lookupRecipe(id: string, sources: RecipeSource[] = createRecipeSources()): Promise<NormalizedRecipe | null> {
+  for (const source of sources) {
+    const recipe = await source.lookup(id);
+    if (recipe) return recipe;
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+// 本地数据源：基于内置菜谱数据集（或外部传入的快照）在内存中检索
+// - 不发起任何网络请求，用于离线开发、test:food 与 Workers 离线运行
+// - 匹配规则与 TheMealDB 保持一致：食材按名称包含匹配，类别/菜系忽略大小写精确匹配
+import type { NormalizedRecipe } from '../types';
+import type { RecipeSource, RecipeSummary, ReferenceItem } from './recipe-source';
+import { LOCAL_RECIPES } from '../data/local-recipes';
+
+/**
+ * 本地数据源实现
+ */
+export class LocalRecipeSource implements RecipeSource {
+  readonly name: string;
+  readonly language = 'en-US' as const;
+  private recipes: NormalizedRecipe[];
+
+  /**
+   * 构造函数
+   * @param recipes - 菜谱数据（默认使用内置数据集，也可传入 TheMealDB 导出的快照）
+   * @param name - 数据源名称（默认 'Local'）
+   */
+  constructor(recipes: NormalizedRecipe[] = LOCAL_RECIPES, name: string = 'Local') {
+    this.name = name;
+    this.recipes = recipes.map((recipe) => ({ ...recipe, source: recipe.source || name }));
+  }
+
+  private summarize(recipe: NormalizedRecipe): RecipeSummary {
+    return { id: recipe.id, name: recipe.name, thumbnail: recipe.thumbnail };
+  }
+
+  // 数据集中出现过的取值（忽略大小写去重，按名称排序）
+  private distinct(values: Array<string | null>): ReferenceItem[] {
+    const byKey = new Map<string, string>();
+    for (const value of values) {
+      const name = value?.trim();
+      if (name && !byKey.has(name.toLowerCase())) byKey.set(name.toLowerCase(), name);
+    }
+    return Array.from(byKey.values())
+      .sort((a, b) => a.localeCompare(b))
+      .map((name) => ({ name, thumbnail: null, description: null }));
+  }
+
+  async searchByName(query: string): Promise<NormalizedRecipe[]> {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return this.recipes.filter((recipe) => recipe.name.toLowerCase().includes(q));
+  }
+
+  async filterByIngredient(ingredient: string): Promise<RecipeSummary[]> {
+    const q = ingredient.trim().toLowerCase();
+    if (!q) return [];
+    return this.recipes
+      .filter((recipe) => recipe.ingredients.some((item) => item.ingredient.toLowerCase().includes(q)))
+      .map((recipe) => this.summarize(recipe));
+  }
+
+  async filterByCategory(category: string): Promise<RecipeSummary[]> {
+    const q = category.trim().toLowerCase();
+    return this.recipes
+      .filter((recipe) => recipe.category?.toLowerCase() === q)
+      .map((recipe) => this.summarize(recipe));
+  }
+
+  async filterByArea(area: string): Promise<RecipeSummary[]> {
+    const q = area.trim().toLowerCase();
+    return this.recipes
+      .filter((recipe) => recipe.area?.toLowerCase() === q)
+      .map((recipe) => this.summarize(recipe));
+  }
+
+  async lookup(id: string): Promise<NormalizedRecipe | null> {
+    return this.recipes.find((recipe) => recipe.id === id) || null;
+  }
+
+  async random(count: number): Promise<NormalizedRecipe[]> {
+    // Fisher-Yates 洗牌后取前 count 个，保证不重复
+    const shuffled = [...this.recipes];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled.slice(0, count);
+  }
+
+  async listCategories(): Promise<ReferenceItem[]> {
+    return this.distinct(this.recipes.map((recipe) => recipe.category));
+  }
+
+  async listAreas(): Promise<ReferenceItem[]> {
+    return this.distinct(this.recipes.map((recipe) => recipe.area));
+  }
+
+  async listIngredients(): Promise<ReferenceItem[]> {
+    return this.distinct(this.recipes.flatMap((recipe) => recipe.ingredients.map((item) => item.ingredient)));
+  }
+
+  async listRecipes(): Promise<RecipeSummary[]> {
+    return this.recipes.map((recipe) => this.summarize(recipe));
+  }
+}
@@ -0,0 +1,54 @@
+// 菜谱数据源抽象：屏蔽 TheMealDB / 本地数据集等具体实现的差异
+// - recipeTool 只依赖本接口，不直接拼接任何外部 URL
+// - 新增数据源时实现 RecipeSource 并在 sources/index.ts 中注册即可
+import type { NormalizedRecipe } from '../types';
+import type { LocaleCode } from '../constants/locales';
+
+/**
+ * 菜谱摘要（筛选列表返回，不含做法与食材）
+ */
+export interface RecipeSummary {
+  id: string;
+  name: string;
+  thumbnail: string | null;
+  aliases?: string[]; // 其他写法（如中式家常菜的英文名），供菜名检索使用
+}
+
+/**
+ * 参考数据条目（类别 / 菜系 / 食材的可选取值）
+ */
+export interface ReferenceItem {
+  name: string; // 取值（数据源自身的写法，可直接用于 filterByXxx）
+  thumbnail: string | null;
+  description: string | null;
+}
+
+/**
+ * 菜谱数据源接口
+ */
+export interface RecipeSource {
+  /** 数据源名称，会写入每道菜谱的 source 字段 */
+  readonly name: string;
+  /** 菜谱内容的语言；zh-CN 数据源同时接受用户的中文原始关键词 */
+  readonly language: LocaleCode;
+  /** 按名称搜索，返回完整菜谱 */
+  searchByName(query: string): Promise<NormalizedRecipe[]>;
+  /** 按单个食材筛选 */
+  filterByIngredient(ingredient: string): Promise<RecipeSummary[]>;
+  /** 按类别筛选，如 Vegetarian、Seafood */
+  filterByCategory(category: string): Promise<RecipeSummary[]>;
+  /** 按菜系/地区筛选，如 Chinese、Italian */
+  filterByArea(area: string): Promise<RecipeSummary[]>;
+  /** 按 ID 查询完整菜谱，不存在时返回 null */
+  lookup(id: string): Promise<NormalizedRecipe | null>;
+  /** 随机返回若干道不重复的菜谱 */
+  random(count: number): Promise<NormalizedRecipe[]>;
+  /** 列出全部类别 */
+  listCategories(): Promise<ReferenceItem[]>;
+  /** 列出全部菜系/地区 */
+  listAreas(): Promise<ReferenceItem[]>;
+  /** 列出全部食材 */
+  listIngredients(): Promise<ReferenceItem[]>;
+  /** 列出全部菜谱摘要（菜名检索的候选集） */
+  listRecipes(): Promise<RecipeSummary[]>;
+}
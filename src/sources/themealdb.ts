@@ -0,0 +1,177 @@
+// TheMealDB 数据源：基于 TheMealDB 开放 API（https://www.themealdb.com）
+// - 使用 fetch 原生接口，适配 Cloudflare Workers / 浏览器环境
+// - 所有返回值在此处统一转换为 NormalizedRecipe，上层不再接触 strXxx 原始字段
+import type { NormalizedRecipe } from '../types';
+import type { RecipeSource, RecipeSummary, ReferenceItem } from './recipe-source';
+
+const API_BASE = 'https://www.themealdb.com/api/json/v1/1';
+
+// 食材图片（TheMealDB 按食材名提供缩略图）
+const INGREDIENT_IMAGE_BASE = 'https://www.themealdb.com/images/ingredients';
+
+// 简要菜谱摘要结构（用于筛选列表返回）
+interface MealSummary { // 定义菜谱摘要的 TypeScript 接口
+  idMeal: string; // 菜谱的唯一标识符 ID
+  strMeal: string; // 菜品名称
+  strMealThumb: string; // 菜品缩略图 URL
+}
+
+// 完整菜谱详情结构（包含做法、标签、食材等）
+interface MealDetail extends MealSummary { // 继承 MealSummary 接口，添加更多详细字段
+  strCategory: string | null; // 菜品类别（如素食、海鲜等）
+  strArea: string | null; // 菜系/地区（如中国菜、意大利菜等）
+  strTags: string | null; // 菜品标签，逗号分隔的字符串
+  strInstructions: string | null; // 详细做法步骤（英文）
+  strYoutube: string | null; // 教学视频链接（YouTube URL）
+  [key: string]: string | null; // 索引签名：用于访问 strIngredient1-20 / strMeasure1-20 等动态字段
+}
+
+// 工具函数：从详情中抽取食材与用量（TheMealDB 使用最多 20 个食材位）
+function extractIngredients(meal: MealDetail) { // 函数定义：接收菜谱详情对象作为参数
+  const items: { ingredient: string; measure: string }[] = []; // 初始化空数组，用于存储食材和用量的对象
+  for (let i = 1; i <= 20; i++) { // 循环遍历 1 到 20（TheMealDB API 最多支持 20 个食材）
+    const ingredient = (meal[`strIngredient${i}`] || '')?.trim(); // 动态访问 strIngredient1-20 字段，去除空白字符
+    const measure = (meal[`strMeasure${i}`] || '')?.trim(); // 动态访问 strMeasure1-20 字段，去除空白字符
+    if (ingredient) { // 如果食材字段不为空（用量可以为空）
+      // 收集存在的食材与对应用量
+      items.push({ ingredient, measure }); // 将食材和用量对象添加到数组中
+    }
+  }
+  return items; // 返回包含所有食材和用量的数组
+}
+
+// 辅助函数：将 MealDetail 转换为 NormalizedRecipe 格式
+function normalizeMeal(meal: MealDetail): NormalizedRecipe {
+  return {
+    id: meal.idMeal,
+    name: meal.strMeal,
+    category: meal.strCategory || null,
+    area: meal.strArea || null,
+    tags: meal.strTags ? meal.strTags.split(',').map((t) => t.trim()).filter(Boolean) : null,
+    instructions: meal.strInstructions || null,
+    thumbnail: meal.strMealThumb || null,
+    youtube: meal.strYoutube || null,
+    ingredients: extractIngredients(meal),
+    source: 'TheMealDB',
+  };
+}
+
+// 辅助函数：将 MealSummary 转换为 RecipeSummary 格式
+function summarize(meal: MealSummary): RecipeSummary {
+  return { id: meal.idMeal, name: meal.strMeal, thumbnail: meal.strMealThumb || null };
+}
+
+// 类别详情（categories.php）
+interface CategoryDetail {
+  strCategory: string;
+  strCategoryThumb: string | null;
+  strCategoryDescription: string | null;
+}
+
+// 食材条目（list.php?i=list）
+interface IngredientDetail {
+  strIngredient: string;
+  strDescription: string | null;
+}
+
+// 通用 GET：返回 meals 数组（无结果时为空数组，避免后续流程报错）；categories.php 的列表字段为 categories
+async function fetchMeals<T>(path: string, field: 'meals' | 'categories' = 'meals'): Promise<T[]> {
+  const resp = await fetch(`${API_BASE}/${path}`); // 调用 TheMealDB API
+  const json = await resp.json(); // 将响应解析为 JSON 对象
+  return Array.isArray(json?.[field]) ? (json[field] as T[]) : [];
+}
+
+/**
+ * TheMealDB 数据源实现
+ */
+export class TheMealDBSource implements RecipeSource {
+  readonly name = 'TheMealDB';
+  readonly language = 'en-US' as const;
+
+  // 按名称搜索（search.php?s=）
+  async searchByName(query: string): Promise<NormalizedRecipe[]> {
+    const meals = await fetchMeals<MealDetail>(`search.php?s=${encodeURIComponent(query)}`);
+    return meals.map(normalizeMeal);
+  }
+
+  // 按食材筛选（filter.php?i=）——API 仅支持单一食材筛选
+  async filterByIngredient(ingredient: string): Promise<RecipeSummary[]> {
+    const meals = await fetchMeals<MealSummary>(`filter.php?i=${encodeURIComponent(ingredient)}`);
+    return meals.map(summarize);
+  }
+
+  // 按类别筛选（filter.php?c=），如 Vegetarian、Seafood
+  async filterByCategory(category: string): Promise<RecipeSummary[]> {
+    const meals = await fetchMeals<MealSummary>(`filter.php?c=${encodeURIComponent(category)}`);
+    return meals.map(summarize);
+  }
+
+  // 按菜系/地区筛选（filter.php?a=），如 Chinese、Italian
+  async filterByArea(area: string): Promise<RecipeSummary[]> {
+    const meals = await fetchMeals<MealSummary>(`filter.php?a=${encodeURIComponent(area)}`);
+    return meals.map(summarize);
+  }
+
+  // 根据菜谱 ID 查询详情（lookup.php）
+  async lookup(id: string): Promise<NormalizedRecipe | null> {
+    const [meal] = await fetchMeals<MealDetail>(`lookup.php?i=${encodeURIComponent(id)}`);
+    return meal ? normalizeMeal(meal) : null;
+  }
+
+  // 随机选取多道菜（调用随机单菜 random.php 多次，避免 randomselection.php 可能返回空）
+  async random(count: number): Promise<NormalizedRecipe[]> {
+    const results: NormalizedRecipe[] = []; // 初始化结果数组，用于存储随机获取的菜谱
+    const maxTries = count * 2; // 最多尝试次数，防止无限循环
+    let tries = 0; // 初始化尝试计数器
+    while (results.length < count && tries < maxTries) { // 当结果数量少于目标且尝试次数未超限时继续循环
+      tries += 1; // 尝试次数加 1
+      try { // 使用 try-catch 处理单次请求可能的错误
+        const [meal] = await fetchMeals<MealDetail>('random.php'); // 获取单个随机菜谱
+        // 去重：检查结果数组中是否已存在相同 ID 的菜谱
+        if (meal && meal.idMeal && !results.find((r) => r.id === meal.idMeal)) {
+          results.push(normalizeMeal(meal)); // 如果不存在重复，将菜谱添加到结果数组
+        }
+      } catch (e) { // 捕获单次请求的异常
+        // 忽略单次错误，继续尝试（不中断整个流程）
+      }
+    }
+    return results; // 返回随机获取的菜谱数组（可能少于 count）
+  }
+
+  // 全部类别（categories.php，带缩略图与说明）
+  async listCategories(): Promise<ReferenceItem[]> {
+    const categories = await fetchMeals<CategoryDetail>('categories.php', 'categories');
+    return categories.map((c) => ({
+      name: c.strCategory,
+      thumbnail: c.strCategoryThumb || null,
+      description: c.strCategoryDescription?.trim() || null,
+    }));
+  }
+
+  // 全部菜系/地区（list.php?a=list，仅名称）
+  async listAreas(): Promise<ReferenceItem[]> {
+    const areas = await fetchMeals<{ strArea: string }>('list.php?a=list');
+    return areas.map((a) => ({ name: a.strArea, thumbnail: null, description: null }));
+  }
+
+  // 全部食材（list.php?i=list），缩略图按食材名拼接
+  async listIngredients(): Promise<ReferenceItem[]> {
+    const ingredients = await fetchMeals<IngredientDetail>('list.php?i=list');
+    return ingredients
+      .filter((i) => i.strIngredient?.trim())
+      .map((i) => ({
+        name: i.strIngredient.trim(),
+        thumbnail: `${INGREDIENT_IMAGE_BASE}/${encodeURIComponent(i.strIngredient.trim())}-Small.png`,
+        description: i.strDescription?.trim() || null,
+      }));
+  }
+
+  // 全部菜谱（API 没有整表接口：先取类别列表 list.php?c=list，再逐个类别 filter.php?c= 合并）
+  async listRecipes(): Promise<RecipeSummary[]> {
+    const categories = await fetchMeals<{ strCategory: string }>('list.php?c=list');
+    const lists = await Promise.all(categories.map((c) => this.filterByCategory(c.strCategory)));
+    const byId = new Map<string, RecipeSummary>();
+    for (const summary of lists.flat()) if (!byId.has(summary.id)) byId.set(summary.id, summary);
+    return Array.from(byId.values());
+  }
+}
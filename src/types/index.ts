@@ -1,11 +1,105 @@
 // 统一的 Recipe 类型定义，兼容 TheMealDB 原始结构与规范化后的结构
+import type { LocaleCode } from '../constants/locales';
 
 export interface IngredientItem {
   ingredient: string;
   measure: string;
+  quantity?: Quantity | null; // 结构化用量（由 utils/measure.ts 解析并按单位制换算）
+  displayMeasure?: string; // 按单位制与语言渲染后的用量，如 "120毫升"、"1/2 cup"
 }
 
-// 规范化后的菜谱结构（来自 recipe-tool.ts 输出）
+// 可换算的规范单位：质量、体积与厨房计量（个数类单位不换算，保留在 Quantity.text 中）
+export type MeasureUnit = 'g' | 'kg' | 'ml' | 'l' | 'tsp' | 'tbsp' | 'cup' | 'floz' | 'oz' | 'lb' | 'pinch';
+
+// 难度等级：简单 / 中等 / 略难（显示文字见 constants/locales.ts）
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// 厨房设备（显示名称见 constants/locales.ts，识别规则见 utils/equipment.ts）
+export type EquipmentId =
+  | 'oven' | 'wok' | 'frying-pan' | 'pot' | 'steamer' | 'blender' | 'food-processor' | 'mixer'
+  | 'pressure-cooker' | 'slow-cooker' | 'rice-cooker' | 'air-fryer' | 'deep-fryer' | 'grill' | 'microwave';
+
+// 购物清单的超市分区：蔬果 / 肉禽 / 水产 / 蛋奶豆制品 / 米面粮油与干货 / 调味品与香料 / 其他（识别规则见 utils/shopping-list.ts）
+export type StoreSection = 'produce' | 'meat' | 'seafood' | 'dairy' | 'staples' | 'condiments' | 'other';
+
+// 一周菜单：星期（周一至周日）与餐次（早餐 / 午餐 / 晚餐）
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+// 菜品的主要蛋白质来源（一周菜单中相邻两天不重复，识别规则见 utils/meal-plan.ts）
+export type MainProtein = 'chicken' | 'duck' | 'beef' | 'pork' | 'lamb' | 'fish' | 'shellfish' | 'tofu' | 'egg' | 'legumes' | 'none';
+
+// 菜谱用到的设备：ID 与按输出语言的显示名称
+export interface RecipeEquipment {
+  id: EquipmentId;
+  name: string;
+}
+
+// 口味画像：各维度 0-3（0 无 / 很淡，1 轻微，2 明显，3 浓重），辣度对应 不辣 / 微辣 / 中辣 / 特辣
+export interface TasteProfile {
+  spice: number; // 辣度
+  sweetness: number; // 甜度
+  richness: number; // 油润 / 浓郁程度
+  sourness: number; // 酸度
+}
+
+// 饮食标签：素食 / 纯素 / 无麸质 / 无乳制品 / 清真友好（不含猪肉与酒类）/ 低碳水（识别规则见 utils/dietary.ts）
+export type DietaryLabel = 'vegetarian' | 'vegan' | 'gluten-free' | 'dairy-free' | 'halal-friendly' | 'low-carb';
+
+// 主要过敏原：麸质 / 乳制品 / 蛋 / 大豆 / 花生 / 坚果 / 鱼类 / 贝壳类 / 芝麻
+export type Allergen = 'gluten' | 'dairy' | 'egg' | 'soy' | 'peanut' | 'tree-nut' | 'fish' | 'shellfish' | 'sesame';
+
+// 每份营养成分：按内置营养成分表与食材用量估算（utils/nutrition.ts）
+export interface Nutrition {
+  calories: number; // 热量（千卡 / 份）
+  protein: number; // 蛋白质（克 / 份）
+  carbs: number; // 碳水化合物（克 / 份）
+  fat: number; // 脂肪（克 / 份）
+  servings: number; // 计算所依据的份数
+  coverage: number; // 计入计算的食材占比（0-1），越低估算越不可靠
+}
+
+// 烹饪场景：烘焙 / 炒 / 炖煮（含汤、卤、酱汁） / 煎炸 / 凉拌生食（含沙拉、蘸料、点缀），识别规则见 utils/substitution.ts
+export type CookingContext = 'baking' | 'stir-fry' | 'braising' | 'frying' | 'raw';
+
+// 食材替代品：取自替代知识库（src/data/substitutions.ts），名称与用法按输出语言
+export interface Substitute {
+  name: string; // 替代品名称，如 "牛奶 + 柠檬汁"
+  how: string; // 用量比例与注意事项
+  contexts: CookingContext[]; // 适用场景，空数组表示通用
+  dietary: DietaryLabel[]; // 替代品满足的饮食标签
+  allergens: Allergen[]; // 替代品含有的主要过敏原
+  available: boolean; // 用户是否已有全部组成食材
+}
+
+// 菜谱需要而用户没有的食材及其替代品
+export interface IngredientSubstitution {
+  ingredient: string; // 食材名称（按输出语言）
+  substitutes: Substitute[];
+}
+
+// 单位制：公制（克/毫升）或英制（盎司/磅/杯）
+export type UnitSystem = 'metric' | 'imperial';
+
+// 结构化用量：由 measure 原文解析而来，如 "1/2 cup" -> { amount: 0.5, unit: 'cup' }
+export interface Quantity {
+  amount: number | null; // 数量（范围时为下限），没有数量时为 null（如 "to taste"、"适量"）
+  amountMax: number | null; // 范围上限，如 "2-3" 中的 3
+  unit: MeasureUnit | null; // 规范单位；个数类（个、瓣、cloves）为 null
+  text: string; // 数量与单位之外的文字，如 "cloves chopped"、"适量"
+}
+
+// 烹饪步骤：由 instructions 原文拆分并识别时长、温度与涉及的食材（utils/steps.ts）
+export interface RecipeStep {
+  index: number; // 步骤序号（从 1 开始）
+  text: string; // 步骤文字（已去掉 "STEP 1"、"1." 等编号）
+  durationMinutes: number | null; // 识别出的时长（分钟），多段时长累加；未提及时为 null
+  temperature: { value: number; unit: 'C' | 'F' } | null; // 识别出的烹饪温度
+  ingredients: string[]; // 步骤中提到的食材（取自菜谱 ingredients 的名称）
+  passive: boolean; // 是否为等待类步骤（腌制、静置、冷藏、过夜等，可离开灶台）
+}
+
+// 规范化后的菜谱结构（来自 RecipeSource / recipe-tool.ts 输出）
 export interface NormalizedRecipe {
   id: string;
   name: string;
@@ -13,9 +107,32 @@ export interface NormalizedRecipe {
   area: string | null;
   tags: string[] | null;
   instructions: string | null;
+  steps?: RecipeStep[]; // 结构化步骤（由 instructions 解析，随输出语言生成）
   thumbnail: string | null;
   youtube: string | null;
   ingredients: IngredientItem[];
+  source?: string; // 菜谱来源数据源名称，如 'TheMealDB'、'Local'
+  language?: LocaleCode; // 菜谱内容的语言（缺省视为 en-US，即 TheMealDB 原文）
+  matchedIngredients?: string[]; // 多食材搜索时：菜谱用到的用户食材（原始输入）
+  missingIngredients?: string[]; // 多食材搜索时：菜谱未用到的用户食材（原始输入）
+  baseServings?: number; // 原菜谱份数（数据源未标注时按食材用量估算）
+  baseServingsEstimated?: boolean; // baseServings 是否为估算值
+  servings?: number; // ingredients 中 quantity / displayMeasure 对应的份数（未指定时等于 baseServings）
+  totalMinutes?: number; // 估算总时长（分钟，含腌制、静置等等待时间）
+  activeMinutes?: number; // 估算动手时长（分钟）
+  difficulty?: Difficulty; // 估算难度
+  difficultyLabel?: string; // 难度的显示文字（按输出语言，如 "简单"、"Easy"）
+  withinTimeBudget?: boolean; // 指定 timeBudget 时：总时长是否在预算内
+  equipment?: RecipeEquipment[]; // 由做法推断的所需设备
+  missingEquipment?: RecipeEquipment[]; // 指定 equipment 时：用户没有（且无替代）的设备
+  equipmentNote?: string | null; // 指定 equipment 时：缺少设备的原因说明（按输出语言），不缺时为 null
+  taste?: TasteProfile; // 估算的口味画像
+  spiceLabel?: string; // 辣度的显示文字（按输出语言，如 "微辣"）
+  tasteMatch?: number; // 指定 taste 时：与目标口味的匹配度（0-1）
+  dietary?: DietaryLabel[]; // 菜谱满足的饮食标签
+  allergens?: Allergen[]; // 菜谱含有的主要过敏原
+  nutrition?: Nutrition; // 每份营养成分估算
+  substitutions?: IngredientSubstitution[]; // 多食材搜索时：菜谱需要而用户没有的食材及其替代品
 }
 
 // TheMealDB 原始菜谱结构（包含 strIngredient1..20 等动态字段）
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyDiet, detectAllergens, parseAllergens, parseDietary } from './dietary';
+
+const items = (...names: string[]) => names.map((ingredient) => ({ ingredient, measure: '' }));
+
+describe('detectAllergens', () => {
+  it('识别英文食材中的主要过敏原（固定顺序）', () => {
+    assert.deepEqual(
+      detectAllergens(items('Flour', 'Milk', 'Eggs', 'Soy Sauce', 'Peanuts', 'Almonds', 'Salmon', 'Prawns', 'Sesame Seeds')),
+      ['gluten', 'dairy', 'egg', 'soy', 'peanut', 'tree-nut', 'fish', 'shellfish', 'sesame'],
+    );
+  });
+
+  it('识别中文食材（酱油含小麦与大豆）', () => {
+    assert.deepEqual(detectAllergens(items('酱油')), ['gluten', 'soy']);
+    assert.deepEqual(detectAllergens(items('牛奶', '鸡蛋', '虾')), ['dairy', 'egg', 'shellfish']);
+  });
+
+  it('植物替代品与无麸质同名食材不算过敏原', () => {
+    assert.deepEqual(detectAllergens(items('Coconut Milk', 'Rice Noodles', 'Butter Beans', '椰奶')), []);
+    assert.deepEqual(detectAllergens(items('Peanut Butter')), ['peanut']);
+  });
+});
+
+describe('classifyDiet', () => {
+  it('素食与纯素', () => {
+    assert.deepEqual(classifyDiet({ ingredients: items('Tofu', 'Rice', 'Broccoli'), category: null }), ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'halal-friendly']);
+    assert.deepEqual(classifyDiet({ ingredients: items('鸡蛋', '番茄'), category: null }), ['vegetarian', 'gluten-free', 'dairy-free', 'halal-friendly', 'low-carb']);
+  });
+
+  it('"肉桂" 不算肉，蜂蜜不算纯素', () => {
+    assert.ok(classifyDiet({ ingredients: items('肉桂', '牛奶'), category: null }).includes('vegetarian'));
+    assert.ok(!classifyDiet({ ingredients: items('Honey', 'Oats'), category: null }).includes('vegan'));
+  });
+
+  it('清真友好排除猪肉与酒类', () => {
+    assert.ok(!classifyDiet({ ingredients: items('Pork', 'Broccoli'), category: null }).includes('halal-friendly'));
+    assert.ok(!classifyDiet({ ingredients: items('Chicken', 'Rice Wine'), category: null }).includes('halal-friendly'));
+  });
+
+  it('低碳水排除主食、糖与甜点，勾芡淀粉与四季豆除外', () => {
+    assert.ok(classifyDiet({ ingredients: items('Chicken', 'Green Beans', 'Cornstarch'), category: null }).includes('low-carb'));
+    assert.ok(!classifyDiet({ ingredients: items('Chicken', 'Rice'), category: null }).includes('low-carb'));
+    assert.ok(!classifyDiet({ ingredients: items('Eggs', 'Cream'), category: 'Dessert' }).includes('low-carb'));
+  });
+});
+
+describe('parseDietary / parseAllergens', () => {
+  it('解析中英文饮食限制，忽略无法识别的输入', () => {
+    assert.deepEqual(parseDietary(['素食', 'gluten free, 低碳水', '纯素', 'xyz']), ['vegetarian', 'gluten-free', 'low-carb', 'vegan']);
+  });
+
+  it('"坚果" 覆盖花生与坚果，"海鲜" 覆盖鱼类与贝壳类', () => {
+    assert.deepEqual(parseAllergens(['坚果', '海鲜', 'milk', 'xyz']), ['tree-nut', 'peanut', 'fish', 'shellfish', 'dairy']);
+  });
+});
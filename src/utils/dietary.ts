@@ -0,0 +1,135 @@
+// 饮食标签与过敏原识别：按食材名（中英文）判断菜谱是否素食 / 纯素 / 无麸质 / 无乳制品 / 清真友好 / 低碳水，并列出主要过敏原
+// 设计要点：
+// 1. 只看食材清单（NormalizedRecipe.ingredients），不看做法；食材名在翻译前判断（TheMealDB 为英文，中式家常菜为中文）
+// 2. 规则偏保守：存在歧义时按「含有」处理（如酱油含小麦与大豆），避免把不符合的菜谱推荐给有饮食限制的用户
+// 3. 用户输入的饮食限制与过敏原支持中英文常见写法（"素食"、"无麸质"、"gluten free"、"坚果"、"海鲜"），无法识别的输入忽略
+// 4. 纯规则实现，不调用 LLM；清真友好仅表示不含猪肉制品与酒类，并非清真认证
+import type { Allergen, DietaryLabel, IngredientItem, NormalizedRecipe } from '../types';
+
+/**
+ * 食材识别规则：英文按整词匹配（规则内自带 \b），中文按子串匹配
+ */
+const MEAT = /\b(?:beef|pork|chicken|lamb|mutton|goat|duck|turkey|veal|venison|bacon|ham|sausages?|prosciutto|pancetta|chorizo|salami|pepperoni|steak|ribs|mince|meatballs?|gelatine?|suet|lard|oxtail|kidneys?(?! beans?)|liver)\b|chicken stock|beef stock|(?:鸡|鸭|鹅)(?!蛋)|猪|(?:牛|羊)(?!奶|乳)|肉(?!桂|豆蔻)|排骨|培根|火腿|香肠|腊肠|里脊|五花|肥肠|骨汤|鸡精|海参/i;
+const FISH = /\b(?:fish|salmon|tuna|cod|haddock|anchov(?:y|ies)|sardines?|mackerel|trout|tilapia|sea bass|monkfish|halibut|pollock)\b|fish sauce|鱼|鲈|鳜|鳕|三文鱼|鱼露/i;
+const SHELLFISH = /\b(?:prawns?|shrimps?|crabs?|lobsters?|mussels?|clams?|oysters?|scallops?|squid|octopus|crayfish|langoustines?)\b|oyster sauce|虾|蟹|贝|蚝|蛎|鱿|章鱼|蛤|蚬|扇贝|海蛎|鲍鱼/i;
+const DAIRY = /\b(?:milk|butter|cream|cheese|yogh?urt|ghee|parmesan|mozzarella|cheddar|feta|ricotta|mascarpone|buttermilk|custard|paneer|creme fraiche|crème fraîche|condensed milk|whey)\b|(?<![椰豆杏燕])奶|黄油|芝士|乳酪|炼乳/i;
+// 乳制品的植物替代品：命中时不算乳制品（"coconut milk"、"peanut butter"、"椰奶"）
+const DAIRY_FREE_VARIANTS = /coconut (?:milk|cream)|(?:almond|soy|soya|oat|rice) milk|peanut butter|almond butter|butter beans|butternut|cream of tartar|dairy[- ]free|vegan/i;
+const EGG = /\beggs?\b|egg (?:yolks?|whites?)|mayonnaise|\bmayo\b|meringue|蛋/i;
+const GLUTEN = /(?<!rice |corn |gluten[- ]free |almond |coconut |chickpea |tapioca |potato |buckwheat )\bflour\b|\b(?:bread|breadcrumbs|pasta|spaghetti|penne|fusilli|linguine|tagliatelle|lasagne|macaroni|noodles|wheat|barley|rye|couscous|bulgur|semolina|pastry|tortillas?|pitta|pita|naan|croutons|beer|soy sauce|hoisin|seitan|biscuits?|digestive|doubanjiang)\b|bean paste|面粉|面条|面包|面筋|酱油|生抽|老抽|馒头|饺子皮|馄饨皮|啤酒|小麦|豆瓣|甜面酱|面包糠|挂面|烤麸/i;
+// 不含麸质的同名食材（"rice noodles"、"gluten-free pasta"、"tamari"）
+const GLUTEN_FREE_VARIANTS = /rice noodles|glass noodles|rice vermicelli|gluten[- ]free|tamari|corn tortillas?|米粉|粉丝|河粉/i;
+const SOY = /\b(?:soy|soya|tofu|edamame|miso|tempeh|doubanjiang)\b|soy sauce|bean paste|豆腐|豆浆|酱油|生抽|老抽|味噌|黄豆|毛豆|豆瓣|腐竹|豆豉|腐乳/i;
+const TREE_NUT = /\b(?:almonds?|walnuts?|cashews?|pecans?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?|chestnuts?)\b|杏仁|核桃|腰果|开心果|榛子|松子|夏威夷果|板栗|栗子/i;
+const PEANUT = /\bpeanuts?\b|peanut butter|groundnut|satay|花生/i;
+const SESAME = /\bsesame\b|tahini|芝麻|麻油|香油|麻酱/i;
+const PORK = /\b(?:pork|bacon|ham|lard|prosciutto|pancetta|chorizo|salami|pepperoni|gelatine?)\b|猪|培根|火腿|腊肠|五花|肥肠|里脊/i;
+const ALCOHOL = /\b(?:wine|beer|rum|brandy|sake|sherry|vodka|whisky|whiskey|cognac|bourbon|gin|marsala|mirin|kirsch|liqueur|cider)\b(?! vinegar)|料酒|黄酒|白酒|啤酒|米酒|绍兴酒|花雕|红酒|葡萄酒|清酒|味醂/i;
+const HONEY = /\bhoney\b|蜂蜜/i;
+// 高碳水主食与糖：米饭、面食、薯类、玉米等
+const STARCH = /\b(?:rice|pasta|spaghetti|penne|noodles|bread|potato(?:es)?|flour|tortillas?|couscous|quinoa|oats|corn|polenta|sweet potato(?:es)?|lentils|chickpeas|beans|sugar|honey|syrup)\b|米饭|大米|糯米|面条|面粉|面包|土豆|马铃薯|红薯|年糕|粉丝|馒头|饺子|白糖|冰糖|红糖|蜂蜜/i;
+
+// 不算高碳水的同名食材（"rice vinegar"、"green beans"、勾芡用的玉米淀粉）
+const STARCH_EXCEPTIONS = /rice (?:vinegar|wine)|(?:green|french|runner) beans|corn ?flour|corn ?starch|米醋/i;
+
+// 判断食材列表中是否有食材命中规则（排除替代品写法）
+function anyIngredient(names: string[], pattern: RegExp, except?: RegExp): boolean {
+  return names.some((name) => pattern.test(name) && !(except && except.test(name)));
+}
+
+/**
+ * 识别主要过敏原
+ * @param ingredients - 食材列表
+ * @returns 过敏原列表（固定顺序）
+ */
+export function detectAllergens(ingredients: IngredientItem[]): Allergen[] {
+  const names = ingredients.map((item) => item.ingredient);
+  const checks: Array<[Allergen, boolean]> = [
+    ['gluten', anyIngredient(names, GLUTEN, GLUTEN_FREE_VARIANTS)],
+    ['dairy', anyIngredient(names, DAIRY, DAIRY_FREE_VARIANTS)],
+    ['egg', anyIngredient(names, EGG)],
+    ['soy', anyIngredient(names, SOY)],
+    ['peanut', anyIngredient(names, PEANUT)],
+    ['tree-nut', anyIngredient(names, TREE_NUT)],
+    ['fish', anyIngredient(names, FISH)],
+    ['shellfish', anyIngredient(names, SHELLFISH)],
+    ['sesame', anyIngredient(names, SESAME)],
+  ];
+  return checks.filter(([, present]) => present).map(([allergen]) => allergen);
+}
+
+/**
+ * 判断菜谱满足的饮食标签
+ * @param recipe - 菜谱（使用 ingredients 与 category）
+ * @param allergens - 已识别的过敏原（省略时重新识别）
+ * @returns 满足的饮食标签（固定顺序）
+ */
+export function classifyDiet(
+  recipe: Pick<NormalizedRecipe, 'ingredients' | 'category'>,
+  allergens: Allergen[] = detectAllergens(recipe.ingredients),
+): DietaryLabel[] {
+  const names = recipe.ingredients.map((item) => item.ingredient);
+  const vegetarian = !anyIngredient(names, MEAT) && !allergens.includes('fish') && !allergens.includes('shellfish');
+  const labels: Array<[DietaryLabel, boolean]> = [
+    ['vegetarian', vegetarian],
+    ['vegan', vegetarian && !allergens.includes('dairy') && !allergens.includes('egg') && !anyIngredient(names, HONEY)],
+    ['gluten-free', !allergens.includes('gluten')],
+    ['dairy-free', !allergens.includes('dairy')],
+    ['halal-friendly', !anyIngredient(names, PORK) && !anyIngredient(names, ALCOHOL)],
+    ['low-carb', recipe.category !== 'Dessert' && !anyIngredient(names, STARCH, STARCH_EXCEPTIONS)],
+  ];
+  return labels.filter(([, met]) => met).map(([label]) => label);
+}
+
+// 饮食限制的中英文写法
+const DIETARY_TERMS: Array<[RegExp, DietaryLabel]> = [
+  [/纯素|全素|严格素食|vegan|plant[- ]based/i, 'vegan'],
+  [/素|vegetarian|veggie|meatless/i, 'vegetarian'],
+  [/麸质|麩質|无麦|小麦过敏|gluten|coeliac|celiac/i, 'gluten-free'],
+  [/乳|奶|dairy|lactose/i, 'dairy-free'],
+  [/清真|halal/i, 'halal-friendly'],
+  [/低碳|生酮|低糖|low[- ]?carb|keto/i, 'low-carb'],
+];
+
+// 过敏原的中英文写法（"坚果"、"nuts" 同时覆盖花生与坚果，"海鲜" 同时覆盖鱼类与贝壳类）
+const ALLERGEN_TERMS: Array<[RegExp, Allergen[]]> = [
+  [/花生|peanut|groundnut/i, ['peanut']],
+  [/tree[- ]?nuts?|杏仁|核桃|腰果|almond|walnut|cashew/i, ['tree-nut']],
+  [/坚果|堅果|\bnuts?\b/i, ['tree-nut', 'peanut']],
+  [/海鲜|海鮮|seafood/i, ['fish', 'shellfish']],
+  [/贝|甲壳|虾|蟹|shellfish|crustacean|prawn|shrimp|crab/i, ['shellfish']],
+  [/鱼|魚|fish/i, ['fish']],
+  [/蛋|egg/i, ['egg']],
+  [/大豆|黄豆|豆制品|soy|soya/i, ['soy']],
+  [/乳|奶|dairy|milk|lactose/i, ['dairy']],
+  [/麸质|麩質|小麦|gluten|wheat/i, ['gluten']],
+  [/芝麻|sesame/i, ['sesame']],
+];
+
+/**
+ * 解析饮食限制（如"素食" → vegetarian、"无麸质" → gluten-free）
+ * @param inputs - 用户输入（中英文均可，单项内可用逗号分隔）
+ * @returns 去重后的饮食标签
+ */
+export function parseDietary(inputs: string[]): DietaryLabel[] {
+  const labels = new Set<DietaryLabel>();
+  for (const item of inputs.flatMap((input) => input.split(/[，,、;；/]+/))) {
+    const hit = DIETARY_TERMS.find(([pattern]) => pattern.test(item.trim()));
+    if (hit) labels.add(hit[1]);
+  }
+  return Array.from(labels);
+}
+
+/**
+ * 解析需要排除的过敏原（如"花生" → peanut、"海鲜" → fish + shellfish）
+ * @param inputs - 用户输入（中英文均可，单项内可用逗号分隔）
+ * @returns 去重后的过敏原
+ */
+export function parseAllergens(inputs: string[]): Allergen[] {
+  const allergens = new Set<Allergen>();
+  for (const item of inputs.flatMap((input) => input.split(/[，,、;；/]+/))) {
+    const hit = ALLERGEN_TERMS.find(([pattern]) => pattern.test(item.trim()));
+    hit?.[1].forEach((allergen) => allergens.add(allergen));
+  }
+  return Array.from(allergens);
+}
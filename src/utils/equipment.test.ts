@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EquipmentId } from '../types';
+import { inferEquipment, missingEquipment, rankByEquipment, resolveEquipment } from './equipment';
+
+describe('resolveEquipment', () => {
+  it('识别各语言的设备名、别称与复数', () => {
+    assert.equal(resolveEquipment('空气炸锅'), 'air-fryer');
+    assert.equal(resolveEquipment('  Air  fryer '), 'air-fryer');
+    assert.equal(resolveEquipment('炊飯器'), 'rice-cooker');
+    assert.equal(resolveEquipment('Ovens'), 'oven');
+  });
+
+  it('无法识别时返回 null', () => {
+    assert.equal(resolveEquipment('蛋糕'), null);
+  });
+});
+
+describe('inferEquipment', () => {
+  it('从做法推断所需设备', () => {
+    assert.deepEqual(inferEquipment({ name: 'Roast chicken', instructions: 'Bake in the oven.' }), ['oven']);
+    assert.deepEqual(inferEquipment({ name: '宫保鸡丁', instructions: '热锅翻炒' }), ['wok']);
+  });
+
+  it('泡打粉不算烘烤，荷兰锅不算烤箱', () => {
+    assert.deepEqual(inferEquipment({ name: 'Pancakes', instructions: 'Add baking powder and fry in a skillet.' }), ['frying-pan']);
+    assert.deepEqual(inferEquipment({ name: 'Beef stew', instructions: 'Cook in a dutch oven.' }), ['pot']);
+  });
+});
+
+describe('missingEquipment / rankByEquipment', () => {
+  it('基础设备与可替代设备不算缺少', () => {
+    assert.deepEqual(missingEquipment(['pot', 'wok'], new Set()), []);
+    assert.deepEqual(missingEquipment(['oven'], new Set<EquipmentId>(['air-fryer'])), []);
+    assert.deepEqual(missingEquipment(['oven', 'mixer'], new Set()), ['oven', 'mixer']);
+  });
+
+  it('设备齐全的保持原有顺序在前，缺少的按数量排在后面', () => {
+    const missing: Record<string, EquipmentId[]> = { a: ['oven', 'mixer'], b: [], c: ['oven'], d: [] };
+    assert.deepEqual(rankByEquipment(['a', 'b', 'c', 'd'], (id) => missing[id]), ['b', 'd', 'c', 'a']);
+  });
+});
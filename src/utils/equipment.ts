@@ -0,0 +1,106 @@
+// 厨房设备识别与匹配：从做法推断菜谱所需设备，并与用户的可用设备（equipment 参数）比对
+// 设计要点：
+// 1. 识别规则覆盖 中 / 英 / 日 / 韩 常见写法（"preheat the oven"、"放入烤箱"、"高压锅"、"炊飯器"）
+// 2. 用户输入的设备名按各语言显示名称（constants/locales.ts）与别称解析，忽略大小写；无法识别的输入忽略
+// 3. 汤锅、平底锅视为每个厨房都有的基础设备；部分设备可相互替代（炒锅 ↔ 平底锅、空气炸锅 → 烤箱、料理机 ↔ 搅拌机）
+// 4. 纯规则实现，不调用 LLM
+import { LOCALES } from '../constants/locales';
+import type { EquipmentId, NormalizedRecipe } from '../types';
+import { normalize } from './glossary';
+
+/**
+ * 设备条目：识别规则、用户输入别称与可替代的设备
+ */
+interface EquipmentEntry {
+  id: EquipmentId;
+  pattern: RegExp; // 在菜名与做法中识别该设备
+  aliases: string[]; // 显示名称之外的用户输入写法
+  substitutes: EquipmentId[]; // 没有该设备时可用来代替的设备
+}
+
+// 基础设备：默认每个厨房都有
+const BASIC_EQUIPMENT: EquipmentId[] = ['pot', 'frying-pan'];
+
+export const EQUIPMENT: EquipmentEntry[] = [
+  { id: 'oven', pattern: /(?<!dutch )\boven\b|\bbak(?:e|ed|ing)\b(?! powder| soda)|\bbroil|烤箱|烘烤|焗|オーブン|오븐/i, aliases: ['烤炉', '焗炉', '烤爐'], substitutes: ['air-fryer'] },
+  { id: 'wok', pattern: /\bwok\b|stir[- ]?fr|炒锅|炒鍋|爆炒|翻炒|煸炒|中華鍋|웍/i, aliases: ['铁锅', '中式炒锅'], substitutes: ['frying-pan'] },
+  { id: 'frying-pan', pattern: /frying pan|fry pan|\bskillet|saut[eé]|平底锅|平底鍋|煎锅|煎至|フライパン|프라이팬/i, aliases: ['煎锅', '不粘锅', 'skillet', 'pan'], substitutes: ['wok'] },
+  { id: 'pot', pattern: /\bpot\b|saucepan|stockpot|dutch oven|汤锅|湯鍋|砂锅|砂鍋|煮沸|烧开|鍋に|냄비/i, aliases: ['锅', '砂锅', 'saucepan', 'stockpot'], substitutes: ['wok', 'pressure-cooker', 'slow-cooker', 'rice-cooker'] },
+  { id: 'steamer', pattern: /steamer|\bsteam(?:ing)?\b(?! rice)|\bsteamed (?:for|until|over)|蒸锅|蒸笼|蒸籠|上锅蒸|隔水蒸|清蒸|蒸し器|찜기/i, aliases: ['蒸笼', '蒸屉'], substitutes: ['wok', 'pot', 'rice-cooker'] },
+  { id: 'blender', pattern: /blender|\bblitz|blend until smooth|搅拌机|攪拌機|料理机|破壁机|(?<!ハンド)ミキサー|블렌더/i, aliases: ['料理机', '破壁机', '榨汁机'], substitutes: ['food-processor'] },
+  { id: 'food-processor', pattern: /food processor|食物处理器|食物處理器|绞肉机|フードプロセッサー|푸드 ?프로세서/i, aliases: ['绞肉机'], substitutes: ['blender'] },
+  { id: 'mixer', pattern: /stand mixer|electric mixer|hand mixer|electric whisk|电动打蛋器|電動打蛋器|厨师机|ハンドミキサー|핸드 ?믹서/i, aliases: ['打蛋器', '厨师机', 'stand mixer', 'hand mixer'], substitutes: [] },
+  { id: 'pressure-cooker', pattern: /pressure cooker|instant pot|高压锅|压力锅|壓力鍋|圧力鍋|압력솥/i, aliases: ['压力锅', '电压力锅', 'instant pot'], substitutes: [] },
+  { id: 'slow-cooker', pattern: /slow cooker|crock ?pot|慢炖锅|電燉鍋|电炖锅|慢燉鍋|スロークッカー|슬로우 ?쿠커/i, aliases: ['电炖锅', '炖锅', 'crockpot', 'crock pot'], substitutes: ['pot', 'pressure-cooker'] },
+  { id: 'rice-cooker', pattern: /rice cooker|电饭锅|电饭煲|電飯煲|電鍋|炊飯器|밥솥/i, aliases: ['电饭煲', '電飯鍋'], substitutes: ['pot', 'pressure-cooker'] },
+  { id: 'air-fryer', pattern: /air[- ]?fr(?:y|ie)|空气炸锅|氣炸鍋|空氣炸鍋|ノンフライヤー|에어 ?프라이어/i, aliases: ['气炸锅', 'airfryer'], substitutes: ['oven'] },
+  { id: 'deep-fryer', pattern: /deep[- ]?fr|油炸|炸至|下油锅炸|揚げ|튀기/i, aliases: ['炸锅', '炸炉'], substitutes: ['wok', 'pot'] },
+  { id: 'grill', pattern: /\bgrill|barbecue|\bbbq\b|烧烤|炭烤|烤架|燒烤|グリル|그릴/i, aliases: ['烧烤架', '烤炉', 'bbq', 'barbecue'], substitutes: ['oven'] },
+  { id: 'microwave', pattern: /microwave|微波炉|微波爐|電子レンジ|전자레인지/i, aliases: ['微波'], substitutes: [] },
+];
+
+const ENTRY_BY_ID = new Map(EQUIPMENT.map((entry) => [entry.id, entry]));
+
+// 构建查找表：各语言显示名称 + 别称 + ID -> 设备
+function buildIndex(): Map<string, EquipmentId> {
+  const index = new Map<string, EquipmentId>();
+  const add = (name: string, id: EquipmentId) => {
+    const key = normalize(name);
+    if (key && !index.has(key)) index.set(key, id);
+  };
+  // 显示名称优先，别称在后，避免别称覆盖其他设备的规范名（如"烤炉"）
+  for (const info of Object.values(LOCALES)) {
+    for (const [id, label] of Object.entries(info.equipmentLabels)) add(label, id as EquipmentId);
+  }
+  for (const entry of EQUIPMENT) {
+    add(entry.id, entry.id);
+    add(entry.id.replace('-', ' '), entry.id);
+    entry.aliases.forEach((alias) => add(alias, entry.id));
+  }
+  return index;
+}
+
+const EQUIPMENT_INDEX = buildIndex();
+
+/**
+ * 解析用户输入的设备名（如"空气炸锅"、"Air fryer"、"炊飯器"）
+ * @param input - 设备名（任一支持语言）
+ * @returns 设备 ID，无法识别时返回 null
+ */
+export function resolveEquipment(input: string): EquipmentId | null {
+  const text = normalize(input);
+  return EQUIPMENT_INDEX.get(text) ?? EQUIPMENT_INDEX.get(text.replace(/s$/, '')) ?? null;
+}
+
+/**
+ * 从菜名与做法推断所需设备
+ * @param recipe - 菜谱（使用 name 与 instructions）
+ * @returns 设备 ID 列表（按 EQUIPMENT 顺序）
+ */
+export function inferEquipment(recipe: Pick<NormalizedRecipe, 'name' | 'instructions'>): EquipmentId[] {
+  const text = `${recipe.name}\n${recipe.instructions ?? ''}`;
+  return EQUIPMENT.filter((entry) => entry.pattern.test(text)).map((entry) => entry.id);
+}
+
+/**
+ * 找出用户缺少的设备：不在可用设备中、不是基础设备，且没有可替代的设备
+ * @param required - 菜谱所需设备
+ * @param available - 用户的可用设备
+ */
+export function missingEquipment(required: EquipmentId[], available: Set<EquipmentId>): EquipmentId[] {
+  const has = (id: EquipmentId) => available.has(id) || BASIC_EQUIPMENT.includes(id);
+  return required.filter((id) => !has(id) && !(ENTRY_BY_ID.get(id)?.substitutes ?? []).some(has));
+}
+
+/**
+ * 按设备排序：所需设备齐全的菜谱保持原有顺序排在前面，缺少设备的按缺少数量从少到多排在后面
+ * @param recipes - 候选菜谱
+ * @param missingOf - 获取菜谱缺少的设备
+ */
+export function rankByEquipment<T>(recipes: T[], missingOf: (recipe: T) => EquipmentId[]): T[] {
+  const ready = recipes.filter((recipe) => !missingOf(recipe).length);
+  const lacking = recipes
+    .filter((recipe) => missingOf(recipe).length)
+    .sort((a, b) => missingOf(a).length - missingOf(b).length);
+  return [...ready, ...lacking];
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { excludedIn, expandExclusion } from './exclusion';
+
+const items = (...names: string[]) => names.map((ingredient) => ({ ingredient, measure: '' }));
+
+describe('expandExclusion / excludedIn', () => {
+  it('排除词表食材时同时排除同义词与衍生食材', () => {
+    const pork = expandExclusion('猪肉', 'Pork');
+    assert.deepEqual(excludedIn(items('Bacon', 'Eggs'), [pork]), ['猪肉']);
+    assert.deepEqual(excludedIn(items('猪油'), [pork]), ['猪肉']);
+    const coriander = expandExclusion('香菜', 'Coriander');
+    assert.deepEqual(excludedIn(items('Fresh Coriander'), [coriander]), ['香菜']);
+    assert.deepEqual(excludedIn(items('芫荽'), [coriander]), ['香菜']);
+  });
+
+  it('英文按整词匹配并兼容单复数', () => {
+    assert.deepEqual(excludedIn(items('Chopped Tomatoes'), [expandExclusion('tomato', 'tomato')]), ['tomato']);
+    assert.deepEqual(excludedIn(items('Shallots'), [expandExclusion('ham', 'ham')]), []);
+  });
+
+  it('单字中文同义词不误伤"鸡蛋"', () => {
+    const chicken = expandExclusion('鸡肉', 'Chicken');
+    assert.deepEqual(excludedIn(items('鸡蛋'), [chicken]), []);
+    assert.deepEqual(excludedIn(items('鸡精'), [chicken]), ['鸡肉']);
+  });
+
+  it('词表未收录的食材按原文与译文匹配', () => {
+    const durian = expandExclusion('榴莲', 'Durian');
+    assert.deepEqual(excludedIn(items('Durian'), [durian]), ['榴莲']);
+    assert.deepEqual(excludedIn(items('榴莲酥'), [durian]), ['榴莲']);
+  });
+
+  it('返回全部命中的忌口食材（用户原始输入）', () => {
+    const terms = [expandExclusion('猪肉', 'Pork'), expandExclusion('鸡肉', 'Chicken'), expandExclusion('香菜', 'Coriander')];
+    assert.deepEqual(excludedIn(items('Chicken Stock', 'Bacon'), terms), ['猪肉', '鸡肉']);
+  });
+});
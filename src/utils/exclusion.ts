@@ -0,0 +1,89 @@
+// 忌口食材：把用户不吃的食材（exclude 参数，如"香菜"、"pork"）展开为匹配规则，剔除含有这些食材的菜谱
+// 设计要点：
+// 1. 用户输入先经 Translator 译为英文（与 ingredients 相同的词表 / 翻译路径，但不使用 LLM 联想词，避免误删无关菜谱）
+// 2. 命中词表的食材带上规范中英文名与同义词，并按 DERIVATIVES 带上明显的衍生食材（排除"猪肉"也排除培根、火腿、猪油）
+// 3. 英文按整词匹配并兼容单复数（"tomato" 命中 "Chopped Tomatoes"，"ham" 不命中 "Shallots"），中文按子串匹配
+// 4. 词表中的单字中文同义词（"鸡"、"牛"）不参与匹配，避免误伤"鸡蛋"、"牛奶"；用户原始输入始终参与匹配
+import type { IngredientItem } from '../types';
+import { findIngredient, normalize, singular } from './glossary';
+
+/**
+ * 一个忌口食材及其匹配规则
+ */
+export interface ExcludedTerm {
+  original: string; // 用户原始输入，如"猪肉"
+  patterns: RegExp[]; // 食材名匹配规则（规范名、同义词与衍生食材）
+}
+
+// 明显的衍生食材：键为词表英文名，值为词表英文名或额外写法（中英文均可）
+const DERIVATIVES: Record<string, string[]> = {
+  Pork: ['Pork Belly', 'Pork Tenderloin', 'Pork Shoulder', 'Pork Chops', 'Minced Pork', 'Ribs', 'Bacon', 'Ham', 'Sausages', 'lard', 'pancetta', 'prosciutto', 'chorizo', 'salami', 'pepperoni', '猪油', '腊肉', '肥肠', '猪蹄'],
+  Beef: ['Beef Brisket', 'Minced Beef', 'Steak', 'Beef Stock', 'oxtail', 'veal', '牛腩', '牛排'],
+  Chicken: ['Chicken Breast', 'Chicken Thighs', 'Chicken Wings', 'Chicken Stock', '鸡精'],
+  Lamb: ['Lamb Shoulder', 'Lamb Mince', 'Lamb Stock', '羊排'],
+  Egg: ['Egg Yolks', 'Egg White', 'mayonnaise', 'meringue', '皮蛋', '鸭蛋', '咸蛋', '蛋液'],
+  Milk: ['Butter', 'Double Cream', 'Yogurt', 'Cheese', 'Parmesan', 'Mozzarella', 'cream', 'condensed milk', '奶油', '炼乳'],
+  Cheese: ['Parmesan', 'Mozzarella', 'cheddar', 'feta', 'ricotta', 'mascarpone'],
+  Prawns: ['shrimp paste', '虾皮', '虾米'],
+  Tomatoes: ['Chopped Tomatoes', 'Tomato Puree', 'Tomato Ketchup', '番茄酱'],
+  Mushrooms: ['Shiitake Mushrooms', 'Wood Ear Mushrooms', 'Enoki Mushrooms'],
+  'Red Chilli': ['Green Chillies', 'Dried Chillies', 'Chilli Powder', 'Red Chilli Flakes', 'Chopped Chillies', 'Pickled Chillies', 'Chilli Bean Paste', '辣椒'],
+  'Soy Sauce': ['Dark Soy Sauce'],
+  Peanuts: ['peanut butter', 'peanut oil', '花生酱', '花生油'],
+};
+
+const CJK = /[\u4e00-\u9fa5]/;
+
+// 转义正则特殊字符
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 单个写法的匹配规则：中文按子串，英文按整词（兼容 s / es 复数；"egg" 不命中 "Eggplant"，"salt" 不命中 "Unsalted Butter"）
+ * @param term - 食材写法（中英文均可）
+ * @returns 用于匹配食材名的正则
+ */
+export function termPattern(term: string): RegExp {
+  const text = normalize(term);
+  if (CJK.test(text)) return new RegExp(escapeRegExp(text));
+  const forms = Array.from(new Set([text, singular(text)])).map(escapeRegExp);
+  return new RegExp(`\\b(?:${forms.join('|')})(?:s|es)?\\b`, 'i');
+}
+
+// 某个写法对应的全部写法：命中词表时为规范中英文名 + 同义词（去掉单字中文），否则为原文
+function namesOf(term: string): string[] {
+  const entry = findIngredient(term);
+  if (!entry) return [term];
+  return [entry.en, entry.zh, ...entry.synonyms].filter((name) => !CJK.test(name) || name.length > 1);
+}
+
+/**
+ * 展开一个忌口食材：原文 + 译文 + 词表同义词 + 衍生食材
+ * @param original - 用户原始输入（中英文均可）
+ * @param translated - 英文译文（与原文相同时表示无需翻译）
+ * @returns 忌口食材及其匹配规则
+ */
+export function expandExclusion(original: string, translated: string): ExcludedTerm {
+  const names = new Set<string>([original]);
+  const entries = [findIngredient(original), findIngredient(translated)];
+  if (!entries.some(Boolean)) names.add(translated);
+  for (const entry of entries) {
+    if (!entry) continue;
+    for (const name of [entry.en, ...(DERIVATIVES[entry.en] ?? [])]) namesOf(name).forEach((n) => names.add(n));
+  }
+  return { original, patterns: Array.from(names).filter((name) => name.trim()).map(termPattern) };
+}
+
+/**
+ * 找出菜谱中命中的忌口食材
+ * @param ingredients - 菜谱食材列表（翻译前的原文）
+ * @param terms - 忌口食材
+ * @returns 命中的忌口食材（用户原始输入）
+ */
+export function excludedIn(ingredients: IngredientItem[], terms: ExcludedTerm[]): string[] {
+  const names = ingredients.map((item) => item.ingredient.toLowerCase());
+  return terms
+    .filter((term) => names.some((name) => term.patterns.some((pattern) => pattern.test(name))))
+    .map((term) => term.original);
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { editDistance, fuzzyLimit, matchScore, normalizeName, toPinyin } from './fuzzy';
+
+describe('normalizeName', () => {
+  it('小写、去掉变音符号与标点', () => {
+    assert.equal(normalizeName('  Crème Brûlée! '), 'creme brulee');
+    assert.equal(normalizeName('Stir-fry（番茄）'), 'stir fry 番茄');
+  });
+});
+
+describe('editDistance', () => {
+  it('相邻字符互换计为一次编辑', () => {
+    assert.equal(editDistance('onoin', 'onion', 1), 1);
+    assert.equal(editDistance('宫爆', '宫保', 1), 1);
+  });
+
+  it('超过上限时返回 limit + 1', () => {
+    assert.equal(editDistance('abcdef', 'uvwxyz', 2), 3);
+    assert.equal(editDistance('a', 'abcdef', 2), 3);
+  });
+});
+
+describe('fuzzyLimit', () => {
+  it('少于 4 个字符不容错，之后每 4 个字符允许一次编辑', () => {
+    assert.equal(fuzzyLimit(3), 0);
+    assert.equal(fuzzyLimit(4), 1);
+    assert.equal(fuzzyLimit(8), 2);
+  });
+});
+
+describe('toPinyin', () => {
+  it('生成全拼与首字母', () => {
+    assert.deepEqual(toPinyin('宫保鸡丁'), { full: 'gongbaojiding', initials: 'gbjd' });
+  });
+
+  it('不含汉字时返回 null', () => {
+    assert.equal(toPinyin('abc'), null);
+  });
+});
+
+describe('matchScore', () => {
+  it('按完全一致、前缀、词首、包含、多词、近似依次降低', () => {
+    assert.equal(matchScore('chicken', 'chicken'), 1);
+    assert.equal(matchScore('chick', 'chicken curry'), 0.9);
+    assert.equal(matchScore('curry', 'chicken curry'), 0.8);
+    assert.equal(matchScore('cken', 'chicken'), 0.7);
+    assert.equal(matchScore('tomato egg', 'stir fried tomatoes and eggs'), 0.65);
+    assert.equal(matchScore('chiken', 'chicken'), 0.5);
+  });
+
+  it('不匹配时为 0', () => {
+    assert.equal(matchScore('beef', 'chicken'), 0);
+    assert.equal(matchScore('', 'chicken'), 0);
+  });
+
+  it('prefixOnly 只接受完全一致与前缀', () => {
+    assert.equal(matchScore('gbj', 'gbjd', { prefixOnly: true }), 0.9);
+    assert.equal(matchScore('bjd', 'gbjd', { prefixOnly: true }), 0);
+  });
+});
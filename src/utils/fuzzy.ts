@@ -0,0 +1,111 @@
+// 模糊匹配：编辑距离、拼音转换与名称匹配评分（菜名检索与筛选取值校验共用）
+// 设计要点：
+// 1. 编辑距离把相邻字母互换计为一次编辑（"onoin" → "onion"、"宫爆" → "宫保"），超过上限时提前结束
+// 2. 容错上限按输入长度计算：少于 4 个字符不做容错，之后每 4 个字符允许一次编辑
+// 3. 汉字按内置拼音表（src/data/pinyin-table.ts）转为全拼与首字母，含未收录汉字时不生成拼音
+// 4. 评分从高到低：完全一致 > 前缀 > 词首 > 包含 > 多个词各自命中（"tomato egg"） > 近似（整体、同长前缀或单个词的编辑距离在上限内）
+import { PINYIN_TABLE } from '../data/pinyin-table';
+
+const CJK = /[\u4e00-\u9fa5]/;
+
+/**
+ * 规范化：小写、去掉变音符号（"crème" → "creme"）与标点、合并空白
+ * @param text - 原文
+ * @returns 规范化后的文本
+ */
+export function normalizeName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u4e00-\u9fa5]+/g, ' ')
+    .trim();
+}
+
+/**
+ * 编辑距离（相邻字符互换计为一次编辑）
+ * @param a - 文本 a
+ * @param b - 文本 b
+ * @param limit - 上限，超过时提前返回 limit + 1
+ * @returns 编辑距离（不超过 limit + 1）
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) row[j] = Math.min(row[j], before[j - 2] + 1);
+    }
+    // 下一行只能由本行或上一行（互换）推出，二者都超出 limit 时结果必然超出
+    if (Math.min(...row, ...prev.map((v) => v + 1)) > limit) return limit + 1;
+    before = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * 允许的编辑次数：少于 4 个字符不容错，之后每 4 个字符允许一次
+ * @param length - 输入长度（规范化后，不含空格）
+ */
+export function fuzzyLimit(length: number): number {
+  return Math.floor(length / 4);
+}
+
+/**
+ * 汉字转拼音
+ * @param text - 名称（汉字之外的字母、数字原样保留为一个音节）
+ * @returns 全拼（"gongbaojiding"）与首字母（"gbjd"）；不含汉字或含未收录汉字时返回 null
+ */
+export function toPinyin(text: string): { full: string; initials: string } | null {
+  if (!CJK.test(text)) return null;
+  const syllables: string[] = [];
+  for (const token of normalizeName(text).match(/[\u4e00-\u9fa5]|[a-z0-9]+/g) ?? []) {
+    const syllable = CJK.test(token) ? PINYIN_TABLE[token] : token;
+    if (!syllable) return null;
+    syllables.push(syllable);
+  }
+  return { full: syllables.join(''), initials: syllables.map((s) => s[0]).join('') };
+}
+
+// 单个词是否命中：词首一致，或编辑距离在上限内
+function wordMatches(term: string, word: string): boolean {
+  const limit = fuzzyLimit(term.length);
+  return word.startsWith(term) || (limit > 0 && editDistance(term, word, limit) <= limit);
+}
+
+/**
+ * 名称匹配评分
+ * @param query - 查询（已规范化）
+ * @param candidate - 候选名称（已规范化）
+ * @param options - prefixOnly：只接受完全一致与前缀（用于拼音首字母这类短写法）
+ * @returns 0-1 的分数，不匹配时为 0
+ */
+export function matchScore(query: string, candidate: string, options: { prefixOnly?: boolean } = {}): number {
+  const q = query.replace(/\s+/g, '');
+  const c = candidate.replace(/\s+/g, '');
+  if (!q || !c) return 0;
+  if (q === c) return 1;
+  if (c.startsWith(q)) return 0.9;
+  if (options.prefixOnly) return 0;
+  const words = candidate.split(' ');
+  if (words.some((word) => word.startsWith(query))) return 0.8;
+  if (c.includes(q)) return 0.7;
+  const terms = query.split(' ');
+  if (terms.length > 1 && terms.every((term) => words.some((word) => wordMatches(term, word)))) return 0.65;
+
+  const limit = fuzzyLimit(q.length);
+  if (!limit) return 0;
+  // 整体、与查询同长（允许相差 limit）的前缀、单个词，取最小编辑距离
+  let distance = editDistance(q, c, limit);
+  for (let length = q.length - limit; length <= q.length + limit && distance > 1; length++) {
+    if (length > 0 && length < c.length) distance = Math.min(distance, editDistance(q, c.slice(0, length), limit));
+  }
+  for (const word of words) {
+    if (distance > 1) distance = Math.min(distance, editDistance(query, word, limit));
+  }
+  return distance <= limit ? Math.max(0.1, 0.6 - 0.1 * distance) : 0;
+}
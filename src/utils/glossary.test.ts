@@ -0,0 +1,67 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearGlossaryMisses, findIngredient, getGlossaryMisses, lookupIngredient, normalize, recordGlossaryMiss, singular } from './glossary';
+
+describe('lookupIngredient', () => {
+  it('中文规范名与同义词翻译为英文', () => {
+    assert.equal(lookupIngredient('番茄', 'en-US'), 'Tomatoes');
+    assert.equal(lookupIngredient('西红柿', 'en-US'), 'Tomatoes');
+  });
+
+  it('英文忽略大小写并兼容单复数', () => {
+    assert.equal(lookupIngredient('tomato', 'zh-CN'), '番茄');
+    assert.equal(lookupIngredient('Tomatoes', 'zh-CN'), '番茄');
+    assert.equal(findIngredient('Potatoes')?.zh, '土豆');
+  });
+
+  it('中文修饰前缀查不到时去掉再查', () => {
+    assert.equal(lookupIngredient('新鲜番茄', 'en-US'), 'Tomatoes');
+  });
+
+  it('未收录或词表不覆盖的语言返回 null', () => {
+    assert.equal(lookupIngredient('zzz', 'zh-CN'), null);
+    assert.equal(lookupIngredient('tomato', 'ja-JP'), null);
+  });
+});
+
+describe('normalize / singular', () => {
+  it('合并空白并小写', () => {
+    assert.equal(normalize('  Spring   Onion '), 'spring onion');
+  });
+
+  it('按词表的单复数规则还原单数', () => {
+    assert.equal(singular('cherries'), 'cherry');
+    assert.equal(singular('tomatoes'), 'tomato');
+    assert.equal(singular('dishes'), 'dish');
+    assert.equal(singular('eggs'), 'egg');
+    assert.equal(singular('glass'), 'glass');
+  });
+});
+
+describe('recordGlossaryMiss', () => {
+  afterEach(() => clearGlossaryMisses());
+
+  it('按语言与规范化原文累计次数，次数多的在前', () => {
+    recordGlossaryMiss('Dragon Fruit', 'zh-CN');
+    recordGlossaryMiss('yuzu', 'zh-CN');
+    recordGlossaryMiss(' dragon  fruit ', 'zh-CN');
+    recordGlossaryMiss('Dragon Fruit', 'en-US');
+    assert.deepEqual(getGlossaryMisses(), [
+      { text: 'Dragon Fruit', targetLang: 'zh-CN', count: 2 },
+      { text: 'yuzu', targetLang: 'zh-CN', count: 1 },
+      { text: 'Dragon Fruit', targetLang: 'en-US', count: 1 },
+    ]);
+  });
+
+  it('不逐条打日志', () => {
+    const logged: unknown[] = [];
+    const info = console.info;
+    console.info = (...args: unknown[]) => { logged.push(args); };
+    try {
+      recordGlossaryMiss('yuzu', 'zh-CN');
+    } finally {
+      console.info = info;
+    }
+    assert.equal(logged.length, 0);
+  });
+});
@@ -0,0 +1,132 @@
+// 食材词表查询：基于内置中英双语词表（src/data/ingredient-glossary.ts）离线翻译食材名
+// 设计要点：
+// 1. 中文 -> 英文：命中规范中文名或任一中文同义词（"西红柿" / "番茄" -> Tomatoes）
+// 2. 英文 -> 中文：忽略大小写，兼容单复数（"Tomato" / "tomatoes" -> 番茄）
+// 3. 未命中的词记录为缺失词（进程内累计次数，不逐条打日志），经 getGlossaryMisses 读取，供补充词表时参考
+import { INGREDIENT_GLOSSARY, type GlossaryEntry } from '../data/ingredient-glossary';
+import type { LocaleCode } from '../constants/locales';
+
+/**
+ * 词表缺失记录
+ */
+export interface GlossaryMiss {
+  text: string; // 未命中的原文
+  targetLang: LocaleCode; // 需要翻译到的语言
+  count: number; // 累计未命中次数
+}
+
+// 中文修饰前缀：查不到时去掉再查一次（"新鲜番茄" -> 番茄）
+const ZH_PREFIXES = ['新鲜', '冷冻', '有机', '进口', '鲜'];
+
+/**
+ * 规范化：去首尾空白、合并空白、小写（中文不受影响）
+ */
+export function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * 英文单数形式（词表兼容单复数的规则，其他模块比较英文食材名时共用）
+ */
+export function singular(text: string): string {
+  if (text.endsWith('ies')) return `${text.slice(0, -3)}y`;
+  if (text.endsWith('oes') || text.endsWith('ches') || text.endsWith('shes')) return text.slice(0, -2);
+  if (text.endsWith('s') && !text.endsWith('ss')) return text.slice(0, -1);
+  return text;
+}
+
+// 构建查找表：中文名 -> 条目；英文名（原形 + 单数）-> 条目
+function buildIndex(entries: GlossaryEntry[]) {
+  const zh = new Map<string, GlossaryEntry>();
+  const en = new Map<string, GlossaryEntry>();
+  const add = (map: Map<string, GlossaryEntry>, key: string, entry: GlossaryEntry) => {
+    if (key && !map.has(key)) map.set(key, entry);
+  };
+  for (const entry of entries) {
+    add(zh, normalize(entry.zh), entry);
+    add(en, normalize(entry.en), entry);
+    add(en, singular(normalize(entry.en)), entry);
+  }
+  // 同义词在规范名之后加入，避免覆盖其他条目的规范名
+  for (const entry of entries) {
+    for (const synonym of entry.synonyms) {
+      const key = normalize(synonym);
+      if (/[\u4e00-\u9fa5]/.test(key)) {
+        add(zh, key, entry);
+      } else {
+        add(en, key, entry);
+        add(en, singular(key), entry);
+      }
+    }
+  }
+  return { zh, en };
+}
+
+const INDEX = buildIndex(INGREDIENT_GLOSSARY);
+const misses = new Map<string, GlossaryMiss>();
+
+/**
+ * 在词表中查找食材条目
+ * @param text - 食材名（中英文均可）
+ * @returns 词表条目，未收录时返回 null
+ */
+export function findIngredient(text: string): GlossaryEntry | null {
+  const key = normalize(text || '');
+  if (!key) return null;
+  if (/[\u4e00-\u9fa5]/.test(key)) {
+    const exact = INDEX.zh.get(key);
+    if (exact) return exact;
+    const prefix = ZH_PREFIXES.find((p) => key.startsWith(p) && key.length > p.length);
+    return prefix ? INDEX.zh.get(key.slice(prefix.length)) || null : null;
+  }
+  return INDEX.en.get(key) || INDEX.en.get(singular(key)) || null;
+}
+
+/**
+ * 词表是否覆盖该语言（当前收录简体中文与英文）
+ */
+export function isGlossaryLocale(lang: LocaleCode): lang is 'zh-CN' | 'en-US' {
+  return lang === 'zh-CN' || lang === 'en-US';
+}
+
+/**
+ * 使用词表翻译食材名
+ * @param text - 食材名
+ * @param targetLang - 目标语言
+ * @returns 译文，未收录或词表不覆盖该语言时返回 null
+ */
+export function lookupIngredient(text: string, targetLang: LocaleCode): string | null {
+  if (!isGlossaryLocale(targetLang)) return null;
+  const entry = findIngredient(text);
+  if (!entry) return null;
+  return targetLang === 'zh-CN' ? entry.zh : entry.en;
+}
+
+/**
+ * 记录一次词表未命中
+ * @param text - 未命中的原文
+ * @param targetLang - 目标语言
+ */
+export function recordGlossaryMiss(text: string, targetLang: LocaleCode): void {
+  const key = `${targetLang}:${normalize(text)}`;
+  const miss = misses.get(key);
+  if (miss) {
+    miss.count += 1;
+    return;
+  }
+  misses.set(key, { text: text.trim(), targetLang, count: 1 });
+}
+
+/**
+ * 获取词表缺失记录（按未命中次数降序）
+ */
+export function getGlossaryMisses(): GlossaryMiss[] {
+  return Array.from(misses.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * 清空词表缺失记录
+ */
+export function clearGlossaryMisses(): void {
+  misses.clear();
+}
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { LOCALE_CONTEXT_KEY, createLocaleContext, localeFromContext } from './language';
+
+describe('createLocaleContext / localeFromContext', () => {
+  it('请求语言写入 RuntimeContext 并原样读出', () => {
+    const context = createLocaleContext('ko-KR');
+    assert.equal(context.get(LOCALE_CONTEXT_KEY), 'ko-KR');
+    assert.equal(localeFromContext(context), 'ko-KR');
+  });
+
+  it('未指定语言时使用默认语言', () => {
+    assert.equal(localeFromContext(createLocaleContext()), 'zh-CN');
+    assert.equal(localeFromContext(undefined), 'zh-CN');
+    assert.equal(localeFromContext(new RuntimeContext()), 'zh-CN');
+  });
+
+  it('接受 JSON 形式的普通对象与语言别名', () => {
+    assert.equal(localeFromContext({ locale: 'ja' }), 'ja-JP');
+    assert.equal(localeFromContext({ locale: 'fr-FR' }), 'zh-CN');
+  });
+
+  it('并发请求的上下文互不影响', () => {
+    const a = createLocaleContext('en-US');
+    const b = createLocaleContext('zh-TW');
+    assert.equal(localeFromContext(a), 'en-US');
+    assert.equal(localeFromContext(b), 'zh-TW');
+  });
+});
@@ -1,7 +1,38 @@
-// 全局语言设置，默认中文
-// 在每次 API 请求时根据前端传入的 language 参数动态设置
-const LANGUAGE = {
-    val: 'zh-CN' as 'zh-CN' | 'en-US'
-};
+// 请求级语言上下文（取代原先的全局 LANGUAGE 单例）
+// 设计要点：
+// 1. 语言在每个请求入口解析一次，之后显式传给 getRecipes / handleChat / MESSAGES / recipeTool
+// 2. Agent 指令为动态指令：从 RuntimeContext 的 locale 读取语言，并发请求之间互不影响
+// 3. 未设置 locale 时回退到默认语言（constants/locales.ts）
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { DEFAULT_LOCALE, resolveLocale, type LocaleCode } from '../constants/locales';
 
-export default LANGUAGE;
\ No newline at end of file
+/**
+ * RuntimeContext 中存放语言代码的键
+ */
+export const LOCALE_CONTEXT_KEY = 'locale';
+
+/**
+ * 携带语言信息的 RuntimeContext 取值类型
+ */
+export type LocaleContextValues = { locale: LocaleCode };
+
+/**
+ * 为一次请求创建携带语言信息的 RuntimeContext
+ * @param locale - 请求语言，未指定时使用默认语言
+ */
+export function createLocaleContext(locale: LocaleCode = DEFAULT_LOCALE): RuntimeContext<LocaleContextValues> {
+  return new RuntimeContext<LocaleContextValues>([[LOCALE_CONTEXT_KEY, locale]]);
+}
+
+/**
+ * 从 RuntimeContext（或其 JSON 形式的普通对象）中读取语言
+ * @param runtimeContext - Agent / 工具 / 工作流收到的运行时上下文
+ * @returns 语言代码，未设置或无法识别时返回默认语言
+ */
+export function localeFromContext(runtimeContext?: unknown): LocaleCode {
+  if (!runtimeContext || typeof runtimeContext !== 'object') return DEFAULT_LOCALE;
+  const value = runtimeContext instanceof RuntimeContext
+    ? runtimeContext.get(LOCALE_CONTEXT_KEY)
+    : (runtimeContext as Record<string, unknown>)[LOCALE_CONTEXT_KEY];
+  return resolveLocale(value) ?? DEFAULT_LOCALE;
+}
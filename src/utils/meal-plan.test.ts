@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WEEKDAYS, mainProtein, planWeek, type MealCandidate } from './meal-plan';
+
+const candidate = (id: string, ingredients: string[], totalMinutes = 30, instructions = 'Stir fry over high heat.'): MealCandidate => ({
+  id, name: id, thumbnail: null, category: null, totalMinutes, ingredients, instructions,
+});
+
+const PROTEINS = ['chicken breast', 'beef', 'pork belly', 'lamb', 'salmon', 'prawns', 'tofu', 'duck'];
+const breakfasts = WEEKDAYS.map((day) => candidate(`oats-${day}`, ['oats'], 10));
+const mains = (prefix: string, minutes = 30) =>
+  PROTEINS.flatMap((protein, i) => [candidate(`${prefix}-${i}a`, [protein, 'onion']), candidate(`${prefix}-${i}b`, [protein, 'garlic'], minutes)]);
+
+describe('mainProtein', () => {
+  it('肉禽水产优先于豆腐，其次为鸡蛋', () => {
+    assert.equal(mainProtein({ ingredients: ['eggs', 'chicken thighs'], category: null }), 'chicken');
+    assert.equal(mainProtein({ ingredients: ['鸡蛋', '豆腐'], category: null }), 'tofu');
+    assert.equal(mainProtein({ ingredients: ['鸡蛋', '番茄'], category: null }), 'egg');
+  });
+
+  it('调味品不计，食材未命中时按类别判断', () => {
+    assert.equal(mainProtein({ ingredients: ['鱼露', '鸡精', '豆腐'], category: null }), 'tofu');
+    assert.equal(mainProtein({ ingredients: ['rice'], category: 'Seafood' }), 'fish');
+    assert.equal(mainProtein({ ingredients: ['rice'], category: null }), 'none');
+  });
+});
+
+describe('planWeek', () => {
+  it('排出周一至周日三餐，同一道菜不重复，正餐蛋白质不与前一天及当天重复', () => {
+    const days = planWeek({ breakfast: breakfasts, mains: [{ cuisine: null, recipes: mains('m') }] }, { leftovers: false });
+    assert.deepEqual(days.map((d) => d.day), WEEKDAYS);
+    const meals = days.flatMap((d) => d.meals.filter((m) => m.meal !== 'breakfast'));
+    assert.equal(meals.length, 14);
+    assert.equal(new Set(meals.map((m) => m.recipe.id)).size, 14);
+    days.forEach((day, d) => {
+      const proteins = [...(days[d - 1]?.meals ?? []), ...day.meals].filter((m) => m.meal !== 'breakfast').map((m) => m.protein);
+      assert.equal(new Set(proteins).size, proteins.length);
+    });
+    assert.ok(meals.every((m) => !m.relaxedConstraints.length));
+  });
+
+  it('没有早餐类菜谱时取最快的正餐，并记下放宽的约束', () => {
+    const [monday] = planWeek({ breakfast: [], mains: [{ cuisine: null, recipes: [...mains('m'), candidate('quick', ['eggs'], 5)] }] });
+    const breakfast = monday.meals.find((m) => m.meal === 'breakfast');
+    assert.equal(breakfast?.recipe.id, 'quick');
+    assert.deepEqual(breakfast?.relaxedConstraints, ['breakfast']);
+  });
+
+  it('按星期的时间预算：未指定的星期不限，没有候选满足时放宽并记下 timeBudget', () => {
+    const days = planWeek({ breakfast: breakfasts, mains: [{ cuisine: null, recipes: mains('m', 90) }] }, { timeBudget: { sat: 60, sun: 20 }, leftovers: false });
+    assert.equal(days[0].timeBudget, null);
+    const saturday = days.find((d) => d.day === 'sat')!;
+    assert.ok(saturday.meals.every((m) => (m.recipe.totalMinutes ?? 0) <= 60));
+    const sunday = days.find((d) => d.day === 'sun')!;
+    const sundayMains = sunday.meals.filter((m) => m.meal !== 'breakfast');
+    assert.ok(sundayMains.every((m) => m.relaxedConstraints.includes('timeBudget')));
+    assert.ok(days.slice(0, 5).every((d) => d.meals.every((m) => !m.relaxedConstraints.includes('timeBudget'))));
+  });
+
+  it('午餐与晚餐按菜系分组轮换', () => {
+    const days = planWeek({ breakfast: [], mains: [{ cuisine: 'Chinese', recipes: mains('cn') }, { cuisine: 'Italian', recipes: mains('it') }] }, { leftovers: false });
+    const cuisines = days.flatMap((d) => d.meals.filter((m) => m.meal !== 'breakfast').map((m) => m.cuisine));
+    assert.deepEqual(cuisines.slice(0, 4), ['Chinese', 'Italian', 'Chinese', 'Italian']);
+  });
+
+  it('工作日午餐沿用前一天的炖煮类晚餐', () => {
+    const stew = candidate('stew', ['beef', 'carrots'], 120, 'Braise gently for two hours.');
+    const days = planWeek({ breakfast: breakfasts, mains: [{ cuisine: null, recipes: [candidate('salad', ['chicken breast', 'lettuce']), stew] }] });
+    const monday = days[0];
+    const tuesday = days[1];
+    assert.equal(monday.meals.find((m) => m.meal === 'dinner')?.recipe.id, 'stew');
+    assert.equal(monday.meals.find((m) => m.meal === 'dinner')?.makesLeftovers, true);
+    const lunch = tuesday.meals.find((m) => m.meal === 'lunch');
+    assert.equal(lunch?.recipe.id, 'stew');
+    assert.equal(lunch?.leftover, true);
+    assert.equal(lunch?.leftoverFrom, 'mon');
+  });
+});
@@ -0,0 +1,265 @@
+// 一周菜单：从候选菜谱中为周一至周日排出早餐 / 午餐 / 晚餐，供 meal-plan 工作流与 POST /api/meal-plan 使用
+// 设计要点：
+// 1. 纯规则排菜，不调用 LLM：候选菜谱由调用方按菜系（或主料类别）分组取得，午餐与晚餐按分组轮换菜系，早餐优先取早餐类菜谱，没有时取总时长最短的正餐
+// 2. 约束：同一道菜一周只出现一次；午餐与晚餐的主要蛋白质（识别规则见 mainProtein）不与前一天及当天已排的正餐重复；总时长不超过当天的时间预算
+//    排不出时依次放宽蛋白质、时间预算（改为取最快的）与不重复，实际违反的约束记在该餐的 relaxedConstraints 中
+// 3. 满足约束的候选中，优先与本周已排菜谱共用生鲜食材（蔬果、肉禽、水产、蛋奶豆制品）最多的，减少采购种类与剩余食材
+// 4. 剩菜：工作日午餐沿用前一天的炖煮类晚餐（见 utils/substitution.ts 的 cookingContexts），该晚餐标记 makesLeftovers，由调用方按双份采购
+import type { Difficulty, MainProtein, MealSlot, Weekday } from '../types';
+import { findIngredient, normalize, singular } from './glossary';
+import { storeSection } from './shopping-list';
+import { cookingContexts } from './substitution';
+
+/**
+ * 一周的星期（固定顺序，周一开始）
+ */
+export const WEEKDAYS: [Weekday, ...Weekday[]] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * 一天的餐次（固定顺序）
+ */
+export const MEAL_SLOTS: [MealSlot, ...MealSlot[]] = ['breakfast', 'lunch', 'dinner'];
+
+/**
+ * 全部主要蛋白质（固定顺序）
+ */
+export const MAIN_PROTEINS: [MainProtein, ...MainProtein[]] = ['chicken', 'duck', 'beef', 'pork', 'lamb', 'fish', 'shellfish', 'tofu', 'egg', 'legumes', 'none'];
+
+/**
+ * 排菜时放宽的约束：breakfast=早餐改用正餐菜谱，protein=主要蛋白质与前一天或当天重复，timeBudget=超出时间预算，repeat=重复已排的菜
+ */
+export type MealPlanRelaxation = 'breakfast' | 'protein' | 'timeBudget' | 'repeat';
+
+/**
+ * 全部放宽约束（固定顺序）
+ */
+export const MEAL_PLAN_RELAXATIONS: [MealPlanRelaxation, ...MealPlanRelaxation[]] = ['breakfast', 'protein', 'timeBudget', 'repeat'];
+
+/**
+ * 候选菜谱（排菜只用到的字段；食材名与做法为中文或英文）
+ */
+export interface MealCandidate {
+  id: string;
+  name: string;
+  source?: string;
+  thumbnail: string | null;
+  category: string | null;
+  totalMinutes?: number; // 估算总时长（分钟），未知时视为满足时间预算
+  difficulty?: Difficulty;
+  ingredients: string[]; // 食材名
+  instructions: string | null;
+}
+
+/**
+ * 候选菜谱池：早餐一组，正餐按菜系分组（未指定菜系时只有一组，cuisine 为 null）
+ */
+export interface MealPools {
+  breakfast: MealCandidate[];
+  mains: Array<{ cuisine: string | null; recipes: MealCandidate[] }>;
+}
+
+/**
+ * 排菜选项
+ */
+export interface MealPlanOptions {
+  timeBudget?: number | Partial<Record<Weekday, number>>; // 每餐可用时间（分钟）：统一的数值，或按星期分别指定（未指定的星期不限）
+  leftovers?: boolean; // 是否允许工作日午餐沿用前一天的晚餐（默认允许）
+}
+
+/**
+ * 排好的一餐
+ */
+export interface PlannedMeal {
+  meal: MealSlot;
+  recipe: MealCandidate;
+  cuisine: string | null; // 取自哪个菜系分组（早餐与未指定菜系时为 null）
+  protein: MainProtein;
+  leftover: boolean; // 是否为前一天晚餐的剩菜（无需另做）
+  leftoverFrom?: Weekday; // 剩菜来自哪一天的晚餐
+  makesLeftovers: boolean; // 是否多做一份留作第二天的午餐
+  relaxedConstraints: MealPlanRelaxation[];
+}
+
+/**
+ * 排好的一天
+ */
+export interface PlannedDay {
+  day: Weekday;
+  timeBudget: number | null; // 当天每餐的时间预算（分钟），未指定时为 null
+  meals: PlannedMeal[]; // 按餐次顺序；候选菜谱池为空的餐次省略
+}
+
+// 工作日（午餐可沿用前一天晚餐的剩菜）
+const WORKDAYS = new Set<Weekday>(['mon', 'tue', 'wed', 'thu', 'fri']);
+
+// 主要蛋白质识别规则（英文按整词匹配，中文按子串匹配）与优先级：肉禽水产 0，豆腐与豆类 1，鸡蛋 2
+const PROTEIN_RULES: Array<[Exclude<MainProtein, 'none'>, number, RegExp]> = [
+  ['shellfish', 0, /\b(?:prawns?|shrimps?|crabs?|lobsters?|mussels?|clams?|oysters?|scallops?|squid|octopus)\b|虾|蟹|贝|蛤|鱿|蚝|海参/i],
+  ['fish', 0, /\b(?:fish|salmon|tuna|cod|haddock|anchov(?:y|ies)|sardines?|mackerel|trout|sea bass|monkfish|tilapia)\b|鱼/i],
+  ['chicken', 0, /\b(?:chicken|turkey)\b|鸡(?!蛋)/i],
+  ['duck', 0, /\bduck\b|鸭(?!蛋)/i],
+  ['beef', 0, /\b(?:beef|steak|oxtail|veal|brisket)\b|牛(?!奶|乳|油果)/i],
+  ['pork', 0, /\b(?:pork|bacon|ham|sausages?|chorizo|pancetta|prosciutto|salami|gammon)\b|猪|排骨|五花|培根|火腿|腊肠|香肠|里脊/i],
+  ['lamb', 0, /\b(?:lamb|mutton|goat)\b|羊(?!奶)/i],
+  ['tofu', 1, /\b(?:tofu|tempeh|seitan)\b|豆腐|腐竹|千张/i],
+  ['legumes', 1, /\b(?:lentils|chickpeas|kidney beans|black beans|butter beans|cannellini beans|haricot beans|pinto beans)\b|黄豆|黑豆|红豆|绿豆|鹰嘴豆|芸豆|毛豆/i],
+  ['egg', 2, /\beggs?\b|蛋/i],
+];
+
+// 类别兜底（食材未命中时）：TheMealDB 类别与对应的中文写法
+const CATEGORY_PROTEINS: Array<[Exclude<MainProtein, 'none'>, RegExp]> = [
+  ['chicken', /\bchicken\b|鸡/i],
+  ['beef', /\bbeef\b|牛/i],
+  ['pork', /\bpork\b|猪/i],
+  ['lamb', /\b(?:lamb|goat)\b|羊/i],
+  ['fish', /\bseafood\b|海鲜/i],
+];
+
+/**
+ * 识别菜谱的主要蛋白质：按食材逐项匹配（调味品如鱼露、鸡精、高汤不计），肉禽水产优先于豆制品与豆类，其次为鸡蛋；同级取食材表中靠前的
+ * @param recipe - 菜谱（食材名与类别为中文或英文）
+ * @returns 主要蛋白质；食材都未命中时按类别判断，仍未命中为 none
+ */
+export function mainProtein(recipe: Pick<MealCandidate, 'ingredients' | 'category'>): MainProtein {
+  let best: { protein: MainProtein; tier: number } = { protein: 'none', tier: Infinity };
+  for (const name of recipe.ingredients) {
+    const canonical = findIngredient(name)?.en;
+    const names = canonical ? [name, canonical] : [name];
+    if (storeSection(names) === 'condiments') continue;
+    const rule = PROTEIN_RULES.find(([, , pattern]) => names.some((n) => pattern.test(n)));
+    if (rule && rule[1] < best.tier) best = { protein: rule[0], tier: rule[1] };
+  }
+  if (best.protein !== 'none') return best.protein;
+  const category = recipe.category ?? '';
+  return CATEGORY_PROTEINS.find(([, pattern]) => pattern.test(category))?.[0] ?? 'none';
+}
+
+// 排菜用到的菜谱特征
+interface CandidateFacts {
+  protein: MainProtein;
+  fresh: Set<string>; // 生鲜食材的比较键（词表规范名，未收录时为单数形式）
+  braised: boolean; // 是否为炖煮类（适合多做一份留作剩菜）
+}
+
+// 参与共用食材计分的超市分区
+const FRESH_SECTIONS = new Set(['produce', 'meat', 'seafood', 'dairy']);
+
+function factsOf(recipe: MealCandidate): CandidateFacts {
+  const fresh = new Set<string>();
+  for (const name of recipe.ingredients) {
+    const canonical = findIngredient(name)?.en;
+    if (FRESH_SECTIONS.has(storeSection(canonical ? [name, canonical] : [name]))) fresh.add(singular(normalize(canonical ?? name)));
+  }
+  return {
+    protein: mainProtein(recipe),
+    fresh,
+    braised: cookingContexts(recipe).includes('braising'),
+  };
+}
+
+// 当天的时间预算：统一数值或按星期指定
+function budgetOf(timeBudget: MealPlanOptions['timeBudget'], day: Weekday): number | null {
+  if (typeof timeBudget === 'number') return timeBudget;
+  return timeBudget?.[day] ?? null;
+}
+
+/**
+ * 排出一周菜单
+ * @param pools - 候选菜谱池（早餐一组，正餐按菜系分组；同一菜谱出现在多个分组时按首次出现的分组计）
+ * @param options - 时间预算与是否使用剩菜
+ * @returns 周一至周日的菜单；排不出时放宽的约束记在各餐的 relaxedConstraints 中
+ */
+export function planWeek(pools: MealPools, options: MealPlanOptions = {}): PlannedDay[] {
+  const facts = new Map<string, CandidateFacts>();
+  const factsFor = (recipe: MealCandidate) => {
+    let f = facts.get(recipe.id);
+    if (!f) facts.set(recipe.id, (f = factsOf(recipe)));
+    return f;
+  };
+  const used = new Map<string, number>(); // 已排的菜谱 ID → 次数
+  const stocked = new Set<string>(); // 本周已排菜谱的生鲜食材
+  const mainGroups = pools.mains.filter((group) => group.recipes.length);
+  const allMains = mainGroups.flatMap((group) => group.recipes.map((recipe) => ({ recipe, cuisine: group.cuisine })));
+  let rotation = 0; // 正餐的菜系轮换序号
+  const days: PlannedDay[] = [];
+
+  // 在候选中挑一道：约束从严到宽逐级尝试；同级内满足约束多的在前，其次按已排次数、（需要时）总时长、共用食材数与原顺序排序
+  const pick = (
+    groups: Array<Array<{ recipe: MealCandidate; cuisine: string | null }>>,
+    rules: { avoid: Set<MainProtein>; budget: number | null; quickest: boolean },
+  ) => {
+    const stages: MealPlanRelaxation[][] = [[], ['protein'], ['protein', 'timeBudget'], ['protein', 'timeBudget', 'repeat']];
+    for (const relaxed of stages) {
+      // 不得不重复时不再区分分组，在全部候选中取已排次数最少的
+      for (const group of relaxed.includes('repeat') ? [groups.flat()] : groups) {
+        const fits = group.filter(({ recipe }) => (relaxed.includes('repeat') || !used.has(recipe.id))
+          && (relaxed.includes('protein') || !rules.avoid.has(factsFor(recipe).protein))
+          && (relaxed.includes('timeBudget') || rules.budget === null || (recipe.totalMinutes ?? 0) <= rules.budget));
+        if (!fits.length) continue;
+        const byTime = rules.quickest || relaxed.includes('timeBudget');
+        const shared = (recipe: MealCandidate) => [...factsFor(recipe).fresh].filter((key) => stocked.has(key)).length;
+        const ranked = fits
+          .map((entry, order) => ({
+            entry,
+            order,
+            violations: Number(rules.avoid.has(factsFor(entry.recipe).protein))
+              + Number(rules.budget !== null && (entry.recipe.totalMinutes ?? 0) > rules.budget),
+            uses: used.get(entry.recipe.id) ?? 0,
+            minutes: entry.recipe.totalMinutes ?? Infinity,
+            shared: shared(entry.recipe),
+          }))
+          .sort((a, b) => a.violations - b.violations || a.uses - b.uses
+            || (byTime ? a.minutes - b.minutes : 0) || b.shared - a.shared || a.order - b.order);
+        return ranked[0].entry;
+      }
+    }
+    return null;
+  };
+
+  WEEKDAYS.forEach((day, d) => {
+    const budget = budgetOf(options.timeBudget, day);
+    const yesterday = days[d - 1];
+    const meals: PlannedMeal[] = [];
+    for (const meal of MEAL_SLOTS) {
+      // 工作日午餐：沿用前一天的炖煮类晚餐
+      const dinner = yesterday?.meals.find((m) => m.meal === 'dinner');
+      if (meal === 'lunch' && options.leftovers !== false && WORKDAYS.has(day) && dinner && factsFor(dinner.recipe).braised) {
+        dinner.makesLeftovers = true;
+        meals.push({ ...dinner, meal, leftover: true, leftoverFrom: yesterday.day, makesLeftovers: false, relaxedConstraints: [] });
+        continue;
+      }
+
+      // 早餐不参与蛋白质约束；正餐避开前一天与当天已排正餐的蛋白质
+      const proteins = meal === 'breakfast' ? [] : [...(yesterday?.meals ?? []), ...meals]
+        .filter((m) => m.meal !== 'breakfast')
+        .map((m) => m.protein);
+      const avoid = new Set<MainProtein>(proteins.filter((p) => p !== 'none'));
+      let groups: Array<Array<{ recipe: MealCandidate; cuisine: string | null }>>;
+      if (meal === 'breakfast') {
+        groups = [pools.breakfast.map((recipe) => ({ recipe, cuisine: null })), allMains.map(({ recipe }) => ({ recipe, cuisine: null }))];
+      } else {
+        const start = mainGroups.length ? rotation % mainGroups.length : 0;
+        const ordered = [...mainGroups.slice(start), ...mainGroups.slice(0, start)];
+        groups = ordered.map((group) => group.recipes.map((recipe) => ({ recipe, cuisine: group.cuisine })));
+        if (groups.length > 1) groups = [groups[0], groups.slice(1).flat()];
+      }
+      const chosen = pick(groups, { avoid, budget, quickest: meal === 'breakfast' });
+      if (!chosen) continue;
+      if (meal !== 'breakfast') rotation += 1;
+
+      const { recipe, cuisine } = chosen;
+      const f = factsFor(recipe);
+      const relaxedConstraints = MEAL_PLAN_RELAXATIONS.filter((c) => (
+        c === 'breakfast' ? meal === 'breakfast' && !pools.breakfast.some((r) => r.id === recipe.id)
+          : c === 'protein' ? avoid.has(f.protein)
+            : c === 'timeBudget' ? budget !== null && (recipe.totalMinutes ?? 0) > budget
+              : used.has(recipe.id)
+      ));
+      used.set(recipe.id, (used.get(recipe.id) ?? 0) + 1);
+      for (const key of f.fresh) stocked.add(key);
+      meals.push({ meal, recipe, cuisine, protein: f.protein, leftover: false, makesLeftovers: false, relaxedConstraints });
+    }
+    days.push({ day, timeBudget: budget, meals });
+  });
+  return days;
+}
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { annotateMeasures, convertQuantity, formatQuantity, mergeQuantities, parseMeasure, scaleQuantity, subtractQuantity } from './measure';
+
+describe('parseMeasure', () => {
+  it('解析整数、带分数、Unicode 分数与范围', () => {
+    assert.deepEqual(parseMeasure('200g'), { amount: 200, amountMax: null, unit: 'g', text: '' });
+    assert.deepEqual(parseMeasure('1 1/2 cups'), { amount: 1.5, amountMax: null, unit: 'cup', text: '' });
+    assert.deepEqual(parseMeasure('½ tsp'), { amount: 0.5, amountMax: null, unit: 'tsp', text: '' });
+    assert.deepEqual(parseMeasure('2-3 tbsp'), { amount: 2, amountMax: 3, unit: 'tbsp', text: '' });
+  });
+
+  it('单位别称与中文数字', () => {
+    assert.equal(parseMeasure('2 Tbsp.').unit, 'tbsp');
+    assert.equal(parseMeasure('100 ml').unit, 'ml');
+    assert.deepEqual(parseMeasure('三杯'), { amount: 3, amountMax: null, unit: 'cup', text: '' });
+  });
+
+  it('数量单位之后的说明保留在 text 中（去掉 of）', () => {
+    assert.equal(parseMeasure('3 cups cooked').text, 'cooked');
+    assert.equal(parseMeasure('1/2 cup of milk').text, 'milk');
+    assert.deepEqual(parseMeasure('2 large'), { amount: 2, amountMax: null, unit: null, text: 'large' });
+  });
+
+  it('无法识别数量时原文保留在 text 中', () => {
+    assert.deepEqual(parseMeasure('to taste'), { amount: null, amountMax: null, unit: null, text: 'to taste' });
+  });
+});
+
+describe('convertQuantity', () => {
+  it('英制换算为公制', () => {
+    assert.deepEqual(convertQuantity(parseMeasure('1 cup'), 'metric'), { amount: 240, amountMax: null, unit: 'ml', text: '' });
+    assert.deepEqual(convertQuantity(parseMeasure('1 lb'), 'metric'), { amount: 455, amountMax: null, unit: 'g', text: '' });
+  });
+
+  it('两种单位制通用的单位（勺）不换算', () => {
+    assert.deepEqual(convertQuantity(parseMeasure('2 tbsp'), 'metric'), parseMeasure('2 tbsp'));
+  });
+});
+
+describe('formatQuantity', () => {
+  it('按语言渲染单位，杯等厨房计量单位用分数', () => {
+    const quantity = parseMeasure('1 1/2 cups');
+    assert.equal(formatQuantity(quantity, 'zh-CN'), '1 1/2杯');
+    assert.equal(formatQuantity(quantity, 'en-US'), '1 1/2 cups');
+    assert.equal(formatQuantity(parseMeasure('1 cup'), 'en-US'), '1 cup');
+    assert.equal(formatQuantity(parseMeasure('2 tbsp'), 'ja-JP'), '大さじ2');
+    assert.equal(formatQuantity(parseMeasure('2 tbsp'), 'zh-TW'), '2湯匙');
+  });
+
+  it('没有数量或单位时返回 null', () => {
+    assert.equal(formatQuantity(parseMeasure('to taste'), 'zh-CN'), null);
+    assert.equal(formatQuantity(parseMeasure('2 large'), 'zh-CN'), null);
+  });
+});
+
+describe('annotateMeasures', () => {
+  const annotate = (measure: string, translated = measure) =>
+    annotateMeasures([{ ingredient: 'Rice', measure: translated }], [{ ingredient: 'Rice', measure }], 'zh-CN', 'metric')[0];
+
+  it('换算后的显示用量保留数量单位之后的说明', () => {
+    assert.equal(annotate('3 cups cooked').displayMeasure, '720毫升 cooked');
+    assert.equal(annotate('3 cups cooked', '3杯 煮熟的').displayMeasure, '720毫升 煮熟的');
+    assert.equal(annotate('200g').displayMeasure, '200克');
+  });
+
+  it('不可换算的用量沿用译文', () => {
+    assert.equal(annotate('to taste', '适量').displayMeasure, '适量');
+    assert.equal(annotate('2 large', '2个大的').displayMeasure, '2个大的');
+  });
+});
+
+describe('scaleQuantity', () => {
+  it('按比例缩放数量', () => {
+    assert.deepEqual(scaleQuantity(parseMeasure('2 eggs'), 1.5), { amount: 3, amountMax: null, unit: null, text: 'eggs' });
+    assert.deepEqual(scaleQuantity(parseMeasure('1 tbsp'), 1.5), { amount: 1.5, amountMax: null, unit: 'tbsp', text: '' });
+  });
+
+  it('无效的比例不缩放', () => {
+    assert.deepEqual(scaleQuantity(parseMeasure('1 cup'), 0), parseMeasure('1 cup'));
+  });
+});
+
+describe('annotateMeasures（按份数缩放）', () => {
+  const scaled = (measure: string, factor: number, translated = measure) =>
+    annotateMeasures([{ ingredient: 'Milk', measure: translated }], [{ ingredient: 'Milk', measure }], 'zh-CN', 'metric', factor)[0].displayMeasure;
+
+  it('先缩放再换算，只在显示单位下取整一次', () => {
+    assert.equal(scaled('2 cups', 1.2), '575毫升');
+    assert.equal(scaled('3 cups', 1.2), '865毫升');
+    assert.equal(scaled('2 tbsp', 1.5), '3汤匙');
+  });
+
+  it('不可换算的用量替换译文中的数量', () => {
+    assert.equal(scaled('2 large', 2), '4 large');
+    assert.equal(scaled('2 eggs', 0.5, '2个鸡蛋'), '1个鸡蛋');
+    assert.equal(scaled('to taste', 2, '适量'), '适量');
+  });
+});
+
+describe('mergeQuantities', () => {
+  it('质量换算为同一单位相加，个数类按单位文字相加', () => {
+    assert.deepEqual(mergeQuantities([parseMeasure('200g'), parseMeasure('1 lb')], 'metric'), [{ amount: 655, amountMax: null, unit: 'g', text: '' }]);
+    assert.deepEqual(mergeQuantities([parseMeasure('2 eggs'), parseMeasure('3 eggs')], 'metric'), [{ amount: 5, amountMax: null, unit: null, text: 'eggs' }]);
+  });
+
+  it('质量与体积不相加，分别列出', () => {
+    assert.equal(mergeQuantities([parseMeasure('1 cup'), parseMeasure('100g')], 'metric').length, 2);
+  });
+});
+
+describe('subtractQuantity', () => {
+  it('扣除已有的用量，扣完时为空数组', () => {
+    assert.deepEqual(subtractQuantity([parseMeasure('500g')], parseMeasure('200g'), 'metric'), [{ amount: 300, amountMax: null, unit: 'g', text: '' }]);
+    assert.deepEqual(subtractQuantity([parseMeasure('4 eggs')], parseMeasure('6 eggs'), 'metric'), []);
+  });
+
+  it('无法比较的用量不扣除', () => {
+    assert.deepEqual(subtractQuantity([parseMeasure('1 cup')], parseMeasure('100g'), 'metric'), [parseMeasure('1 cup')]);
+  });
+});
@@ -0,0 +1,426 @@
+// 用量解析与单位换算：把 "1/2 cup"、"2 tbs"、"400g"、"Pinch"、"300克"、"半斤" 等原文解析为结构化用量
+// 设计要点：
+// 1. 解析：数量（整数/小数/分数/带分数/范围/中文数字）+ 单位（中英文别名）+ 其余文字
+// 2. 换算：公制下 cup / oz / lb 等换算为 毫升 / 克；英制下 克 / 毫升 换算为 oz / lb / cup（茶匙、汤匙两种单位制通用，保持不变）
+// 3. 渲染：按语言注册表中的单位模板输出（"120毫升"、"大さじ2"、"1/2 cup"）
+// 4. 个数类用量（"3 cloves"、"2个"）与无数量用量（"to taste"、"适量"）不换算，显示时沿用（已翻译的）原文
+// 5. 缩放：按份数比例缩放用量，个数类保持整数，调料类在 撮 / 茶匙 / 汤匙 之间调整单位
+// 6. 合并：同一食材的多个用量按质量 / 体积 / 个数分别相加，并可扣除已有的用量（购物清单）
+import { localeInfo, type LocaleCode } from '../constants/locales';
+import type { IngredientItem, MeasureUnit, Quantity, UnitSystem } from '../types';
+
+// Unicode 分数字符
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '¼': '1/4', '¾': '3/4', '⅓': '1/3', '⅔': '2/3', '⅛': '1/8',
+};
+
+// 中文数字（仅用于用量开头，如 "半杯"、"两个"、"一小撮"）
+const ZH_NUMERALS: Record<string, number> = {
+  半: 0.5, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+};
+
+// 单位别名 -> [规范单位, 换算系数]；斤、两按克计
+const UNIT_ALIASES: Array<[string, MeasureUnit, number]> = [
+  ['g', 'g', 1], ['gr', 'g', 1], ['gram', 'g', 1], ['grams', 'g', 1], ['克', 'g', 1],
+  ['斤', 'g', 500], ['两', 'g', 50],
+  ['kg', 'kg', 1], ['kilo', 'kg', 1], ['kilos', 'kg', 1], ['kilogram', 'kg', 1], ['kilograms', 'kg', 1],
+  ['千克', 'kg', 1], ['公斤', 'kg', 1],
+  ['ml', 'ml', 1], ['millilitre', 'ml', 1], ['millilitres', 'ml', 1], ['milliliter', 'ml', 1], ['milliliters', 'ml', 1],
+  ['毫升', 'ml', 1],
+  ['l', 'l', 1], ['litre', 'l', 1], ['litres', 'l', 1], ['liter', 'l', 1], ['liters', 'l', 1], ['升', 'l', 1], ['公升', 'l', 1],
+  ['tsp', 'tsp', 1], ['tsps', 'tsp', 1], ['tspn', 'tsp', 1], ['teaspoon', 'tsp', 1], ['teaspoons', 'tsp', 1],
+  ['茶匙', 'tsp', 1], ['小勺', 'tsp', 1], ['小匙', 'tsp', 1],
+  ['tbsp', 'tbsp', 1], ['tbsps', 'tbsp', 1], ['tbs', 'tbsp', 1], ['tbls', 'tbsp', 1], ['tblsp', 'tbsp', 1],
+  ['tablespoon', 'tbsp', 1], ['tablespoons', 'tbsp', 1], ['汤匙', 'tbsp', 1], ['大勺', 'tbsp', 1], ['大匙', 'tbsp', 1], ['勺', 'tbsp', 1],
+  ['cup', 'cup', 1], ['cups', 'cup', 1], ['杯', 'cup', 1],
+  ['fl oz', 'floz', 1], ['fl. oz', 'floz', 1], ['fluid ounce', 'floz', 1], ['fluid ounces', 'floz', 1],
+  ['oz', 'oz', 1], ['ounce', 'oz', 1], ['ounces', 'oz', 1],
+  ['lb', 'lb', 1], ['lbs', 'lb', 1], ['pound', 'lb', 1], ['pounds', 'lb', 1],
+  ['pinch', 'pinch', 1], ['pinches', 'pinch', 1], ['dash', 'pinch', 1], ['撮', 'pinch', 1], ['小撮', 'pinch', 1],
+];
+
+// 长别名优先匹配（"fl oz" 先于 "oz"，"小撮" 先于 "撮"）
+const SORTED_ALIASES = [...UNIT_ALIASES].sort((a, b) => b[0].length - a[0].length);
+
+// 质量以克、体积以毫升为基准的换算系数
+const MASS_IN_GRAMS: Partial<Record<MeasureUnit, number>> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+const VOLUME_IN_ML: Partial<Record<MeasureUnit, number>> = { ml: 1, l: 1000, tsp: 5, tbsp: 15, cup: 240, floz: 30 };
+
+// 各单位的取整步长（换算后使用）
+const ROUNDING_STEP: Record<MeasureUnit, number> = {
+  g: 1, kg: 0.1, ml: 1, l: 0.1, tsp: 0.25, tbsp: 0.25, cup: 0.25, floz: 0.5, oz: 0.5, lb: 0.25, pinch: 1,
+};
+
+// 以分数显示数量的单位（其余单位显示小数）
+const FRACTION_UNITS = new Set<MeasureUnit>(['tsp', 'tbsp', 'cup', 'floz', 'oz', 'lb', 'pinch']);
+
+// 解析数字：整数、小数、分数（1/2）、带分数（1 1/2）
+function readNumber(text: string): { value: number; rest: string } | null {
+  const match = text.match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+)|\s+(\d+)\s*\/\s*(\d+))?/);
+  if (!match) {
+    const numeral = ZH_NUMERALS[text[0]];
+    return numeral !== undefined && text.length > 1 ? { value: numeral, rest: text.slice(1) } : null;
+  }
+  const [whole, first, denominator, numerator, mixedDenominator] = match;
+  let value = Number(first);
+  if (denominator) value = Number(denominator) ? value / Number(denominator) : value;
+  if (numerator && Number(mixedDenominator)) value += Number(numerator) / Number(mixedDenominator);
+  return { value, rest: text.slice(whole.length) };
+}
+
+// 解析单位：英文别名需要完整单词，中文别名直接前缀匹配
+function readUnit(text: string): { unit: MeasureUnit; factor: number; rest: string } | null {
+  const lower = text.toLowerCase();
+  for (const [alias, unit, factor] of SORTED_ALIASES) {
+    if (!lower.startsWith(alias)) continue;
+    const next = lower.charAt(alias.length);
+    if (/[a-z]/.test(alias) && /[a-z]/.test(next)) continue;
+    return { unit, factor, rest: text.slice(alias.length).replace(/^\.(?=\s|$)/, '') };
+  }
+  return null;
+}
+
+/**
+ * 解析用量原文
+ * @param raw - 用量原文，如 "1/2 cup"、"2-3 cloves"、"400g"、"Pinch"、"300克"、"适量"
+ * @returns 结构化用量；无法识别数量与单位时 amount / unit 为 null，原文保留在 text 中
+ */
+export function parseMeasure(raw: string): Quantity {
+  let text = (raw || '').trim();
+  for (const [symbol, fraction] of Object.entries(UNICODE_FRACTIONS)) {
+    text = text.replace(new RegExp(`(\\d)?${symbol}`, 'g'), (_, digit) => (digit ? `${digit} ${fraction}` : fraction));
+  }
+
+  let amount: number | null = null;
+  let amountMax: number | null = null;
+  const first = readNumber(text);
+  if (first) {
+    amount = first.value;
+    text = first.rest;
+    const range = text.match(/^\s*(?:-|–|~|～|to|至|到)\s*/i);
+    const second = range ? readNumber(text.slice(range[0].length)) : null;
+    if (range && second) {
+      amountMax = second.value;
+      text = second.rest;
+    }
+  }
+
+  let unit: MeasureUnit | null = null;
+  const parsedUnit = readUnit(text.trimStart());
+  if (parsedUnit) {
+    unit = parsedUnit.unit;
+    text = parsedUnit.rest;
+    // 只有单位没有数量时按 1 计（"Pinch" -> 1 撮）
+    amount = (amount ?? 1) * parsedUnit.factor;
+    if (amountMax !== null) amountMax *= parsedUnit.factor;
+  }
+
+  return { amount, amountMax, unit, text: text.trim().replace(/^of\s+/i, '') };
+}
+
+/**
+ * 按单位的常用精度取整（如 cup 取 1/4、oz 取 0.5、克取整数）
+ * @param value - 数量
+ * @param unit - 单位，为 null 时保留两位小数
+ */
+export function roundForUnit(value: number, unit: MeasureUnit | null): number {
+  // 克、毫升在 100 以上时取 5 的倍数（"453.6克" -> "455克"、"283克" -> "285克"）
+  const step = unit ? ((unit === 'g' || unit === 'ml') && value >= 100 ? 5 : ROUNDING_STEP[unit]) : 0.01;
+  const rounded = Math.round(value / step) * step;
+  // 非零用量至少保留一个步长，避免 "0 tsp"
+  return Number((rounded === 0 && value > 0 ? step : rounded).toFixed(2));
+}
+
+// 公制目标单位：按大小选择 g / kg、ml / l
+function metricTarget(value: number, kind: 'mass' | 'volume'): { unit: MeasureUnit; value: number } {
+  if (kind === 'mass') return value >= 1000 ? { unit: 'kg', value: value / 1000 } : { unit: 'g', value };
+  return value >= 1000 ? { unit: 'l', value: value / 1000 } : { unit: 'ml', value };
+}
+
+// 英制目标单位：按大小选择 oz / lb、tsp / tbsp / cup
+function imperialTarget(value: number, kind: 'mass' | 'volume'): { unit: MeasureUnit; value: number } {
+  if (kind === 'mass') {
+    const ounces = value / MASS_IN_GRAMS.oz!;
+    return ounces >= 16 ? { unit: 'lb', value: value / MASS_IN_GRAMS.lb! } : { unit: 'oz', value: ounces };
+  }
+  if (value < VOLUME_IN_ML.tbsp!) return { unit: 'tsp', value: value / VOLUME_IN_ML.tsp! };
+  if (value < VOLUME_IN_ML.cup! / 4) return { unit: 'tbsp', value: value / VOLUME_IN_ML.tbsp! };
+  return { unit: 'cup', value: value / VOLUME_IN_ML.cup! };
+}
+
+// 各单位制下无需换算的单位
+const NATIVE_UNITS: Record<UnitSystem, Set<MeasureUnit>> = {
+  metric: new Set(['g', 'kg', 'ml', 'l', 'tsp', 'tbsp', 'pinch']),
+  imperial: new Set(['oz', 'lb', 'tsp', 'tbsp', 'cup', 'floz', 'pinch']),
+};
+
+/**
+ * 将用量换算到指定单位制
+ * @param quantity - 结构化用量
+ * @param system - 目标单位制
+ * @returns 换算后的用量（已是目标单位制或不可换算时原样返回）
+ */
+export function convertQuantity(quantity: Quantity, system: UnitSystem): Quantity {
+  const { amount, amountMax, unit } = quantity;
+  if (amount === null || !unit || NATIVE_UNITS[system].has(unit)) return quantity;
+  const kind = MASS_IN_GRAMS[unit] !== undefined ? 'mass' : 'volume';
+  const factor = (kind === 'mass' ? MASS_IN_GRAMS[unit] : VOLUME_IN_ML[unit])!;
+  const pick = system === 'metric' ? metricTarget : imperialTarget;
+  const target = pick(amount * factor, kind);
+  const ratio = target.value / amount;
+  return {
+    ...quantity,
+    amount: roundForUnit(target.value, target.unit),
+    amountMax: amountMax === null ? null : roundForUnit(amountMax * ratio, target.unit),
+    unit: target.unit,
+  };
+}
+
+// 调料量级单位的相互换算：1 汤匙 = 3 茶匙，1 茶匙 = 8 撮
+const TSP_PER_TBSP = 3;
+const PINCHES_PER_TSP = 8;
+
+// 调料类用量缩放：太少时换用更小的单位（汤匙 -> 茶匙 -> 撮），累计较多时换回更大的单位（撮 -> 茶匙 -> 汤匙）
+function scaleSpoon(value: number, unit: 'tsp' | 'tbsp' | 'pinch'): { value: number; unit: MeasureUnit } {
+  if (unit === 'tbsp' && value < 1) return scaleSpoon(value * TSP_PER_TBSP, 'tsp');
+  if (unit === 'tsp' && value < 0.25) return { value: Math.max(1, Math.round(value * PINCHES_PER_TSP)), unit: 'pinch' };
+  if (unit === 'tsp' && value >= TSP_PER_TBSP) return { value: roundForUnit(value / TSP_PER_TBSP, 'tbsp'), unit: 'tbsp' };
+  if (unit === 'pinch') {
+    return value >= PINCHES_PER_TSP / 2
+      ? { value: roundForUnit(value / PINCHES_PER_TSP, 'tsp'), unit: 'tsp' }
+      : { value: Math.max(1, Math.round(value)), unit: 'pinch' };
+  }
+  return { value: roundForUnit(value, unit), unit };
+}
+
+/**
+ * 按比例缩放用量（用于份数换算）
+ * - 个数类（鸡蛋、蒜瓣等，unit 为 null）：原文为整数时保持整数且至少为 1，原文为分数时取 1/2
+ * - 调料类（茶匙/汤匙/撮）：按需换用更小或更大的单位，如 1/2 汤匙 -> 1 1/2 茶匙、1/8 茶匙 -> 1 撮、3 茶匙 -> 1 汤匙
+ * - 其余单位按 roundForUnit 取整
+ * @param quantity - 结构化用量
+ * @param factor - 缩放比例（目标份数 / 原份数）
+ * @returns 缩放后的用量；没有数量（"适量"）或比例为 1 时原样返回
+ */
+export function scaleQuantity(quantity: Quantity, factor: number): Quantity {
+  const { amount, amountMax, unit } = quantity;
+  if (amount === null || !Number.isFinite(factor) || factor <= 0 || factor === 1) return quantity;
+  if (!unit) {
+    const step = Number.isInteger(amount) ? 1 : 0.5;
+    const roundCount = (value: number) => Math.max(step, Math.round((value * factor) / step) * step);
+    return { ...quantity, amount: roundCount(amount), amountMax: amountMax === null ? null : roundCount(amountMax) };
+  }
+  if (unit === 'tsp' || unit === 'tbsp' || unit === 'pinch') {
+    const scaled = scaleSpoon(amount * factor, unit);
+    const ratio = scaled.value / (amount * factor);
+    return {
+      ...quantity,
+      amount: scaled.value,
+      amountMax: amountMax === null ? null : roundForUnit(amountMax * factor * ratio, scaled.unit),
+      unit: scaled.unit,
+    };
+  }
+  return {
+    ...quantity,
+    amount: roundForUnit(amount * factor, unit),
+    amountMax: amountMax === null ? null : roundForUnit(amountMax * factor, unit),
+  };
+}
+
+// 替换用量原文开头的数量（个数类用量缩放后沿用已翻译的原文，如 "2瓣" -> "4瓣"）
+function replaceLeadingAmount(text: string, quantity: Quantity): string | null {
+  const match = text.match(/^\s*\d+(?:\.\d+)?(?:\s*\/\s*\d+|\s+\d+\s*\/\s*\d+)?(?:\s*(?:-|–|~|～|to|至|到)\s*\d+(?:\.\d+)?(?:\s*\/\s*\d+)?)?/i);
+  if (!match || quantity.amount === null) return null;
+  const n = quantity.amountMax === null ? `${quantity.amount}` : `${quantity.amount}-${quantity.amountMax}`;
+  return `${n}${text.slice(match[0].length)}`;
+}
+
+// 数量显示：厨房计量单位用分数（1 1/2），其余用小数
+function formatAmount(value: number, unit: MeasureUnit): string {
+  if (!FRACTION_UNITS.has(unit)) return String(Number(value.toFixed(2)));
+  const whole = Math.floor(value);
+  const fraction = value - whole;
+  const known: Array<[number, string]> = [[0.25, '1/4'], [1 / 3, '1/3'], [0.5, '1/2'], [2 / 3, '2/3'], [0.75, '3/4']];
+  const hit = known.find(([v]) => Math.abs(v - fraction) < 0.04);
+  if (fraction < 0.04) return String(whole);
+  if (!hit) return String(Number(value.toFixed(2)));
+  return whole ? `${whole} ${hit[1]}` : hit[1];
+}
+
+/**
+ * 按语言渲染用量（仅数量与单位）
+ * @param quantity - 结构化用量
+ * @param locale - 显示语言
+ * @returns 如 "120毫升"、"1/2 cup"、"大さじ2"；没有数量或单位时返回 null
+ */
+export function formatQuantity(quantity: Quantity, locale: LocaleCode): string | null {
+  const { amount, amountMax, unit } = quantity;
+  if (amount === null || !unit) return null;
+  const label = localeInfo(locale).unitLabels[unit];
+  const upper = amountMax ?? amount;
+  const template = Array.isArray(label) ? label[upper > 1 ? 1 : 0] : label;
+  const n = amountMax === null ? formatAmount(amount, unit) : `${formatAmount(amount, unit)}-${formatAmount(amountMax, unit)}`;
+  return template.replace('{n}', n);
+}
+
+// 缩放并换算单位：需要换算时先按比例缩放（不取整）再换算，只在显示单位下取整一次，避免先在原单位取整造成偏差（2 杯 ×1.2 → 575 毫升，而非 600 毫升）
+function scaleAndConvert(quantity: Quantity, factor: number, system: UnitSystem): Quantity {
+  const { amount, amountMax, unit } = quantity;
+  if (amount !== null && unit && !NATIVE_UNITS[system].has(unit) && Number.isFinite(factor) && factor > 0) {
+    return convertQuantity({ ...quantity, amount: amount * factor, amountMax: amountMax === null ? null : amountMax * factor }, system);
+  }
+  return convertQuantity(scaleQuantity(quantity, factor), system);
+}
+
+/**
+ * 为菜谱食材附加结构化用量与换算后的显示用量
+ * @param items - 输出的食材列表（可能已翻译）
+ * @param originals - 翻译前的食材列表（与 items 一一对应，用于解析用量原文）
+ * @param locale - 显示语言
+ * @param system - 目标单位制
+ * @param factor - 份数缩放比例（默认 1，不缩放）；先缩放再换算单位，换算时只在目标单位下取整一次
+ * @returns 带 quantity / displayMeasure 的食材列表；数量单位后的说明文字保留在 displayMeasure 末尾；不可换算的用量沿用 items 中的 measure（缩放时替换其中的数量）
+ */
+export function annotateMeasures(
+  items: IngredientItem[],
+  originals: IngredientItem[],
+  locale: LocaleCode,
+  system: UnitSystem,
+  factor: number = 1
+): IngredientItem[] {
+  return items.map((item, i) => {
+    const parsed = parseMeasure(originals[i]?.measure ?? item.measure);
+    const quantity = scaleAndConvert(parsed, factor, system);
+    const fallback = quantity === parsed ? item.measure : replaceLeadingAmount(item.measure, quantity) ?? item.measure;
+    const formatted = formatQuantity(quantity, locale);
+    if (!formatted) return { ...item, quantity, displayMeasure: fallback };
+    // 保留数量单位之后的说明（"3 cups cooked" → "720毫升 cooked"）；译文可解析时取译文中的说明
+    const translated = parseMeasure(item.measure);
+    const rest = translated.unit ? translated.text : quantity.text;
+    return { ...item, quantity, displayMeasure: rest ? `${formatted} ${rest}` : formatted };
+  });
+}
+
+// 用量的合并类别：质量（克）、体积（毫升）、调料量级（茶匙）、个数（按单位文字区分）、无数量
+type QuantityKind = 'mass' | 'volume' | 'spoon' | 'count' | 'none';
+
+// 按合并类别折算的基准数量：质量为克，体积为毫升，调料量级为茶匙，个数为原数量
+function baseAmount(quantity: Quantity): { kind: QuantityKind; value: number; max: number } {
+  const { amount, amountMax, unit } = quantity;
+  if (amount === null) return { kind: 'none', value: 0, max: 0 };
+  const upper = amountMax ?? amount;
+  if (!unit) return { kind: 'count', value: amount, max: upper };
+  if (MASS_IN_GRAMS[unit] !== undefined) return { kind: 'mass', value: amount * MASS_IN_GRAMS[unit]!, max: upper * MASS_IN_GRAMS[unit]! };
+  if (unit === 'pinch') return { kind: 'spoon', value: amount / PINCHES_PER_TSP, max: upper / PINCHES_PER_TSP };
+  const ml = VOLUME_IN_ML[unit]!;
+  return unit === 'tsp' || unit === 'tbsp'
+    ? { kind: 'spoon', value: (amount * ml) / VOLUME_IN_ML.tsp!, max: (upper * ml) / VOLUME_IN_ML.tsp! }
+    : { kind: 'volume', value: amount * ml, max: upper * ml };
+}
+
+// 个数类的通用量词（"2个"、"3 pieces"）视为没有单位文字；同义量词归为同一写法（"3 cloves" 与 "3瓣"）
+const GENERIC_COUNT_WORDS = new Set(['个', '只', '颗', '枚', '件', 'piece', 'pieces', 'whole', 'large', 'medium', 'small']);
+const COUNT_WORD_SYNONYMS: Record<string, string> = { clove: 'cloves', 瓣: 'cloves', 根: 'stalks', stalk: 'stalks', 片: 'slices', slice: 'slices' };
+
+// 个数类单位文字的比较键
+function countWord(text: string): string {
+  const word = text.trim().toLowerCase();
+  if (GENERIC_COUNT_WORDS.has(word)) return '';
+  return COUNT_WORD_SYNONYMS[word] ?? word;
+}
+
+// 合并分组键：个数类按单位文字（"cloves"、"根"）区分，调料量级与其他体积单位同时出现时并入体积
+function groupKey(quantity: Quantity, kinds: Set<QuantityKind>): string {
+  const { kind } = baseAmount(quantity);
+  if (kind === 'spoon' && kinds.has('volume')) return 'volume';
+  if (kind === 'count') return `count:${countWord(quantity.text)}`;
+  if (kind === 'none') return `none:${quantity.text.trim().toLowerCase()}`;
+  return kind;
+}
+
+// 由基准数量生成用量：质量 / 体积按单位制选择单位，调料量级在 撮 / 茶匙 / 汤匙 之间选择
+function fromBase(kind: QuantityKind, value: number, max: number, system: UnitSystem, text: string): Quantity {
+  if (kind === 'count') return { amount: Number(value.toFixed(2)), amountMax: max > value ? Number(max.toFixed(2)) : null, unit: null, text };
+  if (kind === 'spoon') {
+    const scaled = scaleSpoon(value, 'tsp');
+    const ratio = scaled.value / value;
+    return { amount: scaled.value, amountMax: max > value ? roundForUnit(max * ratio, scaled.unit) : null, unit: scaled.unit, text };
+  }
+  const target = (system === 'metric' ? metricTarget : imperialTarget)(value, kind === 'mass' ? 'mass' : 'volume');
+  const ratio = target.value / value;
+  return {
+    amount: roundForUnit(target.value, target.unit),
+    amountMax: max > value ? roundForUnit(max * ratio, target.unit) : null,
+    unit: target.unit,
+    text,
+  };
+}
+
+/**
+ * 合并同一食材的多个用量（用于购物清单）
+ * - 质量折算为克、体积折算为毫升后相加，再按单位制选择合适的单位（600克 + 1磅 -> 1.05千克）
+ * - 只有茶匙 / 汤匙 / 撮时在三者之间选择（1 汤匙 + 2 茶匙 -> 1 2/3 汤匙），与杯、毫升等同时出现时并入体积
+ * - 个数类按单位文字分别相加（"2 cloves" + "3瓣" -> "5 cloves"，"个" 等通用量词视为没有单位文字），没有数量的用量（"适量"）按原文去重保留
+ * @param quantities - 结构化用量（同一食材，已按份数缩放）
+ * @param system - 目标单位制
+ * @returns 合并后的用量：质量、体积、个数、无数量依次排列
+ */
+export function mergeQuantities(quantities: Quantity[], system: UnitSystem): Quantity[] {
+  const kinds = new Set(quantities.map((q) => baseAmount(q).kind));
+  const groups = new Map<string, { kind: QuantityKind; value: number; max: number; text: string }>();
+  for (const quantity of quantities) {
+    const key = groupKey(quantity, kinds);
+    const base = baseAmount(quantity);
+    const kind = key === 'volume' ? 'volume' : base.kind;
+    // 调料量级并入体积时按毫升计
+    const factor = base.kind === 'spoon' && kind === 'volume' ? VOLUME_IN_ML.tsp! : 1;
+    const group = groups.get(key) ?? { kind, value: 0, max: 0, text: kind === 'none' || (kind === 'count' && countWord(quantity.text)) ? quantity.text : '' };
+    group.value += base.value * factor;
+    group.max += base.max * factor;
+    groups.set(key, group);
+  }
+  const order: QuantityKind[] = ['mass', 'volume', 'spoon', 'count', 'none'];
+  return Array.from(groups.values())
+    .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind))
+    .map((group) => (group.kind === 'none'
+      ? { amount: null, amountMax: null, unit: null, text: group.text }
+      : fromBase(group.kind, group.value, group.max, system, group.text)));
+}
+
+/**
+ * 从合并后的用量中扣除已有的用量（用于购物清单扣除家中已有的食材）
+ * - 同类用量（质量、体积、调料量级，或单位文字相同 / 未写单位的个数）按基准数量相减，扣完的用量去掉
+ * - 已有用量不可比较时（类别不同）保留原用量；没有数量的用量（"适量"）视为已满足
+ * @param quantities - 合并后的用量（见 mergeQuantities）
+ * @param available - 已有的用量
+ * @param system - 目标单位制
+ * @returns 仍需购买的用量；为空数组表示已有的足够
+ */
+export function subtractQuantity(quantities: Quantity[], available: Quantity, system: UnitSystem): Quantity[] {
+  const have = baseAmount(available);
+  const volumeLike = (kind: QuantityKind) => kind === 'volume' || kind === 'spoon';
+  // 调料量级（茶匙）与体积（毫升）之间按毫升比较
+  const comparableAmount = (base: { kind: QuantityKind; value: number }) => (base.kind === 'spoon' ? base.value * VOLUME_IN_ML.tsp! : base.value);
+  const sameText = (quantity: Quantity) => !countWord(available.text) || !countWord(quantity.text)
+    || countWord(available.text) === countWord(quantity.text);
+  let remaining = comparableAmount(have);
+  const result: Quantity[] = [];
+  for (const quantity of quantities) {
+    const base = baseAmount(quantity);
+    if (base.kind === 'none') continue;
+    const comparable = base.kind === 'count'
+      ? have.kind === 'count' && sameText(quantity)
+      : base.kind === have.kind || (volumeLike(base.kind) && volumeLike(have.kind));
+    if (!comparable || remaining <= 0) {
+      result.push(quantity);
+      continue;
+    }
+    const left = comparableAmount(base) - remaining;
+    remaining = Math.max(0, -left);
+    if (left > 1e-6) {
+      const value = base.kind === 'spoon' ? left / VOLUME_IN_ML.tsp! : left;
+      result.push(fromBase(base.kind, value, value, system, quantity.text));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChineseRecipeSource, LocalRecipeSource } from '../sources';
+import { rememberRecipeNames, searchRecipeNames } from './name-search';
+import { MemoryTranslationCache, getTranslationCache, setTranslationCache, type TranslationCache } from './translation-cache';
+
+describe('searchRecipeNames', () => {
+  let previous: TranslationCache;
+  const sources = () => [new LocalRecipeSource(), new ChineseRecipeSource()];
+  const search = (query: string, language: 'zh-CN' | 'en-US' = 'zh-CN') =>
+    searchRecipeNames(query, sources(), { language, limit: 3 });
+
+  beforeEach(() => {
+    previous = getTranslationCache();
+    setTranslationCache(new MemoryTranslationCache());
+  });
+
+  afterEach(() => {
+    setTranslationCache(previous);
+  });
+
+  it('容错匹配拼写错误的菜名', async () => {
+    const [first] = await search('spagetti');
+    assert.equal(first.id, 'local-006');
+    assert.ok(first.score < 1);
+  });
+
+  it('中文菜名可用全拼前缀与首字母检索', async () => {
+    const [byFull] = await search('gongbao');
+    assert.equal(byFull.id, 'cn-001');
+    assert.equal(byFull.matched, 'gongbaojiding');
+    const [byInitials] = await search('gbjd');
+    assert.equal(byInitials.id, 'cn-001');
+    assert.equal(byInitials.score, 1);
+  });
+
+  it('中文查询按拼音比对，同音错字也能命中', async () => {
+    const [first] = await search('宫爆鸡丁');
+    assert.equal(first.id, 'cn-001');
+    assert.equal(first.name, '宫保鸡丁');
+  });
+
+  it('英文别名可检索中式菜谱，英文请求显示英文别名', async () => {
+    const matches = await search('kung pao', 'en-US');
+    const chinese = matches.find((m) => m.id === 'cn-001');
+    assert.equal(chinese?.name, 'Kung Pao Chicken');
+  });
+
+  it('记下的译名可检索并作为显示名称', async () => {
+    rememberRecipeNames([{ id: 'cn-001', name: 'Gong Bao Chicken with Peanuts', source: 'ChineseHome' }], 'en-US');
+    const [first] = await search('peanuts', 'en-US');
+    assert.equal(first.id, 'cn-001');
+    assert.equal(first.name, 'Gong Bao Chicken with Peanuts');
+  });
+
+  it('没有命中时返回空列表', async () => {
+    assert.deepEqual(await search('zzzz'), []);
+    assert.deepEqual(await search('  '), []);
+  });
+});
@@ -0,0 +1,142 @@
+// 菜名检索：在已知菜名（数据源原名、别名、翻译后的菜名以及中文菜名的拼音）上做容错与前缀匹配，供 recipeTool 与 /api/recipes/suggest 使用
+// 设计要点：
+// 1. 候选集为各数据源的全部菜谱摘要（listRecipes），与参考数据写入同一缓存（按天刷新）；数据源请求失败时跳过该数据源
+// 2. 每道菜可有多个名称：数据源原名、别名（中式家常菜的英文名）与 recipeTool 输出翻译后记下的译名（进程内记忆，有数量上限）
+// 3. 中文名称额外生成全拼与首字母写法（"gongbaojiding"、"gbjd"），首字母只接受前缀匹配；中文查询再按拼音比对，同音错字（"宫爆鸡丁"）也能命中
+// 4. 不调用 LLM，适合输入框联想；显示名称优先取请求语言的已知名称，没有时使用数据源原名
+import type { LocaleCode } from '../constants/locales';
+import type { RecipeSource, RecipeSummary } from '../sources';
+import { matchScore, normalizeName, toPinyin } from './fuzzy';
+import { CACHE_TTL, cacheKey, getTranslationCache } from './translation-cache';
+
+const CJK = /[\u4e00-\u9fa5]/;
+
+// 进程内记下的译名上限（超出时淘汰最早记下的菜谱）
+const MAX_LEARNED = 5000;
+
+// 中文查询按拼音命中时的分数折扣（低于完全一致，与前缀同级）
+const PINYIN_QUERY_WEIGHT = 0.9;
+
+/**
+ * 菜名检索结果
+ */
+export interface NameMatch {
+  id: string;
+  name: string; // 按请求语言的显示名称（没有已知译名时为数据源原名）
+  matched: string; // 命中的写法（原名、别名、译名或拼音）
+  source: string; // 来自哪个数据源
+  thumbnail: string | null;
+  score: number; // 0-1，1 为完全一致
+}
+
+// 记下的译名：`${数据源}:${菜谱 ID}` → 语言 → 菜名
+const learnedNames = new Map<string, Partial<Record<LocaleCode, string>>>();
+
+/**
+ * 记下菜谱在某一语言下的菜名（recipeTool 翻译输出后调用），之后可用该语言的菜名检索
+ * @param recipes - 菜谱（需带 source）
+ * @param language - 菜名的语言
+ */
+export function rememberRecipeNames(recipes: Array<{ id: string; name: string; source?: string }>, language: LocaleCode): void {
+  for (const recipe of recipes) {
+    if (!recipe.source || !recipe.name.trim()) continue;
+    const key = `${recipe.source}:${recipe.id}`;
+    const names = learnedNames.get(key) ?? {};
+    names[language] = recipe.name.trim();
+    learnedNames.delete(key);
+    learnedNames.set(key, names);
+  }
+  while (learnedNames.size > MAX_LEARNED) learnedNames.delete(learnedNames.keys().next().value!);
+}
+
+// 单个数据源的全部菜谱摘要（带缓存，缓存读写失败不影响结果）；请求失败时返回空列表
+async function listRecipes(source: RecipeSource): Promise<RecipeSummary[]> {
+  const key = await cacheKey('reference', source.language, `${source.name}:recipes`);
+  try {
+    const cached = await getTranslationCache().get<RecipeSummary[]>(key);
+    if (cached) return cached;
+  } catch (error) {
+    console.error('Recipe catalog cache read error:', error);
+  }
+  let recipes: RecipeSummary[];
+  try {
+    recipes = await source.listRecipes();
+  } catch (error) {
+    console.error(`Recipe catalog error (${source.name}):`, error);
+    return [];
+  }
+  try {
+    if (recipes.length) await getTranslationCache().set(key, recipes, CACHE_TTL.reference);
+  } catch (error) {
+    console.error('Recipe catalog cache write error:', error);
+  }
+  return recipes;
+}
+
+// 单个名称的得分：原文，加上中文名称的全拼 / 首字母（查询为中文时比对双方的拼音）
+function scoreName(query: string, queryPinyin: string | null, name: string): { score: number; matched: string } {
+  let best = { score: matchScore(query, normalizeName(name)), matched: name };
+  const pinyin = toPinyin(name);
+  if (!pinyin) return best;
+  const candidates = queryPinyin
+    ? [{ score: matchScore(queryPinyin, pinyin.full) * PINYIN_QUERY_WEIGHT, matched: name }]
+    : [
+      { score: matchScore(query, pinyin.full), matched: pinyin.full },
+      { score: query.length >= 2 ? matchScore(query, pinyin.initials, { prefixOnly: true }) : 0, matched: pinyin.initials },
+    ];
+  for (const candidate of candidates) if (candidate.score > best.score) best = candidate;
+  return best;
+}
+
+// 显示名称：已知的目标语言译名 > 数据源语言一致时的原名 > 英文请求时的英文别名 > 原名
+function displayName(summary: RecipeSummary, source: RecipeSource, language: LocaleCode): string {
+  const learned = learnedNames.get(`${source.name}:${summary.id}`)?.[language];
+  if (learned) return learned;
+  if (source.language === language) return summary.name;
+  const alias = language === 'en-US' ? summary.aliases?.find((a) => !CJK.test(a)) : undefined;
+  return alias || summary.name;
+}
+
+/**
+ * 按菜名检索（容错、前缀、拼音）
+ * @param query - 用户输入，如 "spagetti"、"gongbao"、"宫保鸡"
+ * @param sources - 数据源（主数据源在前）
+ * @param options - language：显示名称的语言；limit：返回条数上限（默认 10）
+ * @returns 按得分从高到低排列的命中菜谱；得分相同时名称较短的在前
+ */
+export async function searchRecipeNames(
+  query: string,
+  sources: RecipeSource[],
+  options: { language: LocaleCode; limit?: number },
+): Promise<NameMatch[]> {
+  const q = normalizeName(query);
+  if (!q) return [];
+  const queryPinyin = CJK.test(q) ? toPinyin(q)?.full ?? null : null;
+  const catalogs = await Promise.all(sources.map(listRecipes));
+
+  const matches: NameMatch[] = [];
+  sources.forEach((source, i) => {
+    for (const summary of catalogs[i]) {
+      const learned = Object.values(learnedNames.get(`${source.name}:${summary.id}`) ?? {});
+      const names = Array.from(new Set([summary.name, ...(summary.aliases ?? []), ...learned]));
+      let best = { score: 0, matched: '' };
+      for (const name of names) {
+        const result = scoreName(q, queryPinyin, name);
+        if (result.score > best.score) best = result;
+      }
+      if (best.score > 0) {
+        matches.push({
+          id: summary.id,
+          name: displayName(summary, source, options.language),
+          matched: best.matched,
+          source: source.name,
+          thumbnail: summary.thumbnail,
+          score: Math.round(best.score * 100) / 100,
+        });
+      }
+    }
+  });
+  return matches
+    .sort((a, b) => b.score - a.score || a.name.length - b.name.length)
+    .slice(0, options.limit ?? 10);
+}
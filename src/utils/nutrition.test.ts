@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NUTRITION_TABLE } from '../data/nutrition-table';
+import { estimateNutrition, lookupNutrition } from './nutrition';
+
+const caloriesOf = (name: string, grams: number) => (NUTRITION_TABLE[name].kcal * grams) / 100;
+
+describe('lookupNutrition', () => {
+  it('中英文食材名归一后查表，英文名依次去掉前缀修饰词', () => {
+    assert.equal(lookupNutrition('鸡胸肉'), NUTRITION_TABLE['Chicken Breast']);
+    assert.equal(lookupNutrition('Extra Virgin Olive Oil'), NUTRITION_TABLE['Olive Oil']);
+    assert.equal(lookupNutrition('Unobtainium'), null);
+  });
+});
+
+describe('estimateNutrition', () => {
+  it('质量直接计重，按份数平均', () => {
+    const nutrition = estimateNutrition([{ ingredient: 'Chicken Breast', measure: '200g' }], 2);
+    assert.deepEqual(nutrition, {
+      calories: Math.round(caloriesOf('Chicken Breast', 100)),
+      protein: NUTRITION_TABLE['Chicken Breast'].protein,
+      carbs: 0,
+      fat: NUTRITION_TABLE['Chicken Breast'].fat,
+      servings: 2,
+      coverage: 1,
+    });
+  });
+
+  it('体积按密度折算，没有数量时按常用量计', () => {
+    const density = NUTRITION_TABLE['Olive Oil'].density!;
+    assert.equal(estimateNutrition([{ ingredient: 'Olive Oil', measure: '1 tbsp' }], 1).calories, Math.round(caloriesOf('Olive Oil', 15 * density)));
+    assert.equal(estimateNutrition([{ ingredient: 'Olive Oil', measure: 'to taste' }], 1).calories, Math.round(caloriesOf('Olive Oil', NUTRITION_TABLE['Olive Oil'].typical!)));
+  });
+
+  it('油炸用油只计吸收的部分', () => {
+    const grams = 500 * NUTRITION_TABLE['Vegetable Oil'].density! * 0.1;
+    assert.equal(estimateNutrition([{ ingredient: 'Vegetable Oil', measure: '500ml' }], 1).calories, Math.round(caloriesOf('Vegetable Oil', grams)));
+  });
+
+  it('注明已煮熟的米按生重折算', () => {
+    const rice = NUTRITION_TABLE.Rice;
+    const raw = estimateNutrition([{ ingredient: 'Rice', measure: '280g' }], 1).calories;
+    const cooked = estimateNutrition([{ ingredient: 'Rice', measure: '280g cooked' }], 1).calories;
+    assert.equal(cooked, Math.round(caloriesOf('Rice', 280 / rice.cookedYield!)));
+    assert.ok(cooked < raw);
+  });
+
+  it('无法计入的食材不参与计算，coverage 为计入占比', () => {
+    const nutrition = estimateNutrition([{ ingredient: 'Chicken Breast', measure: '100g' }, { ingredient: 'Unobtainium', measure: '1 cup' }], 1);
+    assert.equal(nutrition.calories, Math.round(caloriesOf('Chicken Breast', 100)));
+    assert.equal(nutrition.coverage, 0.5);
+    assert.equal(estimateNutrition([], 4).coverage, 0);
+  });
+});
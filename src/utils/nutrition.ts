@@ -0,0 +1,95 @@
+// 营养估算：按内置营养成分表（src/data/nutrition-table.ts）与解析后的用量计算每份热量、蛋白质、碳水化合物与脂肪
+// 设计要点：
+// 1. 食材名经食材词表归一为英文规范名后查表（中英文均可）；英文名查不到时依次去掉前缀修饰词再查（"Extra Virgin Olive Oil" → Olive Oil）
+// 2. 用量经 utils/measure.ts 解析：质量直接计重，体积按表中密度折算，个数类按每个的克数折算，罐头按 CAN_GRAMS 计；
+//    "适量"、"to taste" 等没有数量的用量按表中的 typical 计（未填写时视为可忽略）；油炸用油（超过 FRYING_OIL_GRAMS）只计吸收的部分；
+//    注明已煮熟的米面（"3 cups cooked"、"米饭"）按 cookedYield 折算回生重
+// 3. 无法计入的食材（未收录或无法折算为克数）不参与计算，coverage 给出计入的食材占比，供调用方判断估算是否可靠
+// 4. 纯规则计算、结果确定，不调用 LLM；每份数值 = 整道菜合计 / 份数
+import type { IngredientItem, Nutrition } from '../types';
+import { NUTRITION_TABLE, type NutritionFacts } from '../data/nutrition-table';
+import { findIngredient } from './glossary';
+import { convertQuantity, parseMeasure } from './measure';
+
+// 公制质量单位折算为克
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, pinch: 0.3 };
+
+// 公制体积单位折算为毫升（再按密度折算为克）
+const ML_PER_UNIT: Record<string, number> = { ml: 1, l: 1000, tsp: 5, tbsp: 15 };
+
+// 一罐（tin / can / 罐）的净含量（克）
+const CAN_GRAMS = 400;
+const CAN_WORDS = /\b(?:tins?|cans?)\b|罐|听/i;
+
+// 已煮熟的写法（食材名或用量中）
+const COOKED_WORDS = /\bcooked\b|米饭|熟/i;
+
+// 食用油超过该克数时视为油炸用油，只计入食材吸收的比例
+const FRYING_OIL_GRAMS = 150;
+const ABSORBED_OIL_SHARE = 0.1;
+
+/**
+ * 查找食材的营养成分
+ * @param name - 食材名（中英文均可）
+ * @returns 营养成分条目，未收录时返回 null
+ */
+export function lookupNutrition(name: string): NutritionFacts | null {
+  const words = name.trim().split(/\s+/);
+  // 英文名依次去掉前缀修饰词（"Extra Virgin Olive Oil" → "Virgin Olive Oil" → "Olive Oil"）
+  for (let i = 0; i < words.length; i++) {
+    const entry = findIngredient(words.slice(i).join(' '));
+    if (entry) return NUTRITION_TABLE[entry.en] ?? null;
+    if (/[\u4e00-\u9fa5]/.test(name)) break;
+  }
+  return null;
+}
+
+// 单个食材的克数：无法折算时返回 null
+function gramsOf(item: IngredientItem, facts: NutritionFacts): number | null {
+  const quantity = convertQuantity(parseMeasure(item.measure), 'metric');
+  if (quantity.amount === null) return facts.typical ?? 0;
+  const amount = quantity.amountMax !== null ? (quantity.amount + quantity.amountMax) / 2 : quantity.amount;
+  let grams: number | null = null;
+  if (quantity.unit && GRAMS_PER_UNIT[quantity.unit]) grams = amount * GRAMS_PER_UNIT[quantity.unit];
+  else if (quantity.unit && ML_PER_UNIT[quantity.unit]) grams = amount * ML_PER_UNIT[quantity.unit] * (facts.density ?? 1);
+  else if (CAN_WORDS.test(quantity.text)) grams = amount * CAN_GRAMS;
+  else if (facts.piece) grams = amount * facts.piece;
+  if (grams !== null && facts.cookedYield && COOKED_WORDS.test(`${item.ingredient} ${quantity.text}`)) grams /= facts.cookedYield;
+  return grams;
+}
+
+// 保留一位小数
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 估算菜谱每份的营养成分
+ * @param ingredients - 食材列表（使用翻译前的食材名与用量原文）
+ * @param servings - 整道菜的份数
+ * @returns 每份热量（千卡）与三大营养素（克），以及计入计算的食材占比
+ */
+export function estimateNutrition(ingredients: IngredientItem[], servings: number): Nutrition {
+  const total = { kcal: 0, protein: 0, carbs: 0, fat: 0 };
+  let counted = 0;
+  for (const item of ingredients) {
+    const facts = lookupNutrition(item.ingredient);
+    let grams = facts ? gramsOf(item, facts) : null;
+    if (!facts || grams === null) continue;
+    if (facts.fat >= 99 && grams > FRYING_OIL_GRAMS) grams *= ABSORBED_OIL_SHARE;
+    counted += 1;
+    total.kcal += (facts.kcal * grams) / 100;
+    total.protein += (facts.protein * grams) / 100;
+    total.carbs += (facts.carbs * grams) / 100;
+    total.fat += (facts.fat * grams) / 100;
+  }
+  const portions = Math.max(1, servings);
+  return {
+    calories: Math.round(total.kcal / portions),
+    protein: round1(total.protein / portions),
+    carbs: round1(total.carbs / portions),
+    fat: round1(total.fat / portions),
+    servings: portions,
+    coverage: ingredients.length ? Math.round((counted / ingredients.length) * 100) / 100 : 0,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeRecipeId, parseList, parseServings, parseShoppingRecipes, parseSpice, parseSuggestLimit, parseTimeBudget, parseUnits, parseWeekBudget,
+} from './params';
+
+describe('decodeRecipeId', () => {
+  it('按 URL 编码解码并去掉首尾空白', () => {
+    assert.equal(decodeRecipeId('52772'), '52772');
+    assert.equal(decodeRecipeId('cn-001'), 'cn-001');
+    assert.equal(decodeRecipeId('%20cn-001%20'), 'cn-001');
+    assert.equal(decodeRecipeId('%E5%AE%AB%E4%BF%9D'), '宫保');
+  });
+
+  it('编码格式错误时返回 null', () => {
+    assert.equal(decodeRecipeId('%E0%A4%A'), null);
+    assert.equal(decodeRecipeId('%'), null);
+  });
+});
+
+describe('parseServings / parseUnits', () => {
+  it('份数为 1-50 的整数，接受数字字符串', () => {
+    assert.equal(parseServings(4), 4);
+    assert.equal(parseServings('6'), 6);
+    assert.equal(parseServings(0), undefined);
+    assert.equal(parseServings(51), undefined);
+    assert.equal(parseServings('2.5'), undefined);
+    assert.equal(parseServings(''), undefined);
+    assert.equal(parseServings(null), undefined);
+  });
+
+  it('单位制只接受 metric / imperial', () => {
+    assert.equal(parseUnits('metric'), 'metric');
+    assert.equal(parseUnits('imperial'), 'imperial');
+    assert.equal(parseUnits('Metric'), undefined);
+    assert.equal(parseUnits(undefined), undefined);
+  });
+});
+
+describe('parseList / parseShoppingRecipes', () => {
+  it('列表接受数组或逗号分隔的字符串', () => {
+    assert.deepEqual(parseList('鸡蛋, 盐，葱、姜'), ['鸡蛋', '盐', '葱', '姜']);
+    assert.deepEqual(parseList(['milk', 3, ' salt ']), ['milk', 'salt']);
+    assert.equal(parseList(' , '), undefined);
+  });
+
+  it('菜谱项为 ID 或 { id, servings }，忽略无效项，最多 10 道', () => {
+    assert.deepEqual(parseShoppingRecipes(['cn-001', { id: ' 52772 ', servings: '4' }, { id: 'x', servings: 0 }, { id: '' }, 7, null]), [
+      { id: 'cn-001' },
+      { id: '52772', servings: 4 },
+      { id: 'x', servings: undefined },
+    ]);
+    assert.equal(parseShoppingRecipes(Array.from({ length: 12 }, (_, i) => `id-${i}`)).length, 10);
+    assert.deepEqual(parseShoppingRecipes('cn-001'), []);
+  });
+});
+
+describe('parseTimeBudget / parseWeekBudget', () => {
+  it('时间预算为 1-1440 的整数分钟', () => {
+    assert.equal(parseTimeBudget('45'), 45);
+    assert.equal(parseTimeBudget(0), undefined);
+    assert.equal(parseTimeBudget(1441), undefined);
+  });
+
+  it('一周预算接受统一分钟数或按星期指定，忽略无效取值', () => {
+    assert.equal(parseWeekBudget(30), 30);
+    assert.deepEqual(parseWeekBudget({ mon: 30, sat: '90', sun: -1, holiday: 60 }), { mon: 30, sat: 90 });
+    assert.equal(parseWeekBudget({ sun: 0 }), undefined);
+    assert.equal(parseWeekBudget([30]), undefined);
+  });
+});
+
+describe('parseSpice / parseSuggestLimit', () => {
+  it('辣度为 0-3 的整数', () => {
+    assert.equal(parseSpice(0), 0);
+    assert.equal(parseSpice('3'), 3);
+    assert.equal(parseSpice(4), undefined);
+  });
+
+  it('联想条数为 1-20，其余取值使用默认值 8', () => {
+    assert.equal(parseSuggestLimit('5'), 5);
+    assert.equal(parseSuggestLimit(21), 8);
+    assert.equal(parseSuggestLimit(undefined), 8);
+  });
+});
@@ -0,0 +1,94 @@
+// 请求参数解析：Worker（src/worker.ts）与 Pages Functions（functions/api/*）共用
+// 设计要点：
+// 1. 参数可能来自 GET 查询字符串（字符串）或 POST JSON（数字、数组、对象），两种形式都接受
+// 2. 取值无效时视为未指定（返回 undefined 或默认值），不报错，由各接口按缺省处理
+// 3. 只有路径中的菜谱 ID 解码失败时返回 null，由调用方返回 400
+import type { UnitSystem, Weekday } from '../types';
+import { WEEKDAYS } from './meal-plan';
+
+// 整数参数：数字或数字字符串，超出 [min, max] 时视为未指定
+function parseInteger(value: unknown, min: number, max: number): number | undefined {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max ? n : undefined;
+}
+
+/**
+ * 份数参数：1-50 的整数，其余取值视为未指定
+ */
+export function parseServings(value: unknown): number | undefined {
+  return parseInteger(value, 1, 50);
+}
+
+/**
+ * 时间预算参数：1-1440 的整数（分钟），其余取值视为未指定
+ */
+export function parseTimeBudget(value: unknown): number | undefined {
+  return parseInteger(value, 1, 1440);
+}
+
+/**
+ * 辣度参数：0-3 的整数（0 不辣、1 微辣、2 中辣、3 特辣），其余取值视为未指定
+ */
+export function parseSpice(value: unknown): number | undefined {
+  return parseInteger(value, 0, 3);
+}
+
+/**
+ * 联想条数参数：1-20 的整数，其余取值使用默认值 8
+ */
+export function parseSuggestLimit(value: unknown): number {
+  return parseInteger(value, 1, 20) ?? 8;
+}
+
+/**
+ * 字符串列表参数：接受数组或逗号分隔的字符串（GET 查询参数），忽略非字符串项
+ */
+export function parseList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string')
+    : typeof value === 'string' ? value.split(/[，,、]+/) : [];
+  const list = items.map((s) => s.trim()).filter(Boolean);
+  return list.length ? list : undefined;
+}
+
+/**
+ * 用量单位制参数：仅接受 metric / imperial
+ */
+export function parseUnits(value: unknown): UnitSystem | undefined {
+  return value === 'metric' || value === 'imperial' ? value : undefined;
+}
+
+/**
+ * 购物清单的菜谱参数：数组，每项为菜谱 ID 或 { id, servings }；无效项忽略，重复 ID 由 createShoppingList 合并（份数相加），最多 10 道
+ */
+export function parseShoppingRecipes(value: unknown): Array<{ id: string; servings?: number }> {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => (typeof item === 'string' ? { id: item } : item && typeof item.id === 'string' ? { id: item.id, servings: parseServings(item.servings) } : null))
+    .filter((item): item is { id: string; servings?: number } => !!item && !!item.id.trim())
+    .map((item) => ({ ...item, id: item.id.trim() }))
+    .slice(0, 10);
+}
+
+/**
+ * 一周菜单的时间预算参数：统一的分钟数，或按星期（mon-sun）分别指定；无效取值忽略
+ */
+export function parseWeekBudget(value: unknown): number | Partial<Record<Weekday, number>> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return parseTimeBudget(value);
+  const budgets: Partial<Record<Weekday, number>> = {};
+  for (const day of WEEKDAYS) {
+    const minutes = parseTimeBudget((value as Record<string, unknown>)[day]);
+    if (minutes !== undefined) budgets[day] = minutes;
+  }
+  return Object.keys(budgets).length ? budgets : undefined;
+}
+
+/**
+ * 路径中的菜谱 ID：按 URL 编码解码，编码格式错误（如 "%E0%A4%A"）时返回 null
+ */
+export function decodeRecipeId(value: string): string | null {
+  try {
+    return decodeURIComponent(value).trim();
+  } catch {
+    return null;
+  }
+}
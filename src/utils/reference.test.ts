@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChineseRecipeSource, LocalRecipeSource } from '../sources';
+import type { ReferenceItem } from '../sources/recipe-source';
+import { getReferenceData, matchReference } from './reference';
+import { MemoryTranslationCache, getTranslationCache, setTranslationCache, type TranslationCache } from './translation-cache';
+
+describe('matchReference', () => {
+  const items: ReferenceItem[] = ['Chicken', 'Seafood', 'Tomatoes'].map((name) => ({ name, thumbnail: null, description: null }));
+
+  it('忽略大小写与单复数', () => {
+    assert.equal(matchReference('chicken', items), 'Chicken');
+    assert.equal(matchReference('tomato', items), 'Tomatoes');
+  });
+
+  it('未命中时取编辑距离最近的取值', () => {
+    assert.equal(matchReference('chiken', items), 'Chicken');
+    assert.equal(matchReference('seafod', items), 'Seafood');
+  });
+
+  it('没有近似取值时返回 null', () => {
+    assert.equal(matchReference('pasta', items), null);
+    assert.equal(matchReference(' ', items), null);
+  });
+});
+
+describe('getReferenceData', () => {
+  const realFetch = globalThis.fetch;
+  const savedKey = process.env.OPENAI_API_KEY;
+  let previous: TranslationCache;
+  let cache: MemoryTranslationCache;
+  let llmCalls = 0;
+  const sources = () => [new LocalRecipeSource(), new ChineseRecipeSource()];
+
+  beforeEach(() => {
+    previous = getTranslationCache();
+    cache = new MemoryTranslationCache();
+    setTranslationCache(cache);
+    llmCalls = 0;
+    // 模拟批量翻译：每条译文前加 "[ja]"
+    globalThis.fetch = (async (_url: unknown, init?: { body?: unknown }) => {
+      llmCalls += 1;
+      const body = JSON.parse(String(init?.body));
+      const { texts } = JSON.parse(body.messages[1].content) as { texts: string[] };
+      const content = JSON.stringify({ texts: texts.map((text) => `[ja]${text}`) });
+      return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    setTranslationCache(previous);
+    globalThis.fetch = realFetch;
+    if (savedKey === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = savedKey;
+  });
+
+  it('类别按分类体系本地化，合并数据源并按显示名称去重', async () => {
+    delete process.env.OPENAI_API_KEY;
+    const items = await getReferenceData('category', 'zh-CN', sources());
+    const labels = items.map((item) => item.label);
+    assert.ok(labels.includes('海鲜'));
+    assert.equal(new Set(labels.map((l) => l.toLowerCase())).size, labels.length);
+    assert.equal(llmCalls, 0);
+  });
+
+  it('名称都已译出时缓存整表，再次请求不调用 LLM', async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    const first = await getReferenceData('cuisine', 'ja-JP', sources());
+    const calls = llmCalls;
+    assert.ok(calls > 0);
+    assert.ok(first.some((item) => item.label.startsWith('[ja]')));
+    const second = await getReferenceData('cuisine', 'ja-JP', sources());
+    assert.equal(llmCalls, calls);
+    assert.deepEqual(second, first);
+  });
+
+  it('有名称未译出（未配置 API Key）时不缓存整表，下次重试', async () => {
+    delete process.env.OPENAI_API_KEY;
+    const untranslated = await getReferenceData('cuisine', 'ja-JP', sources());
+    assert.ok(untranslated.length > 0);
+    process.env.OPENAI_API_KEY = 'test-key';
+    const retried = await getReferenceData('cuisine', 'ja-JP', sources());
+    assert.ok(llmCalls > 0);
+    assert.ok(retried.some((item) => item.label.startsWith('[ja]')));
+  });
+});
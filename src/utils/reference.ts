@@ -0,0 +1,171 @@
+// 参考数据：类别 / 菜系 / 食材的可选取值，供 /api/categories、/api/cuisines、/api/ingredients 与 recipeTool 的筛选值校验使用
+// 设计要点：
+// 1. 取值来自当前启用的数据源（主数据源 + 中式家常菜数据源，见 createRecipeSources），按显示名称去重合并，主数据源优先
+// 2. 各数据源的原始列表与本地化后的列表写入共享缓存（与翻译缓存同一存储，Workers 中为 KV），按天刷新；数据源请求失败时返回空列表
+// 3. 本地化：类别/菜系优先查分类体系，食材名优先查词表，内容已是目标语言时原样使用，其余经 Translator 批量翻译；食材说明只保留首句
+// 4. 筛选值校验：忽略大小写与单复数比较，未命中时取编辑距离最近的取值（容错上限见 utils/fuzzy.ts）作为纠正，仍无近似取值时返回 null
+import type { LocaleCode } from '../constants/locales';
+import { createRecipeSources, type RecipeSource, type ReferenceItem } from '../sources';
+import { CHINESE_REGIONS } from '../data/chinese-recipes';
+import { normalize, singular } from './glossary';
+import { MEALDB_AREAS, MEALDB_CATEGORIES } from './taxonomy';
+import { Translator } from './translator';
+import { editDistance, fuzzyLimit } from './fuzzy';
+import { CACHE_TTL, cacheKey, getTranslationCache } from './translation-cache';
+
+/**
+ * 参考数据类型
+ */
+export type ReferenceKind = 'category' | 'cuisine' | 'ingredient';
+
+/**
+ * 本地化后的参考数据条目
+ */
+export interface LocalizedReferenceItem extends ReferenceItem {
+  label: string; // 按请求语言的显示名称
+  source: string; // 来自哪个数据源
+}
+
+// 各类参考数据对应的数据源方法
+const LISTERS: Record<ReferenceKind, (source: RecipeSource) => Promise<ReferenceItem[]>> = {
+  category: (source) => source.listCategories(),
+  cuisine: (source) => source.listAreas(),
+  ingredient: (source) => source.listIngredients(),
+};
+
+// 读取缓存：读取失败按未命中处理
+async function cacheGet<T>(language: string, content: string): Promise<T | null> {
+  try {
+    return await getTranslationCache().get<T>(await cacheKey('reference', language, content));
+  } catch (error) {
+    console.error('Reference cache read error:', error);
+    return null;
+  }
+}
+
+// 写入缓存：写入失败不影响返回结果
+async function cacheSet<T>(language: string, content: string, value: T): Promise<void> {
+  try {
+    await getTranslationCache().set(await cacheKey('reference', language, content), value, CACHE_TTL.reference);
+  } catch (error) {
+    console.error('Reference cache write error:', error);
+  }
+}
+
+/**
+ * 获取单个数据源的原始取值列表（带缓存）
+ * @param kind - category / cuisine / ingredient
+ * @param source - 数据源
+ * @returns 取值列表（数据源自身的语言与写法）；请求失败时返回空列表
+ */
+export async function listReference(kind: ReferenceKind, source: RecipeSource): Promise<ReferenceItem[]> {
+  const content = `${source.name}:${kind}`;
+  const cached = await cacheGet<ReferenceItem[]>(source.language, content);
+  if (cached) return cached;
+  try {
+    const items = await LISTERS[kind](source);
+    if (items.length) await cacheSet(source.language, content, items);
+    return items;
+  } catch (error) {
+    console.error(`Reference data error (${source.name} ${kind}):`, error);
+    return [];
+  }
+}
+
+// 长说明只保留首句（食材说明多为整段百科文字）
+function firstSentence(text: string): string {
+  const match = text.match(/^[\s\S]*?[.!?。！？](?=\s|$)/);
+  return (match ? match[0] : text).trim();
+}
+
+// 无需 LLM 的显示名称：类别/菜系按分类体系中英互查，地方菜系的英文名取 CHINESE_REGIONS；食材交给 translateTexts 查词表
+function presetLabel(kind: ReferenceKind, name: string, language: LocaleCode): string | null {
+  if (kind === 'ingredient') return null;
+  const entry = (kind === 'category' ? MEALDB_CATEGORIES : MEALDB_AREAS).find((e) => e.canonical === name || e.zh === name);
+  if (entry && language === 'zh-CN') return entry.zh;
+  if (entry && language === 'en-US') return entry.canonical;
+  const region = kind === 'cuisine' ? CHINESE_REGIONS.find((r) => r.name === name) : undefined;
+  if (region && language === 'en-US') return region.nameEn;
+  return null;
+}
+
+// 单个数据源的条目本地化为目标语言；complete 表示需要翻译的名称均已译出（词表、缓存或 LLM 给出译文，译文可与原文相同；否则不缓存整表，下次重试）
+async function localizeItems(
+  kind: ReferenceKind,
+  source: RecipeSource,
+  items: ReferenceItem[],
+  language: LocaleCode,
+  translator: Translator,
+): Promise<{ items: LocalizedReferenceItem[]; complete: boolean }> {
+  const sameLanguage = source.language === language;
+  const presets = items.map((item) => presetLabel(kind, item.name, language));
+  const descriptions = items.map((item) => (item.description && kind === 'ingredient' ? firstSentence(item.description) : item.description));
+  const pendingNames = items.map((item, i) => (presets[i] || sameLanguage ? '' : item.name));
+  const [labels, texts] = sameLanguage
+    ? [{ texts: pendingNames, translated: pendingNames.map(() => true) }, descriptions.map((d) => d ?? '')]
+    : await Promise.all([
+      translator.translateTextsTracked(pendingNames, language, { ingredient: kind === 'ingredient' }),
+      translator.translateTexts(descriptions.map((d) => d ?? ''), language),
+    ]);
+  return {
+    items: items.map((item, i) => ({
+      ...item,
+      label: presets[i] || labels.texts[i] || item.name,
+      description: descriptions[i] ? texts[i] : null,
+      source: source.name,
+    })),
+    complete: labels.translated.every(Boolean),
+  };
+}
+
+/**
+ * 获取本地化后的参考数据（合并全部数据源，带缓存）
+ * @param kind - category / cuisine / ingredient
+ * @param language - 目标语言
+ * @param sources - 数据源（默认 createRecipeSources()，主数据源在前）
+ * @returns 按显示名称去重后的条目；name 为可直接传给 /api/recipes 的筛选取值
+ */
+export async function getReferenceData(
+  kind: ReferenceKind,
+  language: LocaleCode,
+  sources: RecipeSource[] = createRecipeSources(),
+): Promise<LocalizedReferenceItem[]> {
+  const content = `${sources.map((source) => source.name).join('+')}:${kind}`;
+  const cached = await cacheGet<LocalizedReferenceItem[]>(language, content);
+  if (cached) return cached;
+
+  const translator = new Translator();
+  const localized = await Promise.all(
+    sources.map(async (source) => localizeItems(kind, source, await listReference(kind, source), language, translator)),
+  );
+  const byLabel = new Map<string, LocalizedReferenceItem>();
+  for (const item of localized.flatMap((result) => result.items)) {
+    const key = item.label.trim().toLowerCase();
+    if (key && !byLabel.has(key)) byLabel.set(key, item);
+  }
+  const items = Array.from(byLabel.values());
+  if (items.length && localized.every((result) => result.complete)) await cacheSet(language, content, items);
+  return items;
+}
+
+/**
+ * 在取值列表中查找与输入对应的取值
+ * @param value - 筛选值（与数据源同一语言，如 "chiken"）
+ * @param items - 取值列表（见 listReference）
+ * @returns 对应的取值（大小写 / 单复数不同也视为命中，否则取编辑距离最近的取值，如 "Chicken"）；无近似取值时返回 null
+ */
+export function matchReference(value: string, items: ReferenceItem[]): string | null {
+  const key = normalize(value);
+  if (!key) return null;
+  const names = items.map((item) => ({ name: item.name, key: normalize(item.name) }));
+  const exact = names.find((n) => n.key === key) || names.find((n) => singular(n.key) === singular(key));
+  if (exact) return exact.name;
+
+  const limit = fuzzyLimit(key.length);
+  let best: { name: string; distance: number } | null = null;
+  for (const n of names) {
+    const distance = editDistance(key, n.key, best ? Math.min(limit, best.distance - 1) : limit);
+    if (distance <= limit && (!best || distance < best.distance)) best = { name: n.name, distance };
+  }
+  return best?.name ?? null;
+}
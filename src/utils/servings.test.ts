@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SERVINGS, estimateServings } from './servings';
+
+const weighing = (...measures: string[]) => measures.map((measure) => ({ ingredient: 'x', measure }));
+
+describe('estimateServings', () => {
+  it('做法中写明的份数直接采用', () => {
+    assert.deepEqual(estimateServings({ instructions: 'Mix well. Serves 6.', ingredients: weighing('5kg') }), { servings: 6, estimated: false });
+    assert.deepEqual(estimateServings({ instructions: '出锅装盘，可供3人食用。', ingredients: [] }), { servings: 3, estimated: false });
+  });
+
+  it('按可计重食材的总量估算，限制在 2-8 份', () => {
+    assert.deepEqual(estimateServings({ ingredients: weighing('1kg') }), { servings: 4, estimated: true });
+    assert.deepEqual(estimateServings({ ingredients: weighing('2 cups') }), { servings: 2, estimated: true });
+    assert.deepEqual(estimateServings({ ingredients: weighing('5kg') }), { servings: 8, estimated: true });
+  });
+
+  it('没有可计重食材时使用默认份数', () => {
+    assert.deepEqual(estimateServings({ ingredients: weighing('to taste', '2 eggs') }), { servings: DEFAULT_SERVINGS, estimated: true });
+  });
+});
@@ -0,0 +1,59 @@
+// 份数估算：数据源通常不标注份数（TheMealDB、本地数据集与中式家常菜数据集均无此字段）
+// 设计要点：
+// 1. 做法原文中写明份数时直接采用（"Serves 4"、"4 servings"、"4人份"、"可供3人食用"）
+// 2. 否则按可计重食材（克/毫升/杯等，换算为克）的总量估算，每份约 GRAMS_PER_SERVING 克，限制在 2-8 份
+// 3. 既无说明又无可计重食材时按 DEFAULT_SERVINGS 计（TheMealDB 菜谱最常见的份量）
+import type { IngredientItem } from '../types';
+import { convertQuantity, parseMeasure } from './measure';
+
+/**
+ * 份数估算结果
+ */
+export interface ServingsEstimate {
+  servings: number; // 原菜谱份数
+  estimated: boolean; // true 表示按食材用量估算，false 表示做法中明确写明
+}
+
+// 无法估算时的默认份数
+export const DEFAULT_SERVINGS = 4;
+
+// 每份的食材总重量（克）
+const GRAMS_PER_SERVING = 250;
+
+// 估算份数的范围
+const MIN_ESTIMATED = 2;
+const MAX_ESTIMATED = 8;
+
+// 做法中写明份数的表达
+const SERVING_PATTERNS = [
+  /\bserves\s+(\d+)/i,
+  /\b(\d+)\s*(?:servings|portions|people)\b/i,
+  /(\d+)\s*人份/,
+  /供\s*(\d+)\s*人/,
+  /(\d+)\s*人食用/,
+];
+
+// 可计重单位折算为克（体积按 1 毫升 ≈ 1 克）
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, ml: 1, l: 1000 };
+
+/**
+ * 估算菜谱的原始份数
+ * @param recipe - 菜谱（只使用做法与食材）
+ * @returns 份数与是否为估算值
+ */
+export function estimateServings(recipe: { instructions?: string | null; ingredients: IngredientItem[] }): ServingsEstimate {
+  for (const pattern of SERVING_PATTERNS) {
+    const stated = Number(recipe.instructions?.match(pattern)?.[1]);
+    if (stated >= 1 && stated <= 50) return { servings: stated, estimated: false };
+  }
+
+  const grams = recipe.ingredients.reduce((sum, item) => {
+    const quantity = convertQuantity(parseMeasure(item.measure), 'metric');
+    const perUnit = quantity.unit ? GRAMS_PER_UNIT[quantity.unit] : undefined;
+    return quantity.amount !== null && perUnit ? sum + quantity.amount * perUnit : sum;
+  }, 0);
+  if (!grams) return { servings: DEFAULT_SERVINGS, estimated: true };
+
+  const servings = Math.min(MAX_ESTIMATED, Math.max(MIN_ESTIMATED, Math.round(grams / GRAMS_PER_SERVING)));
+  return { servings, estimated: true };
+}
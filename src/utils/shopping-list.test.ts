@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChineseRecipeSource, LocalRecipeSource } from '../sources';
+import { createShoppingList, storeSection } from './shopping-list';
+import { MemoryTranslationCache, getTranslationCache, setTranslationCache, type TranslationCache } from './translation-cache';
+
+describe('storeSection', () => {
+  it('按中英文关键词识别超市分区', () => {
+    assert.equal(storeSection(['鸡胸肉']), 'meat');
+    assert.equal(storeSection(['prawns']), 'seafood');
+    assert.equal(storeSection(['鸡蛋']), 'dairy');
+    assert.equal(storeSection(['面粉']), 'staples');
+    assert.equal(storeSection(['Garlic cloves']), 'produce');
+    assert.equal(storeSection(['widget']), 'other');
+  });
+
+  it('调味品优先，带肉、鱼、蔬菜字样的调味品不归入对应分区', () => {
+    assert.equal(storeSection(['鱼露']), 'condiments');
+    assert.equal(storeSection(['鸡精']), 'condiments');
+    assert.equal(storeSection(['蒜粉']), 'condiments');
+    assert.equal(storeSection(['coconut milk']), 'staples');
+  });
+});
+
+describe('createShoppingList', () => {
+  const savedKey = process.env.OPENAI_API_KEY;
+  let previous: TranslationCache;
+  const sources = () => [new LocalRecipeSource(), new ChineseRecipeSource()];
+
+  beforeEach(() => {
+    previous = getTranslationCache();
+    setTranslationCache(new MemoryTranslationCache());
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    setTranslationCache(previous);
+    if (savedKey !== undefined) process.env.OPENAI_API_KEY = savedKey;
+  });
+
+  it('重复的菜谱 ID 合并为一道菜并相加份数，找不到的 ID 只列一次', async () => {
+    const list = await createShoppingList({
+      recipes: [{ id: 'cn-001', servings: 2 }, { id: 'cn-001', servings: 4 }, { id: 'missing' }, { id: 'missing' }],
+    }, 'zh-CN', sources());
+    assert.deepEqual(list.recipes.map((r) => [r.id, r.servings]), [['cn-001', 6]]);
+    assert.deepEqual(list.notFound, ['missing']);
+  });
+
+  it('多道菜的同一食材合并用量，按分区分组', async () => {
+    const list = await createShoppingList({ recipes: [{ id: 'cn-001' }, { id: 'cn-025' }] }, 'zh-CN', sources());
+    const items = list.sections.flatMap((s) => s.items);
+    const scallion = items.find((item) => item.name === '葱');
+    assert.deepEqual(scallion?.recipes, ['宫保鸡丁', '番茄炒蛋']);
+    assert.equal(list.sections.find((s) => s.items.some((item) => item.name === '鸡胸肉'))?.section, 'meat');
+    assert.ok(list.markdown.includes('- [ ] **鸡胸肉**'));
+  });
+
+  it('家中已有的食材：只写名称时整项不买，写了用量时扣除', async () => {
+    const list = await createShoppingList({ recipes: [{ id: 'cn-025' }], pantry: ['盐', '鸡蛋 1个'] }, 'zh-CN', sources());
+    const items = list.sections.flatMap((s) => s.items);
+    assert.deepEqual(list.pantry, ['盐']);
+    assert.ok(!items.some((item) => item.name === '盐'));
+    assert.equal(items.find((item) => item.name === '鸡蛋')?.amount, '2');
+  });
+});
@@ -0,0 +1,292 @@
+// 购物清单：把选定的几道菜（可分别指定份数）合并为一张购物清单，供 POST /api/shopping-list 使用
+// 设计要点：
+// 1. 菜谱按 ID 依次向各数据源 lookup（与 recipeTool 的详情查询同一路径），按份数缩放用量后，同一食材（经食材词表归一，中英文写法视为同一食材）的用量合并，
+//    质量 / 体积换算为同一单位相加，个数类按单位文字相加（见 utils/measure.ts 的 mergeQuantities）
+// 2. 家中已有的食材：只写食材名时整项不再购买；写了用量（"鸡蛋 4个"、"milk 200ml"）时从合并后的用量中扣除，扣完才视为已有
+// 3. 食材按超市分区（蔬果 / 肉禽 / 水产 / 蛋奶豆制品 / 米面粮油与干货 / 调味品与香料 / 其他）分组，规则为中英文关键词，不调用 LLM；清水等不列入清单
+// 4. 食材名、菜名与个数类单位文字按请求语言输出（词表优先，其余经 Translator 批量翻译），并生成纯文本与 Markdown 两种可直接分享的写法
+import { localeInfo, type LocaleCode } from '../constants/locales';
+import { createRecipeSources, lookupRecipe, type RecipeSource } from '../sources';
+import type { NormalizedRecipe, Quantity, StoreSection, UnitSystem } from '../types';
+import { findIngredient, normalize, singular } from './glossary';
+import { formatQuantity, mergeQuantities, parseMeasure, scaleQuantity, subtractQuantity } from './measure';
+import { estimateServings } from './servings';
+import { Translator } from './translator';
+
+/**
+ * 购物清单中的一项食材
+ */
+export interface ShoppingItem {
+  name: string; // 按请求语言的食材名
+  section: StoreSection; // 超市分区
+  quantities: Quantity[]; // 合并后仍需购买的用量（已按单位制换算）
+  amount: string; // 用量显示文字，多个用量以 " + " 连接，如 "300克 + 2个"；只有"适量"等原文时为该原文
+  recipes: string[]; // 用到该食材的菜谱（显示名称）
+}
+
+/**
+ * 超市分区及其食材
+ */
+export interface ShoppingSection {
+  section: StoreSection;
+  label: string; // 按请求语言的分区名称
+  items: ShoppingItem[];
+}
+
+/**
+ * 清单对应的菜谱
+ */
+export interface ShoppingRecipe {
+  id: string;
+  name: string; // 按请求语言的菜名
+  source?: string; // 来自哪个数据源
+  servings: number; // 用量对应的份数
+  baseServings: number; // 原菜谱份数（未标注时为估算值）
+}
+
+/**
+ * 购物清单
+ */
+export interface ShoppingList {
+  recipes: ShoppingRecipe[];
+  sections: ShoppingSection[]; // 按固定分区顺序排列，省略没有食材的分区
+  pantry: string[]; // 家中已有、无需购买的食材（按请求语言）
+  notFound: string[]; // 各数据源都没有的菜谱 ID
+  text: string; // 纯文本写法
+  markdown: string; // Markdown 写法（分区为二级标题，食材为待办列表）
+}
+
+/**
+ * 生成购物清单的请求
+ */
+export interface ShoppingListRequest {
+  recipes: Array<{ id: string; servings?: number }>; // 菜谱 ID 与份数（未指定时为原菜谱份数）
+  pantry?: string[]; // 家中已有的食材，可带用量，如 ["鸡蛋 4个", "盐", "milk 200ml"]
+  units?: UnitSystem; // 用量单位制，默认随语言
+}
+
+const CJK = /[\u4e00-\u9fa5]/;
+
+// 分区顺序（同时为识别顺序之外的展示顺序）
+const SECTION_ORDER: StoreSection[] = ['produce', 'meat', 'seafood', 'dairy', 'staples', 'condiments', 'other'];
+
+// 分区识别规则（按顺序匹配，先命中者为准）：英文按整词匹配，中文按子串匹配；调味品在最前，避免"鱼露"、"鸡精"、"蒜粉"被归入水产、肉禽与蔬果
+const SECTION_RULES: Array<[StoreSection, RegExp, RegExp?]> = [
+  ['condiments', /\b(?:salt|sugar|sauce|ketchup|mayonnaise|mustard|vinegar|oil|stock|broth|bouillon|paste|honey|syrup|molasses|spices?|powder|seasoning|cumin|paprika|turmeric|cinnamon|nutmeg|(?<!garlic )cloves?|cardamom|peppercorns?|black pepper|white pepper|sichuan pepper|cayenne|chilli flakes|dried chill?i(?:es)?|bay leaf|bay leaves|oregano|star anise|fennel seeds|sesame seeds|yeast|vanilla|cocoa|wine|sake|mirin|sherry|tamari|worcestershire|tabasco|sriracha|harissa|gochujang|miso|doubanjiang|curry|garam masala|five spice)\b|盐|糖|酱|醋|油(?!菜|麦|条|豆腐)|料酒|黄酒|花椒|八角|桂皮|香叶|胡椒|辣椒面|辣椒粉|干辣椒|鸡精|味精|蚝油|生抽|老抽|豆瓣|豆豉|腐乳|五香|孜然|咖喱|芝麻|蜂蜜|高汤|鱼露|蒜粉|姜粉/i],
+  ['seafood', /\b(?:fish|salmon|tuna|cod|haddock|anchov(?:y|ies)|sardines?|mackerel|trout|sea bass|monkfish|prawns?|shrimps?|crabs?|lobsters?|mussels?|clams?|oysters?|scallops?|squid|octopus)\b|鱼|虾|蟹|贝|蚝|鱿|蛤|海参|鲍鱼/i],
+  ['meat', /\b(?:beef|pork|chicken|lamb|mutton|goat|duck|turkey|veal|venison|bacon|ham|sausages?|chorizo|prosciutto|pancetta|salami|steak|mince|ribs|oxtail|liver|kidneys?(?! beans?))\b|鸡(?!蛋)|鸭(?!蛋)|猪|牛(?!奶|乳|油果)|羊(?!奶)|肉(?!桂|豆蔻)|排骨|培根|火腿|香肠|腊肠|里脊|五花/i],
+  ['dairy', /\b(?:milk|butter|cream|cheese|yogh?urt|eggs?|egg yolks?|egg whites?|tofu|paneer|ghee|parmesan|mozzarella|cheddar|feta|ricotta|mascarpone|creme fraiche|buttermilk|custard)\b|奶|蛋|黄油|芝士|奶酪|豆腐|豆浆|腐竹|千张/i, /coconut|peanut butter|(?:almond|oat) milk|butter beans|butternut/i],
+  ['staples', /\b(?:rice|flour|cornflour|cornstarch|starch|pasta|spaghetti|penne|fusilli|linguine|tagliatelle|lasagne|macaroni|noodles|vermicelli|bread|breadcrumbs|tortillas?|pitta|naan|oats|couscous|bulgur|quinoa|lentils|chickpeas|(?<!green |french |runner |broad )beans|tinned|canned|chopped tomatoes|coconut (?:milk|cream)|almonds?|walnuts?|cashews?|peanuts?|pine nuts|raisins|chocolate|gelatine|pastry)\b|(?<!玉|虾)米(?!酒|醋)|面|粉|花生|核桃|腰果|杏仁|松子|年糕|馒头|木耳|红枣|枸杞|海带|紫菜/i],
+  ['produce', /\b(?:onions?|shallots?|garlic|ginger|tomato(?:es)?|potato(?:es)?|carrots?|celery|peppers?|chill?i(?:es)?|lettuce|spinach|cabbage|broccoli|cauliflower|courgettes?|zucchini|aubergines?|eggplants?|mushrooms?|leeks?|peas|beans|corn|cucumbers?|avocados?|lemons?|limes?|oranges?|apples?|bananas?|berries|strawberries|blueberries|raspberries|pears?|peaches|mangoes|pineapple|grapes|cherries|herbs|parsley|coriander|cilantro|basil|mint|dill|chives|rosemary|thyme|sage|scallions?|squash|pumpkin|kale|asparagus|radish(?:es)?|beetroot|fennel|rocket|watercress|bok choy|pak choi|bean ?sprouts|lemongrass|okra|turnips?|parsnips?|yams?|plantains?)\b|菜|葱|姜|蒜|椒|瓜|茄|萝卜|土豆|马铃薯|番茄|西红柿|豆芽|豆角|芹|菇|菌|笋|藕|莲|山药|芋|玉米|韭|芫荽|苹果|梨|橙|柠檬|桃|莓|葡萄|香蕉|芒果|菠萝/i],
+];
+
+// 不列入购物清单的食材（自来水、冰块）
+const SKIPPED = /^(?:water|cold water|hot water|warm water|boiling water|ice|ice cubes|水|清水|温水|开水|冷水|凉水|冰块)$/i;
+
+// 食材的合并键：词表规范名，未收录时为单数形式（中英文写法经词表归一为同一键）
+function ingredientKey(name: string): string {
+  return singular(normalize(findIngredient(name)?.en ?? name));
+}
+
+/**
+ * 识别食材的超市分区
+ * @param names - 同一食材的多种写法（如原文与词表英文名），任一写法命中即可
+ * @returns 超市分区；都未命中时为 other
+ */
+export function storeSection(names: string[]): StoreSection {
+  for (const [section, pattern, except] of SECTION_RULES) {
+    if (names.some((name) => pattern.test(name) && !(except && except.test(name)))) return section;
+  }
+  return 'other';
+}
+
+// 拆分家中已有的食材：食材名 + 可选用量（"鸡蛋 4个"、"鸡蛋4个"、"milk 200ml"）
+function parsePantryItem(text: string): { name: string; quantity: Quantity | null } {
+  const match = text.trim().match(/^(.+?)\s*(\d.*)$/);
+  if (!match) return { name: text.trim(), quantity: null };
+  const quantity = parseMeasure(match[2]);
+  return { name: match[1].trim(), quantity: quantity.amount === null ? null : quantity };
+}
+
+// 合并中的食材：original 为首次出现的写法，language 为其所属菜谱的语言
+interface PendingItem {
+  key: string;
+  original: string;
+  language: LocaleCode;
+  section: StoreSection;
+  quantities: Quantity[];
+  recipes: number[]; // 用到该食材的菜谱（在清单菜谱中的下标）
+}
+
+/**
+ * 把已获取的菜谱合并为购物清单（不含数据源查询，见 createShoppingList）
+ * @param selections - 菜谱与份数（未指定份数时为原菜谱份数）
+ * @param options - language：输出语言；units：用量单位制（默认随语言）；pantry：家中已有的食材（可带用量）
+ * @param translator - 翻译器（默认新建）
+ * @returns 购物清单（notFound 为空数组）
+ */
+export async function buildShoppingList(
+  selections: Array<{ recipe: NormalizedRecipe; servings?: number }>,
+  options: { language: LocaleCode; units?: UnitSystem; pantry?: string[] },
+  translator: Translator = new Translator(),
+): Promise<ShoppingList> {
+  const { language } = options;
+  const system = options.units ?? localeInfo(language).unitSystem;
+
+  // 逐道菜按份数缩放用量，按合并键归并
+  const items = new Map<string, PendingItem>();
+  const recipes = selections.map(({ recipe, servings }, index) => {
+    const base = estimateServings(recipe);
+    const target = servings ?? base.servings;
+    const recipeLanguage = recipe.language ?? 'en-US';
+    for (const { ingredient, measure } of recipe.ingredients) {
+      const name = ingredient.trim();
+      if (!name || SKIPPED.test(name)) continue;
+      const key = ingredientKey(name);
+      const item = items.get(key) ?? {
+        key,
+        original: name,
+        language: recipeLanguage,
+        section: storeSection([name, findIngredient(name)?.en ?? name]),
+        quantities: [],
+        recipes: [],
+      };
+      item.quantities.push(scaleQuantity(parseMeasure(measure), target / base.servings));
+      if (!item.recipes.includes(index)) item.recipes.push(index);
+      items.set(key, item);
+    }
+    return { recipe, servings: target, baseServings: base.servings, language: recipeLanguage };
+  });
+
+  // 合并用量，再扣除家中已有的食材：只写食材名时整项视为已有，写了用量时扣除
+  const pantryTerms = await Promise.all((options.pantry ?? []).map(async (text) => {
+    const { name, quantity } = parsePantryItem(text);
+    const { ingredients: translated } = await translator.translateRecipeInput({ ingredients: name });
+    return { keys: new Set([ingredientKey(name), ingredientKey(translated || name)]), quantity };
+  }));
+  const needed: Array<PendingItem & { merged: Quantity[] }> = [];
+  const covered: PendingItem[] = [];
+  for (const item of items.values()) {
+    let merged = mergeQuantities(item.quantities, system);
+    for (const term of pantryTerms.filter((t) => t.keys.has(item.key))) {
+      merged = term.quantity ? subtractQuantity(merged, term.quantity, system) : [];
+    }
+    (merged.length ? needed : covered).push(Object.assign(item, { merged }));
+  }
+
+  // 食材名（词表英文名优先）、菜名与个数类单位文字：原文语言与目标语言不同时才翻译，同类文本一次批量翻译
+  const sourceName = (item: PendingItem) => {
+    const entry = findIngredient(item.original);
+    return entry ? { text: entry.en, language: 'en-US' as LocaleCode } : { text: item.original, language: item.language };
+  };
+  const names = [...needed, ...covered].map(sourceName);
+  const units = needed.flatMap((item) => item.merged.filter((q) => q.text && (q.amount === null || !q.unit)).map((q) => ({ text: q.text, language: item.language })));
+  const [nameTexts, unitTexts, recipeNames] = await Promise.all([
+    translator.translateTexts(names.map((n) => (n.language !== language ? n.text : '')), language, { ingredient: true }),
+    translator.translateTexts(units.map((u) => (u.language !== language ? u.text : '')), language),
+    translator.translateTexts(recipes.map((r) => (r.language !== language ? r.recipe.name : '')), language),
+  ]);
+  const localizedName = (i: number) => nameTexts[i] || names[i].text;
+  const localizedUnits = new Map(units.map((u, i) => [u.text, unitTexts[i] || u.text]));
+  const recipeList: ShoppingRecipe[] = recipes.map((r, i) => ({
+    id: r.recipe.id,
+    name: recipeNames[i] || r.recipe.name,
+    ...(r.recipe.source ? { source: r.recipe.source } : {}),
+    servings: r.servings,
+    baseServings: r.baseServings,
+  }));
+
+  // 用量显示：可换算的按语言渲染，个数类为 "数量 + 单位文字"，没有数量的为原文
+  const amountOf = (quantities: Quantity[]) => quantities.map((q) => {
+    const text = localizedUnits.get(q.text) ?? q.text;
+    if (q.amount === null) return text;
+    const formatted = formatQuantity(q, language);
+    if (formatted) return formatted;
+    const n = q.amountMax === null ? `${q.amount}` : `${q.amount}-${q.amountMax}`;
+    return text ? `${n}${CJK.test(text) ? '' : ' '}${text}` : n;
+  }).filter(Boolean).join(' + ');
+
+  const shoppingItems: ShoppingItem[] = needed.map((item, i) => ({
+    name: localizedName(i),
+    section: item.section,
+    quantities: item.merged,
+    amount: amountOf(item.merged),
+    recipes: item.recipes.map((index) => recipeList[index].name),
+  }));
+  const { sectionLabels } = localeInfo(language);
+  const sections: ShoppingSection[] = SECTION_ORDER
+    .map((section) => ({ section, label: sectionLabels[section], items: shoppingItems.filter((item) => item.section === section) }))
+    .filter((section) => section.items.length);
+  const pantry = covered.map((_, i) => localizedName(needed.length + i));
+
+  const list = { recipes: recipeList, sections, pantry, notFound: [] as string[] };
+  return { ...list, text: renderShoppingText(list, language), markdown: renderShoppingMarkdown(list, language) };
+}
+
+/**
+ * 渲染为纯文本（适合粘贴到聊天软件或备忘录）
+ * @param list - 购物清单（不需要 text / markdown 字段）
+ * @param language - 标题与分区名称的语言
+ */
+export function renderShoppingText(list: Pick<ShoppingList, 'recipes' | 'sections' | 'pantry'>, language: LocaleCode): string {
+  const { messages } = localeInfo(language);
+  const lines = [messages.shoppingListTitle];
+  if (list.recipes.length) lines.push(messages.shoppingListRecipes(list.recipes.map((r) => r.name)));
+  for (const section of list.sections) {
+    lines.push('', `【${section.label}】`);
+    for (const item of section.items) lines.push(`- ${item.name}${item.amount ? ` ${item.amount}` : ''}`);
+  }
+  if (list.pantry.length) lines.push('', `【${messages.shoppingListPantry}】`, list.pantry.join(CJK.test(list.pantry.join('')) ? '、' : ', '));
+  return lines.join('\n');
+}
+
+/**
+ * 渲染为 Markdown（分区为二级标题，食材为待办列表，可逐项勾选）
+ * @param list - 购物清单（不需要 text / markdown 字段）
+ * @param language - 标题与分区名称的语言
+ */
+export function renderShoppingMarkdown(list: Pick<ShoppingList, 'recipes' | 'sections' | 'pantry'>, language: LocaleCode): string {
+  const { messages } = localeInfo(language);
+  const lines = [`# ${messages.shoppingListTitle}`];
+  if (list.recipes.length) lines.push('', `_${messages.shoppingListRecipes(list.recipes.map((r) => r.name))}_`);
+  for (const section of list.sections) {
+    lines.push('', `## ${section.label}`, '');
+    for (const item of section.items) lines.push(`- [ ] **${item.name}**${item.amount ? ` ${item.amount}` : ''}`);
+  }
+  if (list.pantry.length) {
+    lines.push('', `## ${messages.shoppingListPantry}`, '');
+    for (const name of list.pantry) lines.push(`- ~~${name}~~`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 按菜谱 ID 生成购物清单：依次向各数据源查询详情，合并食材、扣除家中已有的食材并按超市分区分组
+ * @param request - 菜谱 ID 与份数、家中已有的食材、单位制
+ * @param language - 输出语言
+ * @param sources - 数据源（默认 createRecipeSources()，主数据源在前）
+ * @returns 购物清单；同一 ID 重复出现时合并为一道菜、份数相加；各数据源都没有的 ID 列在 notFound 中（只列一次）
+ */
+export async function createShoppingList(
+  request: ShoppingListRequest,
+  language: LocaleCode,
+  sources: RecipeSource[] = createRecipeSources(),
+): Promise<ShoppingList> {
+  // 同一 ID 重复出现时份数相加（未指定份数的按原菜谱份数计），详情只查询一次
+  const selections = new Map<string, { recipe: NormalizedRecipe; servings?: number }>();
+  const notFound = new Set<string>();
+  for (const { id, servings } of request.recipes) {
+    if (notFound.has(id)) continue;
+    const selected = selections.get(id);
+    if (selected) {
+      const base = estimateServings(selected.recipe).servings;
+      selected.servings = (selected.servings ?? base) + (servings ?? base);
+      continue;
+    }
+    const recipe = await lookupRecipe(id, sources);
+    if (recipe) selections.set(id, { recipe, servings });
+    else notFound.add(id);
+  }
+  const list = await buildShoppingList(Array.from(selections.values()), { language, units: request.units, pantry: request.pantry });
+  return { ...list, notFound: Array.from(notFound) };
+}
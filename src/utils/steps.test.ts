@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSteps } from './steps';
+
+describe('parseSteps', () => {
+  it('按行拆分并去掉步骤编号', () => {
+    assert.deepEqual(parseSteps('STEP 1\nPreheat the oven.\nSTEP 2\nBake.').map((s) => s.text), ['Preheat the oven.', 'Bake.']);
+    assert.deepEqual(parseSteps('①洗净\n②切块').map((s) => [s.index, s.text]), [[1, '洗净'], [2, '切块']]);
+    assert.deepEqual(parseSteps(''), []);
+    assert.deepEqual(parseSteps(null), []);
+  });
+
+  it('识别中英日韩的时长与温度', () => {
+    const [step] = parseSteps('Bake at 350°F for 1 hour 15 minutes.');
+    assert.equal(step.durationMinutes, 75);
+    assert.deepEqual(step.temperature, { value: 350, unit: 'F' });
+    assert.deepEqual(parseSteps('Preheat the oven to 180C.')[0].temperature, { value: 180, unit: 'C' });
+    assert.equal(parseSteps('大火翻炒2分钟即可。')[0].durationMinutes, 2);
+    assert.equal(parseSteps('炖二十分钟')[0].durationMinutes, 20);
+    assert.equal(parseSteps('十分钟后出锅')[0].durationMinutes, 10);
+    assert.equal(parseSteps('煮5分')[0].durationMinutes, 5);
+    assert.equal(parseSteps('鶏肉を1時間漬ける')[0].durationMinutes, 60);
+    assert.equal(parseSteps('30분 동안 재워 둡니다')[0].durationMinutes, 30);
+  });
+
+  it('"十分入味"、"五分熟" 不是时长', () => {
+    assert.equal(parseSteps('腌制十分入味后备用')[0].durationMinutes, null);
+    assert.equal(parseSteps('牛排煎至五分熟')[0].durationMinutes, null);
+  });
+
+  it('腌制、冷藏与长时间炖煮为等待类步骤', () => {
+    assert.equal(parseSteps('鸡肉切丁，加料酒腌制15分钟。')[0].passive, true);
+    assert.equal(parseSteps('Chill the dough for 30 minutes.')[0].passive, true);
+    assert.equal(parseSteps('Bake for 25 minutes.')[0].passive, true);
+    assert.equal(parseSteps('大火翻炒2分钟即可。')[0].passive, false);
+  });
+
+  it('辣椒（chilli）不算冷藏', () => {
+    assert.equal(parseSteps('Add the chilli flakes and stir.')[0].passive, false);
+    assert.equal(parseSteps('Heat the chillies in oil.')[0].passive, false);
+  });
+
+  it('识别步骤涉及的食材，英文按完整单词匹配', () => {
+    const steps = parseSteps('1. 鸡肉切丁，加料酒腌制。\n2. 爆香干辣椒。', ['鸡肉', '干辣椒', '料酒']);
+    assert.deepEqual(steps.map((s) => s.ingredients), [['鸡肉', '料酒'], ['干辣椒']]);
+    assert.deepEqual(parseSteps('Boil the pasta.', ['Oil', 'Pasta'])[0].ingredients, ['Pasta']);
+  });
+});
@@ -0,0 +1,147 @@
+// 做法步骤解析：把 instructions 原文拆分为有序步骤，并识别每步的时长、温度、涉及的食材与是否为等待类步骤
+// 设计要点：
+// 1. 拆分：优先按行（去掉 "STEP 1"、"1."、"第1步"、"①" 等编号）；只有一段长文本时按句拆分
+// 2. 识别规则覆盖 中 / 英 / 日 / 韩 常见写法（"10 minutes"、"10分钟"、"1時間"、"30분"、"overnight"、"过夜"）
+// 3. 在输出语言的文本上解析（已翻译的 instructions），步骤文字可直接展示
+// 4. 纯规则实现，不调用 LLM；识别不到时 durationMinutes / temperature 为 null
+import type { RecipeStep } from '../types';
+import { findIngredient } from './glossary';
+
+// 过夜按 8 小时计
+const OVERNIGHT_MINUTES = 8 * 60;
+
+// 长时间加热的步骤（烤、炖、焖等）达到该时长时也视为等待类步骤
+const PASSIVE_COOKING_MINUTES = 20;
+
+// 步骤编号前缀："STEP 1"、"Step 2:"、"1."、"2)"、"第3步"、"①"
+const STEP_PREFIX = /^\s*(?:step\s*\d+\s*[:.：)-]?|\d+\s*[.)、．:：]|第\s*[\d一二三四五六七八九十]+\s*步\s*[:：、，,.]?|[①②③④⑤⑥⑦⑧⑨⑩])\s*/i;
+
+// 中文数字（十以内组合，如 "十五"、"二十"、"两"、"半"）
+const CN_DIGITS: Record<string, number> = { 零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+
+function parseCnNumber(text: string): number | null {
+  if (text === '半') return 0.5;
+  if (/^\d+(?:\.\d+)?$/.test(text)) return Number(text);
+  if (!/^[零一二两三四五六七八九十]+$/.test(text)) return null;
+  if (!text.includes('十')) return CN_DIGITS[text] ?? null;
+  const [tens, ones] = text.split('十');
+  return (tens ? CN_DIGITS[tens] ?? 0 : 1) * 10 + (ones ? CN_DIGITS[ones] ?? 0 : 0);
+}
+
+// 数字写法：阿拉伯数字、范围（取下限）、中文数字
+const NUM = '(\\d+(?:\\.\\d+)?|[零一二两三四五六七八九十半]+)(?:\\s*(?:-|–|~|～|to|至|到)\\s*(?:\\d+(?:\\.\\d+)?|[一二两三四五六七八九十]+))?';
+
+// 时长单位 -> 分钟（"一个半小时" 中的 "半" 由第二个捕获组识别）
+const DURATION_PATTERNS: Array<[RegExp, number]> = [
+  [new RegExp(`${NUM}\\s*(?:[个個]?(半)?(?:小时|小時)|hours?|hrs?|h\\b|時間|시간)`, 'gi'), 60],
+  // 单独的"分"：排除"五分熟"、"七分满"、"三分之一"等非时长写法，以及作副词的"十分"（"十分入味"、日文"十分に"）
+  [new RegExp(`${NUM}\\s*(?:minutes?|mins?\\b|分钟|分鐘|(?<!(?:^|[^\\d零一二两三四五六七八九])十)分(?![之为為成开開别別配熟满滿饱飽])|분)`, 'gi'), 1],
+  [new RegExp(`${NUM}\\s*(?:seconds?|secs?\\b|秒钟|秒鐘|秒|초)`, 'gi'), 1 / 60],
+];
+const HALF_HOUR = /half an hour/i; // 中文 "半小时" 由 NUM 中的 "半" 覆盖
+const OVERNIGHT = /overnight|过夜|過夜|一晩|一夜|하룻밤|밤새/i;
+
+// 温度："180°C"、"180C"、"350 F"、"200 degrees"、"180℃"、"180度"
+const TEMPERATURE = /(\d{2,3})\s*(?:°\s*([CF])?|º\s*([CF])?|℃|℉|degrees?\s*([CF])?\b|度|([CF])\b)/i;
+
+// 等待类步骤关键词（腌制、静置、冷藏、浸泡、发酵、冷却等）
+const PASSIVE_KEYWORDS = /marinat|rest for|rest in|let (?:it )?rest|\bchill(?:ed|ing|s)?\b|refrigerat|fridge|\bsoak|overnight|leave to|set aside for|\bprove\b|\brise\b|\bcool\b|freez|腌|静置|冷藏|浸泡|过夜|醒面|发酵|放凉|冷却|靜置|醃|過夜|發酵|漬け|寝かせ|冷蔵|一晩|재우|숙성|냉장|불리|하룻밤/i;
+// 长时间加热关键词（烤、炖、焖、煲、慢炖）
+const LONG_COOKING_KEYWORDS = /\bbake|\broast|simmer|braise|\bstew|slow cook|炖|焖|煲|烤|燉|燜|煮込|オーブン|굽/i;
+
+// 拆分为步骤文字
+function splitSteps(instructions: string): string[] {
+  const lines = instructions
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(STEP_PREFIX, '').trim())
+    .filter(Boolean);
+  if (lines.length > 1) return lines;
+
+  // 单段长文本：按句号拆分，过短的句子并入上一句
+  const sentences = (lines[0] || '').split(/(?<=[.!?])\s+(?=[A-Z0-9])|(?<=[。！？])/).map((s) => s.trim()).filter(Boolean);
+  return sentences.reduce<string[]>((steps, sentence) => {
+    // 中日韩文字信息密度高，短句阈值更低
+    const latin = /^[\x00-\x7f]/.test(sentence);
+    if (steps.length && sentence.length < (latin ? 20 : 8)) steps[steps.length - 1] += `${latin ? ' ' : ''}${sentence}`;
+    else steps.push(sentence);
+    return steps;
+  }, []);
+}
+
+// 识别时长（分钟），多段时长累加
+function detectDuration(text: string): number | null {
+  let total = 0;
+  let found = false;
+  if (OVERNIGHT.test(text)) {
+    total += OVERNIGHT_MINUTES;
+    found = true;
+  }
+  if (HALF_HOUR.test(text)) {
+    total += 30;
+    found = true;
+  }
+  for (const [pattern, factor] of DURATION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = parseCnNumber(match[1]);
+      if (value === null) continue;
+      total += (value + (match[2] ? 0.5 : 0)) * factor;
+      found = true;
+    }
+  }
+  return found ? Math.round(total * 10) / 10 : null;
+}
+
+// 识别温度；未写明单位时按数值推断（大于 260 视为华氏度）
+function detectTemperature(text: string): RecipeStep['temperature'] {
+  const match = text.match(TEMPERATURE);
+  if (!match) return null;
+  const value = Number(match[1]);
+  const explicit = (match[2] || match[3] || match[4] || match[5] || '').toUpperCase();
+  const unit = match[0].includes('℉') || explicit === 'F' ? 'F' : match[0].includes('℃') || explicit === 'C' ? 'C' : value > 260 ? 'F' : 'C';
+  return { value, unit };
+}
+
+// 食材的匹配词：名称本身、英文单数形式与词表中的中英文写法
+function ingredientTerms(name: string): string[] {
+  const terms = new Set<string>([name.toLowerCase()]);
+  if (/[a-z]s$/i.test(name)) terms.add(name.toLowerCase().replace(/e?s$/, ''));
+  const entry = findIngredient(name);
+  if (entry) [entry.en, entry.zh, ...entry.synonyms].forEach((term) => terms.add(term.toLowerCase()));
+  return Array.from(terms).filter((term) => term.length > 1);
+}
+
+// 步骤文字是否提到某个词：拉丁字母按完整单词匹配（避免 "oil" 命中 "boil"），中日韩文字按子串匹配
+function mentions(text: string, term: string): boolean {
+  if (/^[\x00-\x7f]+$/.test(term)) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}(?:e?s)?\\b`, 'i').test(text);
+  }
+  return text.includes(term);
+}
+
+/**
+ * 解析做法为结构化步骤
+ * @param instructions - 做法原文（可为已翻译文本）
+ * @param ingredientNames - 菜谱食材名（与 instructions 同一语言），用于识别每步涉及的食材
+ * @returns 有序步骤；instructions 为空时返回空数组
+ */
+export function parseSteps(instructions: string | null | undefined, ingredientNames: string[] = []): RecipeStep[] {
+  if (!instructions || !instructions.trim()) return [];
+  const candidates = ingredientNames.map((name) => ({ name, terms: ingredientTerms(name) }));
+
+  return splitSteps(instructions).map((text, i) => {
+    const durationMinutes = detectDuration(text);
+    const passive =
+      PASSIVE_KEYWORDS.test(text) ||
+      (LONG_COOKING_KEYWORDS.test(text) && (durationMinutes ?? 0) >= PASSIVE_COOKING_MINUTES);
+    return {
+      index: i + 1,
+      text,
+      durationMinutes,
+      temperature: detectTemperature(text),
+      ingredients: candidates.filter(({ terms }) => terms.some((term) => mentions(text, term))).map(({ name }) => name),
+      passive,
+    };
+  });
+}
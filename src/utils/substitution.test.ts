@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cookingContexts, substitutesFor } from './substitution';
+
+const names = (ingredient: string, context = {}, language: 'zh-CN' | 'en-US' = 'en-US') =>
+  substitutesFor(ingredient, context, language).map((s) => s.name);
+
+describe('substitutesFor', () => {
+  it('已有全部组成食材的替代品标记为可用并排在前面', () => {
+    const result = substitutesFor('buttermilk', { available: ['whole milk', 'lemon juice'] }, 'en-US');
+    assert.equal(result[0].name, 'Milk + lemon juice');
+    assert.equal(result[0].available, true);
+    assert.equal(result.find((s) => s.name === 'Soy milk + lemon juice')?.available, false);
+  });
+
+  it('已有食材只按整词包含所需食材', () => {
+    const result = substitutesFor('buttermilk', { available: ['milk'] }, 'en-US');
+    assert.ok(result.every((s) => !s.available));
+    assert.ok(substitutesFor('cornstarch', { available: ['corn'] }, 'en-US').every((s) => !s.available));
+  });
+
+  it('按烹饪场景筛选，明确适用于该场景的替代品在前', () => {
+    const baking = names('eggs', { cooking: ['baking'] });
+    assert.ok(!baking.includes('Scrambled firm tofu'));
+    const stirFry = names('eggs', { cooking: ['stir-fry'] });
+    assert.deepEqual(stirFry, ['Scrambled firm tofu']);
+    assert.equal(names('butter', { cooking: ['stir-fry'] })[0], 'Vegetable oil');
+  });
+
+  it('剔除含有需要避开的过敏原的替代品', () => {
+    const result = substitutesFor('butter', { avoidAllergens: ['dairy'] }, 'en-US');
+    assert.ok(result.length > 0);
+    assert.ok(result.every((s) => !s.allergens.includes('dairy')));
+    assert.ok(!names('buttermilk', { dietary: ['vegan'] }).includes('Milk + lemon juice'));
+  });
+
+  it('中文名与修饰词：中文请求返回中文，英文名去掉前缀修饰词再查', () => {
+    assert.equal(names('料酒', {}, 'zh-CN')[0], '绍兴黄酒');
+    assert.ok(names('Fresh Ginger').includes('Ground ginger'));
+  });
+
+  it('知识库未收录时返回空数组', () => {
+    assert.deepEqual(substitutesFor('dragonfruit'), []);
+  });
+});
+
+describe('cookingContexts', () => {
+  it('按菜名与做法识别烹饪场景', () => {
+    assert.deepEqual(cookingContexts({ name: 'Chocolate Cake', instructions: 'Bake in the oven' }), ['baking']);
+    assert.deepEqual(cookingContexts({ name: '红烧肉', instructions: '小火炖1小时' }), ['braising']);
+    assert.deepEqual(cookingContexts({ name: 'Stir-fried Greens', instructions: 'stir fry in a wok' }), ['stir-fry']);
+  });
+
+  it('"baking powder" 不算烘焙', () => {
+    assert.deepEqual(cookingContexts({ name: 'Pancakes', instructions: 'Add baking powder and mix' }), []);
+  });
+});
@@ -0,0 +1,152 @@
+// 食材替代：按替代知识库（src/data/substitutions.ts）为缺少或不能用的食材给出替代品，供 recipeTool 的 substitutions 字段与 substitutionTool 使用
+// 设计要点：
+// 1. 食材名先查知识库条目的名称与别称，再经食材词表归一为英文规范名（中英文均可）；英文名查不到时依次去掉前缀修饰词（"Fresh Ginger" → Ginger）
+// 2. 烹饪场景由菜名与做法识别（烘焙 / 炒 / 炖煮 / 煎炸 / 凉拌），只保留通用或适用于该场景的替代品；未给出场景时不按场景筛选
+// 3. 饮食目的（饮食标签、需要避开的过敏原）按替代品的组成食材判断（与 utils/dietary.ts 同一规则），不满足的替代品剔除
+// 4. 排序：用户手头已有全部组成食材的在前，其次是明确适用于当前场景的，其余保持知识库中的推荐顺序；名称与用法只有中英文，其他语言由调用方翻译
+import type { LocaleCode } from '../constants/locales';
+import type { Allergen, CookingContext, DietaryLabel, NormalizedRecipe, Substitute } from '../types';
+import { SUBSTITUTIONS, type SubstituteOption, type SubstitutionEntry } from '../data/substitutions';
+import { classifyDiet, detectAllergens } from './dietary';
+import { findIngredient, normalize, singular } from './glossary';
+import type { Translator } from './translator';
+
+/**
+ * 全部烹饪场景（固定顺序）
+ */
+export const COOKING_CONTEXTS: [CookingContext, ...CookingContext[]] = ['baking', 'stir-fry', 'braising', 'frying', 'raw'];
+
+/**
+ * 替代条件
+ */
+export interface SubstitutionContext {
+  cooking?: CookingContext[]; // 烹饪场景（见 cookingContexts），未给出时不按场景筛选
+  dietary?: DietaryLabel[]; // 替代品必须满足的饮食标签
+  avoidAllergens?: Allergen[]; // 替代品不能含有的过敏原
+  available?: string[]; // 用户已有的食材（中英文均可）
+}
+
+const CJK = /[\u4e00-\u9fa5]/;
+
+// 烹饪场景识别规则（菜名与做法，中英文）
+const CONTEXT_PATTERNS: Array<[CookingContext, RegExp]> = [
+  ['baking', /\bbak(?:e|ed|ing)\b(?! powder| soda)|\boven\b|\bpastry\b|\bcakes?\b|\bmuffins?\b|烤箱|烘焙|焗|烤制|蛋糕|面包/i],
+  ['stir-fry', /stir[- ]?fr|\bwok\b|\bsaut[eé]|炒|爆香/i],
+  ['braising', /\b(?:braise[ds]?|braising|stew(?:ed|ing)?|simmer(?:ed|ing)?|casserole|soup|curry)\b|slow cook|炖|焖|煲|卤|红烧|煨|小火煮|文火/i],
+  ['frying', /(?<!stir[- ])\b(?:fry|fried|frying)\b|deep[- ]fr|shallow[- ]fr|油炸|炸至|煎至|香煎|干煎/i],
+  ['raw', /\b(?:salad|dressing|garnish|raw|dip)\b|凉拌|沙拉|蘸|生吃|点缀/i],
+];
+
+// 查找表：条目名称 / 别称（原形 + 单数）-> 条目
+const ENTRY_INDEX = new Map<string, SubstitutionEntry>();
+for (const entry of SUBSTITUTIONS) {
+  for (const name of [entry.ingredient, ...(entry.aliases ?? [])]) {
+    const key = normalize(name);
+    for (const k of [key, singular(key)]) if (!ENTRY_INDEX.has(k)) ENTRY_INDEX.set(k, entry);
+  }
+}
+
+// 查找知识库条目：名称 / 别称 > 词表规范名；英文名依次去掉前缀修饰词再查
+function entryFor(ingredient: string): SubstitutionEntry | null {
+  const words = ingredient.trim().split(/\s+/);
+  for (let i = 0; i < words.length; i++) {
+    const text = words.slice(i).join(' ');
+    const key = normalize(text);
+    const canonical = findIngredient(text)?.en;
+    const entry = ENTRY_INDEX.get(key) ?? ENTRY_INDEX.get(singular(key)) ?? (canonical ? ENTRY_INDEX.get(normalize(canonical)) : undefined);
+    if (entry) return entry;
+    if (CJK.test(ingredient)) break;
+  }
+  return null;
+}
+
+// 食材的比较键：词表规范名，未收录时为单数形式
+function ingredientKey(name: string): string {
+  const canonical = findIngredient(name)?.en;
+  return singular(normalize(canonical ?? name));
+}
+
+// 英文名按整词包含（"lemon" 在 "lemon juice" 中；"salt" 不在 "unsalted butter" 中，"egg" 不在 "eggplant" 中）
+function containsWords(text: string, words: string): boolean {
+  return ` ${text} `.includes(` ${words} `);
+}
+
+/**
+ * 用户是否已有该食材：经词表归一后比较键相同（"flour" 即有 "面粉"），或已有食材的英文名按整词包含所需食材
+ * （有 "lemon juice" 即有 "lemon"；有 "milk" 不算有 "soy milk" 或 "Buttermilk"）
+ * @param available - 用户已有的食材（中英文均可）
+ * @param name - 所需食材名（中英文均可）
+ */
+export function hasIngredient(available: string[], name: string): boolean {
+  const key = ingredientKey(name);
+  return available.some((item) => {
+    const other = ingredientKey(item);
+    return other === key || (!CJK.test(other) && !CJK.test(key) && containsWords(other, key));
+  });
+}
+
+/**
+ * 识别菜谱的烹饪场景
+ * @param recipe - 菜谱（使用菜名与做法原文）
+ * @returns 命中的场景（固定顺序），未识别时为空数组
+ */
+export function cookingContexts(recipe: Pick<NormalizedRecipe, 'name' | 'instructions'>): CookingContext[] {
+  const text = `${recipe.name}\n${recipe.instructions ?? ''}`;
+  return CONTEXT_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([context]) => context);
+}
+
+/**
+ * 查询食材的替代品
+ * @param ingredient - 食材名（中英文均可，如 "buttermilk"、"料酒"、"shallots"）
+ * @param context - 烹饪场景、饮食目的与用户已有的食材
+ * @param language - 名称与用法的语言：中文（zh-*）返回中文，其余返回英文
+ * @returns 按推荐程度排序的替代品；知识库未收录或没有满足条件的替代品时为空数组
+ */
+export function substitutesFor(ingredient: string, context: SubstitutionContext = {}, language: LocaleCode = 'zh-CN'): Substitute[] {
+  const entry = entryFor(ingredient);
+  if (!entry) return [];
+  const zh = language.startsWith('zh');
+  const cooking = context.cooking ?? [];
+  const available = context.available ?? [];
+
+  const fits = (option: SubstituteOption) => !cooking.length || !option.contexts || option.contexts.some((c) => cooking.includes(c));
+  const candidates = entry.options.filter(fits).map((option, order) => {
+    const items = option.ingredients.map((name) => ({ ingredient: name, measure: '' }));
+    const allergens = detectAllergens(items);
+    return {
+      order,
+      preferred: !!option.contexts?.some((c) => cooking.includes(c)),
+      substitute: {
+        name: zh ? option.zh : option.en,
+        how: option.how[zh ? 1 : 0],
+        contexts: option.contexts ?? [],
+        dietary: classifyDiet({ ingredients: items, category: null }, allergens),
+        allergens,
+        available: available.length > 0 && option.ingredients.every((name) => hasIngredient(available, name)),
+      },
+    };
+  });
+  return candidates
+    .filter(({ substitute }) => (context.dietary ?? []).every((label) => substitute.dietary.includes(label))
+      && !(context.avoidAllergens ?? []).some((a) => substitute.allergens.includes(a)))
+    .sort((a, b) => Number(b.substitute.available) - Number(a.substitute.available)
+      || Number(b.preferred) - Number(a.preferred)
+      || a.order - b.order)
+    .map(({ substitute }) => substitute);
+}
+
+/**
+ * 将替代品的名称与用法翻译为目标语言（中英文直接返回；其他语言以同一次批量翻译完成，繁体中文以中文为原文）
+ * @param groups - 多组替代品（如每个缺少的食材一组）
+ * @param language - 目标语言
+ * @param translator - 翻译器
+ * @returns 与输入结构相同的替代品
+ */
+export async function localizeSubstitutes(groups: Substitute[][], language: LocaleCode, translator: Translator): Promise<Substitute[][]> {
+  if (language === 'zh-CN' || language === 'en-US') return groups;
+  const texts = groups.flatMap((group) => group.flatMap((s) => [s.name, s.how]));
+  if (!texts.length) return groups;
+  const translated = await translator.translateTexts(texts, language);
+  let i = 0;
+  return groups.map((group) => group.map((s) => ({ ...s, name: translated[i++], how: translated[i++] })));
+}
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TasteProfile } from '../types';
+import { fitSpiceRange, parseTaste, profileTaste, rankByTaste, tasteMatch } from './taste';
+
+const recipe = (name: string, ingredients: string[], category: string | null = null, instructions = '') => ({
+  name,
+  category,
+  tags: null,
+  instructions,
+  ingredients: ingredients.map((ingredient) => ({ ingredient, measure: '' })),
+});
+
+const profile = (spice: number, sweetness = 0, richness = 0, sourness = 0): TasteProfile => ({ spice, sweetness, richness, sourness });
+
+describe('profileTaste', () => {
+  it('按中英文食材识别辣度与酸度', () => {
+    assert.deepEqual(profileTaste(recipe('麻婆豆腐', ['豆腐', '郫县豆瓣酱', '花椒', '辣椒粉'])), profile(2));
+    assert.deepEqual(profileTaste(recipe('酸辣汤', ['豆腐', '醋', '辣椒油'])), profile(2, 0, 0, 2));
+    assert.deepEqual(profileTaste(recipe('Plain Rice', ['Rice', 'Water'])), profile(0));
+  });
+
+  it('类别与油炸做法加分', () => {
+    assert.equal(profileTaste(recipe('Chocolate Cake', ['Flour', 'Sugar', 'Butter', 'Cocoa'], 'Dessert')).sweetness, 2);
+    assert.equal(profileTaste(recipe('Fried Chicken', ['Chicken', 'Flour', 'Oil'], null, 'Deep-fry until golden.')).richness, 2);
+  });
+});
+
+describe('parseTaste', () => {
+  it('解析中英文口味表达', () => {
+    assert.deepEqual(parseTaste('酸甜'), { sweetness: 2, sourness: 2 });
+    assert.deepEqual(parseTaste('very spicy'), { spice: 3 });
+    assert.deepEqual(parseTaste('清淡'), { spice: 0, richness: 0 });
+    assert.deepEqual(parseTaste('微辣 酸甜'), { spice: 1, sweetness: 2, sourness: 2 });
+  });
+
+  it('否定写法优先（"不辣" 不再被 "辣" 命中）', () => {
+    assert.deepEqual(parseTaste('不辣'), { spice: 0 });
+    assert.deepEqual(parseTaste('not spicy but sweet'), { spice: 0, sweetness: 2 });
+  });
+
+  it('无法识别时返回 null', () => {
+    assert.equal(parseTaste(''), null);
+    assert.equal(parseTaste('xyz'), null);
+  });
+});
+
+describe('tasteMatch / rankByTaste', () => {
+  it('只比较提到的维度', () => {
+    assert.equal(tasteMatch(profile(3, 3), { spice: 3 }), 1);
+    assert.equal(tasteMatch(profile(0), { spice: 3 }), 0);
+    assert.equal(tasteMatch(profile(2, 0), { spice: 3, sweetness: 0 }), 0.83);
+    assert.equal(tasteMatch(profile(1), {}), 1);
+  });
+
+  it('按匹配度排序，相同时保持原有顺序', () => {
+    const profiles: Record<string, TasteProfile> = { a: profile(0), b: profile(3), c: profile(2), d: profile(3) };
+    assert.deepEqual(rankByTaste(['a', 'b', 'c', 'd'], { spice: 3 }, (id) => profiles[id]), ['b', 'd', 'c', 'a']);
+  });
+});
+
+describe('fitSpiceRange', () => {
+  const spice: Record<string, number> = { a: 0, b: 3, c: 1 };
+
+  it('保留范围内的菜谱', () => {
+    assert.deepEqual(fitSpiceRange(['a', 'b', 'c'], { max: 1 }, (id) => spice[id]), { recipes: ['a', 'c'], relaxed: false });
+    assert.deepEqual(fitSpiceRange(['a', 'b', 'c'], { min: 2 }, (id) => spice[id]), { recipes: ['b'], relaxed: false });
+  });
+
+  it('都不在范围内时按距离排序并标记放宽', () => {
+    assert.deepEqual(fitSpiceRange(['b', 'c'], { max: 0 }, (id) => spice[id]), { recipes: ['c', 'b'], relaxed: true });
+  });
+});
@@ -0,0 +1,183 @@
+// 口味画像：根据菜名、标签、类别与食材估算辣度、甜度、油润度（浓郁程度）与酸度，并按用户口味（taste 参数）排序
+// 设计要点：
+// 1. 各维度取 0-3 的整数：0 = 无 / 很淡，1 = 轻微，2 = 明显，3 = 浓重；辣度对应 不辣 / 微辣 / 中辣 / 特辣
+// 2. 食材关键词覆盖中英文写法（TheMealDB 英文食材与中式家常菜数据集的中文食材），标签与菜名中的口味词额外加分
+// 3. 口味输入支持中英文自然表达（"清淡"、"微辣"、"重口"、"酸甜"、"not spicy"），按出现顺序解析，否定写法优先
+// 4. 纯规则实现，不调用 LLM；结果确定，可用于排序与辣度筛选
+import type { NormalizedRecipe, TasteProfile } from '../types';
+
+// 口味维度
+export type TasteDimension = keyof TasteProfile;
+
+const DIMENSIONS: TasteDimension[] = ['spice', 'sweetness', 'richness', 'sourness'];
+
+// 各维度的上限
+export const MAX_TASTE_LEVEL = 3;
+
+/**
+ * 维度打分规则：食材中的强 / 弱关键词、菜名与标签中的口味词
+ */
+interface DimensionRule {
+  strong: RegExp; // 强关键词：首个命中计 strongWeight，之后每个加 0.5
+  mild: RegExp | null; // 弱关键词：每个加 0.5
+  label: RegExp; // 菜名 / 标签中的口味词
+  strongWeight: number;
+  labelWeight: number;
+}
+
+const RULES: Record<TasteDimension, DimensionRule> = {
+  spice: {
+    strong: /(?<!sweet )chill?i|chile\b|cayenne|jalape|habanero|scotch bonnet|sriracha|gochujang|harissa|hot sauce|tabasco|辣椒|剁椒|泡椒|小米辣|红油|豆瓣|火锅底料|朝天椒|唐辛子|コチュジャン|고추/i,
+    mild: /sichuan pepper|szechuan pepper|curry|garam masala|paprika|wasabi|horseradish|mustard|花椒|咖喱|芥末|胡椒粉/i,
+    label: /spicy|\bhot\b|fiery|arrabbiata|arrabiata|麻辣|香辣|酸辣|辣/i,
+    strongWeight: 1.5,
+    labelWeight: 1,
+  },
+  sweetness: {
+    strong: /sugar|honey|syrup|maple|condensed milk|chocolate|\bjam\b|caramel|mirin|ketchup|糖|蜂蜜|炼乳|巧克力|番茄酱|味醂/i,
+    mild: /raisin|dates|pineapple|apple|mango|coconut milk|sweet potato|红枣|菠萝|南瓜|椰浆|红薯/i,
+    label: /sweet|dessert|candied|honey|teriyaki|糖醋|甜|蜜汁|拔丝|叉烧|荔枝肉|松鼠/i,
+    strongWeight: 0.75,
+    labelWeight: 1.5,
+  },
+  richness: {
+    strong: /butter|cream|cheese|bacon|pork belly|lard|ghee|coconut milk|mascarpone|五花肉|黄油|奶油|芝士|奶酪|猪油|肥肠|椰浆/i,
+    mild: /minced beef|ground beef|sausage|egg yolk|peanut|duck|lamb|花生|香肠|腊肉|鸭|羊肉|肘/i,
+    label: /rich|creamy|fried|braised|\bpie\b|红烧|浓|炸|回锅|狮子头|扣肉|东坡/i,
+    strongWeight: 1,
+    labelWeight: 1,
+  },
+  sourness: {
+    strong: /vinegar|lemon|lime|tamarind|pickle|kimchi|sauerkraut|醋|柠檬|酸菜|泡菜|酸梅/i,
+    mild: /tomato|yogurt|yoghurt|sour cream|番茄|西红柿|酸奶/i,
+    label: /sour|tangy|酸|醋|糖醋/i,
+    strongWeight: 1,
+    labelWeight: 1.5,
+  },
+};
+
+// 类别带来的口味倾向（如甜点必然偏甜）
+const CATEGORY_BONUS: Partial<Record<string, Partial<TasteProfile>>> = {
+  Dessert: { sweetness: 2 },
+};
+
+// 用油炸制的做法额外增加油润度
+const DEEP_FRIED = /deep[- ]?fr|油炸|炸至|揚げ/i;
+
+// 把数值限制在 0-3 并取整（向下取整，避免多个弱关键词把清淡的菜推高一级）
+function clampLevel(value: number): number {
+  return Math.max(0, Math.min(MAX_TASTE_LEVEL, Math.floor(value)));
+}
+
+// 单个维度打分
+function scoreDimension(rule: DimensionRule, ingredients: string[], labels: string): number {
+  const strongHits = ingredients.filter((name) => rule.strong.test(name)).length;
+  const mildHits = rule.mild ? ingredients.filter((name) => !rule.strong.test(name) && rule.mild!.test(name)).length : 0;
+  let score = strongHits ? rule.strongWeight + (strongHits - 1) * 0.5 : 0;
+  score += mildHits * 0.5;
+  if (rule.label.test(labels)) score += rule.labelWeight;
+  return score;
+}
+
+/**
+ * 估算菜谱的口味画像
+ * @param recipe - 菜谱（使用菜名、标签、类别、食材与做法）
+ * @returns 各维度 0-3 的口味画像
+ */
+export function profileTaste(
+  recipe: Pick<NormalizedRecipe, 'name' | 'tags' | 'category' | 'ingredients' | 'instructions'>,
+): TasteProfile {
+  const ingredients = recipe.ingredients.map((item) => item.ingredient);
+  const labels = [recipe.name, ...(recipe.tags ?? [])].join(' ');
+  const bonus = (recipe.category && CATEGORY_BONUS[recipe.category]) || {};
+  const profile = {} as TasteProfile;
+  for (const dimension of DIMENSIONS) {
+    let score = scoreDimension(RULES[dimension], ingredients, labels) + (bonus[dimension] ?? 0);
+    if (dimension === 'richness' && DEEP_FRIED.test(recipe.instructions ?? '')) score += 1;
+    profile[dimension] = clampLevel(score);
+  }
+  return profile;
+}
+
+// 口味表达 -> 目标取值；按顺序匹配，命中的文字随即移除（"不辣" 不会再被 "辣" 命中），先设置的维度不被覆盖
+const TASTE_TERMS: Array<[RegExp, Partial<TasteProfile>]> = [
+  [/不要?辣|免辣|不吃辣|no spice|not spicy|non[- ]spicy/gi, { spice: 0 }],
+  [/不要?甜|少糖|less sweet|not sweet/gi, { sweetness: 0 }],
+  [/少油|低脂|不油腻|清爽|light|low[- ]fat|not greasy/gi, { richness: 0 }],
+  [/特辣|重辣|很辣|超辣|变态辣|very spicy|extra hot|extra spicy/gi, { spice: 3 }],
+  [/中辣|medium spicy/gi, { spice: 2 }],
+  [/微辣|小辣|一点辣|mild(?:ly)? spicy|slightly spicy|a little spicy|mild/gi, { spice: 1 }],
+  [/酸甜|sweet and sour|sweet & sour/gi, { sweetness: 2, sourness: 2 }],
+  [/酸辣|hot and sour/gi, { sourness: 2, spice: 2 }],
+  [/清淡|淡口|bland/gi, { spice: 0, richness: 0 }],
+  [/重口味?|浓郁|下饭|bold|strong|heavy/gi, { spice: 2, richness: 3 }],
+  [/麻辣|香辣|辣|spicy|\bhot\b/gi, { spice: 2 }],
+  [/甜|sweet/gi, { sweetness: 2 }],
+  [/酸|sour|tangy/gi, { sourness: 2 }],
+  [/油润|浓|rich|creamy|greasy/gi, { richness: 3 }],
+];
+
+/**
+ * 解析口味偏好（如"清淡" → 不辣、少油；"微辣 酸甜" → 辣度 1、甜度 2、酸度 2）
+ * @param input - 用户输入（中英文均可）
+ * @returns 目标口味（只包含提到的维度），无法识别时返回 null
+ */
+export function parseTaste(input: string | null | undefined): Partial<TasteProfile> | null {
+  if (!input || !input.trim()) return null;
+  let text = input.toLowerCase();
+  const target: Partial<TasteProfile> = {};
+  for (const [pattern, values] of TASTE_TERMS) {
+    if (!text.match(pattern)) continue;
+    text = text.replace(pattern, ' ');
+    for (const dimension of DIMENSIONS) {
+      if (values[dimension] !== undefined && target[dimension] === undefined) target[dimension] = values[dimension];
+    }
+  }
+  return Object.keys(target).length ? target : null;
+}
+
+/**
+ * 口味匹配度：1 表示完全符合，0 表示所有提到的维度都相差最大
+ * @param profile - 菜谱口味画像
+ * @param target - 目标口味（parseTaste 的结果）
+ */
+export function tasteMatch(profile: TasteProfile, target: Partial<TasteProfile>): number {
+  const dimensions = DIMENSIONS.filter((dimension) => target[dimension] !== undefined);
+  if (!dimensions.length) return 1;
+  const distance = dimensions.reduce((sum, dimension) => sum + Math.abs(profile[dimension] - target[dimension]!), 0);
+  return Math.round((1 - distance / (dimensions.length * MAX_TASTE_LEVEL)) * 100) / 100;
+}
+
+/**
+ * 按口味匹配度排序（匹配度相同时保持原有顺序）
+ * @param recipes - 候选菜谱
+ * @param target - 目标口味
+ * @param profileOf - 获取菜谱的口味画像
+ */
+export function rankByTaste<T>(recipes: T[], target: Partial<TasteProfile>, profileOf: (recipe: T) => TasteProfile): T[] {
+  return recipes
+    .map((recipe, index) => ({ recipe, index, score: tasteMatch(profileOf(recipe), target) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ recipe }) => recipe);
+}
+
+/**
+ * 按辣度范围筛选：保留辣度在 [min, max] 内的菜谱（保持原有顺序）；
+ * 都不在范围内时不丢弃结果，改为按与范围的距离从近到远排序，并标记已放宽
+ * @param recipes - 候选菜谱
+ * @param range - 辣度范围（0-3，未指定的一端不限）
+ * @param spiceOf - 获取菜谱的辣度
+ */
+export function fitSpiceRange<T>(
+  recipes: T[],
+  range: { min?: number; max?: number },
+  spiceOf: (recipe: T) => number,
+): { recipes: T[]; relaxed: boolean } {
+  const min = range.min ?? 0;
+  const max = range.max ?? MAX_TASTE_LEVEL;
+  const gap = (recipe: T) => Math.max(0, min - spiceOf(recipe), spiceOf(recipe) - max);
+  const fitting = recipes.filter((recipe) => gap(recipe) === 0);
+  if (fitting.length) return { recipes: fitting, relaxed: false };
+  const sorted = [...recipes].sort((a, b) => gap(a) - gap(b));
+  return { recipes: sorted, relaxed: recipes.length > 0 };
+}
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveCategory, resolveCuisine, resolveTaxonomy, taxonomyLabelZh } from './taxonomy';
+
+describe('resolveCategory', () => {
+  it('中英文类别解析为 TheMealDB 规范取值', () => {
+    assert.deepEqual(resolveCategory('海鲜'), { canonical: ['Seafood'], region: null });
+    assert.deepEqual(resolveCategory('Seafood'), { canonical: ['Seafood'], region: null });
+    assert.deepEqual(resolveCategory('早餐')?.canonical, ['Breakfast']);
+  });
+
+  it('一个类别可对应多个规范取值', () => {
+    assert.deepEqual(resolveCategory('素菜')?.canonical, ['Vegetarian', 'Vegan']);
+  });
+
+  it('未收录的类别返回 null', () => {
+    assert.equal(resolveCategory('xyz'), null);
+  });
+});
+
+describe('resolveCuisine', () => {
+  it('中国地方菜系解析为 Chinese 并保留地方菜系', () => {
+    assert.deepEqual(resolveCuisine('川菜'), { canonical: ['Chinese'], region: '川菜' });
+  });
+
+  it('国家名、形容词与大小写不同的英文名都能命中', () => {
+    assert.deepEqual(resolveCuisine('意大利')?.canonical, ['Italian']);
+    assert.deepEqual(resolveCuisine('italian')?.canonical, ['Italian']);
+    assert.deepEqual(resolveCuisine('日式')?.canonical, ['Japanese']);
+    assert.deepEqual(resolveCuisine('法国菜')?.canonical, ['French']);
+  });
+
+  it('未收录的菜系返回 null', () => {
+    assert.equal(resolveCuisine('火星'), null);
+  });
+});
+
+describe('resolveTaxonomy / taxonomyLabelZh', () => {
+  it('按类型分派', () => {
+    assert.deepEqual(resolveTaxonomy('category', '甜点')?.canonical, ['Dessert']);
+    assert.deepEqual(resolveTaxonomy('cuisine', 'Mexican')?.canonical, ['Mexican']);
+  });
+
+  it('规范取值的中文名，未收录时原样返回', () => {
+    assert.equal(taxonomyLabelZh('category', 'Dessert'), '甜点');
+    assert.equal(taxonomyLabelZh('cuisine', 'Italian'), '意大利菜');
+    assert.equal(taxonomyLabelZh('cuisine', 'Atlantis'), 'Atlantis');
+  });
+});
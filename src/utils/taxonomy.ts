@@ -0,0 +1,206 @@
+// 菜品类别 / 菜系分类体系：将中英文自然表达映射到 TheMealDB 的规范取值
+// 设计要点：
+// 1. 纯本地查表，不依赖网络与 OPENAI_API_KEY，Translator 在调用 LLM 之前优先使用
+// 2. 支持一对多："素食" → Vegetarian + Vegan、"西餐" → 多个西方菜系
+// 3. 支持地方菜系层级："川菜" → Chinese（并保留 region = 川菜，供中文数据源精确筛选）
+// 4. 宽松匹配：忽略大小写，去掉"的"、"菜"、"料理"、" cuisine" 等修饰后再查；仍未命中时在整句中查找别称
+import { CHINESE_REGIONS } from '../data/chinese-recipes';
+
+/**
+ * 分类体系条目：一个规范取值及其中文名、别称
+ */
+export interface TaxonomyEntry {
+  canonical: string; // TheMealDB 规范取值，如 "Seafood"、"Chinese"
+  zh: string; // 中文显示名，如"海鲜"、"中国菜"
+  aliases: string[]; // 中英文别称
+}
+
+/**
+ * 一对多的分组表达，如"素食"同时对应 Vegetarian 与 Vegan
+ */
+interface TaxonomyGroup {
+  names: string[];
+  canonical: string[];
+}
+
+/**
+ * 分类体系解析结果
+ */
+export interface TaxonomyMatch {
+  canonical: string[]; // 对应的 TheMealDB 规范取值（至少一个）
+  region: string | null; // 命中的中国地方菜系（CHINESE_REGIONS 中的 name），仅菜系有效
+}
+
+export type TaxonomyKind = 'category' | 'cuisine';
+
+// TheMealDB 类别（list.php?c=list）
+export const MEALDB_CATEGORIES: TaxonomyEntry[] = [
+  { canonical: 'Beef', zh: '牛肉', aliases: ['牛', '牛肉类', '牛排', '牛腩', 'steak'] },
+  { canonical: 'Breakfast', zh: '早餐', aliases: ['早饭', '早点', '早午餐', 'brunch'] },
+  { canonical: 'Chicken', zh: '鸡肉', aliases: ['鸡', '鸡肉类', '禽肉', '家禽', 'poultry'] },
+  { canonical: 'Dessert', zh: '甜点', aliases: ['甜品', '甜食', '糕点', '蛋糕', '烘焙', 'sweets', 'cake', 'baking'] },
+  { canonical: 'Goat', zh: '山羊肉', aliases: ['山羊'] },
+  { canonical: 'Lamb', zh: '羊肉', aliases: ['羊', '羔羊', '羊排', 'mutton'] },
+  { canonical: 'Miscellaneous', zh: '其他', aliases: ['其它', '杂项', 'misc', 'other'] },
+  { canonical: 'Pasta', zh: '面食', aliases: ['意面', '意大利面', '面条', '面', 'noodle', 'noodles'] },
+  { canonical: 'Pork', zh: '猪肉', aliases: ['猪', '猪肉类', '排骨', '五花肉'] },
+  { canonical: 'Seafood', zh: '海鲜', aliases: ['海产', '水产', '鱼', '鱼类', '虾', '贝类', 'fish', 'shellfish'] },
+  { canonical: 'Side', zh: '配菜', aliases: ['小菜', '配餐', 'side dish', 'sides'] },
+  { canonical: 'Starter', zh: '前菜', aliases: ['开胃菜', '头盘', '冷盘', '凉菜', '小吃', 'appetizer', 'appetiser', 'snack'] },
+  { canonical: 'Vegan', zh: '纯素', aliases: ['全素', '严格素食', 'plant-based', 'plant based'] },
+  { canonical: 'Vegetarian', zh: '素食', aliases: ['蛋奶素', 'veggie', 'meatless'] },
+];
+
+// TheMealDB 菜系/地区（list.php?a=list）
+export const MEALDB_AREAS: TaxonomyEntry[] = [
+  { canonical: 'American', zh: '美国菜', aliases: ['美式', '美国', '美餐', 'usa', 'us'] },
+  { canonical: 'British', zh: '英国菜', aliases: ['英式', '英国', 'english', 'uk'] },
+  { canonical: 'Canadian', zh: '加拿大菜', aliases: ['加拿大'] },
+  { canonical: 'Chinese', zh: '中国菜', aliases: ['中餐', '中式', '中菜', '中国', '中华料理', '华夏'] },
+  { canonical: 'Croatian', zh: '克罗地亚菜', aliases: ['克罗地亚'] },
+  { canonical: 'Dutch', zh: '荷兰菜', aliases: ['荷兰', 'netherlands'] },
+  { canonical: 'Egyptian', zh: '埃及菜', aliases: ['埃及'] },
+  { canonical: 'Filipino', zh: '菲律宾菜', aliases: ['菲律宾', 'philippine'] },
+  { canonical: 'French', zh: '法国菜', aliases: ['法餐', '法式', '法国', 'france'] },
+  { canonical: 'Greek', zh: '希腊菜', aliases: ['希腊', 'greece'] },
+  { canonical: 'Indian', zh: '印度菜', aliases: ['印度', 'india'] },
+  { canonical: 'Irish', zh: '爱尔兰菜', aliases: ['爱尔兰', 'ireland'] },
+  { canonical: 'Italian', zh: '意大利菜', aliases: ['意餐', '意式', '意大利', 'italy'] },
+  { canonical: 'Jamaican', zh: '牙买加菜', aliases: ['牙买加'] },
+  { canonical: 'Japanese', zh: '日本料理', aliases: ['日料', '日式', '日本菜', '和食', '日本', 'japan'] },
+  { canonical: 'Kenyan', zh: '肯尼亚菜', aliases: ['肯尼亚'] },
+  { canonical: 'Malaysian', zh: '马来西亚菜', aliases: ['马来菜', '马来西亚', '南洋菜'] },
+  { canonical: 'Mexican', zh: '墨西哥菜', aliases: ['墨西哥', '墨式', 'mexico'] },
+  { canonical: 'Moroccan', zh: '摩洛哥菜', aliases: ['摩洛哥'] },
+  { canonical: 'Polish', zh: '波兰菜', aliases: ['波兰'] },
+  { canonical: 'Portuguese', zh: '葡萄牙菜', aliases: ['葡式', '葡萄牙'] },
+  { canonical: 'Russian', zh: '俄罗斯菜', aliases: ['俄式', '俄餐', '俄罗斯'] },
+  { canonical: 'Spanish', zh: '西班牙菜', aliases: ['西班牙', 'spain'] },
+  { canonical: 'Thai', zh: '泰国菜', aliases: ['泰餐', '泰式', '泰国', 'thailand'] },
+  { canonical: 'Tunisian', zh: '突尼斯菜', aliases: ['突尼斯'] },
+  { canonical: 'Turkish', zh: '土耳其菜', aliases: ['土耳其', 'turkey'] },
+  { canonical: 'Ukrainian', zh: '乌克兰菜', aliases: ['乌克兰'] },
+  { canonical: 'Uruguayan', zh: '乌拉圭菜', aliases: ['乌拉圭'] },
+  { canonical: 'Vietnamese', zh: '越南菜', aliases: ['越式', '越南', 'vietnam'] },
+];
+
+// 一对多的类别表达
+const CATEGORY_GROUPS: TaxonomyGroup[] = [
+  { names: ['素食', '素', '素菜', '吃素', '素斋', '斋菜', 'vegetable', 'vegetables'], canonical: ['Vegetarian', 'Vegan'] },
+  { names: ['肉', '肉类', '肉菜', '荤菜', '荤', 'meat'], canonical: ['Beef', 'Chicken', 'Pork', 'Lamb', 'Goat'] },
+  { names: ['主菜', '正餐', 'main', 'main course'], canonical: ['Beef', 'Chicken', 'Pork', 'Lamb', 'Seafood', 'Pasta'] },
+];
+
+// 一对多的菜系表达
+const AREA_GROUPS: TaxonomyGroup[] = [
+  { names: ['西餐', '西式', '西方', 'western'], canonical: ['American', 'British', 'French', 'Italian', 'Spanish'] },
+  { names: ['东南亚菜', '东南亚', 'southeast asian'], canonical: ['Thai', 'Vietnamese', 'Malaysian', 'Filipino'] },
+  { names: ['亚洲菜', '亚洲', 'asian'], canonical: ['Chinese', 'Japanese', 'Thai', 'Vietnamese', 'Malaysian', 'Indian'] },
+  { names: ['地中海菜', '地中海', 'mediterranean'], canonical: ['Greek', 'Italian', 'Spanish', 'Turkish', 'Moroccan'] },
+  { names: ['拉美菜', '拉丁美洲', 'latin american'], canonical: ['Mexican', 'Jamaican', 'Uruguayan'] },
+  { names: ['非洲菜', '非洲', 'african'], canonical: ['Egyptian', 'Kenyan', 'Moroccan', 'Tunisian'] },
+];
+
+// 查表前去掉的修饰（按顺序尝试，命中即止）
+const SUFFIXES = [' cuisine', ' food', ' dishes', ' dish', ' style', '菜系', '料理', '风味', '口味', '菜', '餐', '类'];
+
+// 规范化：小写、去空白、去掉末尾的"的"
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/的+$/, '');
+}
+
+// 构建查找表：规范化别称 -> 解析结果
+function buildIndex(entries: TaxonomyEntry[], groups: TaxonomyGroup[], regions: boolean): Map<string, TaxonomyMatch> {
+  const index = new Map<string, TaxonomyMatch>();
+  const add = (name: string, match: TaxonomyMatch) => {
+    const key = normalize(name);
+    if (key && !index.has(key)) index.set(key, match);
+  };
+  // 分组优先：如"素食"既是 Vegetarian 的中文名，也应同时覆盖 Vegan
+  for (const group of groups) {
+    group.names.forEach((name) => add(name, { canonical: group.canonical, region: null }));
+  }
+  for (const entry of entries) {
+    const match = { canonical: [entry.canonical], region: null };
+    [entry.canonical, entry.zh, ...entry.aliases].forEach((name) => add(name, match));
+  }
+  if (regions) {
+    for (const region of CHINESE_REGIONS) {
+      const match = { canonical: ['Chinese'], region: region.name };
+      [region.name, region.nameEn, ...region.aliases].forEach((name) => add(name, match));
+    }
+  }
+  return index;
+}
+
+const CATEGORY_INDEX = buildIndex(MEALDB_CATEGORIES, CATEGORY_GROUPS, false);
+const AREA_INDEX = buildIndex(MEALDB_AREAS, AREA_GROUPS, true);
+
+// 整句是否包含别称：中文直接包含，英文按整词（"us" 不命中 "asparagus"）
+function containsTerm(text: string, key: string): boolean {
+  if (/[\u4e00-\u9fa5]/.test(key)) return text.includes(key);
+  return ` ${text.replace(/[^a-z0-9\u4e00-\u9fa5-]+/g, ' ')} `.includes(` ${key} `);
+}
+
+// 在查找表中解析一段输入
+function lookup(index: Map<string, TaxonomyMatch>, input: string): TaxonomyMatch | null {
+  const text = normalize(input);
+  if (!text) return null;
+
+  // 1. 原样查表
+  const exact = index.get(text);
+  if (exact) return exact;
+
+  // 2. 去掉修饰后查表（"西班牙菜" → 西班牙、"Sichuan cuisine" → sichuan）
+  for (const suffix of SUFFIXES) {
+    if (text.length > suffix.length && text.endsWith(suffix)) {
+      const hit = index.get(text.slice(0, -suffix.length).trim());
+      if (hit) return hit;
+    }
+  }
+
+  // 3. 整句中查找最长的别称（"想吃点川菜" → 川菜）；单字别称不参与，英文别称按整词匹配，避免误命中
+  let best: { key: string; match: TaxonomyMatch } | null = null;
+  for (const [key, match] of index) {
+    if (key.length < 2 || !containsTerm(text, key)) continue;
+    if (!best || key.length > best.key.length) best = { key, match };
+  }
+  return best?.match ?? null;
+}
+
+/**
+ * 解析菜品类别（如"海鲜" → Seafood、"素食的" → Vegetarian + Vegan）
+ * @param input - 用户输入（中英文均可）
+ * @returns 解析结果，未命中时返回 null
+ */
+export function resolveCategory(input: string): TaxonomyMatch | null {
+  return lookup(CATEGORY_INDEX, input);
+}
+
+/**
+ * 解析菜系/地区（如"广东菜" → Chinese / 粤菜、"日料" → Japanese）
+ * @param input - 用户输入（中英文均可）
+ * @returns 解析结果，未命中时返回 null
+ */
+export function resolveCuisine(input: string): TaxonomyMatch | null {
+  return lookup(AREA_INDEX, input);
+}
+
+/**
+ * 按类型解析
+ * @param kind - category 或 cuisine
+ * @param input - 用户输入
+ */
+export function resolveTaxonomy(kind: TaxonomyKind, input: string): TaxonomyMatch | null {
+  return kind === 'category' ? resolveCategory(input) : resolveCuisine(input);
+}
+
+/**
+ * 规范取值的中文显示名（未收录时原样返回）
+ * @param kind - category 或 cuisine
+ * @param canonical - TheMealDB 规范取值
+ */
+export function taxonomyLabelZh(kind: TaxonomyKind, canonical: string): string {
+  const entries = kind === 'category' ? MEALDB_CATEGORIES : MEALDB_AREAS;
+  return entries.find((entry) => entry.canonical === canonical)?.zh || canonical;
+}
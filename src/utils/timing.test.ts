@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTiming, fitTimeBudget, type TimingEstimate } from './timing';
+
+const ingredients = (count: number) => Array.from({ length: count }, (_, i) => ({ ingredient: `Ingredient ${i}`, measure: '' }));
+
+describe('estimateTiming', () => {
+  it('总时长含等待，动手时长不计腌制等等待时间', () => {
+    const timing = estimateTiming({
+      instructions: '1. Chop.\n2. Marinate for 60 minutes.\n3. Stir-fry for 5 minutes.',
+      ingredients: ingredients(3),
+    });
+    // 备菜 3 + 切 5（未写明）+ 腌制 60 + 炒 5 = 73 → 75；动手 3 + 5 + 2 + 5 = 15
+    assert.deepEqual(timing, { totalMinutes: 75, activeMinutes: 15, difficulty: 'easy' });
+  });
+
+  it('没有做法时按默认烹饪时长估算', () => {
+    assert.deepEqual(estimateTiming({ instructions: null, ingredients: ingredients(2) }), { totalMinutes: 20, activeMinutes: 20, difficulty: 'easy' });
+  });
+
+  it('食材多、使用高难度技法时难度上升', () => {
+    assert.equal(estimateTiming({ instructions: 'Knead the dough for 10 minutes.', ingredients: ingredients(9) }).difficulty, 'medium');
+    assert.equal(estimateTiming({ instructions: 'Deep-fry the chicken.', ingredients: ingredients(13) }).difficulty, 'hard');
+  });
+});
+
+describe('fitTimeBudget', () => {
+  const timing = (totalMinutes: number): TimingEstimate => ({ totalMinutes, activeMinutes: totalMinutes, difficulty: 'easy' });
+  const recipes = [{ id: 'a', minutes: 45 }, { id: 'b', minutes: 20 }, { id: 'c', minutes: 30 }];
+  const timingOf = (recipe: { minutes: number }) => timing(recipe.minutes);
+
+  it('保留预算内的菜谱并保持原有顺序', () => {
+    const result = fitTimeBudget(recipes, 30, timingOf);
+    assert.deepEqual(result.recipes.map((r) => r.id), ['b', 'c']);
+    assert.equal(result.relaxed, false);
+  });
+
+  it('都超出预算时按总时长排序并标记放宽', () => {
+    const result = fitTimeBudget(recipes, 10, timingOf);
+    assert.deepEqual(result.recipes.map((r) => r.id), ['b', 'c', 'a']);
+    assert.equal(result.relaxed, true);
+  });
+
+  it('没有候选时不算放宽', () => {
+    assert.deepEqual(fitTimeBudget([], 10, timingOf), { recipes: [], relaxed: false });
+  });
+});
@@ -0,0 +1,89 @@
+// 烹饪时间与难度估算：根据结构化步骤（utils/steps.ts）与食材数量给出总时长、动手时长与难度
+// 设计要点：
+// 1. 总时长 = 备菜时间（每种食材约 1 分钟）+ 各步骤时长；步骤未写明时长时按 DEFAULT_STEP_MINUTES 计
+// 2. 动手时长不计等待类步骤（腌制、静置、冷藏、长时间烤炖等），只计每步的少量操作时间
+// 3. 难度按食材数、步骤数、动手时长与高难度技法综合打分：简单 / 中等 / 略难
+// 4. 纯规则估算、结果确定，可用于 timeBudget 筛选与排序
+import type { Difficulty, NormalizedRecipe } from '../types';
+import { parseSteps } from './steps';
+
+/**
+ * 时间与难度估算结果
+ */
+export interface TimingEstimate {
+  totalMinutes: number; // 总时长（含等待），取 5 分钟的倍数
+  activeMinutes: number; // 动手时长（不含等待）
+  difficulty: Difficulty;
+}
+
+// 未写明时长的步骤按 5 分钟计
+const DEFAULT_STEP_MINUTES = 5;
+
+// 等待类步骤中的动手操作时间（如把食材放进冰箱、取出）
+const PASSIVE_HANDLING_MINUTES = 2;
+
+// 每种食材的备菜时间（清洗、切配、称量）
+const PREP_MINUTES_PER_INGREDIENT = 1;
+
+// 没有做法时的默认烹饪时长
+const FALLBACK_COOKING_MINUTES = 20;
+
+// 高难度技法：油炸、揉面擀面、酥皮、拔丝、去骨等
+const HARD_TECHNIQUES = /deep[- ]?fr|knead|pastry|puff|laminat|\btemper|caramel|souffl|debone|fillet the|油炸|炸至|揉面|和面|擀|酥皮|拔丝|去骨|发面|揚げ|こね|튀기|반죽/i;
+
+// 取 5 分钟的倍数（至少 5 分钟）
+function roundToFive(minutes: number): number {
+  return Math.max(5, Math.round(minutes / 5) * 5);
+}
+
+/**
+ * 估算菜谱的总时长、动手时长与难度
+ * @param recipe - 菜谱（使用 instructions / steps 与 ingredients）
+ * @returns 估算结果
+ */
+export function estimateTiming(recipe: Pick<NormalizedRecipe, 'instructions' | 'ingredients' | 'steps'>): TimingEstimate {
+  const steps = recipe.steps ?? parseSteps(recipe.instructions, recipe.ingredients.map((item) => item.ingredient));
+  const prep = recipe.ingredients.length * PREP_MINUTES_PER_INGREDIENT;
+
+  let total = prep;
+  let active = prep;
+  if (!steps.length) {
+    total += FALLBACK_COOKING_MINUTES;
+    active += FALLBACK_COOKING_MINUTES;
+  }
+  for (const step of steps) {
+    const minutes = step.durationMinutes ?? DEFAULT_STEP_MINUTES;
+    total += minutes;
+    active += step.passive ? Math.min(minutes, PASSIVE_HANDLING_MINUTES) : minutes;
+  }
+
+  // 难度打分：每项 0 / 0.5 / 1 分，合计 < 1 为简单，< 2 为中等，其余为略难
+  let score = 0;
+  const ingredientCount = recipe.ingredients.length;
+  score += ingredientCount > 12 ? 1 : ingredientCount > 8 ? 0.5 : 0;
+  score += steps.length > 8 ? 1 : steps.length > 5 ? 0.5 : 0;
+  score += active > 60 ? 1 : active > 30 ? 0.5 : 0;
+  if (steps.some((step) => HARD_TECHNIQUES.test(step.text))) score += 1;
+  const difficulty: Difficulty = score < 1 ? 'easy' : score < 2 ? 'medium' : 'hard';
+
+  return { totalMinutes: roundToFive(total), activeMinutes: roundToFive(active), difficulty };
+}
+
+/**
+ * 按时间预算筛选菜谱：保留总时长不超过预算的菜谱（保持原有顺序）；
+ * 都超出预算时不丢弃结果，改为按总时长从短到长排序，并标记预算已放宽
+ * @param recipes - 候选菜谱
+ * @param timeBudget - 时间预算（分钟）
+ * @param timingOf - 获取菜谱的时间估算
+ * @returns 筛选 / 排序后的菜谱，以及预算是否被放宽
+ */
+export function fitTimeBudget<T>(
+  recipes: T[],
+  timeBudget: number,
+  timingOf: (recipe: T) => TimingEstimate
+): { recipes: T[]; relaxed: boolean } {
+  const fitting = recipes.filter((recipe) => timingOf(recipe).totalMinutes <= timeBudget);
+  if (fitting.length) return { recipes: fitting, relaxed: false };
+  const sorted = [...recipes].sort((a, b) => timingOf(a).totalMinutes - timingOf(b).totalMinutes);
+  return { recipes: sorted, relaxed: recipes.length > 0 };
+}
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { KVTranslationCache, MemoryTranslationCache, cacheKey, type KVNamespaceLike } from './translation-cache';
+
+describe('cacheKey', () => {
+  it('短内容直接作为键', async () => {
+    assert.equal(await cacheKey('text', 'zh-CN', 'Chicken'), 'tr:v1:text:zh-CN:Chicken');
+  });
+
+  it('长内容使用 SHA-256 摘要', async () => {
+    const content = 'Preheat the oven. '.repeat(10);
+    const digest = createHash('sha256').update(content).digest('hex');
+    assert.equal(await cacheKey('recipe', 'ja-JP', content), `tr:v1:recipe:ja-JP:#${digest}`);
+  });
+
+  it('不同的长内容得到不同的键', async () => {
+    const a = await cacheKey('text', 'en-US', `${'x'.repeat(200)}a`);
+    const b = await cacheKey('text', 'en-US', `${'x'.repeat(200)}b`);
+    assert.notEqual(a, b);
+  });
+});
+
+describe('MemoryTranslationCache', () => {
+  it('读写与过期', async () => {
+    const cache = new MemoryTranslationCache();
+    await cache.set('a', { text: '鸡肉' }, 60);
+    await cache.set('b', 'expired', 0);
+    assert.deepEqual(await cache.get('a'), { text: '鸡肉' });
+    assert.equal(await cache.get('b'), null);
+    assert.equal(await cache.get('missing'), null);
+  });
+
+  it('超出上限时淘汰最早写入的条目，重新写入的条目移到末尾', async () => {
+    const cache = new MemoryTranslationCache(2);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.set('a', 3, 60);
+    await cache.set('c', 4, 60);
+    assert.equal(cache.size, 2);
+    assert.equal(await cache.get('b'), null);
+    assert.equal(await cache.get('a'), 3);
+    assert.equal(await cache.get('c'), 4);
+  });
+});
+
+describe('KVTranslationCache', () => {
+  it('按 JSON 读写，TTL 不低于 KV 允许的最小值', async () => {
+    const puts: Array<{ key: string; value: string; ttl?: number }> = [];
+    const store = new Map<string, string>();
+    const kv: KVNamespaceLike = {
+      async get(key) {
+        const value = store.get(key);
+        return value === undefined ? null : JSON.parse(value);
+      },
+      async put(key, value, options) {
+        puts.push({ key, value, ttl: options?.expirationTtl });
+        store.set(key, value);
+      },
+    };
+    const cache = new KVTranslationCache(kv);
+    await cache.set('k', ['番茄'], 10);
+    assert.deepEqual(puts, [{ key: 'k', value: '["番茄"]', ttl: 60 }]);
+    assert.deepEqual(await cache.get('k'), ['番茄']);
+    assert.equal(await cache.get('missing'), null);
+  });
+});
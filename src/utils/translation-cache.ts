@@ -0,0 +1,144 @@
+// 翻译缓存：让翻译结果、联想词、整道菜谱的译文与本地化后的参考数据跨请求复用
+// 设计要点：
+// 1. TranslationCache 接口屏蔽存储差异：默认进程内存，Workers 中可切换为 KV（由 worker.ts 从 Env 注入）
+// 2. 键名包含类型与目标语言：'tr:v1:<类型>:<语言>:<内容>'，长文本使用 SHA-256 摘要，满足 KV 键长限制
+// 3. 每类条目有各自的 TTL，过期后重新翻译
+// 4. 缓存读写失败不影响翻译流程（Translator 中按未命中处理）
+
+/**
+ * 翻译缓存接口（值为可 JSON 序列化的数据）
+ */
+export interface TranslationCache {
+  /** 读取缓存，未命中或已过期时返回 null */
+  get<T>(key: string): Promise<T | null>;
+  /** 写入缓存，ttlSeconds 为有效期（秒） */
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * 缓存条目类型
+ */
+export type CacheKind = 'text' | 'association' | 'recipe' | 'reference';
+
+// 各类条目的有效期（秒）：单词/短句译文基本稳定，联想词与整道菜谱相对短一些，参考数据随数据源更新，按天刷新
+export const CACHE_TTL: Record<CacheKind, number> = {
+  text: 30 * 24 * 3600,
+  association: 7 * 24 * 3600,
+  recipe: 7 * 24 * 3600,
+  reference: 24 * 3600,
+};
+
+// 键名版本：调整 Prompt 或数据结构后递增，使旧缓存自然失效
+const KEY_VERSION = 'v1';
+
+// 超过该长度的内容使用哈希作为键（KV 键最长 512 字节）
+const MAX_RAW_KEY_LENGTH = 128;
+
+// SHA-256 摘要（十六进制）：长文本键跨用户、跨内容共享同一 KV 命名空间，需避免碰撞后串用其他文本的译文
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 生成缓存键
+ * @param kind - 条目类型
+ * @param language - 目标语言
+ * @param content - 原文 / 联想输入 / 菜谱标识
+ * @returns 形如 'tr:v1:text:zh-CN:Chicken' 的键；长文本为 'tr:v1:text:zh-CN:#<sha256>'
+ */
+export async function cacheKey(kind: CacheKind, language: string, content: string): Promise<string> {
+  const body = content.length > MAX_RAW_KEY_LENGTH ? `#${await sha256(content)}` : content;
+  return `tr:${KEY_VERSION}:${kind}:${language}:${body}`;
+}
+
+/**
+ * 进程内存缓存（默认实现；本地开发与单实例部署可直接复用）
+ */
+export class MemoryTranslationCache implements TranslationCache {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  /**
+   * 构造函数
+   * @param maxEntries - 最多保留的条目数，超出时淘汰最早写入的条目
+   */
+  constructor(private maxEntries: number = 5000) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key); // 重新写入时移到末尾
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** 当前条目数 */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** 清空缓存 */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Workers KV 命名空间的最小接口（避免依赖 @cloudflare/workers-types）
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+// KV 允许的最短 TTL（秒）
+const KV_MIN_TTL = 60;
+
+/**
+ * Workers KV 缓存：跨请求、跨实例共享
+ */
+export class KVTranslationCache implements TranslationCache {
+  /**
+   * 构造函数
+   * @param kv - KV 命名空间绑定（wrangler.toml 中的 TRANSLATION_CACHE）
+   */
+  constructor(private kv: KVNamespaceLike) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    return ((await this.kv.get(key, 'json')) as T | null) ?? null;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    await this.kv.put(key, JSON.stringify(value), { expirationTtl: Math.max(KV_MIN_TTL, ttlSeconds) });
+  }
+}
+
+// 全局共享缓存：Translator 默认使用；Workers 入口在有 KV 绑定时替换为 KVTranslationCache
+let sharedCache: TranslationCache = new MemoryTranslationCache();
+
+/**
+ * 获取全局共享的翻译缓存
+ */
+export function getTranslationCache(): TranslationCache {
+  return sharedCache;
+}
+
+/**
+ * 替换全局共享的翻译缓存
+ * @param cache - 新的缓存实现
+ */
+export function setTranslationCache(cache: TranslationCache): void {
+  sharedCache = cache;
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Translator, type NormalizedRecipe } from './translator';
+import { MemoryTranslationCache } from './translation-cache';
+
+// 模拟 OpenAI Chat Completions：按请求体生成回复内容，并记录每次请求
+const realFetch = globalThis.fetch;
+let requests: Array<{ messages: Array<{ role: string; content: string }> }> = [];
+
+function mockOpenAI(reply: (user: string) => string): void {
+  globalThis.fetch = (async (_url: unknown, init?: { body?: unknown }) => {
+    const body = JSON.parse(String(init?.body));
+    requests.push(body);
+    const content = reply(body.messages.find((m: { role: string }) => m.role === 'user').content);
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+  }) as typeof fetch;
+}
+
+// 批量请求：每道菜名前加 "[zh]"；逐字段请求：原文前加 "[zh]"
+function translateAll(user: string): string {
+  if (!user.startsWith('{"recipes"')) return `[zh]${user}`;
+  const { recipes } = JSON.parse(user);
+  return JSON.stringify({
+    recipes: recipes.map((r: NormalizedRecipe) => ({
+      ...r,
+      name: `[zh]${r.name}`,
+      ingredients: r.ingredients.map((i) => ({ ingredient: `[zh]${i.ingredient}`, measure: `[zh]${i.measure}` })),
+    })),
+  });
+}
+
+function recipe(id: string, overrides: Partial<NormalizedRecipe> = {}): NormalizedRecipe {
+  return {
+    id,
+    name: `Dish ${id}`,
+    category: null,
+    area: null,
+    tags: null,
+    instructions: null,
+    thumbnail: null,
+    youtube: null,
+    ingredients: [{ ingredient: 'Chicken', measure: '200g' }, { ingredient: 'Dragon Fruit', measure: '1' }],
+    ...overrides,
+  };
+}
+
+describe('Translator.translateRecipeOutput', () => {
+  beforeEach(() => { requests = []; });
+  afterEach(() => { globalThis.fetch = realFetch; });
+
+  it('一页菜谱一次 LLM 调用翻译，食材名以词表为准', async () => {
+    mockOpenAI(translateAll);
+    const translator = new Translator('test-key', new MemoryTranslationCache());
+    const [a, b] = await translator.translateRecipeOutput([recipe('1'), recipe('2')], 'zh-CN');
+    assert.equal(requests.length, 1);
+    assert.equal(a.name, '[zh]Dish 1');
+    assert.equal(b.name, '[zh]Dish 2');
+    assert.deepEqual(a.ingredients, [{ ingredient: '鸡肉', measure: '[zh]200g' }, { ingredient: '[zh]Dragon Fruit', measure: '[zh]1' }]);
+    assert.equal(a.language, 'zh-CN');
+  });
+
+  it('已是目标语言的菜谱不翻译', async () => {
+    mockOpenAI(translateAll);
+    const translator = new Translator('test-key', new MemoryTranslationCache());
+    const original = recipe('cn-1', { name: '宫保鸡丁', language: 'zh-CN' });
+    const [result] = await translator.translateRecipeOutput([original], 'zh-CN');
+    assert.equal(result, original);
+    assert.equal(requests.length, 0);
+  });
+
+  it('通过校验的整道菜谱译文写入缓存，再次请求不调用 LLM', async () => {
+    mockOpenAI(translateAll);
+    const translator = new Translator('test-key', new MemoryTranslationCache());
+    await translator.translateRecipeOutput([recipe('1')], 'zh-CN');
+    const [again] = await translator.translateRecipeOutput([{ ...recipe('1'), matchedIngredients: ['Chicken'] }], 'zh-CN');
+    assert.equal(requests.length, 1);
+    assert.equal(again.name, '[zh]Dish 1');
+    assert.deepEqual(again.matchedIngredients, ['Chicken']);
+  });
+
+  it('批量结果未通过校验（食材数量不一致）时逐字段翻译', async () => {
+    mockOpenAI((user) => {
+      if (!user.startsWith('{"recipes"')) return `[zh]${user}`;
+      const { recipes } = JSON.parse(user);
+      return JSON.stringify({ recipes: recipes.map((r: NormalizedRecipe) => ({ ...r, ingredients: r.ingredients.slice(1) })) });
+    });
+    const translator = new Translator('test-key', new MemoryTranslationCache());
+    const [result] = await translator.translateRecipeOutput([recipe('1')], 'zh-CN');
+    assert.equal(result.name, '[zh]Dish 1');
+    assert.deepEqual(result.ingredients, [{ ingredient: '鸡肉', measure: '[zh]200g' }, { ingredient: '[zh]Dragon Fruit', measure: '[zh]1' }]);
+    assert.ok(requests.length > 1);
+  });
+
+  it('未配置 API Key 时返回原文', async () => {
+    mockOpenAI(translateAll);
+    const saved = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      const translator = new Translator(undefined, new MemoryTranslationCache());
+      const [result] = await translator.translateRecipeOutput([recipe('1')], 'zh-CN');
+      assert.equal(result.name, 'Dish 1');
+      assert.equal(result.ingredients[0].ingredient, '鸡肉');
+      assert.equal(requests.length, 0);
+    } finally {
+      if (saved !== undefined) process.env.OPENAI_API_KEY = saved;
+    }
+  });
+});
@@ -1,9 +1,26 @@
 // AI 翻译工具类：基于 OpenAI API 实现中英文双向翻译
 // 设计要点：
 // 1. 智能检测中文，避免不必要的翻译
-// 2. 缓存翻译结果，优化性能和成本
+// 2. 缓存翻译结果，优化性能和成本（TranslationCache 跨请求共享，Workers 中可使用 KV）
 // 3. 错误降级，翻译失败时返回原文
 // 4. 专业食材翻译，使用食品领域优化的 Prompt
+// 5. 类别/菜系优先走内置分类体系（utils/taxonomy.ts），命中时不调用 LLM
+// 6. 食材名优先查内置双语词表（utils/glossary.ts），未收录时才调用 LLM 并记录缺失词
+// 7. 菜谱输出按页批量翻译：一次 LLM 调用返回 JSON，经 zod 校验，未通过校验的菜谱再逐字段翻译
+// 8. 短文本列表（参考数据的名称与说明）同样批量翻译，逐条写入 text 缓存
+import { z } from 'zod';
+import { localeInfo, type LocaleCode } from '../constants/locales';
+import type { Allergen, DietaryLabel, Difficulty, IngredientItem, IngredientSubstitution, Nutrition, RecipeEquipment, RecipeStep, TasteProfile } from '../types';
+import { resolveTaxonomy, type TaxonomyKind, type TaxonomyMatch } from './taxonomy';
+import { getGlossaryMisses, isGlossaryLocale, lookupIngredient, recordGlossaryMiss, type GlossaryMiss } from './glossary';
+import {
+  CACHE_TTL,
+  MemoryTranslationCache,
+  cacheKey,
+  getTranslationCache,
+  type CacheKind,
+  type TranslationCache,
+} from './translation-cache';
 
 /**
  * 规范化后的菜谱数据结构（用于翻译）
@@ -15,12 +32,32 @@ export interface NormalizedRecipe {
   area: string | null;
   tags: string[] | null;
   instructions: string | null;
+  steps?: RecipeStep[];
   thumbnail: string | null;
   youtube: string | null;
-  ingredients: Array<{
-    ingredient: string;
-    measure: string;
-  }>;
+  ingredients: IngredientItem[];
+  source?: string;
+  language?: LocaleCode;
+  matchedIngredients?: string[];
+  missingIngredients?: string[];
+  baseServings?: number;
+  baseServingsEstimated?: boolean;
+  servings?: number;
+  totalMinutes?: number;
+  activeMinutes?: number;
+  difficulty?: Difficulty;
+  difficultyLabel?: string;
+  withinTimeBudget?: boolean;
+  equipment?: RecipeEquipment[];
+  missingEquipment?: RecipeEquipment[];
+  equipmentNote?: string | null;
+  taste?: TasteProfile;
+  spiceLabel?: string;
+  tasteMatch?: number;
+  dietary?: DietaryLabel[];
+  allergens?: Allergen[];
+  nutrition?: Nutrition;
+  substitutions?: IngredientSubstitution[];
 }
 
 /**
@@ -30,6 +67,7 @@ export interface AssociatedTerms {
   original: string; // 原始输入
   translated: string; // 翻译后的原始输入
   relatedTerms: string[]; // 联想到的相关词汇（已翻译）
+  taxonomy?: TaxonomyMatch; // 内置分类体系的解析结果（仅类别/菜系，命中时 translated / relatedTerms 即规范取值）
 }
 
 /**
@@ -41,24 +79,70 @@ export interface EnhancedTranslationInput {
   cuisine?: AssociatedTerms;
 }
 
+// 批量翻译时每次 LLM 调用包含的菜谱数（控制单次输出长度，避免超出 max_tokens）
+const BATCH_SIZE = 5;
+
+// 批量翻译的单个菜谱结构（仅包含需要翻译的字段）
+const batchRecipeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: z.string().nullable(),
+  area: z.string().nullable(),
+  tags: z.array(z.string()).nullable(),
+  instructions: z.string().nullable(),
+  ingredients: z.array(z.object({ ingredient: z.string(), measure: z.string() })),
+});
+
+type BatchRecipe = z.infer<typeof batchRecipeSchema>;
+
+// 批量翻译短文本时每次 LLM 调用包含的条数
+const TEXT_BATCH_SIZE = 40;
+
+// 批量翻译短文本时同时进行的 LLM 调用数上限（冷启动翻译整张食材表时约 30 批，避免同时发出）
+const MAX_CONCURRENT_BATCHES = 4;
+
 /**
  * 翻译器类 - 封装 OpenAI API 调用逻辑
  */
 export class Translator {
-  private cache = new Map<string, string>(); // 翻译缓存，格式：'language:原文' -> '译文'
-  private associationCache = new Map<string, string[]>(); // 联想词缓存，格式：'type:原文' -> ['联想词1', '联想词2', ...]
+  private cache: TranslationCache; // 翻译缓存（译文、联想词、整道菜谱），键名见 cacheKey
   private apiKey: string; // OpenAI API Key
 
   /**
    * 构造函数
    * @param apiKey - OpenAI API Key（可选，默认从全局环境变量读取）
+   * @param cache - 翻译缓存（可选，默认使用全局共享缓存，跨请求复用）
    */
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, cache: TranslationCache = getTranslationCache()) {
     // 尝试从多个来源获取 API Key
     this.apiKey =
       apiKey ||
       (typeof process !== 'undefined' && process.env?.OPENAI_API_KEY) ||
       '';
+    this.cache = cache;
+  }
+
+  /**
+   * 读取缓存（私有）：读取失败按未命中处理
+   */
+  private async cacheGet<T>(kind: CacheKind, language: string, content: string): Promise<T | null> {
+    try {
+      return await this.cache.get<T>(await cacheKey(kind, language, content));
+    } catch (error) {
+      console.error('Translation cache read error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 写入缓存（私有）：写入失败不影响翻译结果
+   */
+  private async cacheSet<T>(kind: CacheKind, language: string, content: string, value: T): Promise<void> {
+    try {
+      await this.cache.set(await cacheKey(kind, language, content), value, CACHE_TTL[kind]);
+    } catch (error) {
+      console.error('Translation cache write error:', error);
+    }
   }
 
   /**
@@ -71,6 +155,16 @@ export class Translator {
     return /[\u4e00-\u9fa5]/.test(text); // Unicode 范围：U+4E00 到 U+9FA5
   }
 
+  /**
+   * 检测输入是否需要翻译为英文才能检索（包含中日韩文字）
+   * @param text - 待检测文本
+   * @returns 是否包含汉字、日文假名或韩文
+   */
+  needsTranslation(text: string): boolean {
+    if (!text) return false;
+    return /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/.test(text); // 假名、汉字、韩文音节
+  }
+
   /**
    * 生成相关联想词（使用 AI 智能扩展关键词）
    * @param input - 原始输入（中文）
@@ -89,9 +183,10 @@ export class Translator {
     }
 
     // 检查缓存
-    const cacheKey = `${type}:${input}`;
-    if (this.associationCache.has(cacheKey)) {
-      return this.associationCache.get(cacheKey)!;
+    // 联想词为中文，键名：'association:zh-CN:type:原文'
+    const cached = await this.cacheGet<string[]>('association', 'zh-CN', `${type}:${input}`);
+    if (cached) {
+      return cached;
     }
 
     try {
@@ -163,7 +258,7 @@ export class Translator {
         .slice(0, 3); // 最多返回 3 个联想词
 
       // 存入缓存
-      this.associationCache.set(cacheKey, relatedTerms);
+      await this.cacheSet('association', 'zh-CN', `${type}:${input}`, relatedTerms);
       return relatedTerms;
     } catch (error) {
       // 错误降级：返回空数组
@@ -175,12 +270,12 @@ export class Translator {
   /**
    * 通用翻译方法（私有）
    * @param text - 待翻译文本
-   * @param targetLang - 目标语言（'zh-CN' 或 'en-US'）
+   * @param targetLang - 目标语言（见 constants/locales.ts）
    * @returns 翻译后的文本
    */
   private async translate(
     text: string,
-    targetLang: 'zh-CN' | 'en-US'
+    targetLang: LocaleCode
   ): Promise<string> {
     // 边界检查
     if (!text || !text.trim()) return text;
@@ -190,17 +285,14 @@ export class Translator {
     }
 
     // 检查缓存
-    const cacheKey = `${targetLang}:${text}`;
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)!;
+    const cached = await this.cacheGet<string>('text', targetLang, text);
+    if (cached !== null) {
+      return cached;
     }
 
     try {
-      // 根据目标语言设置 System Prompt
-      const systemPrompt =
-        targetLang === 'zh-CN'
-          ? 'You are a professional food and cooking translator. Translate the following English food-related text to simplified Chinese. Only return the translation without any explanations or additional text. Preserve measurements and numbers as-is.'
-          : 'You are a professional food and cooking translator. Translate the following Chinese food-related text to English. Only return the translation without any explanations or additional text. Preserve measurements and numbers as-is.';
+      // 根据目标语言设置 System Prompt（语言名取自语言注册表）
+      const systemPrompt = `You are a professional food and cooking translator. Translate the following food-related text to ${localeInfo(targetLang).englishName}. Only return the translation without any explanations or additional text. Preserve measurements and numbers as-is.`;
 
       // 调用 OpenAI Chat Completions API
       const response = await fetch(
@@ -235,7 +327,7 @@ export class Translator {
       const translation = data.choices?.[0]?.message?.content?.trim() || text;
 
       // 存入缓存
-      this.cache.set(cacheKey, translation);
+      await this.cacheSet('text', targetLang, text, translation);
       return translation;
     } catch (error) {
       // 错误降级：返回原文
@@ -244,6 +336,23 @@ export class Translator {
     }
   }
 
+  /**
+   * 翻译食材名（私有）：先查内置词表，未收录时记录缺失词并回退到 LLM
+   * @param text - 食材名
+   * @param targetLang - 目标语言
+   * @returns 翻译后的食材名
+   */
+  private async translateIngredient(
+    text: string,
+    targetLang: LocaleCode
+  ): Promise<string> {
+    if (!text || !text.trim()) return text;
+    const hit = lookupIngredient(text, targetLang);
+    if (hit) return hit;
+    if (isGlossaryLocale(targetLang)) recordGlossaryMiss(text, targetLang);
+    return this.translate(text, targetLang);
+  }
+
   /**
    * 翻译菜谱输入参数（智能检测中文并翻译为英文）
    * 用途：用户可能输入中文食材名，需要翻译为英文才能调用 TheMealDB API
@@ -262,15 +371,22 @@ export class Translator {
   }> {
     const result = { ...input };
 
-    // 只翻译包含中文的字段
-    if (input.ingredients && this.isChinese(input.ingredients)) {
-      result.ingredients = await this.translate(input.ingredients, 'en-US');
+    // 只翻译包含中文的字段；类别/菜系优先使用内置分类体系的规范取值
+    if (input.ingredients && this.needsTranslation(input.ingredients)) {
+      // 逐个食材查词表，未收录的再交给 LLM
+      const items = input.ingredients.split(/[，,、;；]+/).map((s) => s.trim()).filter(Boolean);
+      const translated = await Promise.all(items.map((item) => this.translateIngredient(item, 'en-US')));
+      result.ingredients = translated.join(', ');
     }
-    if (input.category && this.isChinese(input.category)) {
-      result.category = await this.translate(input.category, 'en-US');
+    if (input.category) {
+      const taxonomy = resolveTaxonomy('category', input.category);
+      if (taxonomy) result.category = taxonomy.canonical[0];
+      else if (this.needsTranslation(input.category)) result.category = await this.translate(input.category, 'en-US');
     }
-    if (input.cuisine && this.isChinese(input.cuisine)) {
-      result.cuisine = await this.translate(input.cuisine, 'en-US');
+    if (input.cuisine) {
+      const taxonomy = resolveTaxonomy('cuisine', input.cuisine);
+      if (taxonomy) result.cuisine = taxonomy.canonical[0];
+      else if (this.needsTranslation(input.cuisine)) result.cuisine = await this.translate(input.cuisine, 'en-US');
     }
 
     return result;
@@ -299,17 +415,17 @@ export class Translator {
       const original = input.ingredients;
 
       // 如果是中文输入且启用联想词
-      if (this.isChinese(original) && enableAssociation) {
+      if (this.needsTranslation(original) && enableAssociation) {
         // 1. 生成联想词（中文）
         const relatedTermsChinese = await this.generateRelatedTerms(
           original,
           'ingredients'
         );
 
-        // 2. 翻译原始词 + 所有联想词
+        // 2. 翻译原始词 + 所有联想词（优先查词表）
         const [translated, ...translatedRelated] = await Promise.all([
-          this.translate(original, 'en-US'),
-          ...relatedTermsChinese.map((term) => this.translate(term, 'en-US')),
+          this.translateIngredient(original, 'en-US'),
+          ...relatedTermsChinese.map((term) => this.translateIngredient(term, 'en-US')),
         ]);
 
         result.ingredients = {
@@ -318,20 +434,23 @@ export class Translator {
           relatedTerms: translatedRelated,
         };
       } else {
-        // 英文输入或禁用联想词：只翻译原始词
+        // 英文输入或禁用联想词：英文不需要翻译，中文只查词表（不调用 LLM）
         result.ingredients = {
           original,
-          translated: original, // 英文不需要翻译
+          translated: this.needsTranslation(original) ? lookupIngredient(original, 'en-US') || original : original,
           relatedTerms: [],
         };
       }
     }
 
-    // 处理 category 字段
+    // 处理 category 字段（内置分类体系命中时不再调用 LLM）
     if (input.category) {
       const original = input.category;
+      const resolved = this.resolveFromTaxonomy(original, 'category');
 
-      if (this.isChinese(original) && enableAssociation) {
+      if (resolved) {
+        result.category = resolved;
+      } else if (this.needsTranslation(original) && enableAssociation) {
         const relatedTermsChinese = await this.generateRelatedTerms(
           original,
           'category'
@@ -356,11 +475,14 @@ export class Translator {
       }
     }
 
-    // 处理 cuisine 字段
+    // 处理 cuisine 字段（内置分类体系命中时不再调用 LLM）
     if (input.cuisine) {
       const original = input.cuisine;
+      const resolved = this.resolveFromTaxonomy(original, 'cuisine');
 
-      if (this.isChinese(original) && enableAssociation) {
+      if (resolved) {
+        result.cuisine = resolved;
+      } else if (this.needsTranslation(original) && enableAssociation) {
         const relatedTermsChinese = await this.generateRelatedTerms(
           original,
           'cuisine'
@@ -388,6 +510,19 @@ export class Translator {
     return result;
   }
 
+  /**
+   * 使用内置分类体系解析类别/菜系（私有）
+   * @param original - 用户原始输入
+   * @param kind - category 或 cuisine
+   * @returns 联想词结构（首个规范取值作为 translated，其余作为 relatedTerms），未命中时返回 null
+   */
+  private resolveFromTaxonomy(original: string, kind: TaxonomyKind): AssociatedTerms | null {
+    const taxonomy = resolveTaxonomy(kind, original);
+    if (!taxonomy) return null;
+    const [translated, ...relatedTerms] = taxonomy.canonical;
+    return { original, translated, relatedTerms, taxonomy };
+  }
+
   /**
    * 翻译单个菜谱输出（所有字段）
    * @param recipe - 原始菜谱对象（英文）
@@ -396,10 +531,10 @@ export class Translator {
    */
   private async translateSingleRecipe(
     recipe: NormalizedRecipe,
-    language: 'zh-CN' | 'en-US'
+    language: LocaleCode
   ): Promise<NormalizedRecipe> {
-    // 如果目标语言是英文，直接返回原数据
-    if (language === 'en-US') {
+    // 菜谱内容已是目标语言（缺省视为英文原文），直接返回原数据
+    if ((recipe.language ?? 'en-US') === language) {
       return recipe;
     }
 
@@ -413,29 +548,29 @@ export class Translator {
       ingredients,
     ] = await Promise.all([
       // 翻译菜品名称
-      this.translate(recipe.name, 'zh-CN'),
+      this.translate(recipe.name, language),
 
       // 翻译类别（可能为 null）
-      recipe.category ? this.translate(recipe.category, 'zh-CN') : null,
+      recipe.category ? this.translate(recipe.category, language) : null,
 
       // 翻译地区/菜系（可能为 null）
-      recipe.area ? this.translate(recipe.area, 'zh-CN') : null,
+      recipe.area ? this.translate(recipe.area, language) : null,
 
       // 翻译标签数组（可能为 null）
       recipe.tags
-        ? Promise.all(recipe.tags.map((tag) => this.translate(tag, 'zh-CN')))
+        ? Promise.all(recipe.tags.map((tag) => this.translate(tag, language)))
         : null,
 
       // 翻译做法步骤（可能为 null，且可能很长）
       recipe.instructions
-        ? this.translate(recipe.instructions, 'zh-CN')
+        ? this.translate(recipe.instructions, language)
         : null,
 
-      // 翻译食材列表（每个食材的名称和用量）
+      // 翻译食材列表（食材名优先查词表，用量交给 LLM）
       Promise.all(
         recipe.ingredients.map(async (item) => ({
-          ingredient: await this.translate(item.ingredient, 'zh-CN'),
-          measure: await this.translate(item.measure, 'zh-CN'),
+          ingredient: await this.translateIngredient(item.ingredient, language),
+          measure: await this.translate(item.measure, language),
         }))
       ),
     ]);
@@ -449,47 +584,315 @@ export class Translator {
       tags,
       instructions,
       ingredients,
+      language,
     };
   }
 
+  /**
+   * 批量翻译一组菜谱（私有）：一次 LLM 调用，JSON 输入输出
+   * @param recipes - 待翻译的菜谱（均非目标语言）
+   * @param language - 目标语言
+   * @returns 与输入一一对应的翻译结果；调用失败或未通过校验的菜谱为 null
+   */
+  private async translateRecipesBatch(
+    recipes: NormalizedRecipe[],
+    language: LocaleCode
+  ): Promise<Array<NormalizedRecipe | null>> {
+    const failed = recipes.map(() => null);
+    if (!this.apiKey || !recipes.length) return failed;
+
+    // 只发送需要翻译的字段
+    const payload: BatchRecipe[] = recipes.map((recipe) => ({
+      id: recipe.id,
+      name: recipe.name,
+      category: recipe.category,
+      area: recipe.area,
+      tags: recipe.tags,
+      instructions: recipe.instructions,
+      ingredients: recipe.ingredients,
+    }));
+
+    const targetName = localeInfo(language).englishName;
+    const systemPrompt = `You are a professional food and cooking translator. The user sends a JSON object {"recipes": [...]}. Translate every recipe into ${targetName} and return a JSON object with exactly the same shape:
+- Keep "id" unchanged and keep the recipes in the same order
+- Translate name, category, area, every tag, instructions, and each ingredient's "ingredient" and "measure"
+- Keep null values as null, keep the number and order of tags and ingredients
+- Preserve measurements, numbers and line breaks as-is
+- Return only the JSON object, without any explanations`;
+
+    try {
+      // 调用 OpenAI Chat Completions API（JSON 模式）
+      const response = await fetch(
+        'https://api.openai.com/v1/chat/completions',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+          body: JSON.stringify({
+            model: 'gpt-3.5-turbo', // 使用 gpt-3.5-turbo 以平衡成本和质量
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: JSON.stringify({ recipes: payload }) },
+            ],
+            response_format: { type: 'json_object' }, // 要求模型只输出 JSON
+            temperature: 0.3, // 降低随机性，保证翻译一致性
+            max_tokens: 4096, // 整页菜谱（含做法）需要较多 token
+          }),
+        }
+      );
+
+      // 解析响应
+      if (!response.ok) {
+        console.error(
+          `OpenAI API error: ${response.status} ${response.statusText}`
+        );
+        return failed;
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content?.trim() || '';
+      const items: unknown[] = JSON.parse(content)?.recipes;
+      if (!Array.isArray(items)) return failed;
+
+      // 逐个菜谱校验：结构正确、ID 对应、食材与标签数量一致才视为成功
+      return recipes.map((recipe) => {
+        const parsed = items
+          .map((item) => batchRecipeSchema.safeParse(item))
+          .find((result) => result.success && result.data.id === recipe.id);
+        if (!parsed?.success) return null;
+        const item = parsed.data;
+        if (item.ingredients.length !== recipe.ingredients.length) return null;
+        if ((item.tags?.length ?? 0) !== (recipe.tags?.length ?? 0)) return null;
+        return {
+          ...recipe,
+          name: item.name,
+          category: recipe.category === null ? null : item.category,
+          area: recipe.area === null ? null : item.area,
+          tags: recipe.tags === null ? null : item.tags,
+          instructions: recipe.instructions === null ? null : item.instructions,
+          // 食材名以词表为准，保证与检索、筛选使用的译名一致
+          ingredients: item.ingredients.map((translated, i) => ({
+            ingredient: lookupIngredient(recipe.ingredients[i].ingredient, language) || translated.ingredient,
+            measure: translated.measure,
+          })),
+          language,
+        };
+      });
+    } catch (error) {
+      // 错误降级：整批交给逐字段翻译
+      console.error('Batch translation error:', error);
+      return failed;
+    }
+  }
+
   /**
    * 翻译菜谱输出数组（批量处理）
-   * 用途：TheMealDB 返回的所有内容都是英文，需要根据用户语言偏好翻译
+   * 用途：TheMealDB 返回的内容是英文、中文数据源返回的是中文，需要根据用户语言偏好翻译
+   * 默认按页批量翻译（每 BATCH_SIZE 道菜一次 LLM 调用），未通过校验的菜谱回退到逐字段翻译
    *
    * @param recipes - 原始菜谱数组（英文）
-   * @param language - 目标语言（'zh-CN' 或 'en-US'）
+   * @param language - 目标语言（见 constants/locales.ts）
+   * @param options - batch：是否启用批量翻译（默认启用）
    * @returns 翻译后的菜谱数组
    */
   async translateRecipeOutput(
     recipes: NormalizedRecipe[],
-    language: 'zh-CN' | 'en-US'
+    language: LocaleCode,
+    options: { batch?: boolean } = {}
   ): Promise<NormalizedRecipe[]> {
-    // 如果目标语言是英文，直接返回原数据（无需翻译）
-    if (language === 'en-US') {
-      return recipes;
+    const { batch = true } = options;
+
+    // 已是目标语言的菜谱原样返回；先查整道菜谱的译文缓存，其余按批次并行翻译
+    const recipeKey = (recipe: NormalizedRecipe) => `${recipe.source ?? ''}:${recipe.id}`;
+    const batched = new Map<NormalizedRecipe, NormalizedRecipe>();
+    const untranslated = recipes.filter((recipe) => (recipe.language ?? 'en-US') !== language);
+    const cachedRecipes = await Promise.all(
+      untranslated.map((recipe) => this.cacheGet<NormalizedRecipe>('recipe', language, recipeKey(recipe)))
+    );
+    untranslated.forEach((recipe, i) => {
+      const cached = cachedRecipes[i];
+      // 缓存只保存译文，匹配信息等请求相关字段以本次结果为准
+      if (cached) batched.set(recipe, { ...recipe, ...cached });
+    });
+    const pending = untranslated.filter((recipe) => !batched.has(recipe));
+    if (batch && this.apiKey && pending.length) {
+      const chunks: NormalizedRecipe[][] = [];
+      for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+        chunks.push(pending.slice(i, i + BATCH_SIZE));
+      }
+      const results = await Promise.all(
+        chunks.map((chunk) => this.translateRecipesBatch(chunk, language))
+      );
+      const writes: Promise<void>[] = [];
+      chunks.forEach((chunk, i) =>
+        chunk.forEach((recipe, j) => {
+          const translated = results[i][j];
+          if (!translated) return;
+          batched.set(recipe, translated);
+          // 仅缓存通过校验的整道菜谱译文（逐字段回退的结果可能含未翻译的原文）
+          const { matchedIngredients, missingIngredients, ...cacheable } = translated;
+          writes.push(this.cacheSet('recipe', language, recipeKey(recipe), cacheable));
+        })
+      );
+      await Promise.all(writes);
     }
 
-    // 并行翻译所有菜谱（优化性能）
+    // 批量未覆盖的菜谱（含校验失败）逐字段翻译
     const translated = await Promise.all(
-      recipes.map((recipe) => this.translateSingleRecipe(recipe, language))
+      recipes.map((recipe) => batched.get(recipe) || this.translateSingleRecipe(recipe, language))
     );
 
     return translated;
   }
 
+  /**
+   * 批量翻译一组短文本（私有）：一次 LLM 调用，JSON 输入输出
+   * @param texts - 待翻译的文本
+   * @param language - 目标语言
+   * @returns 与输入一一对应的译文；调用失败或条数不一致时返回 null
+   */
+  private async translateTextsBatch(texts: string[], language: LocaleCode): Promise<string[] | null> {
+    const systemPrompt = `You are a professional food and cooking translator. The user sends a JSON object {"texts": [...]}. Translate every text into ${localeInfo(language).englishName} and return a JSON object {"texts": [...]} with the translations in the same order and the same number of items. Return only the JSON object, without any explanations.`;
+
+    try {
+      const response = await fetch(
+        'https://api.openai.com/v1/chat/completions',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+          body: JSON.stringify({
+            model: 'gpt-3.5-turbo',
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: JSON.stringify({ texts }) },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0.3,
+            max_tokens: 4096,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        console.error(
+          `OpenAI API error: ${response.status} ${response.statusText}`
+        );
+        return null;
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content?.trim() || '';
+      const parsed = z.object({ texts: z.array(z.string()) }).safeParse(JSON.parse(content));
+      return parsed.success && parsed.data.texts.length === texts.length ? parsed.data.texts : null;
+    } catch (error) {
+      console.error('Batch translation error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 翻译一组短文本（如类别、菜系、食材的名称与说明）
+   * 食材名先查词表，其余先查 text 缓存，未命中的按每 TEXT_BATCH_SIZE 条一次 LLM 调用翻译
+   *
+   * @param texts - 原文列表
+   * @param language - 目标语言
+   * @param options - ingredient：是否为食材名（优先使用词表）
+   * @returns 与 texts 一一对应的译文；未配置 API Key 或翻译失败时为原文
+   */
+  async translateTexts(
+    texts: string[],
+    language: LocaleCode,
+    options: { ingredient?: boolean } = {}
+  ): Promise<string[]> {
+    return (await this.translateTextsTracked(texts, language, options)).texts;
+  }
+
+  /**
+   * 翻译一组短文本，并标明每条是否已译出（与 translateTexts 相同的词表、缓存与批量 LLM 路径）
+   * 译文与原文相同（如 "Tofu" 在多数语言中不变）也算译出，调用方不应以译文是否不同于原文判断成功
+   *
+   * @param texts - 原文列表
+   * @param language - 目标语言
+   * @param options - ingredient：是否为食材名（优先使用词表）
+   * @returns texts：与输入一一对应的译文（未译出时为原文）；translated：词表命中、缓存命中或 LLM 返回非空译文时为 true，空白原文视为 true
+   */
+  async translateTextsTracked(
+    texts: string[],
+    language: LocaleCode,
+    options: { ingredient?: boolean } = {}
+  ): Promise<{ texts: string[]; translated: boolean[] }> {
+    const results = new Map<string, string>();
+    const unique = Array.from(new Set(texts.filter((text) => text && text.trim())));
+    if (options.ingredient) {
+      for (const text of unique) {
+        const hit = lookupIngredient(text, language);
+        if (hit) results.set(text, hit);
+      }
+    }
+
+    const rest = unique.filter((text) => !results.has(text));
+    const cached = await Promise.all(rest.map((text) => this.cacheGet<string>('text', language, text)));
+    rest.forEach((text, i) => {
+      const hit = cached[i];
+      if (hit !== null) results.set(text, hit);
+    });
+
+    const pending = rest.filter((text) => !results.has(text));
+    if (this.apiKey && pending.length) {
+      const chunks: string[][] = [];
+      for (let i = 0; i < pending.length; i += TEXT_BATCH_SIZE) {
+        chunks.push(pending.slice(i, i + TEXT_BATCH_SIZE));
+      }
+      // 限制同时进行的批次数：按顺序分组，每组最多 MAX_CONCURRENT_BATCHES 个批次并行
+      const translated: Array<string[] | null> = [];
+      for (let i = 0; i < chunks.length; i += MAX_CONCURRENT_BATCHES) {
+        const group = chunks.slice(i, i + MAX_CONCURRENT_BATCHES);
+        translated.push(...await Promise.all(group.map((chunk) => this.translateTextsBatch(chunk, language))));
+      }
+      const writes: Promise<void>[] = [];
+      chunks.forEach((chunk, i) =>
+        chunk.forEach((text, j) => {
+          const translation = translated[i]?.[j]?.trim();
+          if (!translation) return;
+          results.set(text, translation);
+          writes.push(this.cacheSet('text', language, text, translation));
+        })
+      );
+      await Promise.all(writes);
+    }
+
+    return {
+      texts: texts.map((text) => results.get(text) ?? text),
+      translated: texts.map((text) => !text?.trim() || results.has(text)),
+    };
+  }
+
   /**
    * 获取缓存统计信息（用于调试）
-   * @returns 缓存大小
+   * @returns 缓存大小（仅内存缓存可统计，其他实现返回 0）
    */
   getCacheSize(): number {
-    return this.cache.size;
+    return this.cache instanceof MemoryTranslationCache ? this.cache.size : 0;
+  }
+
+  /**
+   * 获取食材词表的缺失记录（用于补充词表）
+   * @returns 未命中词表的食材及次数
+   */
+  getGlossaryMisses(): GlossaryMiss[] {
+    return getGlossaryMisses();
   }
 
   /**
-   * 清空翻译缓存
+   * 清空翻译缓存（仅内存缓存；KV 条目按 TTL 自然过期）
    */
   clearCache(): void {
-    this.cache.clear();
+    if (this.cache instanceof MemoryTranslationCache) this.cache.clear();
   }
 }
 
@@ -2,65 +2,114 @@
 // 路由：
 // - GET /api/recipes - 获取食谱
 // - POST /api/recipes - 搜索食谱
+// - GET /api/recipes/suggest - 菜名联想（容错拼写与拼音）
+// - GET /api/recipes/:id - 获取单个食谱详情
+// - GET /api/categories、/api/cuisines、/api/ingredients - 获取类别 / 菜系 / 食材的可选取值
+// - POST /api/shopping-list - 按选定的菜谱生成购物清单
+// - POST /api/meal-plan - 生成一周早中晚餐菜单与购物清单
 // - POST /api/chat - 聊天对话
 // - GET /api/models - 获取可用模型列表
 
 import { recipeTool } from './mastra/tools/recipe-tool';
 import { MESSAGES, AVAILABLE_MODELS } from './constants/messages';
-import type { Recipe } from './types';
-import LANGUAGE from './utils/language';
+import type { Recipe, UnitSystem, Weekday } from './types';
+import { createLocaleContext } from './utils/language';
+import { DEFAULT_LOCALE, localeInfo, resolveLocale, type LocaleCode } from './constants/locales';
+import { KVTranslationCache, setTranslationCache, type KVNamespaceLike } from './utils/translation-cache';
+import { getReferenceData, type ReferenceKind } from './utils/reference';
+import { searchRecipeNames } from './utils/name-search';
+import { createRecipeSources } from './sources';
+import { createShoppingList } from './utils/shopping-list';
+import { mealPlanWorkflow } from './mastra/workflows/meal-plan';
+import { parseServings, parseTimeBudget, parseSpice, parseList, parseSuggestLimit, parseUnits, parseShoppingRecipes, parseWeekBudget, decodeRecipeId } from './utils/params';
 
 type RecipeInput = {
   ingredients?: string;
   category?: string;
   cuisine?: string;
+  match?: 'all' | 'any';
   limit?: number;
-  language?: 'zh-CN' | 'en-US';
+  language?: LocaleCode;
+  servings?: number;
+  units?: UnitSystem;
+  timeBudget?: number;
+  equipment?: string[];
+  taste?: string;
+  minSpice?: number;
+  maxSpice?: number;
+  dietary?: string[];
+  excludeAllergens?: string[];
+  exclude?: string[];
+  query?: string;
 };
 
 type FrontendInput = {
   ingredients?: string; // 逗号分隔（可能是中文），示例："鸡胸肉, 西兰花"
   category?: string; // 中文类别：如 "清淡的"、"素食"、"海鲜"
   cuisine?: string; // 中文菜系：如 "广东菜"、"中国菜"
+  match?: 'all' | 'any'; // 多条件组合方式：all 同时满足（默认） / any 尽量满足
   taste?: string; // 口味，如 "清淡"
+  minSpice?: number; // 最低辣度（0-3）
+  maxSpice?: number; // 最高辣度（0-3），如不吃辣传 0
+  dietary?: string[]; // 饮食限制，如 ["素食", "无麸质"]（硬性条件）
+  excludeAllergens?: string[]; // 需要避开的过敏原，如 ["花生", "海鲜"]（硬性条件）
+  exclude?: string[]; // 不吃的食材，如 ["香菜", "猪肉"]（硬性条件，含培根等衍生食材）
+  query?: string; // 菜名，如 "宫保鸡丁"、"spagetti"（允许拼写错误与拼音）
   timeBudget?: number; // 预算时间（分钟）
   servings?: number; // 份数
   equipment?: string[]; // 设备，如 ["炒锅"]
   limit?: number;
-  language?: 'zh-CN' | 'en-US';
+  language?: LocaleCode;
+  units?: UnitSystem; // 用量单位制：metric（克/毫升）/ imperial（盎司/磅/杯），默认按语言选择
+};
+
+type MealPlanInput = {
+  dietary?: string[]; // 饮食限制（硬性条件）
+  excludeAllergens?: string[]; // 需要避开的过敏原（硬性条件）
+  exclude?: string[]; // 不吃的食材（硬性条件）
+  timeBudget?: number | Partial<Record<Weekday, number>>; // 每餐可用时间（分钟），可按星期分别指定
+  servings?: number; // 就餐人数，默认 2
+  cuisines?: string[]; // 轮换的菜系（最多 7 个）
+  leftovers?: boolean; // 工作日午餐是否沿用前一天的炖煮类晚餐，默认 true
+  pantry?: string[]; // 家中已有的食材，购物清单中扣除
+  units?: UnitSystem; // 购物清单的用量单位制
 };
 
 type ChatInput = {
   message: string;
   threadId?: string;
   model?: string;
-  language?: 'zh-CN' | 'en-US';
+  language?: LocaleCode;
 };
 
 export interface Env {
   OPENAI_API_KEY?: string;
+  RECIPE_SOURCE?: string; // 菜谱数据源：themealdb（默认）/ local（内置离线数据集）
+  TRANSLATION_CACHE?: KVNamespaceLike; // 翻译缓存 KV 绑定（可选，未绑定时使用进程内存缓存）
 }
 
 
-async function getRecipes(input: RecipeInput, language: 'zh-CN' | 'en-US' = 'zh-CN') {
+async function getRecipes(input: RecipeInput, language: LocaleCode = DEFAULT_LOCALE) {
   const limitNum = typeof input.limit === 'number' ? input.limit : 5;
-  const { ingredients, category, cuisine } = input;
+  const { ingredients, category, cuisine, match, servings, units, timeBudget, equipment, taste, minSpice, maxSpice, dietary, excludeAllergens, exclude, query } = input;
+  // 份数、单位、口味等展示与排序条件，以及饮食限制等硬性条件，兜底随机推荐时同样生效
+  const preferences = { servings, units, timeBudget, equipment, taste, minSpice, maxSpice, dietary, excludeAllergens, exclude };
 
-  // 传递 language 参数到 recipeTool
+  // 传递 language 参数到 recipeTool（同时放入请求级 RuntimeContext）
+  const runtimeContext = createLocaleContext(language);
   const result = await recipeTool.execute({
-    context: { ingredients, category, cuisine, limit: limitNum, language },
-    runtimeContext: {},
+    context: { ingredients, category, cuisine, match, query, limit: limitNum, language, ...preferences },
+    runtimeContext,
   } as any);
 
-  // 不再使用翻译，直接由 AI Agent 根据 LANGUAGE.val 用对应语言回答
   let recipes = result.recipes || [];
 
   // 兜底：若为空则进行随机推荐，以保证每次都有答案
   if (recipes.length === 0) {
     try {
       const fallback = await recipeTool.execute({
-        context: { limit: limitNum, language },
-        runtimeContext: {},
+        context: { limit: limitNum, language, ...preferences },
+        runtimeContext,
       } as any);
       recipes = fallback.recipes || [];
     } catch (e) {
@@ -68,30 +117,51 @@ async function getRecipes(input: RecipeInput, language: 'zh-CN' | 'en-US' = 'zh-
     }
   }
 
+  const unknownDish = MESSAGES.UNKNOWN_DISH(language);
   const names = recipes.map((r: Recipe) => (
     'strMeal' in r
-      ? (r.strMeal || '未知菜品')
-      : ('name' in r ? (r.name || '未知菜品') : '未知菜品')
+      ? (r.strMeal || unknownDish)
+      : ('name' in r ? (r.name || unknownDish) : unknownDish)
   ));
   const head = recipes.length > 0
-    ? MESSAGES.RECIPES_FOUND(names.length, names)
-    : MESSAGES.NO_RECIPES_FOUND;
+    ? MESSAGES.RECIPES_FOUND(names.length, names, language)
+    : MESSAGES.NO_RECIPES_FOUND(language);
 
-  return { suggestions: head, recipes, source: result.source };
+  return { suggestions: head, recipes, source: result.source, relaxedConstraints: result.relaxedConstraints, resolved: result.resolved, corrections: result.corrections };
+}
+
+// 按 ID 获取单个食谱详情（翻译为请求语言，按份数与单位制换算用量）；ID 不存在时 recipe 为 null
+async function getRecipeDetail(id: string, language: LocaleCode, options: { servings?: number; units?: UnitSystem } = {}) {
+  const result = await recipeTool.execute({
+    context: { id, language, ...options },
+    runtimeContext: createLocaleContext(language),
+  } as any);
+  return { recipe: result.recipes?.[0] ?? null, source: result.source };
+}
+
+// 一周菜单：运行 meal-plan 工作流（请求语言同时放入 RuntimeContext）
+async function getMealPlan(input: MealPlanInput, language: LocaleCode) {
+  const run = await mealPlanWorkflow.createRunAsync();
+  const result: any = await run.start({
+    inputData: { ...input, language },
+    runtimeContext: createLocaleContext(language),
+  });
+  if (result?.status !== 'success') {
+    throw new Error(result?.error?.message || MESSAGES.ERROR.INTERNAL(language));
+  }
+  return result.result;
 }
 
 async function handleChat(input: ChatInput, env?: Env) {
+  const language = input.language ?? DEFAULT_LOCALE;
   const threadId = input.threadId || `thread-${Date.now()}`;
 
   // Validate that we have an API key
   if (!env?.OPENAI_API_KEY) {
     console.error('Missing OPENAI_API_KEY in environment');
-    const isChinese = !input.language || input.language === 'zh-CN';
     return {
       success: false,
-      response: isChinese
-        ? 'OpenAI API密钥未配置，请联系管理员。'
-        : 'OpenAI API key is not configured. Please contact the administrator.',
+      response: MESSAGES.ERROR.CHAT_UNAVAILABLE(language),
       threadId,
       model: 'error',
       language: input.language,
@@ -104,16 +174,8 @@ async function handleChat(input: ChatInput, env?: Env) {
   globalThis.process.env = globalThis.process.env || {};
   globalThis.process.env.OPENAI_API_KEY = env.OPENAI_API_KEY;
 
-  // Prepare language instruction based on input.language
-  let languageInstruction = '';
-  if (input.language === 'en-US') {
-    languageInstruction = '\n\n**IMPORTANT: Language preference is English (en-US). You MUST respond ENTIRELY in English. Do not use any Chinese characters.**';
-  } else if (input.language === 'zh-CN') {
-    languageInstruction = '\n\n**重要：语言偏好是简体中文 (zh-CN)。你必须完全用中文回答，不要使用英文。**';
-  } else {
-    // Default to Chinese if no language specified
-    languageInstruction = '\n\n**重要：语言偏好是简体中文 (zh-CN)。你必须完全用中文回答，不要使用英文。**';
-  }
+  // Prepare language instruction based on input.language (defaults to Chinese, see constants/locales.ts)
+  const languageInstruction = `\n\n**${localeInfo(language).instruction}**`;
 
   // Combine user message with language instruction
   const messageWithLanguage = input.message + languageInstruction;
@@ -126,9 +188,11 @@ async function handleChat(input: ChatInput, env?: Env) {
   const { chatAgent } = await import('./mastra/agents/chat-agent');
 
   try {
+    // 请求语言通过 RuntimeContext 传给 Agent 的动态指令与 recipeTool
     const response = await chatAgent.generate(messageWithLanguage, {
       threadId,
       resourceId: modelId,
+      runtimeContext: createLocaleContext(language),
     });
 
     return {
@@ -156,22 +220,38 @@ function parseQuery(search: URLSearchParams): FrontendInput {
   const limit = limitStr ? Number(limitStr) : undefined;
   const equipmentStr = search.get('equipment');
   const equipment = equipmentStr ? equipmentStr.split(/[，,、\s]+/).map((s) => s.trim()).filter(Boolean) : undefined;
-  const languageStr = search.get('language');
-  const language = (languageStr === 'zh-CN' || languageStr === 'en-US') ? languageStr : undefined;
+  const language = resolveLocale(search.get('language'));
+  const matchStr = search.get('match');
+  const match = (matchStr === 'all' || matchStr === 'any') ? matchStr : undefined;
 
   return {
     ingredients: search.get('ingredients') ?? undefined,
     category: search.get('category') ?? undefined,
     cuisine: search.get('cuisine') ?? undefined,
+    match,
     taste: search.get('taste') ?? undefined,
-    timeBudget: search.get('timeBudget') ? Number(search.get('timeBudget')) : undefined,
-    servings: search.get('servings') ? Number(search.get('servings')) : undefined,
+    minSpice: parseSpice(search.get('minSpice')),
+    maxSpice: parseSpice(search.get('maxSpice')),
+    dietary: parseList(search.get('dietary')),
+    excludeAllergens: parseList(search.get('excludeAllergens')),
+    exclude: parseList(search.get('exclude')),
+    query: search.get('query') ?? undefined,
+    timeBudget: parseTimeBudget(search.get('timeBudget')),
+    servings: parseServings(search.get('servings')),
     equipment,
     limit: Number.isFinite(limit as number) ? (limit as number) : undefined,
     language,
+    units: parseUnits(search.get('units')),
   };
 }
 
+// 参考数据路由：路径 -> 参考数据类型与响应字段名
+const REFERENCE_ROUTES: Record<string, { kind: ReferenceKind; field: string }> = {
+  '/api/categories': { kind: 'category', field: 'categories' },
+  '/api/cuisines': { kind: 'cuisine', field: 'cuisines' },
+  '/api/ingredients': { kind: 'ingredient', field: 'ingredients' },
+};
+
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -188,26 +268,111 @@ export default {
 
     const url = new URL(request.url);
 
-    // 设置全局语言变量，默认中文
-    let language = 'zh-CN' as 'zh-CN' | 'en-US';
+    // 将数据源配置注入全局环境变量，供 recipeTool 通过 createRecipeSource() 读取
+    if (env?.RECIPE_SOURCE) {
+      // @ts-ignore - Setting global env for Mastra tools
+      globalThis.process = globalThis.process || {};
+      globalThis.process.env = globalThis.process.env || {};
+      globalThis.process.env.RECIPE_SOURCE = env.RECIPE_SOURCE;
+    }
+
+    // 绑定了 KV 时，翻译结果跨请求、跨实例共享
+    if (env?.TRANSLATION_CACHE) {
+      setTranslationCache(new KVTranslationCache(env.TRANSLATION_CACHE));
+    }
+
+    // 解析本次请求的语言，默认中文（可选值见 constants/locales.ts），之后显式传递给各处理函数
+    let language: LocaleCode = DEFAULT_LOCALE;
     if (request.method === 'GET') {
-      const lang = parseQuery(url.searchParams).language;
-      if (lang === 'zh-CN' || lang === 'en-US') {
-        language = lang;
-      }
+      language = parseQuery(url.searchParams).language ?? language;
     } else if (request.method === 'POST') {
       // 注意：同一请求体只能读取一次，这里使用 clone() 以免影响后续路由再次读取
       const body = await request.clone().json().catch(() => ({}));
-      const lang = body.language;
-      if (lang === 'zh-CN' || lang === 'en-US') {
-        language = lang;
-      }
+      language = resolveLocale(body.language) ?? language;
     }
-    LANGUAGE.val = language;
 
     try {
 
 
+      // 参考数据 API（类别 / 菜系 / 食材）
+      const reference = REFERENCE_ROUTES[url.pathname];
+      if (reference) {
+        if (request.method !== 'GET') {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+            { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        const items = await getReferenceData(reference.kind, language);
+        return new Response(
+          JSON.stringify({ [reference.field]: items, language }),
+          {
+            status: 200,
+            headers: { 'content-type': 'application/json; charset=utf-8', 'cache-control': 'public, max-age=3600', ...corsHeaders },
+          },
+        );
+      }
+
+      // 菜名联想 API（需在详情路由之前匹配，避免 suggest 被当作菜谱 ID）
+      if (url.pathname === '/api/recipes/suggest') {
+        if (request.method !== 'GET') {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+            { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        const query = (url.searchParams.get('q') ?? '').trim();
+        const suggestions = query
+          ? await searchRecipeNames(query, createRecipeSources(), { language, limit: parseSuggestLimit(url.searchParams.get('limit')) })
+          : [];
+        return new Response(
+          JSON.stringify({ query, suggestions, language }),
+          {
+            status: 200,
+            headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+          },
+        );
+      }
+
+      // 食谱详情 API
+      const detailMatch = url.pathname.match(/^\/api\/recipes\/([^/]+)$/);
+      if (detailMatch) {
+        if (request.method !== 'GET') {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+            { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        const id = decodeRecipeId(detailMatch[1]);
+        if (id === null) {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.INVALID_REQUEST(language) }),
+            { status: 400, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+        const data = await getRecipeDetail(id, language, {
+          servings: parseServings(url.searchParams.get('servings')),
+          units: parseUnits(url.searchParams.get('units')),
+        });
+        if (!data.recipe) {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.RECIPE_NOT_FOUND(id, language) }),
+            { status: 404, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify(data),
+          {
+            status: 200,
+            headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+          },
+        );
+      }
+
       // 食谱搜索 API
       if (url.pathname === '/api/recipes') {
         let frontInput: FrontendInput = {};
@@ -216,19 +381,27 @@ export default {
         } else if (request.method === 'POST') {
           const body = await request.json().catch(() => ({}));
           frontInput = {
-            ingredients: body.ingredients,
+            ingredients: parseList(body.ingredients)?.join(','), // 接受数组或逗号分隔的字符串
             category: body.category,
             cuisine: body.cuisine,
-            taste: body.taste,
-            language: body.language as 'zh-CN' | 'en-US' | undefined,
-            timeBudget: typeof body.timeBudget === 'number' ? body.timeBudget : undefined,
-            servings: typeof body.servings === 'number' ? body.servings : undefined,
-            equipment: Array.isArray(body.equipment) ? body.equipment : undefined,
+            match: body.match === 'all' || body.match === 'any' ? body.match : undefined,
+            taste: typeof body.taste === 'string' ? body.taste : undefined,
+            minSpice: parseSpice(body.minSpice),
+            maxSpice: parseSpice(body.maxSpice),
+            dietary: parseList(body.dietary),
+            excludeAllergens: parseList(body.excludeAllergens),
+            exclude: parseList(body.exclude),
+            query: typeof body.query === 'string' ? body.query : undefined,
+            language: resolveLocale(body.language),
+            timeBudget: parseTimeBudget(body.timeBudget),
+            servings: parseServings(body.servings),
+            equipment: Array.isArray(body.equipment) ? body.equipment.filter((e: unknown) => typeof e === 'string') : undefined,
             limit: typeof body.limit === 'number' ? body.limit : undefined,
+            units: parseUnits(body.units),
           };
         } else {
           return new Response(
-            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED }),
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
             { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
           );
         }
@@ -238,8 +411,20 @@ export default {
           ingredients: frontInput.ingredients,
           category: frontInput.category,
           cuisine: frontInput.cuisine,
+          match: frontInput.match,
           limit: frontInput.limit,
           language,
+          servings: frontInput.servings,
+          units: frontInput.units,
+          timeBudget: frontInput.timeBudget,
+          equipment: frontInput.equipment,
+          taste: frontInput.taste,
+          minSpice: frontInput.minSpice,
+          maxSpice: frontInput.maxSpice,
+          dietary: frontInput.dietary,
+          excludeAllergens: frontInput.excludeAllergens,
+          exclude: frontInput.exclude,
+          query: frontInput.query,
         };
 
         const data = await getRecipes(recipeInput, language);
@@ -261,29 +446,84 @@ export default {
         );
       }
 
+      // 购物清单 API
+      if (url.pathname === '/api/shopping-list') {
+        if (request.method !== 'POST') {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+            { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const recipes = parseShoppingRecipes(body.recipes);
+        if (!recipes.length) {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.INVALID_REQUEST(language) }),
+            { status: 400, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        const list = await createShoppingList({ recipes, pantry: parseList(body.pantry), units: parseUnits(body.units) }, language);
+        return new Response(
+          JSON.stringify({ ...list, language }),
+          {
+            status: 200,
+            headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+          },
+        );
+      }
+
+      // 一周菜单 API
+      if (url.pathname === '/api/meal-plan') {
+        if (request.method !== 'POST') {
+          return new Response(
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
+            { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
+          );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const plan = await getMealPlan({
+          dietary: parseList(body.dietary),
+          excludeAllergens: parseList(body.excludeAllergens),
+          exclude: parseList(body.exclude),
+          timeBudget: parseWeekBudget(body.timeBudget),
+          servings: parseServings(body.servings),
+          cuisines: parseList(body.cuisines)?.slice(0, 7),
+          leftovers: typeof body.leftovers === 'boolean' ? body.leftovers : undefined,
+          pantry: parseList(body.pantry),
+          units: parseUnits(body.units),
+        }, language);
+        return new Response(
+          JSON.stringify(plan),
+          {
+            status: 200,
+            headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders },
+          },
+        );
+      }
+
       // 聊天 API
       if (url.pathname === '/api/chat') {
         if (request.method !== 'POST') {
           return new Response(
-            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED }),
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
             { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
           );
         }
 
         const body = await request.json().catch(() => ({}));
-        const language = body.language as 'zh-CN' | 'en-US' | undefined;
         const chatInput: ChatInput = {
           message: body.message || '',
           threadId: body.threadId,
           model: body.model,
-          language: language === 'zh-CN' || language === 'en-US' ? language : 'zh-CN', // 默认中文
+          language, // 默认中文
         };
 
         if (!chatInput.message) {
-          const isChinese = !chatInput.language || chatInput.language === 'zh-CN';
-          const errorMsg = isChinese ? '消息不能为空' : 'Message cannot be empty';
           return new Response(
-            JSON.stringify({ error: errorMsg }),
+            JSON.stringify({ error: MESSAGES.VALIDATION_ERROR.EMPTY_MESSAGE(language) }),
             { status: 400, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
           );
         }
@@ -302,7 +542,7 @@ export default {
       if (url.pathname === '/api/models') {
         if (request.method !== 'GET') {
           return new Response(
-            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED }),
+            JSON.stringify({ error: MESSAGES.ERROR.METHOD_NOT_ALLOWED(language) }),
             { status: 405, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } }
           );
         }
@@ -326,7 +566,7 @@ export default {
     } catch (err: any) {
       console.error('Worker error:', err);
       return new Response(
-        JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL }),
+        JSON.stringify({ error: err?.message || MESSAGES.ERROR.INTERNAL(language) }),
         { status: 500, headers: { 'content-type': 'application/json; charset=utf-8', ...corsHeaders } },
       );
     }